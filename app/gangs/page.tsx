@@ -25,6 +25,12 @@ import { cn } from "@/lib/utils";
 
 type SortOption = "reputation" | "wealth" | "territories" | "members";
 
+const TREATY_LABELS = {
+  alliance: "alliance",
+  nap: "non-aggression pact",
+  shared_territory: "shared territory",
+} as const;
+
 function GangCard({
   gang,
   isSelected,
@@ -109,7 +115,7 @@ function GangDetailPanel({ gangId }: { gangId: Id<"gangs"> }) {
     );
   }
 
-  const { gang, members, territories, stats } = gangDetail;
+  const { gang, members, territories, wars, treaties, proposals, assets, stats } = gangDetail;
 
   return (
     <div className="space-y-6">
@@ -278,6 +284,191 @@ function GangDetailPanel({ gangId }: { gangId: Id<"gangs"> }) {
           </div>
         )}
       </div>
+
+      {/* Wars */}
+      {wars.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium mb-3">At War ({wars.length})</h3>
+          <div className="space-y-2">
+            {wars.map((war) => (
+              <Card key={war._id} size="sm">
+                <CardContent className="flex items-center justify-between py-2">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: war.enemyGangColor ?? undefined }}
+                    />
+                    <span className="font-medium">{war.enemyGangName}</span>
+                    <Badge variant="outline" className="text-[10px]">
+                      {war.isAttacker ? "declared" : "defending"}
+                    </Badge>
+                  </div>
+                  <div className="flex gap-4 text-xs">
+                    <div>
+                      <span className="text-muted-foreground">Score: </span>
+                      <span
+                        className={cn(
+                          "font-medium",
+                          war.score > war.enemyScore && "text-green-600 dark:text-green-400",
+                          war.score < war.enemyScore && "text-red-600 dark:text-red-400"
+                        )}
+                      >
+                        {war.score} - {war.enemyScore}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Sieges: </span>
+                      <span className="font-medium">{war.contestedZoneCount}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Ends: </span>
+                      <span className="font-medium">tick {war.endsAtTick}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Diplomacy */}
+      {treaties.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium mb-3">Diplomacy ({treaties.length})</h3>
+          <div className="space-y-2">
+            {treaties.map((treaty) => (
+              <Card key={treaty._id} size="sm">
+                <CardContent className="flex items-center justify-between py-2">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: treaty.partnerGangColor ?? undefined }}
+                    />
+                    <span className="font-medium">{treaty.partnerGangName}</span>
+                    <Badge variant="outline" className="text-[10px]">
+                      {TREATY_LABELS[treaty.type]}
+                    </Badge>
+                  </div>
+                  <div className="flex gap-4 text-xs">
+                    <div>
+                      <span className="text-muted-foreground">Status: </span>
+                      <span
+                        className={cn(
+                          "font-medium",
+                          treaty.status === "active" && "text-green-600 dark:text-green-400"
+                        )}
+                      >
+                        {treaty.status === "active"
+                          ? "active"
+                          : treaty.isProposer ? "offered" : "awaiting reply"}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Since: </span>
+                      <span className="font-medium">tick {treaty.sinceTick}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Treasury proposals */}
+      {proposals.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium mb-3">Open Proposals ({proposals.length})</h3>
+          <div className="space-y-2">
+            {proposals.map((proposal) => (
+              <Card key={proposal._id} size="sm">
+                <CardContent className="flex items-center justify-between py-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px]">
+                      {proposal.kind}
+                    </Badge>
+                    <span className="font-medium">${proposal.amount.toLocaleString()}</span>
+                    {proposal.targetName && (
+                      <span className="text-muted-foreground text-xs">{proposal.targetName}</span>
+                    )}
+                  </div>
+                  <div className="flex gap-4 text-xs">
+                    <div>
+                      <span className="text-muted-foreground">Votes: </span>
+                      <span className="font-medium">
+                        {proposal.yesWeight.toFixed(1)} yes / {proposal.noWeight.toFixed(1)} no of {proposal.totalWeight.toFixed(1)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Closes: </span>
+                      <span className="font-medium">tick {proposal.closesAtTick}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Gang-owned assets */}
+      {(assets.properties.length > 0 || assets.vehicles.length > 0 || assets.businesses.length > 0) && (
+        <div>
+          <h3 className="text-sm font-medium mb-3">
+            Assets (${stats.assetValue.toLocaleString()})
+          </h3>
+          <div className="space-y-2">
+            {assets.properties.map((property) => (
+              <Card key={property._id} size="sm">
+                <CardContent className="flex items-center justify-between py-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px]">
+                      safehouse
+                    </Badge>
+                    <span className="font-medium">{property.name}</span>
+                  </div>
+                  <div className="flex gap-4 text-xs">
+                    <div>
+                      <span className="text-muted-foreground">Heat decay: </span>
+                      <span className="font-medium">+{property.heatReduction}%</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            {assets.vehicles.map((vehicle) => (
+              <Card key={vehicle._id} size="sm">
+                <CardContent className="flex items-center justify-between py-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px]">
+                      vehicle
+                    </Badge>
+                    <span className="font-medium">{vehicle.name}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">${vehicle.value.toLocaleString()}</span>
+                </CardContent>
+              </Card>
+            ))}
+            {assets.businesses.map((business) => (
+              <Card key={business._id} size="sm">
+                <CardContent className="flex items-center justify-between py-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px]">
+                      {business.type}
+                    </Badge>
+                    <span className="font-medium">{business.name}</span>
+                  </div>
+                  <div className="flex gap-4 text-xs">
+                    <span className="text-muted-foreground capitalize">{business.status}</span>
+                    <span className="font-medium">${business.cashOnHand.toLocaleString()}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
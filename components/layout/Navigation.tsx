@@ -12,6 +12,7 @@ const navLinks = [
   { href: "/agents", label: "Agents" },
   { href: "/gangs", label: "Gangs" },
   { href: "/leaderboards", label: "Leaderboards" },
+  { href: "/benchmarks", label: "Benchmarks" },
   { href: "/social", label: "Social" },
   { href: "/messages", label: "Messages" },
   { href: "/journals", label: "Journals" },
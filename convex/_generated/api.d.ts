@@ -12,6 +12,7 @@ import type * as actions from "../actions.js";
 import type * as admin from "../admin.js";
 import type * as agentGuide from "../agentGuide.js";
 import type * as agents from "../agents.js";
+import type * as benchmarks from "../benchmarks.js";
 import type * as crons from "../crons.js";
 import type * as dashboard from "../dashboard.js";
 import type * as dataPreview from "../dataPreview.js";
@@ -25,20 +26,39 @@ import type * as leaderboards from "../leaderboards.js";
 import type * as ledger from "../ledger.js";
 import type * as lib_agentNames from "../lib/agentNames.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_benchmarks from "../lib/benchmarks.js";
 import type * as lib_constants from "../lib/constants.js";
+import type * as lib_gangAssets from "../lib/gangAssets.js";
+import type * as lib_gangDiplomacy from "../lib/gangDiplomacy.js";
+import type * as lib_gangGovernance from "../lib/gangGovernance.js";
+import type * as lib_gangWars from "../lib/gangWars.js";
 import type * as lib_goals from "../lib/goals.js";
+import type * as lib_idLog from "../lib/idLog.js";
+import type * as lib_insurance from "../lib/insurance.js";
+import type * as lib_loans from "../lib/loans.js";
 import type * as lib_nicknames from "../lib/nicknames.js";
+import type * as lib_odds from "../lib/odds.js";
+import type * as lib_orderBook from "../lib/orderBook.js";
+import type * as lib_propertyMarket from "../lib/propertyMarket.js";
 import type * as lib_rng from "../lib/rng.js";
+import type * as lib_routes from "../lib/routes.js";
 import type * as lib_takedownThemes from "../lib/takedownThemes.js";
 import type * as lib_tax from "../lib/tax.js";
+import type * as lib_trades from "../lib/trades.js";
+import type * as lib_training from "../lib/training.js";
+import type * as lib_webhooks from "../lib/webhooks.js";
+import type * as lib_worldEvents from "../lib/worldEvents.js";
 import type * as map from "../map.js";
 import type * as messages from "../messages.js";
+import type * as replay from "../replay.js";
 import type * as seed from "../seed.js";
 import type * as skillDocs from "../skillDocs.js";
 import type * as social from "../social.js";
 import type * as summaries from "../summaries.js";
 import type * as tickHelpers from "../tickHelpers.js";
 import type * as tickRunner from "../tickRunner.js";
+import type * as webhookDelivery from "../webhookDelivery.js";
+import type * as webhooks from "../webhooks.js";
 import type * as world from "../world.js";
 import type * as zones from "../zones.js";
 
@@ -53,6 +73,7 @@ declare const fullApi: ApiFromModules<{
   admin: typeof admin;
   agentGuide: typeof agentGuide;
   agents: typeof agents;
+  benchmarks: typeof benchmarks;
   crons: typeof crons;
   dashboard: typeof dashboard;
   dataPreview: typeof dataPreview;
@@ -66,20 +87,39 @@ declare const fullApi: ApiFromModules<{
   ledger: typeof ledger;
   "lib/agentNames": typeof lib_agentNames;
   "lib/auth": typeof lib_auth;
+  "lib/benchmarks": typeof lib_benchmarks;
   "lib/constants": typeof lib_constants;
+  "lib/gangAssets": typeof lib_gangAssets;
+  "lib/gangDiplomacy": typeof lib_gangDiplomacy;
+  "lib/gangGovernance": typeof lib_gangGovernance;
+  "lib/gangWars": typeof lib_gangWars;
   "lib/goals": typeof lib_goals;
+  "lib/idLog": typeof lib_idLog;
+  "lib/insurance": typeof lib_insurance;
+  "lib/loans": typeof lib_loans;
   "lib/nicknames": typeof lib_nicknames;
+  "lib/odds": typeof lib_odds;
+  "lib/orderBook": typeof lib_orderBook;
+  "lib/propertyMarket": typeof lib_propertyMarket;
   "lib/rng": typeof lib_rng;
+  "lib/routes": typeof lib_routes;
   "lib/takedownThemes": typeof lib_takedownThemes;
   "lib/tax": typeof lib_tax;
+  "lib/trades": typeof lib_trades;
+  "lib/training": typeof lib_training;
+  "lib/webhooks": typeof lib_webhooks;
+  "lib/worldEvents": typeof lib_worldEvents;
   map: typeof map;
   messages: typeof messages;
+  replay: typeof replay;
   seed: typeof seed;
   skillDocs: typeof skillDocs;
   social: typeof social;
   summaries: typeof summaries;
   tickHelpers: typeof tickHelpers;
   tickRunner: typeof tickRunner;
+  webhookDelivery: typeof webhookDelivery;
+  webhooks: typeof webhooks;
   world: typeof world;
   zones: typeof zones;
 }>;
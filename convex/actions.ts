@@ -5,6 +5,8 @@
 
 import { MutationCtx } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { getPreActionState } from "./journals";
+import { recordActionOutcome } from "./benchmarks";
 import {
   ActionType,
   BUSINESS_TYPES,
@@ -27,8 +29,69 @@ import {
   DisguiseType,
   DISGUISE_TYPES,
   VehicleType,
+  ROUTE_OPTIMIZE_MODES,
+  GANG_WAR_DEFAULTS,
+  GANG_DIPLOMACY_DEFAULTS,
+  ORDER_BOOK_DEFAULTS,
+  ORDER_SIDES,
+  OrderSide,
+  TREATY_TYPES,
+  TreatyType,
+  GANG_GOVERNANCE_DEFAULTS,
+  GANG_PROPOSAL_KINDS,
+  GangProposalKind,
+  PROPERTY_MARKET_DEFAULTS,
+  LISTING_KINDS,
+  ListingKind,
+  LOAN_DEFAULTS,
+  EMPLOYMENT_DEFAULTS,
+  PRODUCTION_RECIPES,
+  ZoneSlug,
+  INSURANCE_DEFAULTS,
+  INSURANCE_TYPES,
+  InsuranceType,
+  SKILL_TYPES,
+  SkillType,
+  TRAINING_DEFAULTS,
+  TRAINING_FACILITIES,
+  TRADE_DEFAULTS,
 } from "./lib/constants";
 import { createTickRng } from "./lib/rng";
+import { isRouteOptimizeMode, planAgentRoute } from "./lib/routes";
+import { addInventoryQty, closeOrderWithRefund } from "./lib/orderBook";
+import {
+  closeListingWithRefund,
+  getMinimumBid,
+  getOpenListing,
+  getPropertyValue,
+  refundHighestBid,
+  transferPropertyOwnership,
+} from "./lib/propertyMarket";
+import { findActiveWar, getActiveWars, getEnemyGangId, recordWarHit } from "./lib/gangWars";
+import {
+  breakTreaty,
+  findActiveTreaty,
+  getGangTreaties,
+  getTreatyPartnerId,
+  isProposalExpired,
+} from "./lib/gangDiplomacy";
+import { recordGangTransaction, tallyProposal } from "./lib/gangGovernance";
+import { isGangOfficer, releaseGangAssets } from "./lib/gangAssets";
+import { countFraudFlags, fileInsuranceClaim, getActivePolicies, getInsurancePremium } from "./lib/insurance";
+import { getActiveBorrowedLoans, getAmountOwed, getBankLoanTerms, getPledgingLoan } from "./lib/loans";
+import { getActiveWorldEvents, getWorldEventModifiers } from "./lib/worldEvents";
+import {
+  getAttackSuccessChance,
+  getBribeCost,
+  getBribeSuccessChance,
+  getCrimeSuccessChance,
+  getJailbreakSuccessChance,
+  getRobSuccessChance,
+  getVehicleStealSuccessChance,
+} from "./lib/odds";
+import { getTrainingFacility, getTrainingGain, practiceSkills } from "./lib/training";
+import { insertTracked } from "./lib/idLog";
+import { countBundleAssets, getBundleProblem, isEmptyBundle, TradeBundle, transferBundle } from "./lib/trades";
 
 // ============================================================================
 // BUSINESS STARTUP COSTS
@@ -60,6 +123,29 @@ export interface ActionResult {
   result?: Record<string, unknown>;
 }
 
+/**
+ * Predicted effects of an action (dry-run preview)
+ * null means the value depends on how the action's roll turns out
+ */
+export type ActionPreview = {
+  cashCost: number | null; // Net cash spent (negative = cash gained)
+  staminaCost: number | null;
+  busyTicks: number | null; // Ticks the agent will be busy (0 = not busy)
+  successChance: number | null; // Only for actions that roll for success
+  heatDelta: number | null; // Heat change (on success, for actions that roll)
+  heatDeltaOnFailure: number | null;
+};
+
+/**
+ * Result of a dry-run: validation outcome plus the preview when valid
+ */
+export type ActionPreviewResult = {
+  ok: boolean;
+  error?: ErrorCode;
+  message?: string;
+  preview?: ActionPreview;
+};
+
 /**
  * Context passed to action handlers
  */
@@ -70,18 +156,30 @@ export interface ActionContext {
   requestId: string;
 }
 
+/**
+ * One side of a PROPOSE_TRADE - everything is optional, but each side of the
+ * trade needs something in it
+ */
+type TradeBundleArgs = {
+  cash?: number;
+  items?: { itemSlug: string; qty: number }[];
+  propertyIds?: string[];
+  vehicleIds?: string[];
+};
+
 /**
  * Arguments for each action type
  */
 export type ActionArgs = {
   MOVE: { toZone: string };
+  TRAVEL_TO: { toZone: string; optimize?: string };
   TAKE_JOB: { jobId: string };
   BUY: { businessId: string; itemSlug: string; qty: number };
   SELL: { businessId: string; itemSlug: string; qty: number };
   HEAL: Record<string, never>;
   REST: Record<string, never>;
   COMMIT_CRIME: { crimeType: string; targetBusinessId?: string };
-  START_BUSINESS: { type: string; name: string };
+  START_BUSINESS: { type: string; name: string; forGang?: boolean };
   SET_PRICES: { businessId: string; prices: Array<{ itemSlug: string; price: number }> };
   STOCK_BUSINESS: { businessId: string; itemSlug: string; qty: number };
   USE_ITEM: { itemSlug: string };
@@ -98,9 +196,23 @@ export type ActionArgs = {
   DEMOTE_MEMBER: { targetAgentId: string };
   CONTRIBUTE_TO_GANG: { amount: number };
   CLAIM_TERRITORY: { zoneId: string };
+  DECLARE_WAR: { targetGangId: string };
+  SURRENDER: { targetGangId: string };
+  PROPOSE_TRUCE: { targetGangId: string };
+  PROPOSE_TREATY: { targetGangId: string; treatyType: string };
+  RESPOND_TREATY: { treatyId: string; accept: boolean };
+  CANCEL_TREATY: { treatyId: string };
+  PROPOSE_GANG_SPEND: {
+    kind: string;
+    targetAgentId?: string;
+    propertyId?: string;
+    amount?: number;
+    reason?: string;
+  };
+  VOTE_GANG_PROPOSAL: { proposalId: string; support: boolean };
   INITIATE_COOP_CRIME: { crimeType: string; targetBusinessId?: string };
   JOIN_COOP_ACTION: { coopActionId: string };
-  BUY_PROPERTY: { propertyId: string };
+  BUY_PROPERTY: { propertyId: string; forGang?: boolean; mortgage?: boolean };
   SELL_PROPERTY: { propertyId: string };
   RENT_PROPERTY: { propertyId: string };
   INVITE_RESIDENT: { propertyId: string; targetAgentId: string };
@@ -121,8 +233,54 @@ export type ActionArgs = {
   CLAIM_BOUNTY: { targetAgentId: string };
   GAMBLE: { amount: number; riskType: string };
   BUY_DISGUISE: { disguiseType: string };
-  STEAL_VEHICLE: { vehicleId?: string };
+  STEAL_VEHICLE: { vehicleId?: string; forGang?: boolean };
   ACCEPT_CONTRACT: { contractId: string };
+  POST_CONTRACT: { targetAgentId: string; reward: number };
+  // Order book actions
+  PLACE_ORDER: { side: string; itemSlug: string; qty: number; price: number };
+  CANCEL_ORDER: { orderId: string };
+  // Property market actions
+  LIST_PROPERTY: { propertyId: string; kind: string; price: number; durationTicks?: number };
+  BID_PROPERTY: { listingId: string; amount: number };
+  CANCEL_LISTING: { listingId: string };
+  // Lending actions
+  TAKE_LOAN: {
+    loanId?: string;
+    amount?: number;
+    collateralPropertyId?: string;
+    collateralVehicleId?: string;
+    termTicks?: number;
+  };
+  REPAY_LOAN: { loanId: string; amount?: number };
+  OFFER_LOAN: { targetAgentId: string; amount: number; interestRate: number; termTicks?: number };
+  // Employment actions
+  POST_JOB_OPENING: {
+    businessId: string;
+    title: string;
+    wage: number;
+    durationTicks: number;
+    staminaCost?: number;
+    minReputation?: number;
+  };
+  CLOSE_JOB_OPENING: { jobId: string };
+  QUIT_JOB: Record<string, never>;
+  SUE_EMPLOYER: { claimId: string };
+  // Production actions
+  PRODUCE: { recipe: string; businessId: string };
+  // Insurance actions
+  BUY_INSURANCE: { type: string };
+  CANCEL_INSURANCE: { policyId: string };
+  // Training actions
+  TRAIN_SKILL: { skill: string };
+  // Trade actions
+  PROPOSE_TRADE: {
+    targetAgentId: string;
+    offer?: TradeBundleArgs;
+    request?: TradeBundleArgs;
+    expiresInTicks?: number;
+  };
+  ACCEPT_TRADE: { tradeId: string };
+  CANCEL_TRADE: { tradeId: string };
 };
 
 // ============================================================================
@@ -157,7 +315,8 @@ export async function handleAction(
     };
   }
 
-  if (agent.status === "busy") {
+  // QUIT_JOB is the only action allowed mid-shift
+  if (agent.status === "busy" && action !== "QUIT_JOB") {
     return {
       ok: false,
       error: "AGENT_BUSY",
@@ -169,6 +328,8 @@ export async function handleAction(
   switch (action) {
     case "MOVE":
       return handleMove(actionCtx, args as ActionArgs["MOVE"]);
+    case "TRAVEL_TO":
+      return handleTravelTo(actionCtx, args as ActionArgs["TRAVEL_TO"]);
     case "TAKE_JOB":
       return handleTakeJob(actionCtx, args as ActionArgs["TAKE_JOB"]);
     case "BUY":
@@ -216,6 +377,25 @@ export async function handleAction(
     // Social actions - Territories
     case "CLAIM_TERRITORY":
       return handleClaimTerritory(actionCtx, args as ActionArgs["CLAIM_TERRITORY"]);
+    // Social actions - Gang wars
+    case "DECLARE_WAR":
+      return handleDeclareWar(actionCtx, args as ActionArgs["DECLARE_WAR"]);
+    case "SURRENDER":
+      return handleSurrender(actionCtx, args as ActionArgs["SURRENDER"]);
+    case "PROPOSE_TRUCE":
+      return handleProposeTruce(actionCtx, args as ActionArgs["PROPOSE_TRUCE"]);
+    // Social actions - Gang diplomacy
+    case "PROPOSE_TREATY":
+      return handleProposeTreaty(actionCtx, args as ActionArgs["PROPOSE_TREATY"]);
+    case "RESPOND_TREATY":
+      return handleRespondTreaty(actionCtx, args as ActionArgs["RESPOND_TREATY"]);
+    case "CANCEL_TREATY":
+      return handleCancelTreaty(actionCtx, args as ActionArgs["CANCEL_TREATY"]);
+    // Social actions - Gang treasury governance
+    case "PROPOSE_GANG_SPEND":
+      return handleProposeGangSpend(actionCtx, args as ActionArgs["PROPOSE_GANG_SPEND"]);
+    case "VOTE_GANG_PROPOSAL":
+      return handleVoteGangProposal(actionCtx, args as ActionArgs["VOTE_GANG_PROPOSAL"]);
     // Social actions - Cooperative crimes
     case "INITIATE_COOP_CRIME":
       return handleInitiateCoopCrime(actionCtx, args as ActionArgs["INITIATE_COOP_CRIME"]);
@@ -266,6 +446,54 @@ export async function handleAction(
       return handleStealVehicle(actionCtx, args as ActionArgs["STEAL_VEHICLE"]);
     case "ACCEPT_CONTRACT":
       return handleAcceptContract(actionCtx, args as ActionArgs["ACCEPT_CONTRACT"]);
+    case "POST_CONTRACT":
+      return handlePostContract(actionCtx, args as ActionArgs["POST_CONTRACT"]);
+    // Order book actions
+    case "PLACE_ORDER":
+      return handlePlaceOrder(actionCtx, args as ActionArgs["PLACE_ORDER"]);
+    case "CANCEL_ORDER":
+      return handleCancelOrder(actionCtx, args as ActionArgs["CANCEL_ORDER"]);
+    // Property market actions
+    case "LIST_PROPERTY":
+      return handleListProperty(actionCtx, args as ActionArgs["LIST_PROPERTY"]);
+    case "BID_PROPERTY":
+      return handleBidProperty(actionCtx, args as ActionArgs["BID_PROPERTY"]);
+    case "CANCEL_LISTING":
+      return handleCancelListing(actionCtx, args as ActionArgs["CANCEL_LISTING"]);
+    // Lending actions
+    case "TAKE_LOAN":
+      return handleTakeLoan(actionCtx, args as ActionArgs["TAKE_LOAN"]);
+    case "REPAY_LOAN":
+      return handleRepayLoan(actionCtx, args as ActionArgs["REPAY_LOAN"]);
+    case "OFFER_LOAN":
+      return handleOfferLoan(actionCtx, args as ActionArgs["OFFER_LOAN"]);
+    // Employment actions
+    case "POST_JOB_OPENING":
+      return handlePostJobOpening(actionCtx, args as ActionArgs["POST_JOB_OPENING"]);
+    case "CLOSE_JOB_OPENING":
+      return handleCloseJobOpening(actionCtx, args as ActionArgs["CLOSE_JOB_OPENING"]);
+    case "QUIT_JOB":
+      return handleQuitJob(actionCtx);
+    case "SUE_EMPLOYER":
+      return handleSueEmployer(actionCtx, args as ActionArgs["SUE_EMPLOYER"]);
+    // Production actions
+    case "PRODUCE":
+      return handleProduce(actionCtx, args as ActionArgs["PRODUCE"]);
+    // Insurance actions
+    case "BUY_INSURANCE":
+      return handleBuyInsurance(actionCtx, args as ActionArgs["BUY_INSURANCE"]);
+    case "CANCEL_INSURANCE":
+      return handleCancelInsurance(actionCtx, args as ActionArgs["CANCEL_INSURANCE"]);
+    // Training actions
+    case "TRAIN_SKILL":
+      return handleTrainSkill(actionCtx, args as ActionArgs["TRAIN_SKILL"]);
+    // Trade actions
+    case "PROPOSE_TRADE":
+      return handleProposeTrade(actionCtx, args as ActionArgs["PROPOSE_TRADE"]);
+    case "ACCEPT_TRADE":
+      return handleAcceptTrade(actionCtx, args as ActionArgs["ACCEPT_TRADE"]);
+    case "CANCEL_TRADE":
+      return handleCancelTrade(actionCtx, args as ActionArgs["CANCEL_TRADE"]);
     default:
       return {
         ok: false,
@@ -275,6 +503,250 @@ export async function handleAction(
   }
 }
 
+// ============================================================================
+// DRY-RUN PREVIEW
+// ============================================================================
+
+/**
+ * One action to execute, as sent to /agent/act
+ */
+export type AgentActionInput = {
+  requestId: string;
+  action: string;
+  actionArgs?: unknown;
+  reflection: string;
+  mood?: string;
+  llmInfo?: Doc<"actionLog">["llmInfo"];
+  journaled?: boolean; // Replay only: whether the original run wrote a journal
+};
+
+/**
+ * Run one action for an agent: idempotency check, handleAction, action log and journal
+ */
+export async function runAgentAction(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  world: Doc<"world">,
+  args: AgentActionInput
+): Promise<ActionResult> {
+  // Simple idempotency check via journals (no separate lock table)
+  const existingJournal = await ctx.db
+    .query("journals")
+    .withIndex("by_agentId_requestId", (q) =>
+      q.eq("agentId", agent._id).eq("requestId", args.requestId)
+    )
+    .first();
+
+  if (existingJournal) {
+    return { ok: false, error: "DUPLICATE_REQUEST", message: ERROR_CODES.DUPLICATE_REQUEST };
+  }
+
+  // Execute the action (snapshotting the agent first for the journal)
+  const preActionState = await getPreActionState(ctx, agent);
+  const actionResult = await handleAction(
+    {
+      ctx,
+      agent,
+      world,
+      requestId: args.requestId,
+    },
+    args.action as ActionType,
+    (args.actionArgs ?? {}) as Record<string, unknown>
+  );
+
+  // Record the action for world replay (always, unlike journals)
+  await ctx.db.insert("actionLog", {
+    agentId: agent._id,
+    tick: world.tick,
+    requestId: args.requestId,
+    action: args.action,
+    actionArgs: args.actionArgs,
+    reflection: args.reflection,
+    mood: args.mood,
+    llmInfo: args.llmInfo,
+    ok: actionResult.ok,
+  });
+  await recordActionOutcome(ctx, agent._id, actionResult.ok);
+
+  // Check for duplicate journal entry GLOBALLY (same reflection by ANY agent within 5 minutes)
+  // This prevents coordinated spam from multiple agents. The check runs on
+  // wall-clock time, so a replay follows what the original run did instead.
+  let isReflectionDuplicate = args.journaled === false;
+  if (args.journaled === undefined) {
+    const recentJournals = await ctx.db
+      .query("journals")
+      .withIndex("by_tick")
+      .order("desc")
+      .take(100); // Check last 100 entries
+
+    const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
+    isReflectionDuplicate = recentJournals.some(
+      (j) => j.timestamp > fiveMinutesAgo && j.reflection === args.reflection
+    );
+  }
+
+  // Only create journal entry if it's not a duplicate reflection
+  if (!isReflectionDuplicate) {
+    await ctx.db.insert("journals", {
+      agentId: agent._id,
+      tick: world.tick,
+      timestamp: Date.now(),
+      action: args.action,
+      actionArgs: args.actionArgs,
+      result: actionResult.ok
+        ? { success: true, data: actionResult.result }
+        : { success: false, error: actionResult.error, message: actionResult.message },
+      reflection: args.reflection,
+      mood: args.mood,
+      requestId: args.requestId,
+      preActionState,
+      llmInfo: args.llmInfo,
+    });
+  }
+
+  return actionResult;
+}
+
+/**
+ * Dry-run an action: validate it with the real handler, then predict its effects
+ * The handler's writes are NOT undone here - the caller must abort the
+ * transaction (e.g. by throwing) so nothing is committed.
+ * For actions that roll for success only the odds are returned, never the outcome.
+ */
+export async function previewAction(
+  actionCtx: ActionContext,
+  action: ActionType,
+  args: Record<string, unknown>
+): Promise<ActionPreviewResult> {
+  const { ctx, agent, world } = actionCtx;
+
+  // 1. Odds for rolled actions, from the agent's state before acting
+  const rolledPreview = await predictRolledAction(actionCtx, action, args);
+
+  // 2. Validate by running the real handler
+  const actionResult = await handleAction(actionCtx, action, args);
+  if (!actionResult.ok) {
+    return { ok: false, error: actionResult.error, message: actionResult.message };
+  }
+
+  if (rolledPreview) {
+    return { ok: true, preview: rolledPreview };
+  }
+
+  // 3. Deterministic actions - read the effects off the updated agent
+  const updatedAgent = (await ctx.db.get(agent._id)) ?? agent;
+  return {
+    ok: true,
+    preview: {
+      cashCost: agent.cash - updatedAgent.cash,
+      staminaCost: agent.stamina - updatedAgent.stamina,
+      busyTicks:
+        updatedAgent.status === "busy" && updatedAgent.busyUntilTick !== null
+          ? updatedAgent.busyUntilTick - world.tick
+          : 0,
+      successChance: null,
+      heatDelta: updatedAgent.heat - agent.heat,
+      heatDeltaOnFailure: null,
+    },
+  };
+}
+
+/**
+ * Predict an action that rolls for success (null for deterministic actions)
+ */
+async function predictRolledAction(
+  actionCtx: ActionContext,
+  action: ActionType,
+  args: Record<string, unknown>
+): Promise<ActionPreview | null> {
+  const { ctx, agent } = actionCtx;
+  const heatChange = (gain: number) => Math.min(DEFAULTS.maxHeat, agent.heat + gain) - agent.heat;
+  const noCosts = { cashCost: 0, staminaCost: 0, busyTicks: 0 };
+
+  switch (action) {
+    case "COMMIT_CRIME": {
+      const { crimeType } = args as ActionArgs["COMMIT_CRIME"];
+      if (!CRIME_TYPES.includes(crimeType as CrimeType)) return null;
+      const { crimeSuccessPenalty } = getWorldEventModifiers(
+        await getActiveWorldEvents(ctx, agent.locationZoneId)
+      );
+      return {
+        ...noCosts,
+        successChance: getCrimeSuccessChance(agent, crimeType as CrimeType, crimeSuccessPenalty),
+        heatDelta: heatChange(DEFAULTS.crimeHeatGain[crimeType as CrimeType]),
+        heatDeltaOnFailure: heatChange(DEFAULTS.crimeHeatGainFailure[crimeType as CrimeType]),
+      };
+    }
+    case "BRIBE_COPS":
+      return {
+        ...noCosts,
+        cashCost: getBribeCost(agent), // Paid win or lose
+        successChance: getBribeSuccessChance(agent),
+        heatDelta: Math.floor(agent.heat * 0.5) - agent.heat,
+        heatDeltaOnFailure: heatChange(GTA_DEFAULTS.bribeFailureHeatAdd),
+      };
+    case "ATTEMPT_JAILBREAK":
+      return {
+        ...noCosts,
+        busyTicks: null, // Free on success, sentence extended on failure
+        successChance: getJailbreakSuccessChance(agent),
+        heatDelta: heatChange(GTA_DEFAULTS.jailbreakSuccessHeat),
+        heatDeltaOnFailure: heatChange(GTA_DEFAULTS.jailbreakFailureHeat),
+      };
+    case "ATTACK_AGENT":
+      return {
+        ...noCosts,
+        successChance: getAttackSuccessChance(agent),
+        heatDelta: heatChange(GTA_DEFAULTS.attackHeat),
+        heatDeltaOnFailure: heatChange(GTA_DEFAULTS.attackHeat),
+      };
+    case "STEAL_VEHICLE": {
+      // Same vehicle selection as handleStealVehicle
+      const { vehicleId } = args as ActionArgs["STEAL_VEHICLE"];
+      let vehicle: Doc<"vehicles"> | null = null;
+      if (vehicleId) {
+        try {
+          vehicle = await ctx.db.get(vehicleId as Id<"vehicles">);
+        } catch {
+          vehicle = null;
+        }
+      } else {
+        const vehiclesInZone = await ctx.db
+          .query("vehicles")
+          .withIndex("by_zoneId", (q) => q.eq("zoneId", agent.locationZoneId))
+          .collect();
+        vehicle = vehiclesInZone.find((v) => !v.ownerId && !v.ownerGangId) ?? null;
+      }
+      if (!vehicle) return null;
+      return {
+        ...noCosts,
+        successChance: getVehicleStealSuccessChance(agent, vehicle.type as VehicleType),
+        heatDelta: heatChange(GTA_DEFAULTS.vehicleStealHeat),
+        heatDeltaOnFailure: heatChange(GTA_DEFAULTS.vehicleStealHeat),
+      };
+    }
+    case "ROB_AGENT":
+      return {
+        ...noCosts,
+        successChance: getRobSuccessChance(agent),
+        heatDelta: heatChange(SOCIAL_DEFAULTS.robHeat),
+        heatDeltaOnFailure: heatChange(SOCIAL_DEFAULTS.robHeat),
+      };
+    case "GAMBLE":
+      // Rolled, but with no fixed odds - hide everything that would reveal the roll
+      return {
+        cashCost: null,
+        staminaCost: null,
+        busyTicks: null,
+        successChance: null,
+        heatDelta: null,
+        heatDeltaOnFailure: null,
+      };
+    default:
+      return null;
+  }
+}
+
 // ============================================================================
 // ACTION HANDLERS (STUBS)
 // These will be implemented with actual game logic
@@ -381,6 +853,124 @@ async function handleMove(
   };
 }
 
+/**
+ * TRAVEL_TO - Travel to any zone over multiple hops
+ * Plans the cheapest path by time (default), cash or heat risk, pays the full
+ * fare up front and moves one hop at a time (vehicle speed bonus applies)
+ * Prereq: Destination reachable, enough cash for every hop
+ */
+async function handleTravelTo(
+  actionCtx: ActionContext,
+  args: ActionArgs["TRAVEL_TO"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { toZone } = args;
+  const optimize = args.optimize ?? "time";
+
+  // 1. Validate optimize mode
+  if (!isRouteOptimizeMode(optimize)) {
+    return {
+      ok: false,
+      error: "INVALID_ACTION",
+      message: `${ERROR_CODES.INVALID_ACTION}. optimize must be one of: ${ROUTE_OPTIMIZE_MODES.join(", ")}`,
+    };
+  }
+
+  // 2. Validate target zone exists
+  const targetZone = await ctx.db
+    .query("zones")
+    .withIndex("by_slug", (q) => q.eq("slug", toZone))
+    .unique();
+
+  if (!targetZone) {
+    return {
+      ok: false,
+      error: "INVALID_ZONE",
+      message: `${ERROR_CODES.INVALID_ZONE}: ${toZone}`,
+    };
+  }
+
+  if (agent.locationZoneId === targetZone._id) {
+    return {
+      ok: false,
+      error: "WRONG_ZONE",
+      message: "Agent is already in this zone",
+    };
+  }
+
+  // 3. Plan the route
+  const route = await planAgentRoute(ctx, agent, targetZone._id, optimize);
+  if (!route) {
+    return {
+      ok: false,
+      error: "INVALID_ZONE",
+      message: `No route from current zone to ${toZone}`,
+    };
+  }
+
+  // 4. Check agent can pay the whole fare
+  if (agent.cash < route.totalCash) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need ${route.totalCash}, have ${agent.cash}`,
+    };
+  }
+
+  // Resolve hop slugs (busyAction holds the remaining stops: "TRAVEL:market>downtown")
+  const stops: string[] = [];
+  for (const hop of route.hops) {
+    const zone = await ctx.db.get(hop.toZoneId);
+    stops.push(zone?.slug ?? "");
+  }
+  const firstHopArrivalTick = world.tick + route.hops[0].ticks;
+  const arrivalTick = world.tick + route.totalTicks;
+
+  // 5. Deduct fare and start the first hop
+  await ctx.db.patch(agent._id, {
+    cash: agent.cash - route.totalCash,
+    status: "busy",
+    busyUntilTick: firstHopArrivalTick,
+    busyAction: `TRAVEL:${stops.join(">")}`,
+  });
+
+  // 6. Log TRAVEL_STARTED event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "TRAVEL_STARTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: targetZone._id,
+    payload: {
+      toZoneSlug: toZone,
+      optimize,
+      stops,
+      travelCost: route.totalCash,
+      travelTime: route.totalTicks,
+      heatRisk: route.totalHeatRisk,
+      arrivalTick,
+    },
+    requestId,
+  });
+
+  // 7. Return the planned route
+  return {
+    ok: true,
+    message: `Travel to ${toZone} started via ${stops.length} hop(s). Arrival at tick ${arrivalTick}`,
+    result: {
+      arrivalTick,
+      nextStop: stops[0],
+      nextStopTick: firstHopArrivalTick,
+      stops,
+      optimize,
+      travelCost: route.totalCash,
+      travelTime: route.totalTicks,
+      heatRisk: route.totalHeatRisk,
+    },
+  };
+}
+
 async function handleTakeJob(
   actionCtx: ActionContext,
   args: ActionArgs["TAKE_JOB"]
@@ -427,6 +1017,26 @@ async function handleTakeJob(
     };
   }
 
+  const isGig = job.expiresAtTick !== undefined;
+  if (isGig && world.tick >= job.expiresAtTick!) {
+    return {
+      ok: false,
+      error: "INVALID_JOB",
+      message: `${ERROR_CODES.INVALID_JOB}: gig has expired`,
+    };
+  }
+
+  // 1b. Business openings need an open business run by someone else
+  if (job.businessId) {
+    const business = await ctx.db.get(job.businessId);
+    if (!business || business.status !== "open") {
+      return { ok: false, error: "BUSINESS_CLOSED", message: ERROR_CODES.BUSINESS_CLOSED };
+    }
+    if (await canManageBusiness(ctx, agent, business)) {
+      return { ok: false, error: "CANNOT_WORK_OWN_BUSINESS", message: ERROR_CODES.CANNOT_WORK_OWN_BUSINESS };
+    }
+  }
+
   // 2. Check agent is in the correct zone
   if (job.zoneId !== agent.locationZoneId) {
     return {
@@ -436,6 +1046,18 @@ async function handleTakeJob(
     };
   }
 
+  // 2b. Check the zone isn't in a job drought
+  const { jobsSuspended } = getWorldEventModifiers(
+    await getActiveWorldEvents(ctx, agent.locationZoneId)
+  );
+  if (jobsSuspended) {
+    return {
+      ok: false,
+      error: "JOB_DROUGHT_ACTIVE",
+      message: `${ERROR_CODES.JOB_DROUGHT_ACTIVE}. Move to another zone or wait for it to end.`,
+    };
+  }
+
   // 3. Check requirements
   // 3a. Check minReputation if set
   if (
@@ -481,6 +1103,11 @@ async function handleTakeJob(
     stamina: agent.stamina - job.staminaCost,
   });
 
+  // 5b. Gigs are one-off - nobody else can take this one
+  if (isGig) {
+    await ctx.db.patch(job._id, { active: false });
+  }
+
   // 6. Log JOB_STARTED event
   await ctx.db.insert("events", {
     tick: world.tick,
@@ -496,6 +1123,8 @@ async function handleTakeJob(
       wage: job.wage,
       durationTicks: job.durationTicks,
       completionTick,
+      ...(job.businessId ? { businessId: job.businessId } : {}),
+      ...(isGig ? { gig: true } : {}),
     },
     requestId,
   });
@@ -1047,10 +1676,12 @@ async function handleCommitCrime(
   // 3. Calculate success chance
   // Base: DEFAULTS.crimeBaseSuccess[crimeType]
   // Add: agent.skills.stealth * DEFAULTS.stealthSkillBonus
+  // Subtract: police crackdown penalty if one is active here
   // Result is capped at 0.95 (never guaranteed)
-  const baseSuccess = DEFAULTS.crimeBaseSuccess[validCrimeType];
-  const stealthBonus = agent.skills.stealth * DEFAULTS.stealthSkillBonus;
-  const successChance = Math.min(baseSuccess + stealthBonus, 0.95);
+  const { crimeSuccessPenalty } = getWorldEventModifiers(
+    await getActiveWorldEvents(ctx, agent.locationZoneId)
+  );
+  const successChance = getCrimeSuccessChance(agent, validCrimeType, crimeSuccessPenalty);
 
   // 4. Create RNG from world seed + tick
   const rng = createTickRng(world.seed, world.tick);
@@ -1058,6 +1689,11 @@ async function handleCommitCrime(
   // 5. Roll for success
   const succeeded = rng.randomChance(successChance);
 
+  // Using the skill counts as practice (keeps it from decaying)
+  await ctx.db.patch(agent._id, {
+    skillsLastPracticedTick: practiceSkills(agent, ["stealth"], world.tick),
+  });
+
   // Get current timestamp
   const timestamp = Date.now();
 
@@ -1242,6 +1878,10 @@ async function handleStartBusiness(
   const businessType = type as BusinessType;
   const startupCost = BUSINESS_STARTUP_COSTS[businessType];
 
+  if (args.forGang) {
+    return startBusinessForGang(actionCtx, businessType, name, startupCost);
+  }
+
   // 2. Check agent has enough cash
   if (agent.cash < startupCost) {
     return {
@@ -1258,7 +1898,7 @@ async function handleStartBusiness(
   });
 
   // 4. Create new business document
-  const businessId = await ctx.db.insert("businesses", {
+  const businessId = await insertTracked(ctx, "businesses", {
     ownerAgentId: agent._id,
     zoneId: agent.locationZoneId,
     type: businessType,
@@ -1332,8 +1972,8 @@ async function handleSetPrices(
     };
   }
 
-  // 2. Check agent owns the business
-  if (business.ownerAgentId !== agent._id) {
+  // 2. Check agent owns the business (or is an officer of the gang that does)
+  if (!(await canManageBusiness(ctx, agent, business))) {
     return {
       ok: false,
       error: "UNAUTHORIZED",
@@ -1434,8 +2074,8 @@ async function handleStockBusiness(
     };
   }
 
-  // 2. Check agent owns the business
-  if (business.ownerAgentId !== agent._id) {
+  // 2. Check agent owns the business (or is an officer of the gang that does)
+  if (!(await canManageBusiness(ctx, agent, business))) {
     return {
       ok: false,
       error: "UNAUTHORIZED",
@@ -1756,7 +2396,7 @@ async function handleSendFriendRequest(
 
   // 5. Create friendship record
   const [agent1Id, agent2Id] = getOrderedAgentIds(agent._id, targetAgent._id);
-  const friendshipId = await ctx.db.insert("friendships", {
+  const friendshipId = await insertTracked(ctx, "friendships", {
     agent1Id,
     agent2Id,
     status: "pending",
@@ -1980,7 +2620,7 @@ async function handleCreateGang(
   }
 
   // 5. Create gang
-  const gangId = await ctx.db.insert("gangs", {
+  const gangId = await insertTracked(ctx, "gangs", {
     name,
     tag: tag.toUpperCase(),
     color,
@@ -2093,7 +2733,7 @@ async function handleInviteToGang(
   }
 
   // 7. Create invite
-  const inviteId = await ctx.db.insert("gangInvites", {
+  const inviteId = await insertTracked(ctx, "gangInvites", {
     gangId: agent.gangId,
     inviterId: agent._id,
     inviteeId: targetAgent._id,
@@ -2282,6 +2922,8 @@ async function handleLeaveGang(
       for (const i of invites) {
         await ctx.db.delete(i._id);
       }
+      // Release gang assets back to the market
+      await releaseGangAssets(ctx, gang._id, false);
       // Delete gang
       await ctx.db.delete(gang._id);
 
@@ -2598,7 +3240,6 @@ async function handleContributeToGang(
   // 4. Transfer funds
   const newCash = agent.cash - amount;
   await ctx.db.patch(agent._id, { cash: newCash });
-  await ctx.db.patch(gang._id, { treasury: gang.treasury + amount });
 
   // 5. Update membership contribution total
   if (membership) {
@@ -2633,6 +3274,7 @@ async function handleContributeToGang(
     balance: newCash,
     refEventId: eventId,
   });
+  await recordGangTransaction(ctx, gang, agent._id, "credit", amount, "GANG_CONTRIBUTION", world.tick, eventId);
 
   return {
     ok: true,
@@ -2693,6 +3335,18 @@ async function handleClaimTerritory(
     if (existingTerritory.gangId === agent.gangId) {
       return { ok: false, error: "TERRITORY_ALREADY_CLAIMED", message: ERROR_CODES.TERRITORY_ALREADY_CLAIMED };
     }
+    // Allies and territory-sharing partners can't take each other's turf
+    const partnerTreaty =
+      (await findActiveTreaty(ctx, agent.gangId, existingTerritory.gangId, "alliance")) ??
+      (await findActiveTreaty(ctx, agent.gangId, existingTerritory.gangId, "shared_territory"));
+    if (partnerTreaty) {
+      return { ok: false, error: "TERRITORY_NOT_CONTESTABLE", message: `${ERROR_CODES.TERRITORY_NOT_CONTESTABLE}. Held by a ${partnerTreaty.type} partner.` };
+    }
+    // Sieges weaken turf mid-war; who gets it is settled when the war ends
+    const holderWars = await getActiveWars(ctx, existingTerritory.gangId);
+    if (holderWars.length > 0) {
+      return { ok: false, error: "TERRITORY_AT_WAR", message: ERROR_CODES.TERRITORY_AT_WAR };
+    }
     // Check if contestable (control < 50%)
     if (existingTerritory.controlStrength >= SOCIAL_DEFAULTS.territoryWeakThreshold) {
       return { ok: false, error: "TERRITORY_NOT_CONTESTABLE", message: `${ERROR_CODES.TERRITORY_NOT_CONTESTABLE}. Control at ${existingTerritory.controlStrength}%` };
@@ -2716,12 +3370,7 @@ async function handleClaimTerritory(
     return { ok: false, error: "INSUFFICIENT_FUNDS", message: `Gang treasury needs $${SOCIAL_DEFAULTS.territoryClaimCost}` };
   }
 
-  // 6. Deduct from treasury
-  await ctx.db.patch(gang._id, {
-    treasury: gang.treasury - SOCIAL_DEFAULTS.territoryClaimCost,
-  });
-
-  // 7. Create or update territory
+  // 6. Create or update territory
   if (!existingTerritory) {
     await ctx.db.insert("territories", {
       zoneId: zone._id,
@@ -2733,8 +3382,8 @@ async function handleClaimTerritory(
     });
   }
 
-  // 8. Log event
-  await ctx.db.insert("events", {
+  // 7. Log event and pay from treasury
+  const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
     type: existingTerritory ? "TERRITORY_CONTESTED" : "TERRITORY_CLAIMED",
@@ -2749,6 +3398,16 @@ async function handleClaimTerritory(
     },
     requestId,
   });
+  await recordGangTransaction(
+    ctx,
+    gang,
+    agent._id,
+    "debit",
+    SOCIAL_DEFAULTS.territoryClaimCost,
+    "GANG_TERRITORY_CLAIM",
+    world.tick,
+    eventId
+  );
 
   return {
     ok: true,
@@ -2763,2036 +3422,5737 @@ async function handleClaimTerritory(
 }
 
 // ============================================================================
-// SOCIAL ACTION HANDLERS - COOPERATIVE CRIMES
+// SOCIAL ACTION HANDLERS - GANG WARS
 // ============================================================================
 
-async function handleInitiateCoopCrime(
+/**
+ * DECLARE_WAR - Start a war against a rival gang
+ * Prereq: Gang leader, rival gang exists and is not an ally, not already at war with it,
+ * both gangs under the war limit, treasury covers the declaration cost
+ */
+async function handleDeclareWar(
   actionCtx: ActionContext,
-  args: ActionArgs["INITIATE_COOP_CRIME"]
+  args: ActionArgs["DECLARE_WAR"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { crimeType, targetBusinessId } = args;
+  const { targetGangId } = args;
 
-  // 1. Validate crime type
-  const validCoopTypes = ["THEFT", "ROBBERY", "SMUGGLING"];
-  if (!validCoopTypes.includes(crimeType)) {
-    return { ok: false, error: "INVALID_CRIME_TYPE", message: `${ERROR_CODES.INVALID_CRIME_TYPE}: ${crimeType}` };
+  // 1. Check in gang and is leader
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  // 2. Validate target business if provided
-  if (targetBusinessId) {
-    const targetBusiness = await ctx.db.get(targetBusinessId as Id<"businesses">);
-    if (!targetBusiness) {
-      return { ok: false, error: "INVALID_BUSINESS", message: ERROR_CODES.INVALID_BUSINESS };
-    }
-    if (targetBusiness.zoneId !== agent.locationZoneId) {
-      return { ok: false, error: "WRONG_ZONE", message: "Target business not in your zone" };
-    }
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.leaderId !== agent._id) {
+    return { ok: false, error: "NOT_GANG_LEADER", message: ERROR_CODES.NOT_GANG_LEADER };
   }
 
-  // 3. Create coop action
-  const coopActionId = await ctx.db.insert("coopActions", {
-    initiatorId: agent._id,
-    type: `COOP_${crimeType}` as CoopCrimeType,
-    targetBusinessId: targetBusinessId ? (targetBusinessId as Id<"businesses">) : undefined,
-    zoneId: agent.locationZoneId,
-    status: "recruiting",
-    participantIds: [agent._id],
-    minParticipants: SOCIAL_DEFAULTS.coopMinParticipants,
-    maxParticipants: SOCIAL_DEFAULTS.coopMaxParticipants,
-    createdAt: Date.now(),
-    expiresAt: Date.now() + (SOCIAL_DEFAULTS.coopCrimeExpiration * world.tickMs),
-  });
+  // 2. Validate target gang
+  if (targetGangId === gang._id.toString()) {
+    return { ok: false, error: "CANNOT_WAR_SELF", message: ERROR_CODES.CANNOT_WAR_SELF };
+  }
 
-  // 4. Log event
-  await ctx.db.insert("events", {
-    tick: world.tick,
-    timestamp: Date.now(),
-    type: "COOP_CRIME_INITIATED",
-    agentId: agent._id,
-    zoneId: agent.locationZoneId,
-    entityId: coopActionId,
+  let targetGang: Doc<"gangs"> | null = null;
+  try {
+    targetGang = await ctx.db.get(targetGangId as Id<"gangs">);
+  } catch {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  }
+
+  if (!targetGang || targetGang.disbandedAt) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  }
+
+  // 3. Allies cannot go to war; a non-aggression pact is broken by declaring
+  if (await findActiveTreaty(ctx, gang._id, targetGang._id, "alliance")) {
+    return { ok: false, error: "ALLIED_GANG", message: ERROR_CODES.ALLIED_GANG };
+  }
+
+  // 4. Not already at war with them, and both under the war limit
+  const ourWars = await getActiveWars(ctx, gang._id);
+  if (ourWars.some((war) => getEnemyGangId(war, gang._id) === targetGang._id)) {
+    return { ok: false, error: "ALREADY_AT_WAR", message: ERROR_CODES.ALREADY_AT_WAR };
+  }
+
+  const theirWars = await getActiveWars(ctx, targetGang._id);
+  if (
+    ourWars.length >= GANG_WAR_DEFAULTS.maxActiveWarsPerGang ||
+    theirWars.length >= GANG_WAR_DEFAULTS.maxActiveWarsPerGang
+  ) {
+    return {
+      ok: false,
+      error: "WAR_LIMIT_REACHED",
+      message: `${ERROR_CODES.WAR_LIMIT_REACHED}. Limit is ${GANG_WAR_DEFAULTS.maxActiveWarsPerGang}.`,
+    };
+  }
+
+  // 5. Check treasury
+  if (gang.treasury < GANG_WAR_DEFAULTS.declarationCost) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `Gang treasury needs $${GANG_WAR_DEFAULTS.declarationCost} to declare war`,
+    };
+  }
+
+  // 6. Pay and create war (breaking any pact first)
+  await recordGangTransaction(
+    ctx,
+    gang,
+    agent._id,
+    "debit",
+    GANG_WAR_DEFAULTS.declarationCost,
+    "GANG_WAR_DECLARATION",
+    world.tick,
+    null
+  );
+
+  const pact = await findActiveTreaty(ctx, gang._id, targetGang._id, "nap");
+  if (pact) {
+    await breakTreaty(ctx, pact, gang._id, agent._id, agent.locationZoneId, world.tick, "war");
+  }
+
+  const endsAtTick = world.tick + GANG_WAR_DEFAULTS.warDurationTicks;
+  const warId = await ctx.db.insert("gangWars", {
+    attackerGangId: gang._id,
+    defenderGangId: targetGang._id,
+    status: "active",
+    attackerScore: 0,
+    defenderScore: 0,
+    declaredTick: world.tick,
+    endsAtTick,
+    contestedZones: [],
+  });
+
+  // 7. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "GANG_WAR_DECLARED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: warId,
     payload: {
-      crimeType,
-      targetBusinessId,
-      minParticipants: SOCIAL_DEFAULTS.coopMinParticipants,
-      maxParticipants: SOCIAL_DEFAULTS.coopMaxParticipants,
+      warId,
+      gangId: gang._id,
+      gangName: gang.name,
+      targetGangId: targetGang._id,
+      targetGangName: targetGang.name,
+      cost: GANG_WAR_DEFAULTS.declarationCost,
+      endsAtTick,
     },
     requestId,
   });
 
   return {
     ok: true,
-    message: `Initiated cooperative ${crimeType}. Recruiting ${SOCIAL_DEFAULTS.coopMinParticipants}-${SOCIAL_DEFAULTS.coopMaxParticipants} participants.`,
+    message: `${gang.name} declared war on ${targetGang.name}`,
     result: {
-      coopActionId,
-      crimeType,
-      status: "recruiting",
-      participantCount: 1,
-      minParticipants: SOCIAL_DEFAULTS.coopMinParticipants,
-      maxParticipants: SOCIAL_DEFAULTS.coopMaxParticipants,
+      warId,
+      targetGangId: targetGang._id,
+      targetGangName: targetGang.name,
+      cost: GANG_WAR_DEFAULTS.declarationCost,
+      endsAtTick,
+      winningScore: GANG_WAR_DEFAULTS.winningScore,
+      pactBroken: pact !== null,
     },
   };
 }
 
-async function handleJoinCoopAction(
+/**
+ * SURRENDER - Concede a war
+ * Prereq: Gang leader, at war with the target gang
+ * Resolved next tick: the enemy takes the territories it besieged plus tribute
+ */
+async function handleSurrender(
   actionCtx: ActionContext,
-  args: ActionArgs["JOIN_COOP_ACTION"]
+  args: ActionArgs["SURRENDER"]
 ): Promise<ActionResult> {
-  const { ctx, agent, world, requestId } = actionCtx;
-  const { coopActionId } = args;
+  const { ctx, agent } = actionCtx;
+  const { targetGangId } = args;
 
-  // 1. Get coop action
-  let coopAction: Doc<"coopActions"> | null = null;
-  try {
-    coopAction = await ctx.db.get(coopActionId as Id<"coopActions">);
-  } catch {
-    return { ok: false, error: "COOP_ACTION_NOT_FOUND", message: ERROR_CODES.COOP_ACTION_NOT_FOUND };
+  // 1. Check in gang and is leader
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  if (!coopAction) {
-    return { ok: false, error: "COOP_ACTION_NOT_FOUND", message: ERROR_CODES.COOP_ACTION_NOT_FOUND };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.leaderId !== agent._id) {
+    return { ok: false, error: "NOT_GANG_LEADER", message: ERROR_CODES.NOT_GANG_LEADER };
   }
 
-  // 2. Check status
-  if (coopAction.status !== "recruiting") {
-    return { ok: false, error: "COOP_ACTION_NOT_RECRUITING", message: ERROR_CODES.COOP_ACTION_NOT_RECRUITING };
+  // 2. Find the war
+  const war = await findActiveWar(ctx, gang._id, targetGangId as Id<"gangs">);
+  if (!war) {
+    return { ok: false, error: "NOT_AT_WAR", message: ERROR_CODES.NOT_AT_WAR };
   }
-
-  // 3. Check not expired
-  if (coopAction.expiresAt < Date.now()) {
-    await ctx.db.patch(coopAction._id, { status: "cancelled" });
-    return { ok: false, error: "COOP_ACTION_NOT_FOUND", message: "Coop action expired" };
+  if (war.pendingOutcome) {
+    return { ok: false, error: "WAR_ENDING", message: ERROR_CODES.WAR_ENDING };
   }
 
-  // 4. Check not already participant
-  if (coopAction.participantIds.includes(agent._id)) {
-    return { ok: false, error: "ALREADY_IN_COOP", message: ERROR_CODES.ALREADY_IN_COOP };
+  // 3. Mark for resolution (processGangWars hands over territory and tribute)
+  const winnerGangId = getEnemyGangId(war, gang._id);
+  await ctx.db.patch(war._id, {
+    pendingOutcome: "surrender",
+    winnerGangId,
+  });
+
+  const winner = await ctx.db.get(winnerGangId);
+
+  return {
+    ok: true,
+    message: `${gang.name} surrendered to ${winner?.name ?? "the enemy"}. Terms are settled next tick.`,
+    result: {
+      warId: war._id,
+      winnerGangId,
+      winnerGangName: winner?.name ?? null,
+    },
+  };
+}
+
+/**
+ * PROPOSE_TRUCE - Offer (or accept) a truce
+ * Prereq: Gang leader, at war with the target gang
+ * If the enemy already proposed one, the truce is agreed and the war ends
+ * next tick with no territory or treasury changing hands
+ */
+async function handleProposeTruce(
+  actionCtx: ActionContext,
+  args: ActionArgs["PROPOSE_TRUCE"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetGangId } = args;
+
+  // 1. Check in gang and is leader
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  // 5. Check zone
-  if (coopAction.zoneId !== agent.locationZoneId) {
-    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.leaderId !== agent._id) {
+    return { ok: false, error: "NOT_GANG_LEADER", message: ERROR_CODES.NOT_GANG_LEADER };
   }
 
-  // 6. Check capacity
-  if (coopAction.participantIds.length >= coopAction.maxParticipants) {
-    return { ok: false, error: "COOP_ACTION_FULL", message: ERROR_CODES.COOP_ACTION_FULL };
+  // 2. Find the war
+  const war = await findActiveWar(ctx, gang._id, targetGangId as Id<"gangs">);
+  if (!war) {
+    return { ok: false, error: "NOT_AT_WAR", message: ERROR_CODES.NOT_AT_WAR };
+  }
+  if (war.pendingOutcome) {
+    return { ok: false, error: "WAR_ENDING", message: ERROR_CODES.WAR_ENDING };
   }
 
-  // 7. Add participant
-  const newParticipantIds = [...coopAction.participantIds, agent._id];
-  const newStatus =
-    newParticipantIds.length >= coopAction.minParticipants ? "ready" : "recruiting";
+  const enemyGangId = getEnemyGangId(war, gang._id);
+  const enemy = await ctx.db.get(enemyGangId);
+  const accepted = war.truceProposedByGangId === enemyGangId;
 
-  await ctx.db.patch(coopAction._id, {
-    participantIds: newParticipantIds,
-    status: newStatus,
-  });
+  // 3. Record the proposal, or agree the truce
+  await ctx.db.patch(war._id, accepted
+    ? { pendingOutcome: "truce" }
+    : { truceProposedByGangId: gang._id }
+  );
 
-  // 8. Log event
+  // 4. Log event
   await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "COOP_CRIME_JOINED",
+    type: "GANG_WAR_TRUCE_PROPOSED",
     agentId: agent._id,
     zoneId: agent.locationZoneId,
-    entityId: coopAction._id,
+    entityId: war._id,
     payload: {
-      coopActionId: coopAction._id,
-      crimeType: coopAction.type,
-      participantCount: newParticipantIds.length,
-      status: newStatus,
+      warId: war._id,
+      gangName: gang.name,
+      enemyGangId,
+      enemyGangName: enemy?.name ?? null,
+      accepted,
     },
     requestId,
   });
 
   return {
     ok: true,
-    message: `Joined cooperative crime. ${newParticipantIds.length}/${coopAction.minParticipants} participants.`,
+    message: accepted
+      ? `Truce agreed with ${enemy?.name ?? "the enemy"}. The war ends next tick.`
+      : `Truce offered to ${enemy?.name ?? "the enemy"}. Their leader must propose one too.`,
     result: {
-      coopActionId: coopAction._id,
-      participantCount: newParticipantIds.length,
-      status: newStatus,
+      warId: war._id,
+      enemyGangId,
+      enemyGangName: enemy?.name ?? null,
+      accepted,
     },
   };
 }
 
 // ============================================================================
-// SOCIAL ACTION HANDLERS - PROPERTIES
+// SOCIAL ACTION HANDLERS - GANG DIPLOMACY
 // ============================================================================
 
-async function handleBuyProperty(
+/**
+ * PROPOSE_TREATY - Offer an alliance, non-aggression pact or shared territory
+ * Prereq: Gang leader, target gang exists, not at war with it, no active or
+ * pending treaty of the same type between the two gangs
+ */
+async function handleProposeTreaty(
   actionCtx: ActionContext,
-  args: ActionArgs["BUY_PROPERTY"]
+  args: ActionArgs["PROPOSE_TREATY"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { propertyId } = args;
+  const { targetGangId, treatyType } = args;
 
-  // 1. Get property
-  let property: Doc<"properties"> | null = null;
-  try {
-    property = await ctx.db.get(propertyId as Id<"properties">);
-  } catch {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  // 1. Check in gang and is leader
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  if (!property) {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.leaderId !== agent._id) {
+    return { ok: false, error: "NOT_GANG_LEADER", message: ERROR_CODES.NOT_GANG_LEADER };
   }
 
-  // 2. Check property is in agent's zone
-  if (property.zoneId !== agent.locationZoneId) {
-    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  // 2. Validate treaty type and target gang
+  if (!TREATY_TYPES.includes(treatyType as TreatyType)) {
+    return {
+      ok: false,
+      error: "INVALID_TREATY_TYPE",
+      message: `${ERROR_CODES.INVALID_TREATY_TYPE}. Valid types: ${TREATY_TYPES.join(", ")}`,
+    };
   }
 
-  // 3. Check property is not owned
-  if (property.ownerId) {
-    return { ok: false, error: "PROPERTY_OWNED", message: ERROR_CODES.PROPERTY_OWNED };
+  if (targetGangId === gang._id.toString()) {
+    return { ok: false, error: "CANNOT_TREATY_SELF", message: ERROR_CODES.CANNOT_TREATY_SELF };
   }
 
-  // 4. Check funds
-  if (agent.cash < property.buyPrice) {
-    return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${property.buyPrice}` };
+  let targetGang: Doc<"gangs"> | null = null;
+  try {
+    targetGang = await ctx.db.get(targetGangId as Id<"gangs">);
+  } catch {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
   }
 
-  // 5. Transfer ownership
-  const newCash = agent.cash - property.buyPrice;
-  await ctx.db.patch(property._id, { ownerId: agent._id });
-  await ctx.db.patch(agent._id, {
-    cash: newCash,
-    homePropertyId: agent.homePropertyId ?? property._id, // Set as home if no home
-  });
+  if (!targetGang || targetGang.disbandedAt) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  }
 
-  // 6. Create resident record
-  await ctx.db.insert("propertyResidents", {
-    propertyId: property._id,
-    agentId: agent._id,
-    isOwner: true,
-    moveInAt: Date.now(),
+  // 3. No treaties while at war
+  if (await findActiveWar(ctx, gang._id, targetGang._id)) {
+    return {
+      ok: false,
+      error: "ALREADY_AT_WAR",
+      message: `${ERROR_CODES.ALREADY_AT_WAR}. End the war with a truce or surrender first.`,
+    };
+  }
+
+  // 4. No duplicate active or pending treaty of this type
+  const treaties = await getGangTreaties(ctx, gang._id);
+  const duplicate = treaties.some(
+    (t) =>
+      t.type === treatyType &&
+      getTreatyPartnerId(t, gang._id) === targetGang._id &&
+      (t.status === "active" || (t.status === "proposed" && !isProposalExpired(t, world.tick)))
+  );
+  if (duplicate) {
+    return { ok: false, error: "TREATY_EXISTS", message: ERROR_CODES.TREATY_EXISTS };
+  }
+
+  // 5. Create proposal
+  const treatyId = await insertTracked(ctx, "gangTreaties", {
+    proposerGangId: gang._id,
+    partnerGangId: targetGang._id,
+    type: treatyType as TreatyType,
+    status: "proposed",
+    proposedTick: world.tick,
   });
 
-  // 7. Log event
-  const eventId = await ctx.db.insert("events", {
+  // 6. Log event
+  await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "PROPERTY_PURCHASED",
+    type: "TREATY_PROPOSED",
     agentId: agent._id,
-    zoneId: property.zoneId,
-    entityId: property._id,
+    zoneId: agent.locationZoneId,
+    entityId: treatyId,
     payload: {
-      propertyName: property.name,
-      propertyType: property.type,
-      price: property.buyPrice,
+      treatyId,
+      treatyType,
+      gangName: gang.name,
+      partnerGangId: targetGang._id,
+      partnerGangName: targetGang.name,
     },
     requestId,
   });
 
-  // 8. Ledger entry
-  await ctx.db.insert("ledger", {
-    tick: world.tick,
-    agentId: agent._id,
-    type: "debit",
-    amount: property.buyPrice,
-    reason: "PROPERTY_PURCHASE",
-    balance: newCash,
-    refEventId: eventId,
-  });
+  const expiresAtTick = world.tick + GANG_DIPLOMACY_DEFAULTS.proposalExpirationTicks;
 
   return {
     ok: true,
-    message: `Purchased ${property.name} for $${property.buyPrice}`,
+    message: `Proposed ${treatyType} to ${targetGang.name}. Their leader has until tick ${expiresAtTick} to respond.`,
     result: {
-      propertyId: property._id,
-      propertyName: property.name,
-      propertyType: property.type,
-      price: property.buyPrice,
+      treatyId,
+      treatyType,
+      partnerGangId: targetGang._id,
+      partnerGangName: targetGang.name,
+      expiresAtTick,
     },
   };
 }
 
-async function handleSellProperty(
+/**
+ * RESPOND_TREATY - Accept or decline a treaty proposal
+ * Prereq: Leader of the gang the proposal was sent to, proposal not expired
+ */
+async function handleRespondTreaty(
   actionCtx: ActionContext,
-  args: ActionArgs["SELL_PROPERTY"]
+  args: ActionArgs["RESPOND_TREATY"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { propertyId } = args;
+  const { treatyId, accept } = args;
 
-  // 1. Get property
-  let property: Doc<"properties"> | null = null;
-  try {
-    property = await ctx.db.get(propertyId as Id<"properties">);
-  } catch {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  // 1. Check in gang and is leader
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  if (!property) {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.leaderId !== agent._id) {
+    return { ok: false, error: "NOT_GANG_LEADER", message: ERROR_CODES.NOT_GANG_LEADER };
   }
 
-  // 2. Check ownership
-  if (property.ownerId !== agent._id) {
-    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
+  // 2. Validate proposal
+  let treaty: Doc<"gangTreaties"> | null = null;
+  try {
+    treaty = await ctx.db.get(treatyId as Id<"gangTreaties">);
+  } catch {
+    return { ok: false, error: "TREATY_NOT_FOUND", message: ERROR_CODES.TREATY_NOT_FOUND };
   }
 
-  // 3. Sell for 80% of buy price
-  const salePrice = Math.floor(property.buyPrice * 0.8);
-  const newCash = agent.cash + salePrice;
+  if (
+    !treaty ||
+    treaty.partnerGangId !== gang._id ||
+    treaty.status !== "proposed" ||
+    isProposalExpired(treaty, world.tick)
+  ) {
+    return { ok: false, error: "TREATY_NOT_FOUND", message: ERROR_CODES.TREATY_NOT_FOUND };
+  }
 
-  // 4. Remove all residents
-  const residents = await ctx.db
-    .query("propertyResidents")
-    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
-    .collect();
+  const proposer = await ctx.db.get(treaty.proposerGangId);
+  if (!proposer || proposer.disbandedAt) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  }
 
-  for (const resident of residents) {
-    await ctx.db.delete(resident._id);
-    // If this was their home, clear it
-    const residentAgent = await ctx.db.get(resident.agentId);
-    if (residentAgent && residentAgent.homePropertyId === property._id) {
-      await ctx.db.patch(residentAgent._id, { homePropertyId: undefined });
-    }
+  // 3. Wars declared since the proposal block acceptance
+  if (accept && (await findActiveWar(ctx, gang._id, proposer._id))) {
+    return {
+      ok: false,
+      error: "ALREADY_AT_WAR",
+      message: `${ERROR_CODES.ALREADY_AT_WAR}. End the war with a truce or surrender first.`,
+    };
   }
 
-  // 5. Clear ownership
-  await ctx.db.patch(property._id, { ownerId: undefined });
-
-  // 6. Update agent cash and clear home if this was it
-  const updates: Partial<Doc<"agents">> = { cash: newCash };
-  if (agent.homePropertyId === property._id) {
-    updates.homePropertyId = undefined;
-  }
-  await ctx.db.patch(agent._id, updates);
+  // 4. Update treaty
+  await ctx.db.patch(treaty._id, accept
+    ? { status: "active", acceptedTick: world.tick }
+    : { status: "declined", endedTick: world.tick }
+  );
 
-  // 7. Log event
-  const eventId = await ctx.db.insert("events", {
+  // 5. Log event
+  await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "PROPERTY_SOLD",
+    type: accept ? "TREATY_ACCEPTED" : "TREATY_DECLINED",
     agentId: agent._id,
-    zoneId: property.zoneId,
-    entityId: property._id,
+    zoneId: agent.locationZoneId,
+    entityId: treaty._id,
     payload: {
-      propertyName: property.name,
-      propertyType: property.type,
-      salePrice,
+      treatyId: treaty._id,
+      treatyType: treaty.type,
+      gangName: gang.name,
+      partnerGangId: proposer._id,
+      partnerGangName: proposer.name,
     },
     requestId,
   });
 
-  // 8. Ledger entry
-  await ctx.db.insert("ledger", {
-    tick: world.tick,
-    agentId: agent._id,
-    type: "credit",
-    amount: salePrice,
-    reason: "PROPERTY_SALE",
-    balance: newCash,
-    refEventId: eventId,
-  });
-
   return {
     ok: true,
-    message: `Sold ${property.name} for $${salePrice}`,
+    message: accept
+      ? `${gang.name} entered a ${treaty.type} with ${proposer.name}`
+      : `Declined ${treaty.type} from ${proposer.name}`,
     result: {
-      propertyId: property._id,
-      propertyName: property.name,
-      salePrice,
+      treatyId: treaty._id,
+      treatyType: treaty.type,
+      partnerGangId: proposer._id,
+      partnerGangName: proposer.name,
+      accepted: accept,
     },
   };
 }
 
-async function handleRentProperty(
+/**
+ * CANCEL_TREATY - Withdraw a proposal or end an active treaty
+ * Prereq: Leader of either gang in the treaty
+ * Ending an active non-aggression pact early counts as breaking it:
+ * the gang pays a fine to the partner and loses reputation
+ */
+async function handleCancelTreaty(
   actionCtx: ActionContext,
-  args: ActionArgs["RENT_PROPERTY"]
+  args: ActionArgs["CANCEL_TREATY"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { propertyId } = args;
-
-  // 1. Get property
-  let property: Doc<"properties"> | null = null;
-  try {
-    property = await ctx.db.get(propertyId as Id<"properties">);
-  } catch {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
-  }
+  const { treatyId } = args;
 
-  if (!property) {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  // 1. Check in gang and is leader
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  // 2. Check property is in agent's zone
-  if (property.zoneId !== agent.locationZoneId) {
-    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.leaderId !== agent._id) {
+    return { ok: false, error: "NOT_GANG_LEADER", message: ERROR_CODES.NOT_GANG_LEADER };
   }
 
-  // 3. Check not already resident
-  const existingResidency = await ctx.db
-    .query("propertyResidents")
-    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
-    .first();
-
-  if (existingResidency && existingResidency.propertyId === property._id) {
-    return { ok: false, error: "ALREADY_RESIDENT", message: ERROR_CODES.ALREADY_RESIDENT };
+  // 2. Validate treaty
+  let treaty: Doc<"gangTreaties"> | null = null;
+  try {
+    treaty = await ctx.db.get(treatyId as Id<"gangTreaties">);
+  } catch {
+    return { ok: false, error: "TREATY_NOT_FOUND", message: ERROR_CODES.TREATY_NOT_FOUND };
   }
 
-  // 4. Check capacity
-  const currentResidents = await ctx.db
-    .query("propertyResidents")
-    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
-    .collect();
-
-  if (currentResidents.length >= property.capacity) {
-    return { ok: false, error: "PROPERTY_AT_CAPACITY", message: ERROR_CODES.PROPERTY_AT_CAPACITY };
-  }
+  if (
+    !treaty ||
+    (treaty.proposerGangId !== gang._id && treaty.partnerGangId !== gang._id) ||
+    (treaty.status !== "active" && treaty.status !== "proposed")
+  ) {
+    return { ok: false, error: "TREATY_NOT_FOUND", message: ERROR_CODES.TREATY_NOT_FOUND };
+  }
+
+  const partnerGangId = getTreatyPartnerId(treaty, gang._id);
+  const partner = await ctx.db.get(partnerGangId);
+
+  // 3. Breaking a pact is penalized
+  if (treaty.status === "active" && treaty.type === "nap") {
+    const fine = await breakTreaty(
+      ctx,
+      treaty,
+      gang._id,
+      agent._id,
+      agent.locationZoneId,
+      world.tick,
+      "cancelled"
+    );
 
-  // 5. Pay first rent
-  if (agent.cash < property.rentPrice) {
-    return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${property.rentPrice}` };
+    return {
+      ok: true,
+      message: `${gang.name} broke its non-aggression pact with ${partner?.name ?? "its partner"}, paying a $${fine} fine`,
+      result: {
+        treatyId: treaty._id,
+        treatyType: treaty.type,
+        partnerGangId,
+        partnerGangName: partner?.name ?? null,
+        broken: true,
+        fine,
+        reputationLost: GANG_DIPLOMACY_DEFAULTS.napBreakReputationPenalty,
+      },
+    };
   }
 
-  const newCash = agent.cash - property.rentPrice;
-  await ctx.db.patch(agent._id, {
-    cash: newCash,
-    homePropertyId: agent.homePropertyId ?? property._id,
-  });
-
-  // 6. Create residency record
-  const rentDueAt = world.tick + SOCIAL_DEFAULTS.rentDueInterval;
-  await ctx.db.insert("propertyResidents", {
-    propertyId: property._id,
-    agentId: agent._id,
-    isOwner: false,
-    rentDueAt,
-    moveInAt: Date.now(),
-  });
-
-  // 7. Pay owner if there is one
-  if (property.ownerId) {
-    const owner = await ctx.db.get(property.ownerId);
-    if (owner) {
-      await ctx.db.patch(owner._id, { cash: owner.cash + property.rentPrice });
-    }
-  }
+  // 4. Withdraw or end
+  const wasActive = treaty.status === "active";
+  await ctx.db.patch(treaty._id, { status: "ended", endedTick: world.tick });
 
-  // 8. Log event
-  const eventId = await ctx.db.insert("events", {
+  // 5. Log event
+  await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "PROPERTY_RENTED",
+    type: "TREATY_ENDED",
     agentId: agent._id,
-    zoneId: property.zoneId,
-    entityId: property._id,
+    zoneId: agent.locationZoneId,
+    entityId: treaty._id,
     payload: {
-      propertyName: property.name,
-      propertyType: property.type,
-      rentPrice: property.rentPrice,
-      nextRentDue: rentDueAt,
+      treatyId: treaty._id,
+      treatyType: treaty.type,
+      gangName: gang.name,
+      partnerGangId,
+      partnerGangName: partner?.name ?? null,
+      wasActive,
     },
     requestId,
   });
 
-  // 9. Ledger entry
-  await ctx.db.insert("ledger", {
-    tick: world.tick,
-    agentId: agent._id,
-    type: "debit",
-    amount: property.rentPrice,
-    reason: "RENT_PAYMENT",
-    balance: newCash,
-    refEventId: eventId,
-  });
-
   return {
     ok: true,
-    message: `Rented ${property.name} for $${property.rentPrice}/interval`,
+    message: wasActive
+      ? `${gang.name} ended its ${treaty.type} with ${partner?.name ?? "its partner"}`
+      : `Withdrew ${treaty.type} proposal to ${partner?.name ?? "the other gang"}`,
     result: {
-      propertyId: property._id,
-      propertyName: property.name,
-      rentPrice: property.rentPrice,
-      nextRentDue: rentDueAt,
+      treatyId: treaty._id,
+      treatyType: treaty.type,
+      partnerGangId,
+      partnerGangName: partner?.name ?? null,
+      broken: false,
     },
   };
 }
 
-async function handleInviteResident(
+// ============================================================================
+// SOCIAL ACTION HANDLERS - GANG TREASURY GOVERNANCE
+// ============================================================================
+
+/**
+ * PROPOSE_GANG_SPEND - Put a treasury spend to a gang vote
+ * Prereq: Gang member, gang under the open proposal limit, treasury covers it
+ * Kinds: payout (to a member), hire (pay an outsider), bounty (on a non-member),
+ * property (bought by the gang at its current price)
+ * The proposer votes yes; processGangProposals closes the vote and pays out
+ */
+async function handleProposeGangSpend(
   actionCtx: ActionContext,
-  args: ActionArgs["INVITE_RESIDENT"]
+  args: ActionArgs["PROPOSE_GANG_SPEND"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { propertyId, targetAgentId } = args;
+  const { kind, targetAgentId, propertyId, reason } = args;
 
-  // 1. Get property
-  let property: Doc<"properties"> | null = null;
-  try {
-    property = await ctx.db.get(propertyId as Id<"properties">);
-  } catch {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  // 1. Check in gang
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
 
-  if (!property) {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang || gang.disbandedAt) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
   }
 
-  // 2. Check ownership
-  if (property.ownerId !== agent._id) {
-    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
+  // 2. Validate kind and open proposal limit
+  if (!GANG_PROPOSAL_KINDS.includes(kind as GangProposalKind)) {
+    return {
+      ok: false,
+      error: "INVALID_PROPOSAL_KIND",
+      message: `${ERROR_CODES.INVALID_PROPOSAL_KIND}. Valid kinds: ${GANG_PROPOSAL_KINDS.join(", ")}`,
+    };
   }
 
-  // 3. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
-  try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
-  } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  const openProposals = await ctx.db
+    .query("gangProposals")
+    .withIndex("by_gangId_status", (q) => q.eq("gangId", gang._id).eq("status", "open"))
+    .collect();
+  if (openProposals.length >= GANG_GOVERNANCE_DEFAULTS.maxOpenProposalsPerGang) {
+    return {
+      ok: false,
+      error: "PROPOSAL_LIMIT_REACHED",
+      message: `${ERROR_CODES.PROPOSAL_LIMIT_REACHED}. Limit is ${GANG_GOVERNANCE_DEFAULTS.maxOpenProposalsPerGang}.`,
+    };
   }
 
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
-  }
+  // 3. Validate the target and amount for the kind
+  let target: Doc<"agents"> | null = null;
+  let property: Doc<"properties"> | null = null;
+  let amount = args.amount ?? 0;
 
-  // 4. Check target in same zone
-  if (targetAgent.locationZoneId !== property.zoneId) {
-    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
-  }
+  if (kind === "property") {
+    try {
+      property = await ctx.db.get(propertyId as Id<"properties">);
+    } catch {
+      return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+    }
+    if (!property) {
+      return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+    }
+    if (property.ownerId || property.ownerGangId) {
+      return { ok: false, error: "PROPERTY_OWNED", message: ERROR_CODES.PROPERTY_OWNED };
+    }
+    amount = getPropertyValue(property);
+  } else {
+    if (targetAgentId === agent._id.toString() && kind !== "payout") {
+      return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+    }
+    try {
+      target = await ctx.db.get(targetAgentId as Id<"agents">);
+    } catch {
+      return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+    }
+    if (!target) {
+      return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+    }
 
-  // 5. Check capacity
-  const currentResidents = await ctx.db
-    .query("propertyResidents")
-    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
-    .collect();
+    // Payouts go to members; hires and bounties are for outsiders
+    if (kind === "payout" && target.gangId !== gang._id) {
+      return { ok: false, error: "NOT_GANG_MEMBER", message: ERROR_CODES.NOT_GANG_MEMBER };
+    }
+    if (kind !== "payout" && target.gangId === gang._id) {
+      return { ok: false, error: "INVALID_AGENT", message: `Cannot ${kind === "hire" ? "hire" : "put a bounty on"} a member of your own gang` };
+    }
 
-  if (currentResidents.length >= property.capacity) {
-    return { ok: false, error: "PROPERTY_AT_CAPACITY", message: ERROR_CODES.PROPERTY_AT_CAPACITY };
+    const [minAmount, maxAmount] = kind === "bounty"
+      ? [GTA_DEFAULTS.bountyMinAmount, GTA_DEFAULTS.bountyMaxAmount]
+      : [1, GANG_GOVERNANCE_DEFAULTS.maxPayoutAmount];
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < minAmount || amount > maxAmount) {
+      return {
+        ok: false,
+        error: "INVALID_ACTION",
+        message: `Amount must be between $${minAmount} and $${maxAmount}`,
+      };
+    }
+    amount = Math.floor(amount);
   }
 
-  // 6. Check not already resident
-  const existingResidency = currentResidents.find((r) => r.agentId === targetAgent._id);
-  if (existingResidency) {
-    return { ok: false, error: "ALREADY_RESIDENT", message: ERROR_CODES.ALREADY_RESIDENT };
+  // 4. Check treasury (checked again when the vote passes)
+  if (gang.treasury < amount) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `Gang treasury has $${gang.treasury}, proposal needs $${amount}`,
+    };
   }
 
-  // 7. Add as resident (rent-free guest)
-  await ctx.db.insert("propertyResidents", {
-    propertyId: property._id,
-    agentId: targetAgent._id,
-    isOwner: false,
-    moveInAt: Date.now(),
+  // 5. Create proposal with the proposer's vote
+  const closesAtTick = world.tick + GANG_GOVERNANCE_DEFAULTS.votingTicks;
+  const proposalId = await insertTracked(ctx, "gangProposals", {
+    gangId: gang._id,
+    proposerId: agent._id,
+    kind: kind as GangProposalKind,
+    targetAgentId: target?._id,
+    propertyId: property?._id,
+    amount,
+    reason: reason?.slice(0, 200),
+    votes: [{ agentId: agent._id, support: true }],
+    status: "open",
+    createdTick: world.tick,
+    closesAtTick,
   });
 
-  // 8. Update target's home if they don't have one
-  if (!targetAgent.homePropertyId) {
-    await ctx.db.patch(targetAgent._id, { homePropertyId: property._id });
-  }
-
-  // 9. Log event
+  // 6. Log event
   await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "RESIDENT_INVITED",
+    type: "GANG_PROPOSAL_CREATED",
     agentId: agent._id,
-    zoneId: property.zoneId,
-    entityId: property._id,
+    zoneId: agent.locationZoneId,
+    entityId: proposalId,
     payload: {
-      propertyName: property.name,
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
+      proposalId,
+      gangName: gang.name,
+      kind,
+      amount,
+      targetAgentId: target?._id ?? null,
+      targetAgentName: target?.name ?? null,
+      propertyName: property?.name ?? null,
+      closesAtTick,
     },
     requestId,
   });
 
   return {
     ok: true,
-    message: `Invited ${targetAgent.name} to live at ${property.name}`,
+    message: `Proposed a $${amount} ${kind} to ${gang.name}. Voting closes at tick ${closesAtTick}.`,
     result: {
-      propertyId: property._id,
-      propertyName: property.name,
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
+      proposalId,
+      kind,
+      amount,
+      targetAgentId: target?._id ?? null,
+      propertyId: property?._id ?? null,
+      closesAtTick,
     },
   };
 }
 
-async function handleEvictResident(
+/**
+ * VOTE_GANG_PROPOSAL - Vote for or against an open gang proposal
+ * Prereq: Member of the proposing gang, voting still open
+ * Votes are weighted by role and contributions; changing a vote replaces it
+ */
+async function handleVoteGangProposal(
   actionCtx: ActionContext,
-  args: ActionArgs["EVICT_RESIDENT"]
+  args: ActionArgs["VOTE_GANG_PROPOSAL"]
 ): Promise<ActionResult> {
-  const { ctx, agent, world, requestId } = actionCtx;
-  const { propertyId, targetAgentId } = args;
+  const { ctx, agent, world } = actionCtx;
+  const { proposalId, support } = args;
 
-  // 1. Get property
-  let property: Doc<"properties"> | null = null;
+  // 1. Check in gang
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
+  }
+
+  // 2. Validate proposal
+  let proposal: Doc<"gangProposals"> | null = null;
   try {
-    property = await ctx.db.get(propertyId as Id<"properties">);
+    proposal = await ctx.db.get(proposalId as Id<"gangProposals">);
   } catch {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+    return { ok: false, error: "PROPOSAL_NOT_FOUND", message: ERROR_CODES.PROPOSAL_NOT_FOUND };
   }
 
-  if (!property) {
-    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  if (
+    !proposal ||
+    proposal.gangId !== agent.gangId ||
+    proposal.status !== "open" ||
+    world.tick >= proposal.closesAtTick
+  ) {
+    return { ok: false, error: "PROPOSAL_NOT_FOUND", message: ERROR_CODES.PROPOSAL_NOT_FOUND };
   }
 
-  // 2. Check ownership
-  if (property.ownerId !== agent._id) {
-    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
-  }
+  // 3. Record vote
+  const votes = [
+    ...proposal.votes.filter((vote) => vote.agentId !== agent._id),
+    { agentId: agent._id, support: Boolean(support) },
+  ];
+  await ctx.db.patch(proposal._id, { votes });
 
-  // 3. Find residency
-  const residency = await ctx.db
-    .query("propertyResidents")
-    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
-    .collect();
+  // 4. Current standing (the tick step settles it)
+  const tally = await tallyProposal(ctx, { ...proposal, votes });
 
-  const targetResidency = residency.find((r) => r.agentId === (targetAgentId as Id<"agents">));
-  if (!targetResidency) {
-    return { ok: false, error: "NOT_RESIDENT", message: ERROR_CODES.NOT_RESIDENT };
+  return {
+    ok: true,
+    message: `Voted ${support ? "for" : "against"} the $${proposal.amount} ${proposal.kind}`,
+    result: {
+      proposalId: proposal._id,
+      support: Boolean(support),
+      yesWeight: tally.yes,
+      noWeight: tally.no,
+      totalWeight: tally.total,
+      closesAtTick: proposal.closesAtTick,
+    },
+  };
+}
+
+// ============================================================================
+// SOCIAL ACTION HANDLERS - GANG ASSETS
+// ============================================================================
+
+/**
+ * Whether an agent may run a business: its owner, or an officer of the owning gang
+ */
+async function canManageBusiness(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  business: Doc<"businesses">
+): Promise<boolean> {
+  if (business.ownerGangId) {
+    return isGangOfficer(ctx, agent, business.ownerGangId);
   }
+  return business.ownerAgentId === agent._id;
+}
 
-  // 4. Cannot evict self (owner)
-  if (targetResidency.agentId === agent._id) {
-    return { ok: false, error: "INVALID_ACTION", message: "Cannot evict yourself" };
+/**
+ * Whether an agent may manage a property: its owner, or an officer of the owning gang
+ */
+async function canManageProperty(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  property: Doc<"properties">
+): Promise<boolean> {
+  if (property.ownerGangId) {
+    return isGangOfficer(ctx, agent, property.ownerGangId);
   }
+  return property.ownerId === agent._id;
+}
 
-  // 5. Delete residency
-  await ctx.db.delete(targetResidency._id);
+/**
+ * BUY_PROPERTY (forGang) - Buy an unowned property into the gang's name
+ * Prereq: Gang officer, treasury covers the price
+ */
+async function buyPropertyForGang(
+  actionCtx: ActionContext,
+  property: Doc<"properties">
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
 
-  // 6. Update target's home if this was it
-  const targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
-  if (targetAgent && targetAgent.homePropertyId === property._id) {
-    await ctx.db.patch(targetAgent._id, { homePropertyId: undefined });
+  // 1. Check officer
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
+  }
+  if (!(await isGangOfficer(ctx, agent, agent.gangId))) {
+    return { ok: false, error: "NOT_GANG_OFFICER", message: ERROR_CODES.NOT_GANG_OFFICER };
   }
 
-  // 7. Log event
-  await ctx.db.insert("events", {
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  }
+
+  // 2. Check treasury (properties sell at their current market value)
+  const price = getPropertyValue(property);
+  if (gang.treasury < price) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `Gang treasury has $${gang.treasury}, property costs $${price}`,
+    };
+  }
+
+  // 3. Transfer ownership to the gang
+  await ctx.db.patch(property._id, { ownerGangId: gang._id });
+
+  // 4. Log event
+  const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "RESIDENT_EVICTED",
+    type: "PROPERTY_PURCHASED",
     agentId: agent._id,
     zoneId: property.zoneId,
     entityId: property._id,
     payload: {
       propertyName: property.name,
-      targetAgentId,
-      targetAgentName: targetAgent?.name,
+      propertyType: property.type,
+      price: price,
+      gangId: gang._id,
+      gangName: gang.name,
     },
     requestId,
   });
 
+  // 5. Treasury ledger entry
+  const newTreasury = await recordGangTransaction(
+    ctx, gang, agent._id, "debit", price, "GANG_PROPERTY_PURCHASE", world.tick, eventId
+  );
+
   return {
     ok: true,
-    message: `Evicted ${targetAgent?.name ?? "resident"} from ${property.name}`,
+    message: `Purchased ${property.name} for ${gang.name} for $${price}`,
     result: {
       propertyId: property._id,
       propertyName: property.name,
-      targetAgentId,
-      targetAgentName: targetAgent?.name,
+      propertyType: property.type,
+      price: price,
+      gangId: gang._id,
+      newTreasury,
     },
   };
 }
 
-// ============================================================================
-// SOCIAL ACTION HANDLERS - PVP & SOCIAL
-// ============================================================================
-
-async function handleGiftCash(
+/**
+ * SELL_PROPERTY (gang-owned) - Sell a gang property, proceeds go to the treasury
+ * Prereq: Officer of the owning gang
+ */
+async function sellGangProperty(
   actionCtx: ActionContext,
-  args: ActionArgs["GIFT_CASH"]
+  property: Doc<"properties">
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId, amount } = args;
-
-  // 1. Cannot gift to self
-  if (targetAgentId === agent._id.toString()) {
-    return { ok: false, error: "CANNOT_GIFT_SELF", message: ERROR_CODES.CANNOT_GIFT_SELF };
-  }
 
-  // 2. Validate amount
-  if (amount < SOCIAL_DEFAULTS.giftCashMin || amount > SOCIAL_DEFAULTS.giftCashMax) {
-    return { ok: false, error: "INVALID_ACTION", message: `Amount must be $${SOCIAL_DEFAULTS.giftCashMin}-$${SOCIAL_DEFAULTS.giftCashMax}` };
+  // 1. Check officer of the owning gang
+  if (!property.ownerGangId || !(await isGangOfficer(ctx, agent, property.ownerGangId))) {
+    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
   }
 
-  if (agent.cash < amount) {
-    return { ok: false, error: "INSUFFICIENT_FUNDS", message: ERROR_CODES.INSUFFICIENT_FUNDS };
+  const gang = await ctx.db.get(property.ownerGangId);
+  if (!gang) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
   }
 
-  // 3. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
-  try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
-  } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
-  }
+  // 2. Sell for 80% of market value
+  const salePrice = Math.floor(getPropertyValue(property) * 0.8);
 
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
-  }
+  // 3. Remove all residents
+  const residents = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
+    .collect();
 
-  // 4. Target must be in same zone
-  if (targetAgent.locationZoneId !== agent.locationZoneId) {
-    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  for (const resident of residents) {
+    await ctx.db.delete(resident._id);
+    const residentAgent = await ctx.db.get(resident.agentId);
+    if (residentAgent && residentAgent.homePropertyId === property._id) {
+      await ctx.db.patch(residentAgent._id, { homePropertyId: undefined });
+    }
   }
 
-  // 5. Transfer cash
-  const newCash = agent.cash - amount;
-  await ctx.db.patch(agent._id, { cash: newCash });
-  await ctx.db.patch(targetAgent._id, { cash: targetAgent.cash + amount });
-
-  // 6. Update social stats
-  const agentSocialStats = agent.socialStats ?? {
-    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
-  };
-  await ctx.db.patch(agent._id, {
-    socialStats: { ...agentSocialStats, giftsGiven: agentSocialStats.giftsGiven + 1 },
-  });
-
-  const targetSocialStats = targetAgent.socialStats ?? {
-    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
-  };
-  await ctx.db.patch(targetAgent._id, {
-    socialStats: { ...targetSocialStats, giftsReceived: targetSocialStats.giftsReceived + 1 },
-  });
-
-  // 7. Strengthen friendship if exists
-  const friendship = await findFriendship(ctx, agent._id, targetAgent._id);
-  if (friendship && friendship.status === "accepted") {
-    const newStrength = Math.min(100, friendship.strength + 5);
-    await ctx.db.patch(friendship._id, {
-      strength: newStrength,
-      lastInteractionTick: world.tick,
-    });
-  }
+  // 4. Clear ownership
+  await ctx.db.patch(property._id, { ownerGangId: undefined });
 
-  // 8. Log event
-  await ctx.db.insert("events", {
+  // 5. Log event
+  const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "CASH_GIFTED",
+    type: "PROPERTY_SOLD",
     agentId: agent._id,
-    zoneId: agent.locationZoneId,
-    entityId: null,
+    zoneId: property.zoneId,
+    entityId: property._id,
     payload: {
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      amount,
+      propertyName: property.name,
+      propertyType: property.type,
+      salePrice,
+      gangId: gang._id,
+      gangName: gang.name,
     },
     requestId,
   });
 
+  // 6. Treasury ledger entry
+  const newTreasury = await recordGangTransaction(
+    ctx, gang, agent._id, "credit", salePrice, "GANG_PROPERTY_SALE", world.tick, eventId
+  );
+
   return {
     ok: true,
-    message: `Gifted $${amount} to ${targetAgent.name}`,
+    message: `Sold ${gang.name}'s ${property.name} for $${salePrice}`,
     result: {
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      amount,
-      newCash,
+      propertyId: property._id,
+      salePrice,
+      gangId: gang._id,
+      newTreasury,
     },
   };
 }
 
-async function handleGiftItem(
+/**
+ * START_BUSINESS (forGang) - Open a business owned by the gang
+ * Prereq: Gang officer, treasury covers the startup cost
+ */
+async function startBusinessForGang(
   actionCtx: ActionContext,
-  args: ActionArgs["GIFT_ITEM"]
+  businessType: BusinessType,
+  name: string,
+  startupCost: number
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId, itemSlug, qty } = args;
-
-  // 1. Cannot gift to self
-  if (targetAgentId === agent._id.toString()) {
-    return { ok: false, error: "CANNOT_GIFT_SELF", message: ERROR_CODES.CANNOT_GIFT_SELF };
-  }
-
-  // 2. Get item
-  const item = await ctx.db
-    .query("items")
-    .withIndex("by_slug", (q) => q.eq("slug", itemSlug))
-    .first();
-
-  if (!item) {
-    return { ok: false, error: "INVALID_ITEM", message: ERROR_CODES.INVALID_ITEM };
-  }
-
-  // 3. Check agent has item
-  const inventoryIndex = agent.inventory.findIndex((inv) => inv.itemId === item._id);
-  if (inventoryIndex === -1 || agent.inventory[inventoryIndex].qty < qty) {
-    return { ok: false, error: "INSUFFICIENT_INVENTORY", message: ERROR_CODES.INSUFFICIENT_INVENTORY };
-  }
 
-  // 4. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
-  try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
-  } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  // 1. Check officer
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
   }
-
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  if (!(await isGangOfficer(ctx, agent, agent.gangId))) {
+    return { ok: false, error: "NOT_GANG_OFFICER", message: ERROR_CODES.NOT_GANG_OFFICER };
   }
 
-  // 5. Target must be in same zone
-  if (targetAgent.locationZoneId !== agent.locationZoneId) {
-    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang) {
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
   }
 
-  // 6. Transfer item
-  // Remove from agent
-  const agentInventory = [...agent.inventory];
-  if (agentInventory[inventoryIndex].qty === qty) {
-    agentInventory.splice(inventoryIndex, 1);
-  } else {
-    agentInventory[inventoryIndex] = {
-      ...agentInventory[inventoryIndex],
-      qty: agentInventory[inventoryIndex].qty - qty,
+  // 2. Check treasury
+  if (gang.treasury < startupCost) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `Gang treasury has $${gang.treasury}, startup costs $${startupCost}`,
     };
   }
-  await ctx.db.patch(agent._id, { inventory: agentInventory });
 
-  // Add to target
-  const targetInventory = [...targetAgent.inventory];
-  const targetIndex = targetInventory.findIndex((inv) => inv.itemId === item._id);
-  if (targetIndex === -1) {
-    targetInventory.push({ itemId: item._id, qty });
-  } else {
-    targetInventory[targetIndex] = {
-      ...targetInventory[targetIndex],
-      qty: targetInventory[targetIndex].qty + qty,
-    };
-  }
-  await ctx.db.patch(targetAgent._id, { inventory: targetInventory });
+  // 3. Create the business in the gang's name
+  const businessId = await insertTracked(ctx, "businesses", {
+    ownerAgentId: null,
+    ownerGangId: gang._id,
+    zoneId: agent.locationZoneId,
+    type: businessType,
+    name,
+    cashOnHand: 0,
+    inventory: [],
+    reputation: 0,
+    status: "open",
+    metrics: {
+      totalRevenue: 0,
+      totalCustomers: 0,
+    },
+  });
 
-  // 7. Update social stats
-  const agentSocialStats = agent.socialStats ?? {
-    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
-  };
-  await ctx.db.patch(agent._id, {
-    socialStats: { ...agentSocialStats, giftsGiven: agentSocialStats.giftsGiven + 1 },
+  // 4. Log BUSINESS_STARTED event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "BUSINESS_STARTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: businessId,
+    payload: {
+      businessId,
+      businessType,
+      businessName: name,
+      startupCost,
+      gangId: gang._id,
+      gangName: gang.name,
+    },
+    requestId,
   });
 
-  const targetSocialStats = targetAgent.socialStats ?? {
-    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
+  // 5. Treasury ledger entry
+  const newTreasury = await recordGangTransaction(
+    ctx, gang, agent._id, "debit", startupCost, "GANG_BUSINESS_STARTUP", world.tick, eventId
+  );
+
+  return {
+    ok: true,
+    message: `Business "${name}" (${businessType}) started for ${gang.name}`,
+    result: {
+      businessId,
+      businessType,
+      businessName: name,
+      startupCost,
+      gangId: gang._id,
+      newTreasury,
+    },
   };
-  await ctx.db.patch(targetAgent._id, {
-    socialStats: { ...targetSocialStats, giftsReceived: targetSocialStats.giftsReceived + 1 },
-  });
+}
 
-  // 8. Strengthen friendship if exists
-  const friendship = await findFriendship(ctx, agent._id, targetAgent._id);
-  if (friendship && friendship.status === "accepted") {
-    const newStrength = Math.min(100, friendship.strength + 5);
-    await ctx.db.patch(friendship._id, {
-      strength: newStrength,
-      lastInteractionTick: world.tick,
-    });
+// ============================================================================
+// SOCIAL ACTION HANDLERS - COOPERATIVE CRIMES
+// ============================================================================
+
+async function handleInitiateCoopCrime(
+  actionCtx: ActionContext,
+  args: ActionArgs["INITIATE_COOP_CRIME"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { crimeType, targetBusinessId } = args;
+
+  // 1. Validate crime type
+  const validCoopTypes = ["THEFT", "ROBBERY", "SMUGGLING"];
+  if (!validCoopTypes.includes(crimeType)) {
+    return { ok: false, error: "INVALID_CRIME_TYPE", message: `${ERROR_CODES.INVALID_CRIME_TYPE}: ${crimeType}` };
   }
 
-  // 9. Log event
+  // 2. Validate target business if provided
+  if (targetBusinessId) {
+    const targetBusiness = await ctx.db.get(targetBusinessId as Id<"businesses">);
+    if (!targetBusiness) {
+      return { ok: false, error: "INVALID_BUSINESS", message: ERROR_CODES.INVALID_BUSINESS };
+    }
+    if (targetBusiness.zoneId !== agent.locationZoneId) {
+      return { ok: false, error: "WRONG_ZONE", message: "Target business not in your zone" };
+    }
+  }
+
+  // 3. Create coop action
+  const coopActionId = await insertTracked(ctx, "coopActions", {
+    initiatorId: agent._id,
+    type: `COOP_${crimeType}` as CoopCrimeType,
+    targetBusinessId: targetBusinessId ? (targetBusinessId as Id<"businesses">) : undefined,
+    zoneId: agent.locationZoneId,
+    status: "recruiting",
+    participantIds: [agent._id],
+    minParticipants: SOCIAL_DEFAULTS.coopMinParticipants,
+    maxParticipants: SOCIAL_DEFAULTS.coopMaxParticipants,
+    createdAt: Date.now(),
+    expiresAt: Date.now() + (SOCIAL_DEFAULTS.coopCrimeExpiration * world.tickMs),
+  });
+
+  // 4. Log event
   await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "ITEM_GIFTED",
+    type: "COOP_CRIME_INITIATED",
     agentId: agent._id,
     zoneId: agent.locationZoneId,
-    entityId: item._id,
+    entityId: coopActionId,
     payload: {
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      itemSlug,
-      itemName: item.name,
-      qty,
+      crimeType,
+      targetBusinessId,
+      minParticipants: SOCIAL_DEFAULTS.coopMinParticipants,
+      maxParticipants: SOCIAL_DEFAULTS.coopMaxParticipants,
     },
     requestId,
   });
 
   return {
     ok: true,
-    message: `Gifted ${qty}x ${item.name} to ${targetAgent.name}`,
+    message: `Initiated cooperative ${crimeType}. Recruiting ${SOCIAL_DEFAULTS.coopMinParticipants}-${SOCIAL_DEFAULTS.coopMaxParticipants} participants.`,
     result: {
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      itemSlug,
-      itemName: item.name,
-      qty,
+      coopActionId,
+      crimeType,
+      status: "recruiting",
+      participantCount: 1,
+      minParticipants: SOCIAL_DEFAULTS.coopMinParticipants,
+      maxParticipants: SOCIAL_DEFAULTS.coopMaxParticipants,
     },
   };
 }
 
-async function handleRobAgent(
+async function handleJoinCoopAction(
   actionCtx: ActionContext,
-  args: ActionArgs["ROB_AGENT"]
+  args: ActionArgs["JOIN_COOP_ACTION"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId } = args;
-
-  // 1. Cannot rob self
-  if (targetAgentId === agent._id.toString()) {
-    return { ok: false, error: "CANNOT_ROB_SELF", message: ERROR_CODES.CANNOT_ROB_SELF };
-  }
+  const { coopActionId } = args;
 
-  // 2. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
+  // 1. Get coop action
+  let coopAction: Doc<"coopActions"> | null = null;
   try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+    coopAction = await ctx.db.get(coopActionId as Id<"coopActions">);
   } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+    return { ok: false, error: "COOP_ACTION_NOT_FOUND", message: ERROR_CODES.COOP_ACTION_NOT_FOUND };
   }
 
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  if (!coopAction) {
+    return { ok: false, error: "COOP_ACTION_NOT_FOUND", message: ERROR_CODES.COOP_ACTION_NOT_FOUND };
   }
 
-  // 3. Target must be in same zone
-  if (targetAgent.locationZoneId !== agent.locationZoneId) {
-    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  // 2. Check status
+  if (coopAction.status !== "recruiting") {
+    return { ok: false, error: "COOP_ACTION_NOT_RECRUITING", message: ERROR_CODES.COOP_ACTION_NOT_RECRUITING };
   }
 
-  // 4. Target must be idle (can't rob busy/jailed/hospitalized)
-  if (targetAgent.status !== "idle") {
-    return { ok: false, error: "INVALID_AGENT", message: "Target is not vulnerable (not idle)" };
+  // 3. Check not expired
+  if (coopAction.expiresAt < Date.now()) {
+    await ctx.db.patch(coopAction._id, { status: "cancelled" });
+    return { ok: false, error: "COOP_ACTION_NOT_FOUND", message: "Coop action expired" };
   }
 
-  // 5. Calculate success chance
-  const baseSuccess = SOCIAL_DEFAULTS.robBaseSuccess;
-  const combatBonus = agent.skills.combat * SOCIAL_DEFAULTS.robCombatSkillBonus;
-  const stealthBonus = agent.skills.stealth * SOCIAL_DEFAULTS.robStealthSkillBonus;
-  const successChance = Math.min(0.95, baseSuccess + combatBonus + stealthBonus);
+  // 4. Check not already participant
+  if (coopAction.participantIds.includes(agent._id)) {
+    return { ok: false, error: "ALREADY_IN_COOP", message: ERROR_CODES.ALREADY_IN_COOP };
+  }
 
-  // 6. Roll for success
-  const rng = createTickRng(world.seed, world.tick);
-  const succeeded = rng.randomChance(successChance);
+  // 5. Check zone
+  if (coopAction.zoneId !== agent.locationZoneId) {
+    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  }
 
-  // 7. Apply heat regardless of outcome
-  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + SOCIAL_DEFAULTS.robHeat);
-  await ctx.db.patch(agent._id, { heat: newHeat });
+  // 6. Check capacity
+  if (coopAction.participantIds.length >= coopAction.maxParticipants) {
+    return { ok: false, error: "COOP_ACTION_FULL", message: ERROR_CODES.COOP_ACTION_FULL };
+  }
 
-  const timestamp = Date.now();
+  // 7. Add participant
+  const newParticipantIds = [...coopAction.participantIds, agent._id];
+  const newStatus =
+    newParticipantIds.length >= coopAction.minParticipants ? "ready" : "recruiting";
 
-  if (succeeded) {
-    // Calculate stolen amount
-    const stealPercent = SOCIAL_DEFAULTS.robCashStealMin +
-      rng.random() * (SOCIAL_DEFAULTS.robCashStealMax - SOCIAL_DEFAULTS.robCashStealMin);
-    const stolenAmount = Math.floor(targetAgent.cash * stealPercent);
+  await ctx.db.patch(coopAction._id, {
+    participantIds: newParticipantIds,
+    status: newStatus,
+  });
 
-    // Transfer cash
-    const newCash = agent.cash + stolenAmount;
-    await ctx.db.patch(agent._id, { cash: newCash });
-    await ctx.db.patch(targetAgent._id, { cash: targetAgent.cash - stolenAmount });
+  // 8. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "COOP_CRIME_JOINED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: coopAction._id,
+    payload: {
+      coopActionId: coopAction._id,
+      crimeType: coopAction.type,
+      participantCount: newParticipantIds.length,
+      status: newStatus,
+    },
+    requestId,
+  });
 
-    // Log event
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "AGENT_ROBBED",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        stolenAmount,
-        successChance,
-      },
-      requestId,
-    });
+  return {
+    ok: true,
+    message: `Joined cooperative crime. ${newParticipantIds.length}/${coopAction.minParticipants} participants.`,
+    result: {
+      coopActionId: coopAction._id,
+      participantCount: newParticipantIds.length,
+      status: newStatus,
+    },
+  };
+}
 
-    // Also log event for victim
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "AGENT_ROBBED",
-      agentId: targetAgent._id,
-      zoneId: targetAgent.locationZoneId,
-      entityId: null,
-      payload: {
-        robberId: agent._id,
-        robberName: agent.name,
-        stolenAmount,
-        isVictim: true,
-      },
-      requestId: null,
-    });
-
-    return {
-      ok: true,
-      message: `Robbed $${stolenAmount} from ${targetAgent.name}!`,
-      result: {
-        success: true,
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        stolenAmount,
-        newCash,
-        newHeat,
-        successChance,
-      },
-    };
-  } else {
-    // Failed - take damage
-    const damage = rng.randomInt(SOCIAL_DEFAULTS.robFailureDamageMin, SOCIAL_DEFAULTS.robFailureDamageMax);
-    const newHealth = Math.max(0, agent.health - damage);
-    const hospitalized = newHealth === 0;
-
-    await ctx.db.patch(agent._id, {
-      health: newHealth,
-      status: hospitalized ? "hospitalized" : agent.status,
-    });
-
-    // Log event
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "ROB_ATTEMPT_FAILED",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        damage,
-        hospitalized,
-        successChance,
-      },
-      requestId,
-    });
-
-    return {
-      ok: true,
-      message: `Rob attempt failed! Took ${damage} damage.`,
-      result: {
-        success: false,
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        damage,
-        newHealth,
-        hospitalized,
-        newHeat,
-        successChance,
-      },
-    };
-  }
-}
+// ============================================================================
+// SOCIAL ACTION HANDLERS - PROPERTIES
+// ============================================================================
 
-async function handleBetrayGang(
+async function handleBuyProperty(
   actionCtx: ActionContext,
-  _args: ActionArgs["BETRAY_GANG"]
+  args: ActionArgs["BUY_PROPERTY"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
+  const { propertyId } = args;
 
-  // 1. Check in gang
-  if (!agent.gangId) {
-    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
+  // 1. Get property
+  let property: Doc<"properties"> | null = null;
+  try {
+    property = await ctx.db.get(propertyId as Id<"properties">);
+  } catch {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
   }
 
-  // 2. Get gang
-  const gang = await ctx.db.get(agent.gangId);
-  if (!gang) {
-    await ctx.db.patch(agent._id, { gangId: undefined });
-    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  if (!property) {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
   }
 
-  // 3. Calculate stolen amount
-  const stolenAmount = Math.floor(gang.treasury * SOCIAL_DEFAULTS.betrayTreasurySteal);
+  // 2. Check property is in agent's zone
+  if (property.zoneId !== agent.locationZoneId) {
+    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  }
 
-  // 4. Get membership
-  const membership = await ctx.db
-    .query("gangMembers")
-    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
-    .first();
+  // 3. Check property is not owned (owned properties can be bought off a fixed-price listing)
+  if (property.ownerId && property.ownerId !== agent._id && !args.forGang) {
+    const listing = await getOpenListing(ctx, property._id);
+    if (listing?.kind === "sale") {
+      return buyListedProperty(actionCtx, property, listing);
+    }
+    if (listing?.kind === "auction") {
+      return { ok: false, error: "PROPERTY_OWNED", message: `${ERROR_CODES.PROPERTY_OWNED}. It is up for auction - use BID_PROPERTY` };
+    }
+  }
 
-  // 5. Delete membership
-  if (membership) {
-    await ctx.db.delete(membership._id);
+  if (property.ownerId || property.ownerGangId) {
+    return { ok: false, error: "PROPERTY_OWNED", message: ERROR_CODES.PROPERTY_OWNED };
   }
 
-  // 6. Update gang
-  await ctx.db.patch(gang._id, {
-    treasury: gang.treasury - stolenAmount,
-    memberCount: Math.max(0, gang.memberCount - 1),
-  });
+  if (args.forGang) {
+    return buyPropertyForGang(actionCtx, property);
+  }
 
-  // 7. If was leader, transfer or disband
-  if (gang.leaderId === agent._id) {
-    const otherMembers = await ctx.db
-      .query("gangMembers")
-      .withIndex("by_gangId", (q) => q.eq("gangId", gang._id))
-      .collect();
+  // 4. Check funds (unowned properties sell at their current market value;
+  // with a mortgage only the down payment is due now)
+  const price = getPropertyValue(property);
+  const downPayment = args.mortgage ? Math.ceil(price * LOAN_DEFAULTS.mortgageDownPayment) : price;
+  const mortgageAmount = price - downPayment;
+  if (agent.cash < downPayment) {
+    return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${downPayment}` };
+  }
 
-    const otherMember = otherMembers.find((m) => m.agentId !== agent._id);
-    if (otherMember) {
-      await ctx.db.patch(gang._id, { leaderId: otherMember.agentId });
-      await ctx.db.patch(otherMember._id, { role: "leader" });
-    } else {
-      // Disband
-      const territories = await ctx.db.query("territories").withIndex("by_gangId", (q) => q.eq("gangId", gang._id)).collect();
-      for (const t of territories) {
-        await ctx.db.delete(t._id);
-      }
-      const invites = await ctx.db.query("gangInvites").withIndex("by_gangId", (q) => q.eq("gangId", gang._id)).collect();
-      for (const i of invites) {
-        await ctx.db.delete(i._id);
-      }
-      await ctx.db.delete(gang._id);
+  if (args.mortgage) {
+    const activeLoans = await getActiveBorrowedLoans(ctx, agent._id);
+    if (activeLoans.length >= LOAN_DEFAULTS.maxActiveLoansPerAgent) {
+      return {
+        ok: false,
+        error: "LOAN_LIMIT_REACHED",
+        message: `${ERROR_CODES.LOAN_LIMIT_REACHED} (max ${LOAN_DEFAULTS.maxActiveLoansPerAgent})`,
+      };
     }
   }
 
-  // 8. Update agent
-  const newCash = agent.cash + stolenAmount;
-  const newReputation = agent.reputation - SOCIAL_DEFAULTS.betrayReputationPenalty;
-  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + SOCIAL_DEFAULTS.betrayHeat);
-  const gangBanUntilTick = world.tick + SOCIAL_DEFAULTS.betrayGangBanDuration;
-
-  const agentSocialStats = agent.socialStats ?? {
-    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
-  };
-
+  // 5. Transfer ownership
+  const newCash = agent.cash - downPayment;
+  await ctx.db.patch(property._id, { ownerId: agent._id });
   await ctx.db.patch(agent._id, {
-    gangId: undefined,
     cash: newCash,
-    reputation: newReputation,
-    heat: newHeat,
-    gangBanUntilTick,
-    socialStats: { ...agentSocialStats, betrayals: agentSocialStats.betrayals + 1 },
+    homePropertyId: agent.homePropertyId ?? property._id, // Set as home if no home
   });
 
-  // 9. Log event (public!)
+  // 6. Create resident record
+  await ctx.db.insert("propertyResidents", {
+    propertyId: property._id,
+    agentId: agent._id,
+    isOwner: true,
+    moveInAt: Date.now(),
+  });
+
+  // 7. Log event
   const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "GANG_BETRAYED",
+    type: "PROPERTY_PURCHASED",
     agentId: agent._id,
-    zoneId: agent.locationZoneId,
-    entityId: gang._id,
+    zoneId: property.zoneId,
+    entityId: property._id,
     payload: {
-      gangName: gang.name,
-      stolenAmount,
-      reputationPenalty: SOCIAL_DEFAULTS.betrayReputationPenalty,
-      banDuration: SOCIAL_DEFAULTS.betrayGangBanDuration,
+      propertyName: property.name,
+      propertyType: property.type,
+      price: price,
+      ...(args.mortgage ? { downPayment, mortgageAmount } : {}),
     },
     requestId,
   });
 
-  // 10. Ledger entry
+  // 8. Ledger entry
   await ctx.db.insert("ledger", {
     tick: world.tick,
     agentId: agent._id,
-    type: "credit",
-    amount: stolenAmount,
-    reason: "GANG_BETRAYAL",
+    type: "debit",
+    amount: downPayment,
+    reason: "PROPERTY_PURCHASE",
     balance: newCash,
     refEventId: eventId,
   });
 
+  // 9. The bank carries the rest, secured by the property
+  let mortgageLoanId: Id<"loans"> | null = null;
+  if (mortgageAmount > 0) {
+    const { interestRate } = getBankLoanTerms(price);
+    mortgageLoanId = await insertTracked(ctx, "loans", {
+      borrowerId: agent._id,
+      principal: mortgageAmount,
+      balance: mortgageAmount,
+      interestRate,
+      collateralPropertyId: property._id,
+      status: "active",
+      createdTick: world.tick,
+      termTicks: LOAN_DEFAULTS.defaultTermTicks,
+      dueTick: world.tick + LOAN_DEFAULTS.defaultTermTicks,
+    });
+
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp: Date.now(),
+      type: "LOAN_TAKEN",
+      agentId: agent._id,
+      zoneId: property.zoneId,
+      entityId: mortgageLoanId,
+      payload: {
+        loanId: mortgageLoanId,
+        amount: mortgageAmount,
+        interestRate,
+        lenderId: null,
+        lenderName: "bank",
+        collateralPropertyId: property._id,
+        dueTick: world.tick + LOAN_DEFAULTS.defaultTermTicks,
+        mortgage: true,
+      },
+      requestId,
+    });
+  }
+
   return {
     ok: true,
-    message: `Betrayed ${gang.name}! Stole $${stolenAmount} but lost ${SOCIAL_DEFAULTS.betrayReputationPenalty} reputation.`,
+    message: mortgageLoanId
+      ? `Purchased ${property.name} for $${price} ($${downPayment} down, $${mortgageAmount} mortgage due by tick ${world.tick + LOAN_DEFAULTS.defaultTermTicks})`
+      : `Purchased ${property.name} for $${price}`,
     result: {
-      gangName: gang.name,
-      stolenAmount,
-      reputationPenalty: SOCIAL_DEFAULTS.betrayReputationPenalty,
-      newReputation,
-      newHeat,
-      gangBanUntilTick,
+      propertyId: property._id,
+      propertyName: property.name,
+      propertyType: property.type,
+      price: price,
+      ...(mortgageLoanId ? { downPayment, mortgageAmount, loanId: mortgageLoanId } : {}),
     },
   };
 }
 
-// ============================================================================
-// TAX ACTION HANDLERS
-// ============================================================================
-
-async function handlePayTax(
+async function handleSellProperty(
   actionCtx: ActionContext,
-  _args: ActionArgs["PAY_TAX"]
+  args: ActionArgs["SELL_PROPERTY"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
+  const { propertyId } = args;
 
-  // 1. Check if agent has taxes owed
-  if (!agent.taxOwed || agent.taxOwed <= 0) {
+  // 1. Get property
+  let property: Doc<"properties"> | null = null;
+  try {
+    property = await ctx.db.get(propertyId as Id<"properties">);
+  } catch {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
+
+  if (!property) {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
+
+  // 2. Check ownership (gang properties are sold by officers into the treasury)
+  if (property.ownerGangId) {
+    return sellGangProperty(actionCtx, property);
+  }
+
+  if (property.ownerId !== agent._id) {
+    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
+  }
+
+  if (await getOpenListing(ctx, property._id)) {
     return {
       ok: false,
-      error: "NO_TAX_DUE",
-      message: ERROR_CODES.NO_TAX_DUE,
+      error: "PROPERTY_ALREADY_LISTED",
+      message: `${ERROR_CODES.PROPERTY_ALREADY_LISTED}. Cancel it with CANCEL_LISTING before selling to the city.`,
     };
   }
 
-  const taxOwed = agent.taxOwed;
-
-  // 2. Check if agent has enough cash
-  if (agent.cash < taxOwed) {
+  if (await getPledgingLoan(ctx, { propertyId: property._id })) {
     return {
       ok: false,
-      error: "INSUFFICIENT_FUNDS_FOR_TAX",
-      message: `${ERROR_CODES.INSUFFICIENT_FUNDS_FOR_TAX}. Need $${taxOwed}, have $${agent.cash}`,
+      error: "COLLATERAL_PLEDGED",
+      message: `${ERROR_CODES.COLLATERAL_PLEDGED}. Repay the loan with REPAY_LOAN first.`,
     };
   }
 
-  // 3. Deduct tax from agent
-  const newCash = agent.cash - taxOwed;
-  await ctx.db.patch(agent._id, {
-    cash: newCash,
-    taxOwed: undefined,
-    taxGracePeriodEnd: undefined,
-    taxDueTick: world.tick + TAX_DEFAULTS.taxIntervalTicks,
-  });
+  // 3. Sell for 80% of market value
+  const salePrice = Math.floor(getPropertyValue(property) * 0.8);
+  const newCash = agent.cash + salePrice;
 
-  // 4. Update government revenue
-  let government = await ctx.db.query("government").first();
-  if (!government) {
-    const govId = await ctx.db.insert("government", {
-      totalTaxRevenue: 0,
-      totalSeizedCash: 0,
-      totalSeizedItems: 0,
-    });
-    government = await ctx.db.get(govId);
+  // 4. Remove all residents
+  const residents = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
+    .collect();
+
+  for (const resident of residents) {
+    await ctx.db.delete(resident._id);
+    // If this was their home, clear it
+    const residentAgent = await ctx.db.get(resident.agentId);
+    if (residentAgent && residentAgent.homePropertyId === property._id) {
+      await ctx.db.patch(residentAgent._id, { homePropertyId: undefined });
+    }
   }
-  if (government) {
-    await ctx.db.patch(government._id, {
-      totalTaxRevenue: government.totalTaxRevenue + taxOwed,
-    });
+
+  // 5. Clear ownership
+  await ctx.db.patch(property._id, { ownerId: undefined });
+
+  // 6. Update agent cash and clear home if this was it
+  const updates: Partial<Doc<"agents">> = { cash: newCash };
+  if (agent.homePropertyId === property._id) {
+    updates.homePropertyId = undefined;
   }
+  await ctx.db.patch(agent._id, updates);
 
-  // 5. Log TAX_PAID event
+  // 7. Log event
   const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "TAX_PAID",
+    type: "PROPERTY_SOLD",
     agentId: agent._id,
-    zoneId: agent.locationZoneId,
-    entityId: null,
+    zoneId: property.zoneId,
+    entityId: property._id,
     payload: {
-      amount: taxOwed,
-      method: "manual",
-      newCash,
-      nextTaxDue: world.tick + TAX_DEFAULTS.taxIntervalTicks,
+      propertyName: property.name,
+      propertyType: property.type,
+      salePrice,
     },
     requestId,
   });
 
-  // 6. Ledger entry
+  // 8. Ledger entry
   await ctx.db.insert("ledger", {
     tick: world.tick,
     agentId: agent._id,
-    type: "debit",
-    amount: taxOwed,
-    reason: "TAX_PAYMENT",
+    type: "credit",
+    amount: salePrice,
+    reason: "PROPERTY_SALE",
     balance: newCash,
     refEventId: eventId,
   });
 
   return {
     ok: true,
-    message: `Paid $${taxOwed} in taxes. Next tax assessment at tick ${world.tick + TAX_DEFAULTS.taxIntervalTicks}.`,
+    message: `Sold ${property.name} for $${salePrice}`,
     result: {
-      taxPaid: taxOwed,
-      newCash,
-      nextTaxDueTick: world.tick + TAX_DEFAULTS.taxIntervalTicks,
+      propertyId: property._id,
+      propertyName: property.name,
+      salePrice,
     },
   };
 }
 
-// ============================================================================
-// MESSAGING
-// ============================================================================
-
-async function handleSendMessage(
+async function handleRentProperty(
   actionCtx: ActionContext,
-  args: ActionArgs["SEND_MESSAGE"]
+  args: ActionArgs["RENT_PROPERTY"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId, content } = args;
+  const { propertyId } = args;
 
-  // 1. Validate target agent exists
-  let targetAgent;
+  // 1. Get property
+  let property: Doc<"properties"> | null = null;
   try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+    property = await ctx.db.get(propertyId as Id<"properties">);
   } catch {
-    return {
-      ok: false,
-      error: "INVALID_AGENT",
-      message: ERROR_CODES.INVALID_AGENT,
-    };
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
   }
 
-  if (!targetAgent) {
-    return {
-      ok: false,
-      error: "INVALID_AGENT",
-      message: ERROR_CODES.INVALID_AGENT,
-    };
+  if (!property) {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
   }
 
-  // 2. Cannot message yourself
-  if (targetAgentId === agent._id.toString()) {
-    return {
-      ok: false,
-      error: "INVALID_AGENT",
-      message: "Cannot send a message to yourself",
-    };
+  // 2. Check property is in agent's zone
+  if (property.zoneId !== agent.locationZoneId) {
+    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
   }
 
-  // 3. Validate content length (1-500 chars)
-  if (!content || content.length === 0) {
-    return {
-      ok: false,
-      error: "INVALID_REQUEST_ID",
-      message: "Message content cannot be empty",
-    };
+  // 3. Check not already resident
+  const existingResidency = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+    .first();
+
+  if (existingResidency && existingResidency.propertyId === property._id) {
+    return { ok: false, error: "ALREADY_RESIDENT", message: ERROR_CODES.ALREADY_RESIDENT };
   }
 
-  if (content.length > 500) {
-    return {
-      ok: false,
-      error: "INVALID_REQUEST_ID",
-      message: "Message content cannot exceed 500 characters",
-    };
+  // 4. Check capacity
+  const currentResidents = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
+    .collect();
+
+  if (currentResidents.length >= property.capacity) {
+    return { ok: false, error: "PROPERTY_AT_CAPACITY", message: ERROR_CODES.PROPERTY_AT_CAPACITY };
   }
 
-  // 4. Insert message record
-  const messageId = await ctx.db.insert("messages", {
-    senderId: agent._id,
-    recipientId: targetAgent._id,
-    content,
-    read: false,
-    tick: world.tick,
-    timestamp: Date.now(),
+  // 5. Pay first rent
+  if (agent.cash < property.rentPrice) {
+    return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${property.rentPrice}` };
+  }
+
+  const newCash = agent.cash - property.rentPrice;
+  await ctx.db.patch(agent._id, {
+    cash: newCash,
+    homePropertyId: agent.homePropertyId ?? property._id,
   });
 
-  // 5. Log MESSAGE_SENT event
-  await ctx.db.insert("events", {
+  // 6. Create residency record
+  const rentDueAt = world.tick + SOCIAL_DEFAULTS.rentDueInterval;
+  await ctx.db.insert("propertyResidents", {
+    propertyId: property._id,
+    agentId: agent._id,
+    isOwner: false,
+    rentDueAt,
+    moveInAt: Date.now(),
+  });
+
+  // 7. Pay owner if there is one
+  if (property.ownerId) {
+    const owner = await ctx.db.get(property.ownerId);
+    if (owner) {
+      await ctx.db.patch(owner._id, { cash: owner.cash + property.rentPrice });
+    }
+  } else if (property.ownerGangId) {
+    const ownerGang = await ctx.db.get(property.ownerGangId);
+    if (ownerGang) {
+      await recordGangTransaction(ctx, ownerGang, agent._id, "credit", property.rentPrice, "GANG_RENT", world.tick, null);
+    }
+  }
+
+  // 8. Log event
+  const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "MESSAGE_SENT",
+    type: "PROPERTY_RENTED",
     agentId: agent._id,
-    zoneId: agent.locationZoneId,
-    entityId: messageId,
+    zoneId: property.zoneId,
+    entityId: property._id,
     payload: {
-      recipientId: targetAgent._id,
-      recipientName: targetAgent.name,
-      contentLength: content.length,
+      propertyName: property.name,
+      propertyType: property.type,
+      rentPrice: property.rentPrice,
+      nextRentDue: rentDueAt,
     },
     requestId,
   });
 
-  // 6. Return success with messageId
+  // 9. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: property.rentPrice,
+    reason: "RENT_PAYMENT",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
   return {
     ok: true,
-    message: `Message sent to ${targetAgent.name}`,
+    message: `Rented ${property.name} for $${property.rentPrice}/interval`,
     result: {
-      messageId,
-      recipientId: targetAgent._id,
-      recipientName: targetAgent.name,
+      propertyId: property._id,
+      propertyName: property.name,
+      rentPrice: property.rentPrice,
+      nextRentDue: rentDueAt,
     },
   };
 }
 
-// ============================================================================
-// GTA-LIKE FREEDOM ACTION HANDLERS
-// ============================================================================
-
-/**
- * ATTEMPT_JAILBREAK - Try to escape from jail
- * Prereq: Agent must be jailed
- * Success (20% + combat bonus): Free agent, move to residential, +20 heat
- * Failure: Extend sentence by 50 ticks, +30 heat
- */
-async function handleAttemptJailbreak(
+async function handleInviteResident(
   actionCtx: ActionContext,
-  _args: ActionArgs["ATTEMPT_JAILBREAK"]
+  args: ActionArgs["INVITE_RESIDENT"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
+  const { propertyId, targetAgentId } = args;
 
-  // 1. Must be jailed
-  if (agent.status !== "jailed") {
-    return { ok: false, error: "NOT_JAILED", message: ERROR_CODES.NOT_JAILED };
+  // 1. Get property
+  let property: Doc<"properties"> | null = null;
+  try {
+    property = await ctx.db.get(propertyId as Id<"properties">);
+  } catch {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
   }
 
-  // 2. Calculate success chance
-  const baseSuccess = GTA_DEFAULTS.jailbreakBaseSuccess;
-  const combatBonus = agent.skills.combat * GTA_DEFAULTS.jailbreakCombatBonus;
-  const successChance = Math.min(0.80, baseSuccess + combatBonus); // Cap at 80%
-
-  // 3. Roll for success
-  const rng = createTickRng(world.seed, world.tick);
-  const succeeded = rng.randomChance(successChance);
+  if (!property) {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
 
-  const timestamp = Date.now();
+  // 2. Check ownership (or officer of the owning gang)
+  if (!(await canManageProperty(ctx, agent, property))) {
+    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
+  }
 
-  if (succeeded) {
-    // Success - free agent
-    const residentialZone = await ctx.db
-      .query("zones")
-      .withIndex("by_slug", (q) => q.eq("slug", "residential"))
-      .first();
+  // 3. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
 
-    const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.jailbreakSuccessHeat);
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
 
-    await ctx.db.patch(agent._id, {
-      status: "idle",
+  // 4. Check target in same zone
+  if (targetAgent.locationZoneId !== property.zoneId) {
+    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  }
+
+  // 5. Check capacity
+  const currentResidents = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
+    .collect();
+
+  if (currentResidents.length >= property.capacity) {
+    return { ok: false, error: "PROPERTY_AT_CAPACITY", message: ERROR_CODES.PROPERTY_AT_CAPACITY };
+  }
+
+  // 6. Check not already resident
+  const existingResidency = currentResidents.find((r) => r.agentId === targetAgent._id);
+  if (existingResidency) {
+    return { ok: false, error: "ALREADY_RESIDENT", message: ERROR_CODES.ALREADY_RESIDENT };
+  }
+
+  // 7. Add as resident (rent-free guest)
+  await ctx.db.insert("propertyResidents", {
+    propertyId: property._id,
+    agentId: targetAgent._id,
+    isOwner: false,
+    moveInAt: Date.now(),
+  });
+
+  // 8. Update target's home if they don't have one
+  if (!targetAgent.homePropertyId) {
+    await ctx.db.patch(targetAgent._id, { homePropertyId: property._id });
+  }
+
+  // 9. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "RESIDENT_INVITED",
+    agentId: agent._id,
+    zoneId: property.zoneId,
+    entityId: property._id,
+    payload: {
+      propertyName: property.name,
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Invited ${targetAgent.name} to live at ${property.name}`,
+    result: {
+      propertyId: property._id,
+      propertyName: property.name,
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+    },
+  };
+}
+
+async function handleEvictResident(
+  actionCtx: ActionContext,
+  args: ActionArgs["EVICT_RESIDENT"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { propertyId, targetAgentId } = args;
+
+  // 1. Get property
+  let property: Doc<"properties"> | null = null;
+  try {
+    property = await ctx.db.get(propertyId as Id<"properties">);
+  } catch {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
+
+  if (!property) {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
+
+  // 2. Check ownership (or officer of the owning gang)
+  if (!(await canManageProperty(ctx, agent, property))) {
+    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
+  }
+
+  // 3. Find residency
+  const residency = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
+    .collect();
+
+  const targetResidency = residency.find((r) => r.agentId === (targetAgentId as Id<"agents">));
+  if (!targetResidency) {
+    return { ok: false, error: "NOT_RESIDENT", message: ERROR_CODES.NOT_RESIDENT };
+  }
+
+  // 4. Cannot evict self (owner)
+  if (targetResidency.agentId === agent._id) {
+    return { ok: false, error: "INVALID_ACTION", message: "Cannot evict yourself" };
+  }
+
+  // 5. Delete residency
+  await ctx.db.delete(targetResidency._id);
+
+  // 6. Update target's home if this was it
+  const targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  if (targetAgent && targetAgent.homePropertyId === property._id) {
+    await ctx.db.patch(targetAgent._id, { homePropertyId: undefined });
+  }
+
+  // 7. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "RESIDENT_EVICTED",
+    agentId: agent._id,
+    zoneId: property.zoneId,
+    entityId: property._id,
+    payload: {
+      propertyName: property.name,
+      targetAgentId,
+      targetAgentName: targetAgent?.name,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Evicted ${targetAgent?.name ?? "resident"} from ${property.name}`,
+    result: {
+      propertyId: property._id,
+      propertyName: property.name,
+      targetAgentId,
+      targetAgentName: targetAgent?.name,
+    },
+  };
+}
+
+// ============================================================================
+// SOCIAL ACTION HANDLERS - PVP & SOCIAL
+// ============================================================================
+
+async function handleGiftCash(
+  actionCtx: ActionContext,
+  args: ActionArgs["GIFT_CASH"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId, amount } = args;
+
+  // 1. Cannot gift to self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_GIFT_SELF", message: ERROR_CODES.CANNOT_GIFT_SELF };
+  }
+
+  // 2. Validate amount
+  if (amount < SOCIAL_DEFAULTS.giftCashMin || amount > SOCIAL_DEFAULTS.giftCashMax) {
+    return { ok: false, error: "INVALID_ACTION", message: `Amount must be $${SOCIAL_DEFAULTS.giftCashMin}-$${SOCIAL_DEFAULTS.giftCashMax}` };
+  }
+
+  if (agent.cash < amount) {
+    return { ok: false, error: "INSUFFICIENT_FUNDS", message: ERROR_CODES.INSUFFICIENT_FUNDS };
+  }
+
+  // 3. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 4. Target must be in same zone
+  if (targetAgent.locationZoneId !== agent.locationZoneId) {
+    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  }
+
+  // 5. Transfer cash
+  const newCash = agent.cash - amount;
+  await ctx.db.patch(agent._id, { cash: newCash });
+  await ctx.db.patch(targetAgent._id, { cash: targetAgent.cash + amount });
+
+  // 6. Update social stats
+  const agentSocialStats = agent.socialStats ?? {
+    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
+  };
+  await ctx.db.patch(agent._id, {
+    socialStats: { ...agentSocialStats, giftsGiven: agentSocialStats.giftsGiven + 1 },
+  });
+
+  const targetSocialStats = targetAgent.socialStats ?? {
+    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
+  };
+  await ctx.db.patch(targetAgent._id, {
+    socialStats: { ...targetSocialStats, giftsReceived: targetSocialStats.giftsReceived + 1 },
+  });
+
+  // 7. Strengthen friendship if exists
+  const friendship = await findFriendship(ctx, agent._id, targetAgent._id);
+  if (friendship && friendship.status === "accepted") {
+    const newStrength = Math.min(100, friendship.strength + 5);
+    await ctx.db.patch(friendship._id, {
+      strength: newStrength,
+      lastInteractionTick: world.tick,
+    });
+  }
+
+  // 8. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "CASH_GIFTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: null,
+    payload: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      amount,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Gifted $${amount} to ${targetAgent.name}`,
+    result: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      amount,
+      newCash,
+    },
+  };
+}
+
+async function handleGiftItem(
+  actionCtx: ActionContext,
+  args: ActionArgs["GIFT_ITEM"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId, itemSlug, qty } = args;
+
+  // 1. Cannot gift to self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_GIFT_SELF", message: ERROR_CODES.CANNOT_GIFT_SELF };
+  }
+
+  // 2. Get item
+  const item = await ctx.db
+    .query("items")
+    .withIndex("by_slug", (q) => q.eq("slug", itemSlug))
+    .first();
+
+  if (!item) {
+    return { ok: false, error: "INVALID_ITEM", message: ERROR_CODES.INVALID_ITEM };
+  }
+
+  // 3. Check agent has item
+  const inventoryIndex = agent.inventory.findIndex((inv) => inv.itemId === item._id);
+  if (inventoryIndex === -1 || agent.inventory[inventoryIndex].qty < qty) {
+    return { ok: false, error: "INSUFFICIENT_INVENTORY", message: ERROR_CODES.INSUFFICIENT_INVENTORY };
+  }
+
+  // 4. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 5. Target must be in same zone
+  if (targetAgent.locationZoneId !== agent.locationZoneId) {
+    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  }
+
+  // 6. Transfer item
+  // Remove from agent
+  const agentInventory = [...agent.inventory];
+  if (agentInventory[inventoryIndex].qty === qty) {
+    agentInventory.splice(inventoryIndex, 1);
+  } else {
+    agentInventory[inventoryIndex] = {
+      ...agentInventory[inventoryIndex],
+      qty: agentInventory[inventoryIndex].qty - qty,
+    };
+  }
+  await ctx.db.patch(agent._id, { inventory: agentInventory });
+
+  // Add to target
+  const targetInventory = [...targetAgent.inventory];
+  const targetIndex = targetInventory.findIndex((inv) => inv.itemId === item._id);
+  if (targetIndex === -1) {
+    targetInventory.push({ itemId: item._id, qty });
+  } else {
+    targetInventory[targetIndex] = {
+      ...targetInventory[targetIndex],
+      qty: targetInventory[targetIndex].qty + qty,
+    };
+  }
+  await ctx.db.patch(targetAgent._id, { inventory: targetInventory });
+
+  // 7. Update social stats
+  const agentSocialStats = agent.socialStats ?? {
+    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
+  };
+  await ctx.db.patch(agent._id, {
+    socialStats: { ...agentSocialStats, giftsGiven: agentSocialStats.giftsGiven + 1 },
+  });
+
+  const targetSocialStats = targetAgent.socialStats ?? {
+    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
+  };
+  await ctx.db.patch(targetAgent._id, {
+    socialStats: { ...targetSocialStats, giftsReceived: targetSocialStats.giftsReceived + 1 },
+  });
+
+  // 8. Strengthen friendship if exists
+  const friendship = await findFriendship(ctx, agent._id, targetAgent._id);
+  if (friendship && friendship.status === "accepted") {
+    const newStrength = Math.min(100, friendship.strength + 5);
+    await ctx.db.patch(friendship._id, {
+      strength: newStrength,
+      lastInteractionTick: world.tick,
+    });
+  }
+
+  // 9. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "ITEM_GIFTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: item._id,
+    payload: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      itemSlug,
+      itemName: item.name,
+      qty,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Gifted ${qty}x ${item.name} to ${targetAgent.name}`,
+    result: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      itemSlug,
+      itemName: item.name,
+      qty,
+    },
+  };
+}
+
+async function handleRobAgent(
+  actionCtx: ActionContext,
+  args: ActionArgs["ROB_AGENT"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId } = args;
+
+  // 1. Cannot rob self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_ROB_SELF", message: ERROR_CODES.CANNOT_ROB_SELF };
+  }
+
+  // 2. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 3. Target must be in same zone
+  if (targetAgent.locationZoneId !== agent.locationZoneId) {
+    return { ok: false, error: "AGENT_NOT_IN_ZONE", message: ERROR_CODES.AGENT_NOT_IN_ZONE };
+  }
+
+  // 4. Target must be idle (can't rob busy/jailed/hospitalized)
+  if (targetAgent.status !== "idle") {
+    return { ok: false, error: "INVALID_AGENT", message: "Target is not vulnerable (not idle)" };
+  }
+
+  // 5. Calculate success chance
+  const successChance = getRobSuccessChance(agent);
+
+  // 6. Roll for success
+  const rng = createTickRng(world.seed, world.tick);
+  const succeeded = rng.randomChance(successChance);
+
+  // 7. Apply heat regardless of outcome (the attempt also counts as combat and stealth practice)
+  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + SOCIAL_DEFAULTS.robHeat);
+  await ctx.db.patch(agent._id, {
+    heat: newHeat,
+    skillsLastPracticedTick: practiceSkills(agent, ["combat", "stealth"], world.tick),
+  });
+
+  const timestamp = Date.now();
+
+  if (succeeded) {
+    // Calculate stolen amount
+    const stealPercent = SOCIAL_DEFAULTS.robCashStealMin +
+      rng.random() * (SOCIAL_DEFAULTS.robCashStealMax - SOCIAL_DEFAULTS.robCashStealMin);
+    const stolenAmount = Math.floor(targetAgent.cash * stealPercent);
+
+    // Transfer cash
+    const newCash = agent.cash + stolenAmount;
+    await ctx.db.patch(agent._id, { cash: newCash });
+    await ctx.db.patch(targetAgent._id, { cash: targetAgent.cash - stolenAmount });
+
+    // Robbing a member of a gang we're at war with scores for our side
+    const warHit = await recordWarHit(ctx, agent, targetAgent, GANG_WAR_DEFAULTS.scorePerRobbery);
+
+    // Log event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "AGENT_ROBBED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        stolenAmount,
+        successChance,
+        warScore: warHit?.points ?? 0,
+      },
+      requestId,
+    });
+
+    // Also log event for victim
+    const victimEventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "AGENT_ROBBED",
+      agentId: targetAgent._id,
+      zoneId: targetAgent.locationZoneId,
+      entityId: null,
+      payload: {
+        robberId: agent._id,
+        robberName: agent.name,
+        stolenAmount,
+        isVictim: true,
+      },
+      requestId: null,
+    });
+
+    // Victim's property insurance claims the loss
+    await fileInsuranceClaim(ctx, {
+      victimId: targetAgent._id,
+      type: "property",
+      perpetratorId: agent._id,
+      loss: stolenAmount,
+      tick: world.tick,
+      refEventId: victimEventId,
+    });
+
+    return {
+      ok: true,
+      message: `Robbed $${stolenAmount} from ${targetAgent.name}!`,
+      result: {
+        success: true,
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        stolenAmount,
+        newCash,
+        newHeat,
+        successChance,
+        warScore: warHit?.points ?? 0,
+      },
+    };
+  } else {
+    // Failed - take damage
+    const damage = rng.randomInt(SOCIAL_DEFAULTS.robFailureDamageMin, SOCIAL_DEFAULTS.robFailureDamageMax);
+    const newHealth = Math.max(0, agent.health - damage);
+    const hospitalized = newHealth === 0;
+
+    await ctx.db.patch(agent._id, {
+      health: newHealth,
+      status: hospitalized ? "hospitalized" : agent.status,
+    });
+
+    // Log event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "ROB_ATTEMPT_FAILED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        damage,
+        hospitalized,
+        successChance,
+      },
+      requestId,
+    });
+
+    return {
+      ok: true,
+      message: `Rob attempt failed! Took ${damage} damage.`,
+      result: {
+        success: false,
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        damage,
+        newHealth,
+        hospitalized,
+        newHeat,
+        successChance,
+      },
+    };
+  }
+}
+
+async function handleBetrayGang(
+  actionCtx: ActionContext,
+  _args: ActionArgs["BETRAY_GANG"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Check in gang
+  if (!agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
+  }
+
+  // 2. Get gang
+  const gang = await ctx.db.get(agent.gangId);
+  if (!gang) {
+    await ctx.db.patch(agent._id, { gangId: undefined });
+    return { ok: false, error: "INVALID_GANG", message: ERROR_CODES.INVALID_GANG };
+  }
+
+  // 3. Calculate stolen amount
+  const stolenAmount = Math.floor(gang.treasury * SOCIAL_DEFAULTS.betrayTreasurySteal);
+
+  // 4. Get membership
+  const membership = await ctx.db
+    .query("gangMembers")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+    .first();
+
+  // 5. Delete membership
+  if (membership) {
+    await ctx.db.delete(membership._id);
+  }
+
+  // 6. Update gang
+  await ctx.db.patch(gang._id, {
+    treasury: gang.treasury - stolenAmount,
+    memberCount: Math.max(0, gang.memberCount - 1),
+  });
+
+  // 7. If was leader, transfer or disband
+  if (gang.leaderId === agent._id) {
+    const otherMembers = await ctx.db
+      .query("gangMembers")
+      .withIndex("by_gangId", (q) => q.eq("gangId", gang._id))
+      .collect();
+
+    const otherMember = otherMembers.find((m) => m.agentId !== agent._id);
+    if (otherMember) {
+      await ctx.db.patch(gang._id, { leaderId: otherMember.agentId });
+      await ctx.db.patch(otherMember._id, { role: "leader" });
+    } else {
+      // Disband
+      const territories = await ctx.db.query("territories").withIndex("by_gangId", (q) => q.eq("gangId", gang._id)).collect();
+      for (const t of territories) {
+        await ctx.db.delete(t._id);
+      }
+      const invites = await ctx.db.query("gangInvites").withIndex("by_gangId", (q) => q.eq("gangId", gang._id)).collect();
+      for (const i of invites) {
+        await ctx.db.delete(i._id);
+      }
+      await releaseGangAssets(ctx, gang._id, false);
+      await ctx.db.delete(gang._id);
+    }
+  }
+
+  // 8. Update agent
+  const newCash = agent.cash + stolenAmount;
+  const newReputation = agent.reputation - SOCIAL_DEFAULTS.betrayReputationPenalty;
+  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + SOCIAL_DEFAULTS.betrayHeat);
+  const gangBanUntilTick = world.tick + SOCIAL_DEFAULTS.betrayGangBanDuration;
+
+  const agentSocialStats = agent.socialStats ?? {
+    totalFriends: 0, betrayals: 0, coopCrimesCompleted: 0, giftsGiven: 0, giftsReceived: 0
+  };
+
+  await ctx.db.patch(agent._id, {
+    gangId: undefined,
+    cash: newCash,
+    reputation: newReputation,
+    heat: newHeat,
+    gangBanUntilTick,
+    socialStats: { ...agentSocialStats, betrayals: agentSocialStats.betrayals + 1 },
+  });
+
+  // 9. Log event (public!)
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "GANG_BETRAYED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: gang._id,
+    payload: {
+      gangName: gang.name,
+      stolenAmount,
+      reputationPenalty: SOCIAL_DEFAULTS.betrayReputationPenalty,
+      banDuration: SOCIAL_DEFAULTS.betrayGangBanDuration,
+    },
+    requestId,
+  });
+
+  // 10. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "credit",
+    amount: stolenAmount,
+    reason: "GANG_BETRAYAL",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  // Gang-side entry for the stolen treasury
+  if (stolenAmount > 0) {
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "debit",
+      amount: stolenAmount,
+      reason: "GANG_BETRAYAL",
+      balance: gang.treasury - stolenAmount,
+      refEventId: eventId,
+      gangId: gang._id,
+    });
+  }
+
+  return {
+    ok: true,
+    message: `Betrayed ${gang.name}! Stole $${stolenAmount} but lost ${SOCIAL_DEFAULTS.betrayReputationPenalty} reputation.`,
+    result: {
+      gangName: gang.name,
+      stolenAmount,
+      reputationPenalty: SOCIAL_DEFAULTS.betrayReputationPenalty,
+      newReputation,
+      newHeat,
+      gangBanUntilTick,
+    },
+  };
+}
+
+// ============================================================================
+// TAX ACTION HANDLERS
+// ============================================================================
+
+async function handlePayTax(
+  actionCtx: ActionContext,
+  _args: ActionArgs["PAY_TAX"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Check if agent has taxes owed
+  if (!agent.taxOwed || agent.taxOwed <= 0) {
+    return {
+      ok: false,
+      error: "NO_TAX_DUE",
+      message: ERROR_CODES.NO_TAX_DUE,
+    };
+  }
+
+  const taxOwed = agent.taxOwed;
+
+  // 2. Check if agent has enough cash
+  if (agent.cash < taxOwed) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS_FOR_TAX",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS_FOR_TAX}. Need $${taxOwed}, have $${agent.cash}`,
+    };
+  }
+
+  // 3. Deduct tax from agent
+  const newCash = agent.cash - taxOwed;
+  await ctx.db.patch(agent._id, {
+    cash: newCash,
+    taxOwed: undefined,
+    taxGracePeriodEnd: undefined,
+    taxDueTick: world.tick + TAX_DEFAULTS.taxIntervalTicks,
+  });
+
+  // 4. Update government revenue
+  let government = await ctx.db.query("government").first();
+  if (!government) {
+    const govId = await ctx.db.insert("government", {
+      totalTaxRevenue: 0,
+      totalSeizedCash: 0,
+      totalSeizedItems: 0,
+    });
+    government = await ctx.db.get(govId);
+  }
+  if (government) {
+    await ctx.db.patch(government._id, {
+      totalTaxRevenue: government.totalTaxRevenue + taxOwed,
+    });
+  }
+
+  // 5. Log TAX_PAID event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "TAX_PAID",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: null,
+    payload: {
+      amount: taxOwed,
+      method: "manual",
+      newCash,
+      nextTaxDue: world.tick + TAX_DEFAULTS.taxIntervalTicks,
+    },
+    requestId,
+  });
+
+  // 6. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: taxOwed,
+    reason: "TAX_PAYMENT",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  return {
+    ok: true,
+    message: `Paid $${taxOwed} in taxes. Next tax assessment at tick ${world.tick + TAX_DEFAULTS.taxIntervalTicks}.`,
+    result: {
+      taxPaid: taxOwed,
+      newCash,
+      nextTaxDueTick: world.tick + TAX_DEFAULTS.taxIntervalTicks,
+    },
+  };
+}
+
+// ============================================================================
+// MESSAGING
+// ============================================================================
+
+async function handleSendMessage(
+  actionCtx: ActionContext,
+  args: ActionArgs["SEND_MESSAGE"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId, content } = args;
+
+  // 1. Validate target agent exists
+  let targetAgent;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return {
+      ok: false,
+      error: "INVALID_AGENT",
+      message: ERROR_CODES.INVALID_AGENT,
+    };
+  }
+
+  if (!targetAgent) {
+    return {
+      ok: false,
+      error: "INVALID_AGENT",
+      message: ERROR_CODES.INVALID_AGENT,
+    };
+  }
+
+  // 2. Cannot message yourself
+  if (targetAgentId === agent._id.toString()) {
+    return {
+      ok: false,
+      error: "INVALID_AGENT",
+      message: "Cannot send a message to yourself",
+    };
+  }
+
+  // 3. Validate content length (1-500 chars)
+  if (!content || content.length === 0) {
+    return {
+      ok: false,
+      error: "INVALID_REQUEST_ID",
+      message: "Message content cannot be empty",
+    };
+  }
+
+  if (content.length > 500) {
+    return {
+      ok: false,
+      error: "INVALID_REQUEST_ID",
+      message: "Message content cannot exceed 500 characters",
+    };
+  }
+
+  // 4. Insert message record
+  const messageId = await ctx.db.insert("messages", {
+    senderId: agent._id,
+    recipientId: targetAgent._id,
+    content,
+    read: false,
+    tick: world.tick,
+    timestamp: Date.now(),
+  });
+
+  // 5. Log MESSAGE_SENT event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "MESSAGE_SENT",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: messageId,
+    payload: {
+      recipientId: targetAgent._id,
+      recipientName: targetAgent.name,
+      contentLength: content.length,
+    },
+    requestId,
+  });
+
+  // 6. Return success with messageId
+  return {
+    ok: true,
+    message: `Message sent to ${targetAgent.name}`,
+    result: {
+      messageId,
+      recipientId: targetAgent._id,
+      recipientName: targetAgent.name,
+    },
+  };
+}
+
+// ============================================================================
+// GTA-LIKE FREEDOM ACTION HANDLERS
+// ============================================================================
+
+/**
+ * ATTEMPT_JAILBREAK - Try to escape from jail
+ * Prereq: Agent must be jailed
+ * Success (20% + combat bonus): Free agent, move to residential, +20 heat
+ * Failure: Extend sentence by 50 ticks, +30 heat
+ */
+async function handleAttemptJailbreak(
+  actionCtx: ActionContext,
+  _args: ActionArgs["ATTEMPT_JAILBREAK"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Must be jailed
+  if (agent.status !== "jailed") {
+    return { ok: false, error: "NOT_JAILED", message: ERROR_CODES.NOT_JAILED };
+  }
+
+  // 2. Calculate success chance (capped at 80%)
+  const successChance = getJailbreakSuccessChance(agent);
+
+  // 3. Roll for success
+  const rng = createTickRng(world.seed, world.tick);
+  const succeeded = rng.randomChance(successChance);
+
+  // Using the skill counts as practice (keeps it from decaying)
+  await ctx.db.patch(agent._id, {
+    skillsLastPracticedTick: practiceSkills(agent, ["combat"], world.tick),
+  });
+
+  const timestamp = Date.now();
+
+  if (succeeded) {
+    // Success - free agent
+    const residentialZone = await ctx.db
+      .query("zones")
+      .withIndex("by_slug", (q) => q.eq("slug", "residential"))
+      .first();
+
+    const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.jailbreakSuccessHeat);
+
+    await ctx.db.patch(agent._id, {
+      status: "idle",
       busyUntilTick: null,
       busyAction: null,
       heat: newHeat,
       locationZoneId: residentialZone?._id ?? agent.locationZoneId,
     });
 
-    // Log success event
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "JAILBREAK_SUCCESS",
-      agentId: agent._id,
-      zoneId: residentialZone?._id ?? agent.locationZoneId,
-      entityId: null,
-      payload: {
-        successChance,
-        heatGained: GTA_DEFAULTS.jailbreakSuccessHeat,
-        newHeat,
-      },
-      requestId,
-    });
+    // Log success event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "JAILBREAK_SUCCESS",
+      agentId: agent._id,
+      zoneId: residentialZone?._id ?? agent.locationZoneId,
+      entityId: null,
+      payload: {
+        successChance,
+        heatGained: GTA_DEFAULTS.jailbreakSuccessHeat,
+        newHeat,
+      },
+      requestId,
+    });
+
+    return {
+      ok: true,
+      message: "Escaped from jail!",
+      result: {
+        success: true,
+        successChance,
+        newHeat,
+        newZone: "residential",
+      },
+    };
+  } else {
+    // Failure - extend sentence
+    const currentSentence = agent.busyUntilTick ?? world.tick;
+    const newSentence = currentSentence + GTA_DEFAULTS.jailbreakFailureSentenceAdd;
+    const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.jailbreakFailureHeat);
+
+    await ctx.db.patch(agent._id, {
+      busyUntilTick: newSentence,
+      heat: newHeat,
+    });
+
+    // Log failure event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "JAILBREAK_FAILED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        successChance,
+        sentenceExtension: GTA_DEFAULTS.jailbreakFailureSentenceAdd,
+        newReleaseTick: newSentence,
+        heatGained: GTA_DEFAULTS.jailbreakFailureHeat,
+      },
+      requestId,
+    });
+
+    return {
+      ok: true,
+      message: `Jailbreak failed! Sentence extended by ${GTA_DEFAULTS.jailbreakFailureSentenceAdd} ticks.`,
+      result: {
+        success: false,
+        successChance,
+        sentenceExtension: GTA_DEFAULTS.jailbreakFailureSentenceAdd,
+        newReleaseTick: newSentence,
+        newHeat,
+      },
+    };
+  }
+}
+
+/**
+ * BRIBE_COPS - Pay to reduce heat
+ * Prereq: Heat > 60, have enough cash
+ * Success (60% + negotiation bonus): Reduce heat by 50%
+ * Failure: Lose money, +20 heat
+ */
+async function handleBribeCops(
+  actionCtx: ActionContext,
+  _args: ActionArgs["BRIBE_COPS"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Must have high enough heat
+  if (agent.heat < GTA_DEFAULTS.bribeMinHeat) {
+    return {
+      ok: false,
+      error: "HEAT_TOO_LOW",
+      message: `${ERROR_CODES.HEAT_TOO_LOW}. Need at least ${GTA_DEFAULTS.bribeMinHeat} heat.`,
+    };
+  }
+
+  // 2. Calculate bribe cost
+  const bribeCost = getBribeCost(agent);
+
+  // 3. Check agent has enough cash
+  if (agent.cash < bribeCost) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Bribe costs $${bribeCost} (${agent.heat} heat × $${GTA_DEFAULTS.bribeCostPerHeat}).`,
+    };
+  }
+
+  // 4. Calculate success chance
+  const successChance = getBribeSuccessChance(agent);
+
+  // 5. Roll for success
+  const rng = createTickRng(world.seed, world.tick);
+  const succeeded = rng.randomChance(successChance);
+
+  // Using the skill counts as practice (keeps it from decaying)
+  await ctx.db.patch(agent._id, {
+    skillsLastPracticedTick: practiceSkills(agent, ["negotiation"], world.tick),
+  });
+
+  const timestamp = Date.now();
+
+  // Always deduct the bribe cost
+  const newCash = agent.cash - bribeCost;
+
+  if (succeeded) {
+    // Success - reduce heat by 50%
+    const newHeat = Math.floor(agent.heat * 0.5);
+
+    await ctx.db.patch(agent._id, {
+      cash: newCash,
+      heat: newHeat,
+    });
+
+    // Log success event
+    const eventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "BRIBE_SUCCESS",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        bribeCost,
+        heatReduced: agent.heat - newHeat,
+        newHeat,
+        successChance,
+      },
+      requestId,
+    });
+
+    // Ledger entry
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "debit",
+      amount: bribeCost,
+      reason: "BRIBE",
+      balance: newCash,
+      refEventId: eventId,
+    });
+
+    return {
+      ok: true,
+      message: `Bribe successful! Heat reduced from ${agent.heat} to ${newHeat}.`,
+      result: {
+        success: true,
+        bribeCost,
+        heatReduced: agent.heat - newHeat,
+        newHeat,
+        newCash,
+        successChance,
+      },
+    };
+  } else {
+    // Failure - lose money and gain heat
+    const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.bribeFailureHeatAdd);
+
+    await ctx.db.patch(agent._id, {
+      cash: newCash,
+      heat: newHeat,
+    });
+
+    // Log failure event
+    const eventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "BRIBE_FAILED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        bribeCost,
+        heatGained: GTA_DEFAULTS.bribeFailureHeatAdd,
+        newHeat,
+        successChance,
+      },
+      requestId,
+    });
+
+    // Ledger entry
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "debit",
+      amount: bribeCost,
+      reason: "BRIBE_FAILED",
+      balance: newCash,
+      refEventId: eventId,
+    });
+
+    return {
+      ok: true,
+      message: `Bribe rejected! Lost $${bribeCost} and gained ${GTA_DEFAULTS.bribeFailureHeatAdd} heat.`,
+      result: {
+        success: false,
+        bribeCost,
+        heatGained: GTA_DEFAULTS.bribeFailureHeatAdd,
+        newHeat,
+        newCash,
+        successChance,
+      },
+    };
+  }
+}
+
+/**
+ * ATTACK_AGENT - PvP combat dealing damage
+ * Prereq: Target in same zone, target is idle
+ * Success (50% + combat bonus): Deal 15-40 damage
+ * Kill (target health → 0): Target hospitalized 100 ticks, loses 25% cash
+ * Failure: Take 5-15 counter-damage
+ * Always: +25 heat
+ * Allied gangs cannot attack each other; attacking a pact partner breaks the pact
+ */
+async function handleAttackAgent(
+  actionCtx: ActionContext,
+  args: ActionArgs["ATTACK_AGENT"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId } = args;
+
+  // 1. Cannot attack self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_ATTACK_SELF", message: ERROR_CODES.CANNOT_ATTACK_SELF };
+  }
+
+  // 2. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 3. Target must be in same zone
+  if (targetAgent.locationZoneId !== agent.locationZoneId) {
+    return { ok: false, error: "TARGET_NOT_IN_ZONE", message: ERROR_CODES.TARGET_NOT_IN_ZONE };
+  }
+
+  // 4. Target must be idle
+  if (targetAgent.status !== "idle") {
+    return { ok: false, error: "TARGET_NOT_IDLE", message: ERROR_CODES.TARGET_NOT_IDLE };
+  }
+
+  // 5. Check gang treaties
+  let pactBroken = false;
+  if (agent.gangId && targetAgent.gangId && agent.gangId !== targetAgent.gangId) {
+    if (await findActiveTreaty(ctx, agent.gangId, targetAgent.gangId, "alliance")) {
+      return { ok: false, error: "ALLIED_GANG", message: ERROR_CODES.ALLIED_GANG };
+    }
+
+    const pact = await findActiveTreaty(ctx, agent.gangId, targetAgent.gangId, "nap");
+    if (pact) {
+      await breakTreaty(ctx, pact, agent.gangId, agent._id, agent.locationZoneId, world.tick, "attack");
+      pactBroken = true;
+    }
+  }
+
+  // 6. Calculate success chance
+  const successChance = getAttackSuccessChance(agent);
+
+  // 7. Roll for success
+  const rng = createTickRng(world.seed, world.tick);
+  const succeeded = rng.randomChance(successChance);
+
+  // Using the skill counts as practice (keeps it from decaying)
+  await ctx.db.patch(agent._id, {
+    skillsLastPracticedTick: practiceSkills(agent, ["combat"], world.tick),
+  });
+
+  const timestamp = Date.now();
+
+  // Always gain heat for attacking
+  const newAttackerHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.attackHeat);
+
+  // Initialize combat stats if needed
+  const attackerCombatStats = agent.combatStats ?? {
+    kills: 0,
+    deaths: 0,
+    bountiesClaimed: 0,
+    bountiesPlaced: 0,
+  };
+  const targetCombatStats = targetAgent.combatStats ?? {
+    kills: 0,
+    deaths: 0,
+    bountiesClaimed: 0,
+    bountiesPlaced: 0,
+  };
+
+  if (succeeded) {
+    // Calculate damage dealt
+    const damage = rng.randomInt(GTA_DEFAULTS.attackBaseDamage.min, GTA_DEFAULTS.attackBaseDamage.max);
+    const newTargetHealth = Math.max(0, targetAgent.health - damage);
+    const killed = newTargetHealth === 0;
+
+    let cashStolen = 0;
+    let newTargetCash = targetAgent.cash;
+    let contractPayout = 0;
+
+    if (killed) {
+      // Target killed - hospitalize them and they lose 25% cash
+      cashStolen = Math.floor(targetAgent.cash * GTA_DEFAULTS.deathCashLoss);
+      newTargetCash = targetAgent.cash - cashStolen;
+
+      // Get hospital zone
+      const hospitalZone = await ctx.db
+        .query("zones")
+        .withIndex("by_slug", (q) => q.eq("slug", "hospital"))
+        .first();
+
+      await ctx.db.patch(targetAgent._id, {
+        health: 50, // Respawn with 50 health
+        cash: newTargetCash,
+        status: "hospitalized",
+        busyUntilTick: world.tick + GTA_DEFAULTS.deathRespawnTicks,
+        busyAction: "RECOVERING",
+        locationZoneId: hospitalZone?._id ?? targetAgent.locationZoneId,
+        combatStats: { ...targetCombatStats, deaths: targetCombatStats.deaths + 1 },
+      });
+
+      // Attacker gets the stolen cash and kill credit
+      await ctx.db.patch(agent._id, {
+        heat: newAttackerHeat,
+        cash: agent.cash + cashStolen,
+        combatStats: { ...attackerCombatStats, kills: attackerCombatStats.kills + 1 },
+      });
+
+      // Log kill event
+      const killEventId = await ctx.db.insert("events", {
+        tick: world.tick,
+        timestamp,
+        type: "AGENT_KILLED",
+        agentId: agent._id,
+        zoneId: agent.locationZoneId,
+        entityId: null,
+        payload: {
+          targetAgentId: targetAgent._id,
+          targetAgentName: targetAgent.name,
+          damage,
+          cashStolen,
+          respawnTicks: GTA_DEFAULTS.deathRespawnTicks,
+        },
+        requestId,
+      });
+
+      // Victim's health insurance claims the cash lost on death
+      await fileInsuranceClaim(ctx, {
+        victimId: targetAgent._id,
+        type: "health",
+        perpetratorId: agent._id,
+        loss: cashStolen,
+        tick: world.tick,
+        refEventId: killEventId,
+      });
+
+      // Pay out any contracts this agent accepted on the target
+      contractPayout = await completeContractsOnKill(actionCtx, targetAgent, agent.cash + cashStolen);
+    } else {
+      // Target damaged but not killed
+      await ctx.db.patch(targetAgent._id, {
+        health: newTargetHealth,
+      });
+
+      await ctx.db.patch(agent._id, {
+        heat: newAttackerHeat,
+      });
+    }
+
+    // Hits on a gang we're at war with score for our side
+    const warHit = await recordWarHit(
+      ctx,
+      agent,
+      targetAgent,
+      killed ? GANG_WAR_DEFAULTS.scorePerKill : GANG_WAR_DEFAULTS.scorePerAttack
+    );
+
+    // Log attack event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "AGENT_ATTACKED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        damage,
+        killed,
+        cashStolen,
+        newTargetHealth,
+        successChance,
+        warScore: warHit?.points ?? 0,
+      },
+      requestId,
+    });
+
+    return {
+      ok: true,
+      message: killed
+        ? `Killed ${targetAgent.name}! Stole $${cashStolen}.${contractPayout > 0 ? ` Contract paid out $${contractPayout}.` : ""}`
+        : `Hit ${targetAgent.name} for ${damage} damage!`,
+      result: {
+        success: true,
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        damage,
+        killed,
+        cashStolen,
+        contractPayout,
+        newTargetHealth,
+        newAttackerHeat,
+        successChance,
+        warScore: warHit?.points ?? 0,
+        pactBroken,
+      },
+    };
+  } else {
+    // Attack failed - take counter-damage
+    const counterDamage = rng.randomInt(
+      GTA_DEFAULTS.attackCounterDamage.min,
+      GTA_DEFAULTS.attackCounterDamage.max
+    );
+    const newAttackerHealth = Math.max(0, agent.health - counterDamage);
+    const attackerHospitalized = newAttackerHealth === 0;
+
+    await ctx.db.patch(agent._id, {
+      health: newAttackerHealth,
+      heat: newAttackerHeat,
+      status: attackerHospitalized ? "hospitalized" : agent.status,
+      busyUntilTick: attackerHospitalized ? world.tick + GTA_DEFAULTS.deathRespawnTicks : agent.busyUntilTick,
+      busyAction: attackerHospitalized ? "RECOVERING" : agent.busyAction,
+    });
+
+    // Log failed attack event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "AGENT_ATTACKED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        attackFailed: true,
+        counterDamage,
+        attackerHospitalized,
+        successChance,
+      },
+      requestId,
+    });
+
+    return {
+      ok: true,
+      message: `Attack failed! Took ${counterDamage} counter-damage.`,
+      result: {
+        success: false,
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        counterDamage,
+        newAttackerHealth,
+        attackerHospitalized,
+        newAttackerHeat,
+        successChance,
+        pactBroken,
+      },
+    };
+  }
+}
+
+/**
+ * PLACE_BOUNTY - Put bounty on another agent
+ * Prereq: Have $500-$50,000 for bounty, target exists
+ */
+async function handlePlaceBounty(
+  actionCtx: ActionContext,
+  args: ActionArgs["PLACE_BOUNTY"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId, amount, reason } = args;
+
+  // 1. Cannot place bounty on self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_BOUNTY_SELF", message: ERROR_CODES.CANNOT_BOUNTY_SELF };
+  }
+
+  // 2. Validate bounty amount
+  if (amount < GTA_DEFAULTS.bountyMinAmount) {
+    return {
+      ok: false,
+      error: "BOUNTY_TOO_LOW",
+      message: `${ERROR_CODES.BOUNTY_TOO_LOW}. Minimum is $${GTA_DEFAULTS.bountyMinAmount}.`,
+    };
+  }
+
+  if (amount > GTA_DEFAULTS.bountyMaxAmount) {
+    return {
+      ok: false,
+      error: "BOUNTY_TOO_HIGH",
+      message: `${ERROR_CODES.BOUNTY_TOO_HIGH}. Maximum is $${GTA_DEFAULTS.bountyMaxAmount}.`,
+    };
+  }
+
+  // 3. Check agent has enough cash
+  if (agent.cash < amount) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${amount}.`,
+    };
+  }
+
+  // 4. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 5. Create bounty record
+  const expiresAt = world.tick + GTA_DEFAULTS.bountyDurationTicks;
+  const bountyId = await insertTracked(ctx, "bounties", {
+    targetAgentId: targetAgent._id,
+    placedByAgentId: agent._id,
+    amount,
+    reason,
+    status: "active",
+    createdAt: Date.now(),
+    expiresAt,
+  });
+
+  // 6. Deduct cash from agent
+  const newCash = agent.cash - amount;
+
+  // Update combat stats
+  const combatStats = agent.combatStats ?? {
+    kills: 0,
+    deaths: 0,
+    bountiesClaimed: 0,
+    bountiesPlaced: 0,
+  };
+
+  await ctx.db.patch(agent._id, {
+    cash: newCash,
+    combatStats: { ...combatStats, bountiesPlaced: combatStats.bountiesPlaced + 1 },
+  });
+
+  // 7. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "BOUNTY_PLACED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: bountyId,
+    payload: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      amount,
+      reason,
+      expiresAt,
+    },
+    requestId,
+  });
+
+  // 8. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount,
+    reason: "BOUNTY_PLACED",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  return {
+    ok: true,
+    message: `Placed $${amount} bounty on ${targetAgent.name}!`,
+    result: {
+      bountyId,
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      amount,
+      expiresAt,
+    },
+  };
+}
+
+/**
+ * CLAIM_BOUNTY - Collect reward for killing bounty target
+ * Prereq: Target has active bounty, you killed them (they're hospitalized/dead)
+ */
+async function handleClaimBounty(
+  actionCtx: ActionContext,
+  args: ActionArgs["CLAIM_BOUNTY"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId } = args;
+
+  // 1. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 2. Find active bounty on target
+  const bounties = await ctx.db
+    .query("bounties")
+    .withIndex("by_targetAgentId", (q) => q.eq("targetAgentId", targetAgent._id))
+    .collect();
+
+  const activeBounty = bounties.find((b) => b.status === "active");
+
+  if (!activeBounty) {
+    return { ok: false, error: "NO_ACTIVE_BOUNTY", message: ERROR_CODES.NO_ACTIVE_BOUNTY };
+  }
+
+  // 3. Check if agent recently killed target (look for AGENT_KILLED event in last 10 ticks)
+  const recentEvents = await ctx.db
+    .query("events")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+    .order("desc")
+    .take(50);
+
+  const killEvent = recentEvents.find(
+    (e) =>
+      e.type === "AGENT_KILLED" &&
+      e.tick >= world.tick - 10 &&
+      (e.payload as { targetAgentId?: string })?.targetAgentId === targetAgent._id.toString()
+  );
+
+  if (!killEvent) {
+    return {
+      ok: false,
+      error: "NO_ACTIVE_BOUNTY",
+      message: "You haven't killed the bounty target recently.",
+    };
+  }
+
+  // 4. Claim bounty
+  await ctx.db.patch(activeBounty._id, {
+    status: "claimed",
+    claimedByAgentId: agent._id,
+  });
+
+  // 5. Pay out bounty and add heat
+  const newCash = agent.cash + activeBounty.amount;
+  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.bountyClaimHeat);
+
+  // Update combat stats
+  const combatStats = agent.combatStats ?? {
+    kills: 0,
+    deaths: 0,
+    bountiesClaimed: 0,
+    bountiesPlaced: 0,
+  };
+
+  await ctx.db.patch(agent._id, {
+    cash: newCash,
+    heat: newHeat,
+    combatStats: { ...combatStats, bountiesClaimed: combatStats.bountiesClaimed + 1 },
+  });
+
+  // 6. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "BOUNTY_CLAIMED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: activeBounty._id,
+    payload: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      amount: activeBounty.amount,
+      placedByAgentId: activeBounty.placedByAgentId,
+      heatGained: GTA_DEFAULTS.bountyClaimHeat,
+    },
+    requestId,
+  });
+
+  // 7. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "credit",
+    amount: activeBounty.amount,
+    reason: "BOUNTY_CLAIMED",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  return {
+    ok: true,
+    message: `Claimed $${activeBounty.amount} bounty on ${targetAgent.name}!`,
+    result: {
+      bountyId: activeBounty._id,
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      amount: activeBounty.amount,
+      newCash,
+      newHeat,
+    },
+  };
+}
+
+/**
+ * GAMBLE - Risk money at the casino
+ * Prereq: In market zone, $10-$5000 bet
+ */
+async function handleGamble(
+  actionCtx: ActionContext,
+  args: ActionArgs["GAMBLE"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { amount, riskType } = args;
+
+  // 1. Must be in market zone
+  const currentZone = await ctx.db.get(agent.locationZoneId);
+  if (!currentZone || currentZone.slug !== "market") {
+    return { ok: false, error: "NOT_IN_MARKET", message: ERROR_CODES.NOT_IN_MARKET };
+  }
+
+  // 2. Validate bet amount
+  if (amount < GTA_DEFAULTS.gambleMinAmount) {
+    return {
+      ok: false,
+      error: "GAMBLE_TOO_LOW",
+      message: `${ERROR_CODES.GAMBLE_TOO_LOW}. Minimum bet is $${GTA_DEFAULTS.gambleMinAmount}.`,
+    };
+  }
+
+  if (amount > GTA_DEFAULTS.gambleMaxAmount) {
+    return {
+      ok: false,
+      error: "GAMBLE_TOO_HIGH",
+      message: `${ERROR_CODES.GAMBLE_TOO_HIGH}. Maximum bet is $${GTA_DEFAULTS.gambleMaxAmount}.`,
+    };
+  }
+
+  // 3. Check agent has enough cash
+  if (agent.cash < amount) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${amount}.`,
+    };
+  }
+
+  // 4. Validate risk type
+  if (!GAMBLE_RISK_TYPES.includes(riskType as GambleRiskType)) {
+    return {
+      ok: false,
+      error: "INVALID_GAMBLE_TYPE",
+      message: `${ERROR_CODES.INVALID_GAMBLE_TYPE}. Valid types: ${GAMBLE_RISK_TYPES.join(", ")}.`,
+    };
+  }
+
+  const odds = GTA_DEFAULTS.gambleOdds[riskType as GambleRiskType];
+
+  // 5. Roll for win
+  const rng = createTickRng(world.seed, world.tick);
+  const won = rng.randomChance(odds.winChance);
+
+  const timestamp = Date.now();
+
+  if (won) {
+    // Win - multiply bet
+    const winnings = amount * odds.multiplier;
+    const newCash = agent.cash + winnings - amount; // Net gain
+
+    await ctx.db.patch(agent._id, { cash: newCash });
+
+    // Log win event
+    const eventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "GAMBLE_WON",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        betAmount: amount,
+        riskType,
+        multiplier: odds.multiplier,
+        winnings,
+        winChance: odds.winChance,
+      },
+      requestId,
+    });
+
+    // Ledger entry for net gain
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "credit",
+      amount: winnings - amount,
+      reason: "GAMBLING_WIN",
+      balance: newCash,
+      refEventId: eventId,
+    });
+
+    return {
+      ok: true,
+      message: `Won $${winnings}! (${odds.multiplier}x multiplier)`,
+      result: {
+        won: true,
+        betAmount: amount,
+        riskType,
+        multiplier: odds.multiplier,
+        winnings,
+        netGain: winnings - amount,
+        newCash,
+        winChance: odds.winChance,
+      },
+    };
+  } else {
+    // Lose bet
+    const newCash = agent.cash - amount;
+
+    await ctx.db.patch(agent._id, { cash: newCash });
+
+    // Log lose event
+    const eventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "GAMBLE_LOST",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: null,
+      payload: {
+        betAmount: amount,
+        riskType,
+        winChance: odds.winChance,
+      },
+      requestId,
+    });
+
+    // Ledger entry
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "debit",
+      amount,
+      reason: "GAMBLING_LOSS",
+      balance: newCash,
+      refEventId: eventId,
+    });
+
+    return {
+      ok: true,
+      message: `Lost $${amount}. Better luck next time!`,
+      result: {
+        won: false,
+        betAmount: amount,
+        riskType,
+        amountLost: amount,
+        newCash,
+        winChance: odds.winChance,
+      },
+    };
+  }
+}
+
+/**
+ * BUY_DISGUISE - Purchase a disguise for faster heat decay
+ * Options: basic ($200), professional ($500), elite ($1500)
+ */
+async function handleBuyDisguise(
+  actionCtx: ActionContext,
+  args: ActionArgs["BUY_DISGUISE"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { disguiseType } = args;
+
+  // 1. Validate disguise type
+  if (!DISGUISE_TYPES.includes(disguiseType as DisguiseType)) {
+    return {
+      ok: false,
+      error: "INVALID_DISGUISE_TYPE",
+      message: `${ERROR_CODES.INVALID_DISGUISE_TYPE}. Valid types: ${DISGUISE_TYPES.join(", ")}.`,
+    };
+  }
+
+  const disguiseConfig = GTA_DEFAULTS.disguiseTypes[disguiseType as DisguiseType];
+
+  // 2. Check agent has enough cash
+  if (agent.cash < disguiseConfig.cost) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. ${disguiseType} disguise costs $${disguiseConfig.cost}.`,
+    };
+  }
+
+  // 3. Deduct cash
+  const newCash = agent.cash - disguiseConfig.cost;
+  await ctx.db.patch(agent._id, { cash: newCash });
+
+  // 4. Create disguise record (replacing any existing)
+  const existingDisguise = await ctx.db
+    .query("disguises")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+    .first();
+
+  if (existingDisguise) {
+    await ctx.db.delete(existingDisguise._id);
+  }
+
+  const expiresAtTick = world.tick + disguiseConfig.durationTicks;
+  const disguiseId = await ctx.db.insert("disguises", {
+    agentId: agent._id,
+    type: disguiseType as DisguiseType,
+    heatReduction: disguiseConfig.heatReduction,
+    expiresAtTick,
+  });
+
+  // 5. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "DISGUISE_PURCHASED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: disguiseId,
+    payload: {
+      disguiseType,
+      cost: disguiseConfig.cost,
+      heatReduction: disguiseConfig.heatReduction,
+      durationTicks: disguiseConfig.durationTicks,
+      expiresAtTick,
+    },
+    requestId,
+  });
+
+  // 6. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: disguiseConfig.cost,
+    reason: "DISGUISE_PURCHASE",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  return {
+    ok: true,
+    message: `Purchased ${disguiseType} disguise. Heat decay increased by ${disguiseConfig.heatReduction} for ${disguiseConfig.durationTicks} ticks.`,
+    result: {
+      disguiseId,
+      disguiseType,
+      cost: disguiseConfig.cost,
+      heatReduction: disguiseConfig.heatReduction,
+      durationTicks: disguiseConfig.durationTicks,
+      expiresAtTick,
+      newCash,
+    },
+  };
+}
+
+/**
+ * STEAL_VEHICLE - Steal a vehicle for travel speed bonus
+ * Prereq: In zone with parked vehicle, don't already own vehicle
+ */
+async function handleStealVehicle(
+  actionCtx: ActionContext,
+  args: ActionArgs["STEAL_VEHICLE"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { vehicleId, forGang } = args;
+
+  // 1. Check agent doesn't already have a vehicle (vehicles stolen for the gang go to its garage)
+  if (forGang && !agent.gangId) {
+    return { ok: false, error: "NOT_IN_GANG", message: ERROR_CODES.NOT_IN_GANG };
+  }
+
+  if (agent.vehicleId && !forGang) {
+    return { ok: false, error: "ALREADY_HAS_VEHICLE", message: ERROR_CODES.ALREADY_HAS_VEHICLE };
+  }
+
+  // 2. Find available vehicle in zone
+  let vehicle: Doc<"vehicles"> | null = null;
+
+  if (vehicleId) {
+    // Specific vehicle requested
+    try {
+      vehicle = await ctx.db.get(vehicleId as Id<"vehicles">);
+    } catch {
+      return { ok: false, error: "NO_VEHICLE_AVAILABLE", message: ERROR_CODES.NO_VEHICLE_AVAILABLE };
+    }
+
+    if (!vehicle || vehicle.zoneId !== agent.locationZoneId) {
+      return { ok: false, error: "NO_VEHICLE_AVAILABLE", message: ERROR_CODES.NO_VEHICLE_AVAILABLE };
+    }
+  } else {
+    // Find any available vehicle in zone
+    const vehiclesInZone = await ctx.db
+      .query("vehicles")
+      .withIndex("by_zoneId", (q) => q.eq("zoneId", agent.locationZoneId))
+      .collect();
+
+    // Find one without an owner
+    vehicle = vehiclesInZone.find((v) => !v.ownerId && !v.ownerGangId) ?? null;
+
+    if (!vehicle) {
+      return { ok: false, error: "NO_VEHICLE_AVAILABLE", message: ERROR_CODES.NO_VEHICLE_AVAILABLE };
+    }
+  }
+
+  // 3. Calculate success chance based on vehicle type
+  const vehicleConfig = GTA_DEFAULTS.vehicleTypes[vehicle.type as VehicleType];
+  const successChance = getVehicleStealSuccessChance(agent, vehicle.type as VehicleType);
+
+  // 4. Roll for success
+  const rng = createTickRng(world.seed, world.tick);
+  const succeeded = rng.randomChance(successChance);
+
+  // Using the skill counts as practice (keeps it from decaying)
+  await ctx.db.patch(agent._id, {
+    skillsLastPracticedTick: practiceSkills(agent, ["driving"], world.tick),
+  });
+
+  const timestamp = Date.now();
+
+  // Always gain heat for attempt
+  const heatGained = GTA_DEFAULTS.vehicleStealHeat;
+  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + heatGained);
+
+  if (succeeded) {
+    // Success - steal the vehicle
+    await ctx.db.patch(vehicle._id, {
+      ownerId: forGang ? undefined : agent._id,
+      ownerGangId: forGang ? agent.gangId : undefined,
+      isStolen: true,
+    });
+
+    await ctx.db.patch(agent._id, forGang
+      ? { heat: newHeat }
+      : { vehicleId: vehicle._id, heat: newHeat }
+    );
+
+    // Stolen from another agent - they lose it
+    const previousOwner = vehicle.ownerId && vehicle.ownerId !== agent._id
+      ? await ctx.db.get(vehicle.ownerId)
+      : null;
+    if (previousOwner && previousOwner.vehicleId === vehicle._id) {
+      await ctx.db.patch(previousOwner._id, { vehicleId: undefined });
+    }
+
+    // Log success event
+    const stolenEventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "VEHICLE_STOLEN",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: vehicle._id,
+      payload: {
+        vehicleType: vehicle.type,
+        vehicleName: vehicle.name,
+        speedBonus: vehicleConfig.speedBonus,
+        heatGained,
+        successChance,
+        ...(previousOwner ? { previousOwnerId: previousOwner._id } : {}),
+      },
+      requestId,
+    });
+
+    // Previous owner's vehicle insurance claims its value
+    if (previousOwner) {
+      await fileInsuranceClaim(ctx, {
+        victimId: previousOwner._id,
+        type: "vehicle",
+        perpetratorId: agent._id,
+        loss: vehicle.value,
+        tick: world.tick,
+        refEventId: stolenEventId,
+      });
+    }
+
+    return {
+      ok: true,
+      message: forGang
+        ? `Stole a ${vehicle.name} for the gang garage! Members travel up to +${Math.round(vehicleConfig.speedBonus * 100)}% faster.`
+        : `Stole a ${vehicle.name}! Travel speed +${Math.round(vehicleConfig.speedBonus * 100)}%.`,
+      result: {
+        success: true,
+        forGang: forGang ?? false,
+        vehicleId: vehicle._id,
+        vehicleType: vehicle.type,
+        vehicleName: vehicle.name,
+        speedBonus: vehicleConfig.speedBonus,
+        newHeat,
+        successChance,
+      },
+    };
+  } else {
+    // Failed - just gain heat
+    await ctx.db.patch(agent._id, { heat: newHeat });
+
+    // Log failure event
+    await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp,
+      type: "VEHICLE_STEAL_FAILED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: vehicle._id,
+      payload: {
+        vehicleType: vehicle.type,
+        heatGained,
+        successChance,
+      },
+      requestId,
+    });
+
+    return {
+      ok: true,
+      message: `Failed to steal the ${vehicle.name}. Gained ${heatGained} heat.`,
+      result: {
+        success: false,
+        vehicleType: vehicle.type,
+        newHeat,
+        successChance,
+      },
+    };
+  }
+}
+
+/**
+ * ACCEPT_CONTRACT - Accept an assassination contract
+ */
+async function handleAcceptContract(
+  actionCtx: ActionContext,
+  args: ActionArgs["ACCEPT_CONTRACT"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { contractId } = args;
+
+  // 1. Get contract
+  let contract: Doc<"contracts"> | null = null;
+  try {
+    contract = await ctx.db.get(contractId as Id<"contracts">);
+  } catch {
+    return { ok: false, error: "NO_CONTRACT_AVAILABLE", message: ERROR_CODES.NO_CONTRACT_AVAILABLE };
+  }
+
+  if (!contract) {
+    return { ok: false, error: "NO_CONTRACT_AVAILABLE", message: ERROR_CODES.NO_CONTRACT_AVAILABLE };
+  }
+
+  // 2. Check contract status
+  if (contract.status !== "available") {
+    return { ok: false, error: "CONTRACT_ALREADY_ACCEPTED", message: ERROR_CODES.CONTRACT_ALREADY_ACCEPTED };
+  }
+
+  // 3. Check not expired
+  if (contract.expiresAtTick !== undefined && world.tick >= contract.expiresAtTick) {
+    await ctx.db.patch(contract._id, { status: "expired" });
+    return { ok: false, error: "NO_CONTRACT_AVAILABLE", message: "Contract has expired." };
+  }
+
+  // 4. Can't take a hit on yourself or your own contract
+  if (contract.targetAgentId === agent._id || contract.postedByAgentId === agent._id) {
+    return { ok: false, error: "CANNOT_CONTRACT_SELF", message: ERROR_CODES.CANNOT_CONTRACT_SELF };
+  }
+
+  // 5. Get target info
+  const targetAgent = await ctx.db.get(contract.targetAgentId);
+
+  // 6. Accept contract
+  await ctx.db.patch(contract._id, {
+    status: "accepted",
+    acceptedByAgentId: agent._id,
+  });
+
+  // 7. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "CONTRACT_ACCEPTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: contract._id,
+    payload: {
+      targetAgentId: contract.targetAgentId,
+      targetAgentName: targetAgent?.name,
+      reward: contract.reward,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Accepted contract on ${targetAgent?.name ?? "unknown"}. Reward: $${contract.reward}.`,
+    result: {
+      contractId: contract._id,
+      targetAgentId: contract.targetAgentId,
+      targetAgentName: targetAgent?.name,
+      reward: contract.reward,
+    },
+  };
+}
+
+/**
+ * Pay out accepted contracts when the accepter takes down the target
+ * Returns the total reward paid
+ */
+async function completeContractsOnKill(
+  actionCtx: ActionContext,
+  targetAgent: Doc<"agents">,
+  cashBefore: number
+): Promise<number> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  const acceptedContracts = await ctx.db
+    .query("contracts")
+    .withIndex("by_acceptedByAgentId", (q) => q.eq("acceptedByAgentId", agent._id))
+    .filter((q) =>
+      q.and(q.eq(q.field("status"), "accepted"), q.eq(q.field("targetAgentId"), targetAgent._id))
+    )
+    .collect();
+
+  let totalPayout = 0;
+  let balance = cashBefore;
+
+  for (const contract of acceptedContracts) {
+    await ctx.db.patch(contract._id, { status: "completed" });
+    balance += contract.reward;
+    totalPayout += contract.reward;
+
+    const eventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp: Date.now(),
+      type: "CONTRACT_COMPLETED",
+      agentId: agent._id,
+      zoneId: agent.locationZoneId,
+      entityId: contract._id,
+      payload: {
+        targetAgentId: targetAgent._id,
+        targetAgentName: targetAgent.name,
+        reward: contract.reward,
+        postedByAgentId: contract.postedByAgentId ?? null,
+      },
+      requestId,
+    });
+
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "credit",
+      amount: contract.reward,
+      reason: "CONTRACT_PAYOUT",
+      balance,
+      refEventId: eventId,
+    });
+  }
+
+  if (totalPayout > 0) {
+    await ctx.db.patch(agent._id, { cash: balance });
+  }
+
+  return totalPayout;
+}
+
+/**
+ * POST_CONTRACT - Fund a hit contract on another agent
+ * Prereq: Have $1,000-$100,000 for the reward, target exists
+ * Reward is escrowed until completion; 50% refunded if it expires
+ */
+async function handlePostContract(
+  actionCtx: ActionContext,
+  args: ActionArgs["POST_CONTRACT"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId, reward } = args;
+
+  // 1. Cannot post a contract on self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_CONTRACT_SELF", message: ERROR_CODES.CANNOT_CONTRACT_SELF };
+  }
+
+  // 2. Validate reward
+  if (typeof reward !== "number" || !Number.isInteger(reward)) {
+    return { ok: false, error: "INVALID_ACTION", message: "Reward must be a whole number of dollars" };
+  }
+
+  if (reward < GTA_DEFAULTS.contractMinReward) {
+    return {
+      ok: false,
+      error: "CONTRACT_REWARD_TOO_LOW",
+      message: `${ERROR_CODES.CONTRACT_REWARD_TOO_LOW}. Minimum is $${GTA_DEFAULTS.contractMinReward}.`,
+    };
+  }
+
+  if (reward > GTA_DEFAULTS.contractMaxReward) {
+    return {
+      ok: false,
+      error: "CONTRACT_REWARD_TOO_HIGH",
+      message: `${ERROR_CODES.CONTRACT_REWARD_TOO_HIGH}. Maximum is $${GTA_DEFAULTS.contractMaxReward}.`,
+    };
+  }
+
+  // 3. Check agent has enough cash
+  if (agent.cash < reward) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${reward}.`,
+    };
+  }
+
+  // 4. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
+
+  // 5. Create contract record
+  const expiresAtTick = world.tick + GTA_DEFAULTS.contractDurationTicks;
+  const contractId = await insertTracked(ctx, "contracts", {
+    targetAgentId: targetAgent._id,
+    postedByAgentId: agent._id,
+    reward,
+    status: "available",
+    createdAt: Date.now(),
+    expiresAtTick,
+  });
+
+  // 6. Escrow the reward
+  const newCash = agent.cash - reward;
+  await ctx.db.patch(agent._id, { cash: newCash });
+
+  // 7. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "CONTRACT_POSTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: contractId,
+    payload: {
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      reward,
+      expiresAtTick,
+    },
+    requestId,
+  });
+
+  // 8. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: reward,
+    reason: "CONTRACT_POSTED",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  return {
+    ok: true,
+    message: `Posted a $${reward} contract on ${targetAgent.name}.`,
+    result: {
+      contractId,
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      reward,
+      expiresAtTick,
+    },
+  };
+}
+
+// ============================================================================
+// ORDER BOOK ACTION HANDLERS
+// ============================================================================
+
+/**
+ * PLACE_ORDER - Post a limit buy/sell order on the current zone's order book
+ * Prereq: Valid side/item, whole qty and price, under the open order limit
+ * Buy orders escrow price * qty cash, sell orders escrow the items.
+ * Orders match at the start of the next tick; unfilled orders expire.
+ */
+async function handlePlaceOrder(
+  actionCtx: ActionContext,
+  args: ActionArgs["PLACE_ORDER"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { side, itemSlug, qty, price } = args;
+
+  // 1. Validate side
+  if (!ORDER_SIDES.includes(side as OrderSide)) {
+    return { ok: false, error: "INVALID_ORDER_SIDE", message: ERROR_CODES.INVALID_ORDER_SIDE };
+  }
+
+  // 2. Validate quantity and price
+  if (
+    !Number.isInteger(qty) ||
+    !Number.isInteger(price) ||
+    qty < 1 ||
+    price < 1 ||
+    qty > ORDER_BOOK_DEFAULTS.maxOrderQty ||
+    price > ORDER_BOOK_DEFAULTS.maxOrderPrice
+  ) {
+    return {
+      ok: false,
+      error: "INVALID_ORDER",
+      message: `${ERROR_CODES.INVALID_ORDER}. Max qty ${ORDER_BOOK_DEFAULTS.maxOrderQty}, max price $${ORDER_BOOK_DEFAULTS.maxOrderPrice}.`,
+    };
+  }
+
+  // 3. Get item
+  const item = await ctx.db
+    .query("items")
+    .withIndex("by_slug", (q) => q.eq("slug", itemSlug))
+    .first();
+  if (!item) {
+    return { ok: false, error: "INVALID_ITEM", message: ERROR_CODES.INVALID_ITEM };
+  }
+
+  // 4. Check open order limit
+  const openOrders = await ctx.db
+    .query("marketOrders")
+    .withIndex("by_agentId_status", (q) => q.eq("agentId", agent._id).eq("status", "open"))
+    .collect();
+  if (openOrders.length >= ORDER_BOOK_DEFAULTS.maxOpenOrdersPerAgent) {
+    return {
+      ok: false,
+      error: "ORDER_LIMIT_REACHED",
+      message: `${ERROR_CODES.ORDER_LIMIT_REACHED}. Limit is ${ORDER_BOOK_DEFAULTS.maxOpenOrdersPerAgent}.`,
+    };
+  }
+
+  // 5. Escrow cash (buy) or items (sell)
+  const escrowCash = side === "buy" ? price * qty : 0;
+  let newCash = agent.cash;
+  if (side === "buy") {
+    if (agent.cash < escrowCash) {
+      return {
+        ok: false,
+        error: "INSUFFICIENT_FUNDS",
+        message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${escrowCash}, have $${agent.cash}.`,
+      };
+    }
+    newCash = agent.cash - escrowCash;
+    await ctx.db.patch(agent._id, { cash: newCash });
+  } else {
+    const inventoryIndex = agent.inventory.findIndex((inv) => inv.itemId === item._id);
+    if (inventoryIndex === -1 || agent.inventory[inventoryIndex].qty < qty) {
+      return {
+        ok: false,
+        error: "INSUFFICIENT_INVENTORY",
+        message: `${ERROR_CODES.INSUFFICIENT_INVENTORY}: have ${agent.inventory[inventoryIndex]?.qty ?? 0}, want to sell ${qty}`,
+      };
+    }
+
+    const inventory = [...agent.inventory];
+    if (inventory[inventoryIndex].qty === qty) {
+      inventory.splice(inventoryIndex, 1);
+    } else {
+      inventory[inventoryIndex] = {
+        ...inventory[inventoryIndex],
+        qty: inventory[inventoryIndex].qty - qty,
+      };
+    }
+    await ctx.db.patch(agent._id, { inventory });
+  }
+
+  // 6. Create order
+  const expiresAtTick = world.tick + ORDER_BOOK_DEFAULTS.orderTtlTicks;
+  const orderId = await insertTracked(ctx, "marketOrders", {
+    zoneId: agent.locationZoneId,
+    agentId: agent._id,
+    itemId: item._id,
+    side: side as OrderSide,
+    price,
+    qty,
+    remainingQty: qty,
+    escrowCash,
+    status: "open",
+    createdTick: world.tick,
+    expiresAtTick,
+  });
+
+  // 7. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "ORDER_PLACED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: orderId,
+    payload: {
+      orderId,
+      side,
+      itemId: item._id,
+      itemSlug: item.slug,
+      itemName: item.name,
+      qty,
+      price,
+      expiresAtTick,
+    },
+    requestId,
+  });
+
+  // 8. Ledger entry for escrowed cash
+  if (escrowCash > 0) {
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "debit",
+      amount: escrowCash,
+      reason: "ORDER_ESCROW",
+      balance: newCash,
+      refEventId: eventId,
+    });
+  }
+
+  return {
+    ok: true,
+    message: `Placed a ${side} order for ${qty}x ${item.name} at $${price} each`,
+    result: {
+      orderId,
+      side,
+      itemSlug: item.slug,
+      itemName: item.name,
+      qty,
+      price,
+      escrowCash,
+      expiresAtTick,
+      newCash,
+    },
+  };
+}
+
+/**
+ * CANCEL_ORDER - Cancel one of your open orders
+ * Prereq: Order exists, belongs to the agent and is still open
+ * Remaining escrow (cash or items) is returned immediately
+ */
+async function handleCancelOrder(
+  actionCtx: ActionContext,
+  args: ActionArgs["CANCEL_ORDER"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { orderId } = args;
+
+  // 1. Get order
+  let order: Doc<"marketOrders"> | null = null;
+  try {
+    order = await ctx.db.get(orderId as Id<"marketOrders">);
+  } catch {
+    return { ok: false, error: "ORDER_NOT_FOUND", message: ERROR_CODES.ORDER_NOT_FOUND };
+  }
+
+  // 2. Must be our own open order
+  if (!order || order.agentId !== agent._id || order.status !== "open") {
+    return { ok: false, error: "ORDER_NOT_FOUND", message: ERROR_CODES.ORDER_NOT_FOUND };
+  }
+
+  const item = await ctx.db.get(order.itemId);
+
+  // 3. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "ORDER_CANCELLED",
+    agentId: agent._id,
+    zoneId: order.zoneId,
+    entityId: order._id,
+    payload: {
+      orderId: order._id,
+      side: order.side,
+      itemSlug: item?.slug ?? null,
+      itemName: item?.name ?? null,
+      price: order.price,
+      filledQty: order.qty - order.remainingQty,
+      remainingQty: order.remainingQty,
+    },
+    requestId,
+  });
+
+  // 4. Close the order and return the escrow
+  const { refundedCash, returnedQty } = await closeOrderWithRefund(
+    ctx,
+    order,
+    "cancelled",
+    world.tick,
+    eventId
+  );
+
+  return {
+    ok: true,
+    message:
+      order.side === "buy"
+        ? `Cancelled buy order, $${refundedCash} refunded`
+        : `Cancelled sell order, ${returnedQty}x ${item?.name ?? "items"} returned`,
+    result: {
+      orderId: order._id,
+      side: order.side,
+      refundedCash,
+      returnedQty,
+      newCash: agent.cash + refundedCash,
+    },
+  };
+}
+
+// ============================================================================
+// PROPERTY MARKET ACTION HANDLERS
+// ============================================================================
+
+/**
+ * LIST_PROPERTY - Put a property you own up for sale or auction
+ * Prereq: Own the property personally, no open listing on it, not pledged as collateral
+ * Sale listings go to the first agent who pays the asking price with
+ * BUY_PROPERTY; auctions go to the highest bid (at or above the reserve) when
+ * they close.
+ */
+async function handleListProperty(
+  actionCtx: ActionContext,
+  args: ActionArgs["LIST_PROPERTY"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { propertyId, kind, price } = args;
+
+  // 1. Validate kind
+  if (!LISTING_KINDS.includes(kind as ListingKind)) {
+    return { ok: false, error: "INVALID_LISTING_KIND", message: ERROR_CODES.INVALID_LISTING_KIND };
+  }
+
+  // 2. Validate price and auction length
+  const durationTicks = args.durationTicks ?? PROPERTY_MARKET_DEFAULTS.defaultAuctionTicks;
+  if (
+    !Number.isInteger(price) ||
+    price < 1 ||
+    price > PROPERTY_MARKET_DEFAULTS.maxListingPrice ||
+    (kind === "auction" &&
+      (!Number.isInteger(durationTicks) ||
+        durationTicks < PROPERTY_MARKET_DEFAULTS.minAuctionTicks ||
+        durationTicks > PROPERTY_MARKET_DEFAULTS.maxAuctionTicks))
+  ) {
+    return {
+      ok: false,
+      error: "INVALID_LISTING",
+      message: `${ERROR_CODES.INVALID_LISTING}. Max price $${PROPERTY_MARKET_DEFAULTS.maxListingPrice}, auctions run ${PROPERTY_MARKET_DEFAULTS.minAuctionTicks}-${PROPERTY_MARKET_DEFAULTS.maxAuctionTicks} ticks.`,
+    };
+  }
+
+  // 3. Get property
+  let property: Doc<"properties"> | null = null;
+  try {
+    property = await ctx.db.get(propertyId as Id<"properties">);
+  } catch {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
+
+  if (!property) {
+    return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+  }
+
+  // 4. Check ownership (gang properties are sold by officers with SELL_PROPERTY)
+  if (property.ownerId !== agent._id) {
+    return { ok: false, error: "NOT_PROPERTY_OWNER", message: ERROR_CODES.NOT_PROPERTY_OWNER };
+  }
+
+  // 5. One listing per property, and none while it secures a loan
+  if (await getOpenListing(ctx, property._id)) {
+    return { ok: false, error: "PROPERTY_ALREADY_LISTED", message: ERROR_CODES.PROPERTY_ALREADY_LISTED };
+  }
+
+  if (await getPledgingLoan(ctx, { propertyId: property._id })) {
+    return {
+      ok: false,
+      error: "COLLATERAL_PLEDGED",
+      message: `${ERROR_CODES.COLLATERAL_PLEDGED}. Repay the loan with REPAY_LOAN first.`,
+    };
+  }
+
+  // 6. Create listing
+  const listingKind = kind as ListingKind;
+  const endsAtTick =
+    world.tick + (listingKind === "auction" ? durationTicks : PROPERTY_MARKET_DEFAULTS.saleListingTtlTicks);
+  const listingId = await insertTracked(ctx, "propertyListings", {
+    propertyId: property._id,
+    sellerId: agent._id,
+    zoneId: property.zoneId,
+    kind: listingKind,
+    price,
+    bidCount: 0,
+    status: "open",
+    createdTick: world.tick,
+    endsAtTick,
+  });
+
+  // 7. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "PROPERTY_LISTED",
+    agentId: agent._id,
+    zoneId: property.zoneId,
+    entityId: listingId,
+    payload: {
+      listingId,
+      propertyId: property._id,
+      propertyName: property.name,
+      propertyType: property.type,
+      kind: listingKind,
+      price,
+      marketValue: getPropertyValue(property),
+      endsAtTick,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message:
+      listingKind === "auction"
+        ? `Put ${property.name} up for auction with a $${price} reserve, closing at tick ${endsAtTick}`
+        : `Listed ${property.name} for sale at $${price}`,
+    result: {
+      listingId,
+      propertyId: property._id,
+      kind: listingKind,
+      price,
+      marketValue: getPropertyValue(property),
+      endsAtTick,
+    },
+  };
+}
+
+/**
+ * BID_PROPERTY - Bid on a property auction
+ * Prereq: Open auction that hasn't closed, not your own, bid at least the
+ * reserve and 5% over the current top bid
+ * The bid is escrowed; whoever is outbid gets their escrow back at once.
+ */
+async function handleBidProperty(
+  actionCtx: ActionContext,
+  args: ActionArgs["BID_PROPERTY"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { listingId, amount } = args;
+
+  // 1. Get listing
+  let listing: Doc<"propertyListings"> | null = null;
+  try {
+    listing = await ctx.db.get(listingId as Id<"propertyListings">);
+  } catch {
+    return { ok: false, error: "LISTING_NOT_FOUND", message: ERROR_CODES.LISTING_NOT_FOUND };
+  }
+
+  if (!listing || listing.status !== "open" || world.tick >= listing.endsAtTick) {
+    return { ok: false, error: "LISTING_NOT_FOUND", message: ERROR_CODES.LISTING_NOT_FOUND };
+  }
+
+  // 2. Must be an auction, and not our own
+  if (listing.kind !== "auction") {
+    return { ok: false, error: "NOT_AN_AUCTION", message: ERROR_CODES.NOT_AN_AUCTION };
+  }
+
+  if (listing.sellerId === agent._id) {
+    return { ok: false, error: "CANNOT_BID_OWN_LISTING", message: ERROR_CODES.CANNOT_BID_OWN_LISTING };
+  }
+
+  // 3. Check bid size
+  const minimumBid = getMinimumBid(listing);
+  if (!Number.isInteger(amount) || amount < minimumBid) {
+    return {
+      ok: false,
+      error: "BID_TOO_LOW",
+      message: `${ERROR_CODES.BID_TOO_LOW}. Minimum bid is $${minimumBid}.`,
+    };
+  }
+
+  // 4. Check funds (raising your own top bid only escrows the difference)
+  const isRaise = listing.highestBidderId === agent._id;
+  const escrow = isRaise ? amount - (listing.highestBid ?? 0) : amount;
+  if (agent.cash < escrow) {
+    return {
+      ok: false,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${escrow}, have $${agent.cash}.`,
+    };
+  }
+
+  const property = await ctx.db.get(listing.propertyId);
+
+  // 5. Escrow the bid
+  const newCash = agent.cash - escrow;
+  await ctx.db.patch(agent._id, { cash: newCash });
+  await ctx.db.patch(listing._id, {
+    highestBid: amount,
+    highestBidderId: agent._id,
+    bidCount: listing.bidCount + 1,
+  });
+
+  // 6. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "PROPERTY_BID_PLACED",
+    agentId: agent._id,
+    zoneId: listing.zoneId,
+    entityId: listing._id,
+    payload: {
+      listingId: listing._id,
+      propertyId: listing.propertyId,
+      propertyName: property?.name ?? null,
+      amount,
+      previousBid: listing.highestBid ?? null,
+      endsAtTick: listing.endsAtTick,
+    },
+    requestId,
+  });
+
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: escrow,
+    reason: "PROPERTY_BID_ESCROW",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  // 7. Refund whoever we outbid
+  if (!isRaise && listing.highestBidderId && listing.highestBid) {
+    const outbidEventId = await ctx.db.insert("events", {
+      tick: world.tick,
+      timestamp: Date.now(),
+      type: "PROPERTY_OUTBID",
+      agentId: listing.highestBidderId,
+      zoneId: listing.zoneId,
+      entityId: listing._id,
+      payload: {
+        listingId: listing._id,
+        propertyId: listing.propertyId,
+        propertyName: property?.name ?? null,
+        refundedBid: listing.highestBid,
+        newBid: amount,
+        bidderId: agent._id,
+        bidderName: agent.name,
+      },
+      requestId: null,
+    });
+    await refundHighestBid(ctx, listing, world.tick, outbidEventId);
+  }
+
+  return {
+    ok: true,
+    message: `Bid $${amount} on ${property?.name ?? "the property"}. Auction closes at tick ${listing.endsAtTick}.`,
+    result: {
+      listingId: listing._id,
+      amount,
+      escrowed: escrow,
+      endsAtTick: listing.endsAtTick,
+      newCash,
+    },
+  };
+}
+
+/**
+ * CANCEL_LISTING - Take your property off the market
+ * Prereq: Your open listing; auctions only while nobody has bid
+ */
+async function handleCancelListing(
+  actionCtx: ActionContext,
+  args: ActionArgs["CANCEL_LISTING"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { listingId } = args;
+
+  // 1. Get listing
+  let listing: Doc<"propertyListings"> | null = null;
+  try {
+    listing = await ctx.db.get(listingId as Id<"propertyListings">);
+  } catch {
+    return { ok: false, error: "LISTING_NOT_FOUND", message: ERROR_CODES.LISTING_NOT_FOUND };
+  }
+
+  // 2. Must be our own open listing
+  if (!listing || listing.sellerId !== agent._id || listing.status !== "open") {
+    return { ok: false, error: "LISTING_NOT_FOUND", message: ERROR_CODES.LISTING_NOT_FOUND };
+  }
+
+  // 3. Bidders are owed a fair auction
+  if (listing.highestBidderId) {
+    return { ok: false, error: "AUCTION_HAS_BIDS", message: ERROR_CODES.AUCTION_HAS_BIDS };
+  }
+
+  const property = await ctx.db.get(listing.propertyId);
+
+  // 4. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "PROPERTY_LISTING_CANCELLED",
+    agentId: agent._id,
+    zoneId: listing.zoneId,
+    entityId: listing._id,
+    payload: {
+      listingId: listing._id,
+      propertyId: listing.propertyId,
+      propertyName: property?.name ?? null,
+      kind: listing.kind,
+      price: listing.price,
+    },
+    requestId,
+  });
+
+  // 5. Close the listing
+  await closeListingWithRefund(ctx, listing, "cancelled", world.tick, eventId);
+
+  return {
+    ok: true,
+    message: `Took ${property?.name ?? "the property"} off the market`,
+    result: {
+      listingId: listing._id,
+      propertyId: listing.propertyId,
+    },
+  };
+}
+
+/**
+ * BUY_PROPERTY (listed) - Pay a seller's asking price for a listed property
+ * Prereq: Open fixed-price listing, in the property's zone, enough cash
+ */
+async function buyListedProperty(
+  actionCtx: ActionContext,
+  property: Doc<"properties">,
+  listing: Doc<"propertyListings">
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const price = listing.price;
+
+  // 1. Check funds
+  if (agent.cash < price) {
+    return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${price}` };
+  }
+
+  const seller = await ctx.db.get(listing.sellerId);
+  if (!seller) {
+    return { ok: false, error: "LISTING_NOT_FOUND", message: ERROR_CODES.LISTING_NOT_FOUND };
+  }
+
+  // 2. Move the money
+  const buyerCash = agent.cash - price;
+  const sellerCash = seller.cash + price;
+  await ctx.db.patch(agent._id, { cash: buyerCash });
+  await ctx.db.patch(seller._id, { cash: sellerCash });
+
+  // 3. Hand over the property and close the listing
+  await transferPropertyOwnership(ctx, property, agent);
+  await ctx.db.patch(listing._id, { status: "sold", closedTick: world.tick });
+
+  // 4. Each side sees the sale in its own event feed
+  const salePayload = {
+    listingId: listing._id,
+    propertyId: property._id,
+    propertyName: property.name,
+    propertyType: property.type,
+    kind: listing.kind,
+    price,
+    buyerAgentId: agent._id,
+    buyerName: agent.name,
+    sellerAgentId: seller._id,
+    sellerName: seller.name,
+  };
+  const buyerEventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "PROPERTY_LISTING_SOLD",
+    agentId: agent._id,
+    zoneId: property.zoneId,
+    entityId: listing._id,
+    payload: { ...salePayload, role: "buyer" },
+    requestId,
+  });
+  const sellerEventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "PROPERTY_LISTING_SOLD",
+    agentId: seller._id,
+    zoneId: property.zoneId,
+    entityId: listing._id,
+    payload: { ...salePayload, role: "seller" },
+    requestId,
+  });
+
+  // 5. Ledger entries
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: price,
+    reason: "PROPERTY_PURCHASE",
+    balance: buyerCash,
+    refEventId: buyerEventId,
+  });
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: seller._id,
+    type: "credit",
+    amount: price,
+    reason: "PROPERTY_SALE",
+    balance: sellerCash,
+    refEventId: sellerEventId,
+  });
+
+  return {
+    ok: true,
+    message: `Bought ${property.name} from ${seller.name} for $${price}`,
+    result: {
+      propertyId: property._id,
+      propertyName: property.name,
+      propertyType: property.type,
+      price,
+      sellerAgentId: seller._id,
+      listingId: listing._id,
+    },
+  };
+}
+
+// ============================================================================
+// LENDING ACTION HANDLERS
+// ============================================================================
+
+type LoanCollateral = {
+  propertyId?: Id<"properties">;
+  vehicleId?: Id<"vehicles">;
+  value: number | null;
+};
+
+/**
+ * Check the collateral an agent wants to pledge on a loan
+ * At most one asset; it must be the agent's own and not already pledged.
+ * @returns The collateral (value null when the loan is unsecured), or an error result
+ */
+async function resolveLoanCollateral(
+  actionCtx: ActionContext,
+  args: ActionArgs["TAKE_LOAN"]
+): Promise<LoanCollateral | ActionResult> {
+  const { ctx, agent } = actionCtx;
+  const { collateralPropertyId, collateralVehicleId } = args;
+
+  if (collateralPropertyId && collateralVehicleId) {
+    return { ok: false, error: "INVALID_COLLATERAL", message: `${ERROR_CODES.INVALID_COLLATERAL}. Pledge one asset per loan.` };
+  }
+
+  if (collateralPropertyId) {
+    let property: Doc<"properties"> | null = null;
+    try {
+      property = await ctx.db.get(collateralPropertyId as Id<"properties">);
+    } catch {
+      return { ok: false, error: "INVALID_COLLATERAL", message: ERROR_CODES.INVALID_COLLATERAL };
+    }
+    if (!property || property.ownerId !== agent._id) {
+      return { ok: false, error: "INVALID_COLLATERAL", message: ERROR_CODES.INVALID_COLLATERAL };
+    }
+    if (await getOpenListing(ctx, property._id)) {
+      return { ok: false, error: "PROPERTY_ALREADY_LISTED", message: `${ERROR_CODES.PROPERTY_ALREADY_LISTED}. Cancel it before pledging it.` };
+    }
+    if (await getPledgingLoan(ctx, { propertyId: property._id })) {
+      return { ok: false, error: "COLLATERAL_PLEDGED", message: ERROR_CODES.COLLATERAL_PLEDGED };
+    }
+    return { propertyId: property._id, value: getPropertyValue(property) };
+  }
+
+  if (collateralVehicleId) {
+    let vehicle: Doc<"vehicles"> | null = null;
+    try {
+      vehicle = await ctx.db.get(collateralVehicleId as Id<"vehicles">);
+    } catch {
+      return { ok: false, error: "INVALID_COLLATERAL", message: ERROR_CODES.INVALID_COLLATERAL };
+    }
+    if (!vehicle || vehicle.ownerId !== agent._id) {
+      return { ok: false, error: "INVALID_COLLATERAL", message: ERROR_CODES.INVALID_COLLATERAL };
+    }
+    if (await getPledgingLoan(ctx, { vehicleId: vehicle._id })) {
+      return { ok: false, error: "COLLATERAL_PLEDGED", message: ERROR_CODES.COLLATERAL_PLEDGED };
+    }
+    return { vehicleId: vehicle._id, value: vehicle.value };
+  }
+
+  return { value: null };
+}
+
+function isValidLoanTerm(termTicks: number): boolean {
+  return (
+    Number.isInteger(termTicks) &&
+    termTicks >= LOAN_DEFAULTS.minTermTicks &&
+    termTicks <= LOAN_DEFAULTS.maxTermTicks
+  );
+}
+
+/**
+ * TAKE_LOAN - Borrow from the bank, or accept an agent's loan offer
+ * Prereq: Fewer than the max active loans; collateral (optional) must be a
+ * property or vehicle you own that is not listed or already pledged
+ * Bank loans are capped by collateral value (or a small unsecured amount) and
+ * priced by whether they are secured. Pass loanId to accept an OFFER_LOAN
+ * made to you instead. Unpaid loans are foreclosed when they come due.
+ */
+async function handleTakeLoan(
+  actionCtx: ActionContext,
+  args: ActionArgs["TAKE_LOAN"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Check loan limit
+  const activeLoans = await getActiveBorrowedLoans(ctx, agent._id);
+  if (activeLoans.length >= LOAN_DEFAULTS.maxActiveLoansPerAgent) {
+    return {
+      ok: false,
+      error: "LOAN_LIMIT_REACHED",
+      message: `${ERROR_CODES.LOAN_LIMIT_REACHED} (max ${LOAN_DEFAULTS.maxActiveLoansPerAgent})`,
+    };
+  }
+
+  // 2. Check collateral
+  const collateral = await resolveLoanCollateral(actionCtx, args);
+  if ("ok" in collateral) {
+    return collateral;
+  }
+
+  let lender: Doc<"agents"> | null = null;
+  let loanId: Id<"loans">;
+  let amount: number;
+  let interestRate: number;
+  let termTicks: number;
+
+  if (args.loanId) {
+    // 3a. Accept an agent's offer (the lender must still have the cash)
+    let offer: Doc<"loans"> | null = null;
+    try {
+      offer = await ctx.db.get(args.loanId as Id<"loans">);
+    } catch {
+      return { ok: false, error: "LOAN_NOT_FOUND", message: ERROR_CODES.LOAN_NOT_FOUND };
+    }
+
+    if (!offer || offer.status !== "offered" || offer.borrowerId !== agent._id || !offer.lenderId) {
+      return { ok: false, error: "LOAN_NOT_FOUND", message: ERROR_CODES.LOAN_NOT_FOUND };
+    }
+
+    lender = await ctx.db.get(offer.lenderId);
+    if (!lender || lender.cash < offer.principal) {
+      return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. The lender can no longer fund this loan.` };
+    }
+
+    loanId = offer._id;
+    amount = offer.principal;
+    interestRate = offer.interestRate;
+    termTicks = offer.termTicks;
+    await ctx.db.patch(offer._id, {
+      status: "active",
+      collateralPropertyId: collateral.propertyId,
+      collateralVehicleId: collateral.vehicleId,
+      dueTick: world.tick + termTicks,
+      offerExpiresAtTick: undefined,
+    });
+  } else {
+    // 3b. Borrow from the bank
+    amount = args.amount ?? 0;
+    termTicks = args.termTicks ?? LOAN_DEFAULTS.defaultTermTicks;
+    if (!Number.isInteger(amount) || amount < 1 || !isValidLoanTerm(termTicks)) {
+      return {
+        ok: false,
+        error: "INVALID_LOAN",
+        message: `${ERROR_CODES.INVALID_LOAN}. Terms run ${LOAN_DEFAULTS.minTermTicks}-${LOAN_DEFAULTS.maxTermTicks} ticks.`,
+      };
+    }
+
+    const terms = getBankLoanTerms(collateral.value);
+    if (amount > terms.maxAmount) {
+      return {
+        ok: false,
+        error: "LOAN_EXCEEDS_LIMIT",
+        message: `${ERROR_CODES.LOAN_EXCEEDS_LIMIT}. Max $${terms.maxAmount}`,
+      };
+    }
+
+    interestRate = terms.interestRate;
+    loanId = await insertTracked(ctx, "loans", {
+      borrowerId: agent._id,
+      principal: amount,
+      balance: amount,
+      interestRate,
+      collateralPropertyId: collateral.propertyId,
+      collateralVehicleId: collateral.vehicleId,
+      status: "active",
+      createdTick: world.tick,
+      termTicks,
+      dueTick: world.tick + termTicks,
+    });
+  }
+
+  // 4. Move the cash
+  const newCash = agent.cash + amount;
+  await ctx.db.patch(agent._id, { cash: newCash });
+
+  let lenderCash = 0;
+  if (lender) {
+    lenderCash = lender.cash - amount;
+    await ctx.db.patch(lender._id, { cash: lenderCash });
+  }
+
+  // 5. Log event
+  const dueTick = world.tick + termTicks;
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "LOAN_TAKEN",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: loanId,
+    payload: {
+      loanId,
+      amount,
+      interestRate,
+      lenderId: lender?._id ?? null,
+      lenderName: lender?.name ?? "bank",
+      collateralPropertyId: collateral.propertyId ?? null,
+      collateralVehicleId: collateral.vehicleId ?? null,
+      dueTick,
+    },
+    requestId,
+  });
+
+  // 6. Ledger entries
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "credit",
+    amount,
+    reason: "LOAN_DISBURSEMENT",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  if (lender) {
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: lender._id,
+      type: "debit",
+      amount,
+      reason: "LOAN_ISSUED",
+      balance: lenderCash,
+      refEventId: eventId,
+    });
+  }
+
+  return {
+    ok: true,
+    message: `Borrowed $${amount} from ${lender?.name ?? "the bank"} at ${(interestRate * 100).toFixed(2)}% per tick, due by tick ${dueTick}`,
+    result: {
+      loanId,
+      amount,
+      interestRate,
+      lenderId: lender?._id ?? null,
+      dueTick,
+      collateralPropertyId: collateral.propertyId ?? null,
+      collateralVehicleId: collateral.vehicleId ?? null,
+    },
+  };
+}
+
+/**
+ * REPAY_LOAN - Pay down a loan you owe
+ * Prereq: An active loan you borrowed, enough cash for the payment
+ * Pays the full amount owed unless a smaller amount is given. Paying it off
+ * releases the collateral.
+ */
+async function handleRepayLoan(
+  actionCtx: ActionContext,
+  args: ActionArgs["REPAY_LOAN"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Get loan
+  let loan: Doc<"loans"> | null = null;
+  try {
+    loan = await ctx.db.get(args.loanId as Id<"loans">);
+  } catch {
+    return { ok: false, error: "LOAN_NOT_FOUND", message: ERROR_CODES.LOAN_NOT_FOUND };
+  }
+
+  if (!loan || loan.status !== "active" || loan.borrowerId !== agent._id) {
+    return { ok: false, error: "LOAN_NOT_FOUND", message: ERROR_CODES.LOAN_NOT_FOUND };
+  }
+
+  // 2. Validate payment (never more than is owed)
+  const amountOwed = getAmountOwed(loan);
+  const requested = args.amount ?? amountOwed;
+  if (!Number.isInteger(requested) || requested < 1) {
+    return { ok: false, error: "INVALID_LOAN", message: ERROR_CODES.INVALID_LOAN };
+  }
 
-    return {
-      ok: true,
-      message: "Escaped from jail!",
-      result: {
-        success: true,
-        successChance,
-        newHeat,
-        newZone: "residential",
-      },
-    };
-  } else {
-    // Failure - extend sentence
-    const currentSentence = agent.busyUntilTick ?? world.tick;
-    const newSentence = currentSentence + GTA_DEFAULTS.jailbreakFailureSentenceAdd;
-    const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.jailbreakFailureHeat);
+  const payment = Math.min(requested, amountOwed);
+  if (agent.cash < payment) {
+    return { ok: false, error: "INSUFFICIENT_FUNDS", message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${payment}` };
+  }
 
-    await ctx.db.patch(agent._id, {
-      busyUntilTick: newSentence,
-      heat: newHeat,
-    });
+  // 3. Apply payment
+  const paidOff = payment >= amountOwed;
+  const remaining = paidOff ? 0 : loan.balance - payment;
+  await ctx.db.patch(loan._id, {
+    balance: remaining,
+    ...(paidOff ? { status: "repaid" as const, closedTick: world.tick } : {}),
+  });
 
-    // Log failure event
-    await ctx.db.insert("events", {
+  const newCash = agent.cash - payment;
+  await ctx.db.patch(agent._id, { cash: newCash });
+
+  const lender = loan.lenderId ? await ctx.db.get(loan.lenderId) : null;
+  let lenderCash = 0;
+  if (lender) {
+    lenderCash = lender.cash + payment;
+    await ctx.db.patch(lender._id, { cash: lenderCash });
+  }
+
+  // 4. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "LOAN_REPAID",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: loan._id,
+    payload: {
+      loanId: loan._id,
+      amount: payment,
+      remaining: Math.ceil(remaining),
+      lenderId: loan.lenderId ?? null,
+      automatic: false,
+    },
+    requestId,
+  });
+
+  // 5. Ledger entries
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: payment,
+    reason: "LOAN_REPAYMENT",
+    balance: newCash,
+    refEventId: eventId,
+  });
+
+  if (lender) {
+    await ctx.db.insert("ledger", {
       tick: world.tick,
-      timestamp,
-      type: "JAILBREAK_FAILED",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        successChance,
-        sentenceExtension: GTA_DEFAULTS.jailbreakFailureSentenceAdd,
-        newReleaseTick: newSentence,
-        heatGained: GTA_DEFAULTS.jailbreakFailureHeat,
-      },
-      requestId,
+      agentId: lender._id,
+      type: "credit",
+      amount: payment,
+      reason: "LOAN_REPAYMENT_RECEIVED",
+      balance: lenderCash,
+      refEventId: eventId,
     });
-
-    return {
-      ok: true,
-      message: `Jailbreak failed! Sentence extended by ${GTA_DEFAULTS.jailbreakFailureSentenceAdd} ticks.`,
-      result: {
-        success: false,
-        successChance,
-        sentenceExtension: GTA_DEFAULTS.jailbreakFailureSentenceAdd,
-        newReleaseTick: newSentence,
-        newHeat,
-      },
-    };
   }
+
+  return {
+    ok: true,
+    message: paidOff
+      ? `Paid off loan with $${payment}`
+      : `Paid $${payment} toward loan, $${Math.ceil(remaining)} still owed`,
+    result: {
+      loanId: loan._id,
+      paid: payment,
+      remaining: Math.ceil(remaining),
+      paidOff,
+    },
+  };
 }
 
 /**
- * BRIBE_COPS - Pay to reduce heat
- * Prereq: Heat > 60, have enough cash
- * Success (60% + negotiation bonus): Reduce heat by 50%
- * Failure: Lose money, +20 heat
+ * OFFER_LOAN - Offer to lend cash to another agent
+ * Prereq: Enough cash to cover the loan, rate within the cap
+ * The borrower accepts with TAKE_LOAN (loanId) before the offer lapses; the
+ * cash only moves then. Repayments come back to you, and on default you get
+ * the pledged collateral or whatever cash the borrower has.
  */
-async function handleBribeCops(
+async function handleOfferLoan(
   actionCtx: ActionContext,
-  _args: ActionArgs["BRIBE_COPS"]
+  args: ActionArgs["OFFER_LOAN"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
+  const { targetAgentId, amount, interestRate } = args;
+  const termTicks = args.termTicks ?? LOAN_DEFAULTS.defaultTermTicks;
 
-  // 1. Must have high enough heat
-  if (agent.heat < GTA_DEFAULTS.bribeMinHeat) {
-    return {
-      ok: false,
-      error: "HEAT_TOO_LOW",
-      message: `${ERROR_CODES.HEAT_TOO_LOW}. Need at least ${GTA_DEFAULTS.bribeMinHeat} heat.`,
-    };
+  // 1. Cannot lend to self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_LEND_SELF", message: ERROR_CODES.CANNOT_LEND_SELF };
   }
 
-  // 2. Calculate bribe cost
-  const bribeCost = agent.heat * GTA_DEFAULTS.bribeCostPerHeat;
-
-  // 3. Check agent has enough cash
-  if (agent.cash < bribeCost) {
+  // 2. Validate terms
+  if (
+    !Number.isInteger(amount) ||
+    amount < 1 ||
+    amount > LOAN_DEFAULTS.maxLoanAmount ||
+    typeof interestRate !== "number" ||
+    interestRate < 0 ||
+    interestRate > LOAN_DEFAULTS.maxAgentRatePerTick ||
+    !isValidLoanTerm(termTicks)
+  ) {
     return {
       ok: false,
-      error: "INSUFFICIENT_FUNDS",
-      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Bribe costs $${bribeCost} (${agent.heat} heat × $${GTA_DEFAULTS.bribeCostPerHeat}).`,
+      error: "INVALID_LOAN",
+      message: `${ERROR_CODES.INVALID_LOAN}. Max $${LOAN_DEFAULTS.maxLoanAmount}, rate 0-${LOAN_DEFAULTS.maxAgentRatePerTick} per tick, terms run ${LOAN_DEFAULTS.minTermTicks}-${LOAN_DEFAULTS.maxTermTicks} ticks.`,
     };
   }
 
-  // 4. Calculate success chance
-  const baseSuccess = GTA_DEFAULTS.bribeBaseSuccess;
-  const negotiationBonus = agent.skills.negotiation * GTA_DEFAULTS.bribeNegotiationBonus;
-  const successChance = Math.min(0.95, baseSuccess + negotiationBonus);
+  if (agent.cash < amount) {
+    return { ok: false, error: "INSUFFICIENT_FUNDS", message: ERROR_CODES.INSUFFICIENT_FUNDS };
+  }
 
-  // 5. Roll for success
-  const rng = createTickRng(world.seed, world.tick);
-  const succeeded = rng.randomChance(successChance);
+  // 3. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
 
-  const timestamp = Date.now();
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
 
-  // Always deduct the bribe cost
-  const newCash = agent.cash - bribeCost;
+  // 4. Create offer
+  const offerExpiresAtTick = world.tick + LOAN_DEFAULTS.offerTtlTicks;
+  const loanId = await insertTracked(ctx, "loans", {
+    borrowerId: targetAgent._id,
+    lenderId: agent._id,
+    principal: amount,
+    balance: amount,
+    interestRate,
+    status: "offered",
+    createdTick: world.tick,
+    termTicks,
+    offerExpiresAtTick,
+  });
 
-  if (succeeded) {
-    // Success - reduce heat by 50%
-    const newHeat = Math.floor(agent.heat * 0.5);
+  // 5. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "LOAN_OFFERED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: loanId,
+    payload: {
+      loanId,
+      borrowerId: targetAgent._id,
+      borrowerName: targetAgent.name,
+      amount,
+      interestRate,
+      termTicks,
+      expiresAtTick: offerExpiresAtTick,
+    },
+    requestId,
+  });
 
-    await ctx.db.patch(agent._id, {
-      cash: newCash,
-      heat: newHeat,
-    });
+  return {
+    ok: true,
+    message: `Offered ${targetAgent.name} a $${amount} loan at ${(interestRate * 100).toFixed(2)}% per tick`,
+    result: {
+      loanId,
+      borrowerId: targetAgent._id,
+      amount,
+      interestRate,
+      termTicks,
+      expiresAtTick: offerExpiresAtTick,
+    },
+  };
+}
 
-    // Log success event
-    const eventId = await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "BRIBE_SUCCESS",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        bribeCost,
-        heatReduced: agent.heat - newHeat,
-        newHeat,
-        successChance,
-      },
-      requestId,
-    });
+// ============================================================================
+// EMPLOYMENT ACTION HANDLERS
+// ============================================================================
 
-    // Ledger entry
-    await ctx.db.insert("ledger", {
-      tick: world.tick,
-      agentId: agent._id,
-      type: "debit",
-      amount: bribeCost,
-      reason: "BRIBE",
-      balance: newCash,
-      refEventId: eventId,
-    });
+/**
+ * POST_JOB_OPENING - Hire for a business you run
+ * Prereq: Own the business (or be an officer of the gang that does), be in its zone
+ * The opening shows up with the zone's other jobs and is taken with TAKE_JOB.
+ * Each shift's wage comes out of the business's cashOnHand when it ends.
+ */
+async function handlePostJobOpening(
+  actionCtx: ActionContext,
+  args: ActionArgs["POST_JOB_OPENING"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+  const { businessId, wage, durationTicks } = args;
+  const title = typeof args.title === "string" ? args.title.trim() : "";
+  const staminaCost = args.staminaCost ?? EMPLOYMENT_DEFAULTS.defaultStaminaCost;
 
+  // 1. Validate the opening
+  if (
+    title.length === 0 ||
+    title.length > EMPLOYMENT_DEFAULTS.maxTitleLength ||
+    !Number.isInteger(wage) ||
+    wage < 1 ||
+    wage > EMPLOYMENT_DEFAULTS.maxWage ||
+    !Number.isInteger(durationTicks) ||
+    durationTicks < 1 ||
+    durationTicks > EMPLOYMENT_DEFAULTS.maxDurationTicks ||
+    !Number.isInteger(staminaCost) ||
+    staminaCost < 0 ||
+    staminaCost > EMPLOYMENT_DEFAULTS.maxStaminaCost ||
+    (args.minReputation !== undefined && !Number.isInteger(args.minReputation))
+  ) {
     return {
-      ok: true,
-      message: `Bribe successful! Heat reduced from ${agent.heat} to ${newHeat}.`,
-      result: {
-        success: true,
-        bribeCost,
-        heatReduced: agent.heat - newHeat,
-        newHeat,
-        newCash,
-        successChance,
-      },
+      ok: false,
+      error: "INVALID_JOB_OPENING",
+      message: `${ERROR_CODES.INVALID_JOB_OPENING}. Max wage $${EMPLOYMENT_DEFAULTS.maxWage}, max ${EMPLOYMENT_DEFAULTS.maxDurationTicks} ticks, title up to ${EMPLOYMENT_DEFAULTS.maxTitleLength} characters.`,
     };
-  } else {
-    // Failure - lose money and gain heat
-    const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.bribeFailureHeatAdd);
+  }
 
-    await ctx.db.patch(agent._id, {
-      cash: newCash,
-      heat: newHeat,
-    });
+  // 2. Get business
+  let business: Doc<"businesses"> | null = null;
+  try {
+    business = await ctx.db.get(businessId as Id<"businesses">);
+  } catch {
+    return { ok: false, error: "INVALID_BUSINESS", message: ERROR_CODES.INVALID_BUSINESS };
+  }
 
-    // Log failure event
-    const eventId = await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "BRIBE_FAILED",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        bribeCost,
-        heatGained: GTA_DEFAULTS.bribeFailureHeatAdd,
-        newHeat,
-        successChance,
-      },
-      requestId,
-    });
+  if (!business) {
+    return { ok: false, error: "INVALID_BUSINESS", message: ERROR_CODES.INVALID_BUSINESS };
+  }
 
-    // Ledger entry
-    await ctx.db.insert("ledger", {
-      tick: world.tick,
-      agentId: agent._id,
-      type: "debit",
-      amount: bribeCost,
-      reason: "BRIBE_FAILED",
-      balance: newCash,
-      refEventId: eventId,
-    });
+  // 3. Check agent runs the business, it is open and they are there
+  if (!(await canManageBusiness(ctx, agent, business))) {
+    return { ok: false, error: "UNAUTHORIZED", message: "Agent does not own this business" };
+  }
+
+  if (business.status !== "open") {
+    return { ok: false, error: "BUSINESS_CLOSED", message: ERROR_CODES.BUSINESS_CLOSED };
+  }
+
+  if (business.zoneId !== agent.locationZoneId) {
+    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  }
 
+  // 4. Check opening limit
+  const openings = await ctx.db
+    .query("jobs")
+    .withIndex("by_businessId", (q) => q.eq("businessId", business._id))
+    .filter((q) => q.eq(q.field("active"), true))
+    .collect();
+  if (openings.length >= EMPLOYMENT_DEFAULTS.maxOpeningsPerBusiness) {
     return {
-      ok: true,
-      message: `Bribe rejected! Lost $${bribeCost} and gained ${GTA_DEFAULTS.bribeFailureHeatAdd} heat.`,
-      result: {
-        success: false,
-        bribeCost,
-        heatGained: GTA_DEFAULTS.bribeFailureHeatAdd,
-        newHeat,
-        newCash,
-        successChance,
-      },
+      ok: false,
+      error: "JOB_OPENING_LIMIT_REACHED",
+      message: `${ERROR_CODES.JOB_OPENING_LIMIT_REACHED} (max ${EMPLOYMENT_DEFAULTS.maxOpeningsPerBusiness})`,
     };
   }
+
+  // 5. Create the opening
+  const jobId = await insertTracked(ctx, "jobs", {
+    zoneId: business.zoneId,
+    type: business.type,
+    title,
+    wage,
+    durationTicks,
+    requirements: args.minReputation !== undefined ? { minReputation: args.minReputation } : {},
+    staminaCost,
+    active: true,
+    businessId: business._id,
+  });
+
+  // 6. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "JOB_OPENING_POSTED",
+    agentId: agent._id,
+    zoneId: business.zoneId,
+    entityId: jobId,
+    payload: {
+      jobId,
+      businessId: business._id,
+      businessName: business.name,
+      title,
+      wage,
+      durationTicks,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Posted "${title}" at ${business.name} for $${wage} per ${durationTicks}-tick shift`,
+    result: {
+      jobId,
+      businessId: business._id,
+      title,
+      wage,
+      durationTicks,
+      staminaCost,
+    },
+  };
 }
 
 /**
- * ATTACK_AGENT - PvP combat dealing damage
- * Prereq: Target in same zone, target is idle
- * Success (50% + combat bonus): Deal 15-40 damage
- * Kill (target health → 0): Target hospitalized 100 ticks, loses 25% cash
- * Failure: Take 5-15 counter-damage
- * Always: +25 heat
+ * CLOSE_JOB_OPENING - Stop hiring for an opening
+ * Prereq: Run the business that posted it
+ * Shifts already under way still finish and get paid.
  */
-async function handleAttackAgent(
+async function handleCloseJobOpening(
   actionCtx: ActionContext,
-  args: ActionArgs["ATTACK_AGENT"]
+  args: ActionArgs["CLOSE_JOB_OPENING"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId } = args;
-
-  // 1. Cannot attack self
-  if (targetAgentId === agent._id.toString()) {
-    return { ok: false, error: "CANNOT_ATTACK_SELF", message: ERROR_CODES.CANNOT_ATTACK_SELF };
-  }
 
-  // 2. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
+  // 1. Get opening
+  let job: Doc<"jobs"> | null = null;
   try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+    job = await ctx.db.get(args.jobId as Id<"jobs">);
   } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+    return { ok: false, error: "INVALID_JOB", message: ERROR_CODES.INVALID_JOB };
   }
 
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  if (!job || !job.businessId || !job.active) {
+    return { ok: false, error: "INVALID_JOB", message: `${ERROR_CODES.INVALID_JOB}: not an open business job opening` };
   }
 
-  // 3. Target must be in same zone
-  if (targetAgent.locationZoneId !== agent.locationZoneId) {
-    return { ok: false, error: "TARGET_NOT_IN_ZONE", message: ERROR_CODES.TARGET_NOT_IN_ZONE };
+  // 2. Check agent runs the business
+  const business = await ctx.db.get(job.businessId);
+  if (!business || !(await canManageBusiness(ctx, agent, business))) {
+    return { ok: false, error: "UNAUTHORIZED", message: "Agent does not own this business" };
   }
 
-  // 4. Target must be idle
-  if (targetAgent.status !== "idle") {
-    return { ok: false, error: "TARGET_NOT_IDLE", message: ERROR_CODES.TARGET_NOT_IDLE };
+  // 3. Close it
+  await ctx.db.patch(job._id, { active: false });
+
+  // 4. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "JOB_OPENING_CLOSED",
+    agentId: agent._id,
+    zoneId: job.zoneId,
+    entityId: job._id,
+    payload: {
+      jobId: job._id,
+      businessId: business._id,
+      businessName: business.name,
+      title: job.title,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Closed the "${job.title}" opening at ${business.name}`,
+    result: {
+      jobId: job._id,
+      businessId: business._id,
+    },
+  };
+}
+
+/**
+ * QUIT_JOB - Walk off a business job mid-shift
+ * Prereq: Working a business job whose employer can't cover the wage, or
+ * already owes you unpaid wages
+ * You are free to act again right away. The shift is unpaid and the stamina
+ * spent is not refunded.
+ */
+async function handleQuitJob(actionCtx: ActionContext): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Must be working a business job
+  const busyAction = agent.busyAction;
+  if (agent.status !== "busy" || !busyAction || !busyAction.startsWith("JOB:")) {
+    return { ok: false, error: "CANNOT_QUIT_JOB", message: ERROR_CODES.CANNOT_QUIT_JOB };
   }
 
-  // 5. Calculate success chance
-  const baseSuccess = GTA_DEFAULTS.attackBaseSuccess;
-  const combatBonus = agent.skills.combat * GTA_DEFAULTS.attackCombatBonus;
-  const successChance = Math.min(0.95, baseSuccess + combatBonus);
+  const job = await ctx.db.get(busyAction.replace("JOB:", "") as Id<"jobs">);
+  if (!job || !job.businessId) {
+    return { ok: false, error: "CANNOT_QUIT_JOB", message: ERROR_CODES.CANNOT_QUIT_JOB };
+  }
 
-  // 6. Roll for success
-  const rng = createTickRng(world.seed, world.tick);
-  const succeeded = rng.randomChance(successChance);
+  // 2. Only when the employer can't pay or already owes us
+  const business = await ctx.db.get(job.businessId);
+  const unpaidClaims = await ctx.db
+    .query("wageClaims")
+    .withIndex("by_employeeId_status", (q) => q.eq("employeeId", agent._id).eq("status", "unpaid"))
+    .collect();
+  const owedByEmployer = unpaidClaims.filter((c) => c.businessId === job.businessId);
+  const cannotPay = !business || business.status !== "open" || business.cashOnHand < job.wage;
+  if (!cannotPay && owedByEmployer.length === 0) {
+    return { ok: false, error: "CANNOT_QUIT_JOB", message: ERROR_CODES.CANNOT_QUIT_JOB };
+  }
 
-  const timestamp = Date.now();
+  // 3. Leave the shift
+  await ctx.db.patch(agent._id, {
+    status: "idle",
+    busyUntilTick: null,
+    busyAction: null,
+  });
 
-  // Always gain heat for attacking
-  const newAttackerHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.attackHeat);
+  // 4. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "JOB_QUIT",
+    agentId: agent._id,
+    zoneId: job.zoneId,
+    entityId: job._id,
+    payload: {
+      jobId: job._id,
+      jobTitle: job.title,
+      businessId: job.businessId,
+      businessName: business?.name ?? null,
+      unpaidWages: owedByEmployer.reduce((sum, c) => sum + c.amount, 0),
+    },
+    requestId,
+  });
 
-  // Initialize combat stats if needed
-  const attackerCombatStats = agent.combatStats ?? {
-    kills: 0,
-    deaths: 0,
-    bountiesClaimed: 0,
-    bountiesPlaced: 0,
-  };
-  const targetCombatStats = targetAgent.combatStats ?? {
-    kills: 0,
-    deaths: 0,
-    bountiesClaimed: 0,
-    bountiesPlaced: 0,
+  return {
+    ok: true,
+    message: `Quit "${job.title}"${business ? ` at ${business.name}` : ""}`,
+    result: {
+      jobId: job._id,
+      businessId: job.businessId,
+      unpaidClaims: owedByEmployer.map((c) => c._id),
+    },
   };
+}
 
-  if (succeeded) {
-    // Calculate damage dealt
-    const damage = rng.randomInt(GTA_DEFAULTS.attackBaseDamage.min, GTA_DEFAULTS.attackBaseDamage.max);
-    const newTargetHealth = Math.max(0, targetAgent.health - damage);
-    const killed = newTargetHealth === 0;
-
-    let cashStolen = 0;
-    let newTargetCash = targetAgent.cash;
+/**
+ * SUE_EMPLOYER - Take an employer to court over unpaid wages
+ * Prereq: An unpaid wage claim of yours
+ * The court awards the wages plus damages. It collects from the business's
+ * cash first, then from its owner (or the owning gang's treasury). If it
+ * still can't collect the full award, it shuts the business down. The owner
+ * loses reputation either way.
+ */
+async function handleSueEmployer(
+  actionCtx: ActionContext,
+  args: ActionArgs["SUE_EMPLOYER"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
 
-    if (killed) {
-      // Target killed - hospitalize them and they lose 25% cash
-      cashStolen = Math.floor(targetAgent.cash * GTA_DEFAULTS.deathCashLoss);
-      newTargetCash = targetAgent.cash - cashStolen;
+  // 1. Get claim
+  let claim: Doc<"wageClaims"> | null = null;
+  try {
+    claim = await ctx.db.get(args.claimId as Id<"wageClaims">);
+  } catch {
+    return { ok: false, error: "WAGE_CLAIM_NOT_FOUND", message: ERROR_CODES.WAGE_CLAIM_NOT_FOUND };
+  }
 
-      // Get hospital zone
-      const hospitalZone = await ctx.db
-        .query("zones")
-        .withIndex("by_slug", (q) => q.eq("slug", "hospital"))
-        .first();
+  if (!claim || claim.status !== "unpaid" || claim.employeeId !== agent._id) {
+    return { ok: false, error: "WAGE_CLAIM_NOT_FOUND", message: ERROR_CODES.WAGE_CLAIM_NOT_FOUND };
+  }
 
-      await ctx.db.patch(targetAgent._id, {
-        health: 50, // Respawn with 50 health
-        cash: newTargetCash,
-        status: "hospitalized",
-        busyUntilTick: world.tick + GTA_DEFAULTS.deathRespawnTicks,
-        busyAction: "RECOVERING",
-        locationZoneId: hospitalZone?._id ?? targetAgent.locationZoneId,
-        combatStats: { ...targetCombatStats, deaths: targetCombatStats.deaths + 1 },
-      });
+  const business = await ctx.db.get(claim.businessId);
+  const owner = business?.ownerAgentId ? await ctx.db.get(business.ownerAgentId) : null;
+  const gang = business?.ownerGangId ? await ctx.db.get(business.ownerGangId) : null;
 
-      // Attacker gets the stolen cash and kill credit
-      await ctx.db.patch(agent._id, {
-        heat: newAttackerHeat,
-        cash: agent.cash + cashStolen,
-        combatStats: { ...attackerCombatStats, kills: attackerCombatStats.kills + 1 },
-      });
+  // 2. Collect the award: business cash, then the owner's cash or gang treasury
+  const awarded = Math.ceil(claim.amount * EMPLOYMENT_DEFAULTS.lawsuitDamagesMultiplier);
+  const fromBusiness = Math.min(business?.cashOnHand ?? 0, awarded);
+  const ownerFunds = owner ? owner.cash : gang ? gang.treasury : 0;
+  const fromOwner = Math.min(Math.max(0, ownerFunds), awarded - fromBusiness);
+  const collected = fromBusiness + fromOwner;
+  const businessShutDown = !!business && business.status === "open" && collected < awarded;
 
-      // Log kill event
-      await ctx.db.insert("events", {
-        tick: world.tick,
-        timestamp,
-        type: "AGENT_KILLED",
-        agentId: agent._id,
-        zoneId: agent.locationZoneId,
-        entityId: null,
-        payload: {
-          targetAgentId: targetAgent._id,
-          targetAgentName: targetAgent.name,
-          damage,
-          cashStolen,
-          respawnTicks: GTA_DEFAULTS.deathRespawnTicks,
-        },
-        requestId,
-      });
-    } else {
-      // Target damaged but not killed
-      await ctx.db.patch(targetAgent._id, {
-        health: newTargetHealth,
-      });
+  if (business) {
+    await ctx.db.patch(business._id, {
+      cashOnHand: business.cashOnHand - fromBusiness,
+      ...(businessShutDown ? { status: "closed" as const } : {}),
+    });
+  }
 
-      await ctx.db.patch(agent._id, {
-        heat: newAttackerHeat,
-      });
+  if (businessShutDown) {
+    const openings = await ctx.db
+      .query("jobs")
+      .withIndex("by_businessId", (q) => q.eq("businessId", business._id))
+      .filter((q) => q.eq(q.field("active"), true))
+      .collect();
+    for (const opening of openings) {
+      await ctx.db.patch(opening._id, { active: false });
     }
+  }
 
-    // Log attack event
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "AGENT_ATTACKED",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        damage,
-        killed,
-        cashStolen,
-        newTargetHealth,
-        successChance,
-      },
-      requestId,
-    });
+  await ctx.db.patch(claim._id, {
+    status: "settled",
+    awarded,
+    collected,
+    closedTick: world.tick,
+  });
 
-    return {
-      ok: true,
-      message: killed
-        ? `Killed ${targetAgent.name}! Stole $${cashStolen}.`
-        : `Hit ${targetAgent.name} for ${damage} damage!`,
-      result: {
-        success: true,
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        damage,
-        killed,
-        cashStolen,
-        newTargetHealth,
-        newAttackerHeat,
-        successChance,
-      },
-    };
-  } else {
-    // Attack failed - take counter-damage
-    const counterDamage = rng.randomInt(
-      GTA_DEFAULTS.attackCounterDamage.min,
-      GTA_DEFAULTS.attackCounterDamage.max
-    );
-    const newAttackerHealth = Math.max(0, agent.health - counterDamage);
-    const attackerHospitalized = newAttackerHealth === 0;
+  const newCash = agent.cash + collected;
+  await ctx.db.patch(agent._id, { cash: newCash });
+
+  // 3. Log event
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "EMPLOYER_SUED",
+    agentId: agent._id,
+    zoneId: business?.zoneId ?? null,
+    entityId: claim._id,
+    payload: {
+      claimId: claim._id,
+      businessId: claim.businessId,
+      businessName: business?.name ?? null,
+      ownerAgentId: owner?._id ?? null,
+      ownerGangId: gang?._id ?? null,
+      unpaidWages: claim.amount,
+      awarded,
+      collected,
+      businessShutDown,
+    },
+    requestId,
+  });
 
-    await ctx.db.patch(agent._id, {
-      health: newAttackerHealth,
-      heat: newAttackerHeat,
-      status: attackerHospitalized ? "hospitalized" : agent.status,
-      busyUntilTick: attackerHospitalized ? world.tick + GTA_DEFAULTS.deathRespawnTicks : agent.busyUntilTick,
-      busyAction: attackerHospitalized ? "RECOVERING" : agent.busyAction,
+  // 4. The business pays first
+  const ownerId = owner?._id ?? gang?.leaderId ?? null;
+  if (business && ownerId && fromBusiness > 0) {
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: ownerId,
+      type: "debit",
+      amount: fromBusiness,
+      reason: "WAGE_SETTLEMENT",
+      balance: business.cashOnHand - fromBusiness,
+      refEventId: eventId,
+      businessId: business._id,
     });
+  }
 
-    // Log failed attack event
-    await ctx.db.insert("events", {
+  // 5. The owner pays the rest and loses reputation (the leader, for a gang)
+  if (owner) {
+    const ownerCash = owner.cash - fromOwner;
+    await ctx.db.patch(owner._id, {
+      cash: ownerCash,
+      reputation: owner.reputation - EMPLOYMENT_DEFAULTS.lawsuitReputationPenalty,
+    });
+    if (fromOwner > 0) {
+      await ctx.db.insert("ledger", {
+        tick: world.tick,
+        agentId: owner._id,
+        type: "debit",
+        amount: fromOwner,
+        reason: "WAGE_SETTLEMENT",
+        balance: ownerCash,
+        refEventId: eventId,
+      });
+    }
+  } else if (gang) {
+    if (fromOwner > 0) {
+      await recordGangTransaction(ctx, gang, agent._id, "debit", fromOwner, "WAGE_SETTLEMENT", world.tick, eventId);
+    }
+    const leader = await ctx.db.get(gang.leaderId);
+    if (leader) {
+      await ctx.db.patch(leader._id, {
+        reputation: leader.reputation - EMPLOYMENT_DEFAULTS.lawsuitReputationPenalty,
+      });
+    }
+  }
+
+  // 6. Ledger entry
+  if (collected > 0) {
+    await ctx.db.insert("ledger", {
       tick: world.tick,
-      timestamp,
-      type: "AGENT_ATTACKED",
       agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        attackFailed: true,
-        counterDamage,
-        attackerHospitalized,
-        successChance,
-      },
-      requestId,
+      type: "credit",
+      amount: collected,
+      reason: "WAGE_SETTLEMENT",
+      balance: newCash,
+      refEventId: eventId,
     });
-
-    return {
-      ok: true,
-      message: `Attack failed! Took ${counterDamage} counter-damage.`,
-      result: {
-        success: false,
-        targetAgentId: targetAgent._id,
-        targetAgentName: targetAgent.name,
-        counterDamage,
-        newAttackerHealth,
-        attackerHospitalized,
-        newAttackerHeat,
-        successChance,
-      },
-    };
   }
+
+  return {
+    ok: true,
+    message:
+      `Court awarded $${awarded} for $${claim.amount} in unpaid wages; collected $${collected}` +
+      (businessShutDown ? `. ${business.name} was shut down.` : ""),
+    result: {
+      claimId: claim._id,
+      awarded,
+      collected,
+      businessShutDown,
+    },
+  };
 }
 
+// ============================================================================
+// PRODUCTION ACTION HANDLERS
+// ============================================================================
+
 /**
- * PLACE_BOUNTY - Put bounty on another agent
- * Prereq: Have $500-$50,000 for bounty, target exists
+ * PRODUCE - Turn raw materials and input items into new goods
+ * Prereq: Run an open business the recipe allows, be in its zone
+ * Raw materials, inputs and stamina are spent up front; outputs land in the
+ * producer's inventory when the busy period ends, ready to STOCK_BUSINESS,
+ * SELL or feed the next recipe.
  */
-async function handlePlaceBounty(
+async function handleProduce(
   actionCtx: ActionContext,
-  args: ActionArgs["PLACE_BOUNTY"]
+  args: ActionArgs["PRODUCE"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId, amount, reason } = args;
+  const { businessId } = args;
 
-  // 1. Cannot place bounty on self
-  if (targetAgentId === agent._id.toString()) {
-    return { ok: false, error: "CANNOT_BOUNTY_SELF", message: ERROR_CODES.CANNOT_BOUNTY_SELF };
+  // 1. Validate recipe
+  const recipe = Object.prototype.hasOwnProperty.call(PRODUCTION_RECIPES, args.recipe)
+    ? PRODUCTION_RECIPES[args.recipe]
+    : undefined;
+  if (!recipe) {
+    return {
+      ok: false,
+      error: "INVALID_RECIPE",
+      message: `${ERROR_CODES.INVALID_RECIPE}: ${args.recipe}. Valid recipes: ${Object.keys(PRODUCTION_RECIPES).join(", ")}`,
+    };
   }
 
-  // 2. Validate bounty amount
-  if (amount < GTA_DEFAULTS.bountyMinAmount) {
+  // 2. Get business
+  let business: Doc<"businesses"> | null = null;
+  try {
+    business = await ctx.db.get(businessId as Id<"businesses">);
+  } catch {
+    return { ok: false, error: "INVALID_BUSINESS", message: ERROR_CODES.INVALID_BUSINESS };
+  }
+
+  if (!business) {
+    return { ok: false, error: "INVALID_BUSINESS", message: ERROR_CODES.INVALID_BUSINESS };
+  }
+
+  // 3. Check agent runs the business, it is open and they are there
+  if (!(await canManageBusiness(ctx, agent, business))) {
+    return { ok: false, error: "UNAUTHORIZED", message: "Agent does not own this business" };
+  }
+
+  if (business.status !== "open") {
+    return { ok: false, error: "BUSINESS_CLOSED", message: ERROR_CODES.BUSINESS_CLOSED };
+  }
+
+  if (business.zoneId !== agent.locationZoneId) {
+    return { ok: false, error: "WRONG_ZONE", message: ERROR_CODES.WRONG_ZONE };
+  }
+
+  // 4. Check the business can run this recipe where it is
+  const zone = await ctx.db.get(business.zoneId);
+  if (
+    !recipe.businessTypes.includes(business.type as BusinessType) ||
+    (recipe.zoneSlugs && (!zone || !recipe.zoneSlugs.includes(zone.slug as ZoneSlug)))
+  ) {
     return {
       ok: false,
-      error: "BOUNTY_TOO_LOW",
-      message: `${ERROR_CODES.BOUNTY_TOO_LOW}. Minimum is $${GTA_DEFAULTS.bountyMinAmount}.`,
+      error: "WRONG_FACILITY",
+      message:
+        `${ERROR_CODES.WRONG_FACILITY}: ${recipe.name} needs a ${recipe.businessTypes.join(" or ")}` +
+        (recipe.zoneSlugs ? ` in ${recipe.zoneSlugs.join(" or ")}` : ""),
     };
   }
 
-  if (amount > GTA_DEFAULTS.bountyMaxAmount) {
+  // 5. Check stamina and cash for raw materials
+  if (agent.stamina < recipe.staminaCost) {
     return {
       ok: false,
-      error: "BOUNTY_TOO_HIGH",
-      message: `${ERROR_CODES.BOUNTY_TOO_HIGH}. Maximum is $${GTA_DEFAULTS.bountyMaxAmount}.`,
+      error: "REQUIREMENTS_NOT_MET",
+      message: `${ERROR_CODES.REQUIREMENTS_NOT_MET}: insufficient stamina (need ${recipe.staminaCost}, have ${agent.stamina})`,
     };
   }
 
-  // 3. Check agent has enough cash
-  if (agent.cash < amount) {
+  if (agent.cash < recipe.rawMaterialCost) {
     return {
       ok: false,
       error: "INSUFFICIENT_FUNDS",
-      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${amount}.`,
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}: raw materials cost $${recipe.rawMaterialCost}`,
     };
   }
 
-  // 4. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
-  try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
-  } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
-  }
-
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  // 6. Take the inputs out of the agent's inventory
+  let updatedInventory = [...agent.inventory];
+  for (const input of recipe.inputs) {
+    const item = await ctx.db
+      .query("items")
+      .withIndex("by_slug", (q) => q.eq("slug", input.itemSlug))
+      .unique();
+    const held = item ? updatedInventory.find((inv) => inv.itemId === item._id)?.qty ?? 0 : 0;
+    if (!item || held < input.qty) {
+      return {
+        ok: false,
+        error: "INSUFFICIENT_INVENTORY",
+        message: `${ERROR_CODES.INSUFFICIENT_INVENTORY}: ${recipe.name} needs ${input.qty} ${input.itemSlug}, have ${held}`,
+      };
+    }
+    updatedInventory = addInventoryQty(updatedInventory, item._id, -input.qty).filter((inv) => inv.qty > 0);
   }
 
-  // 5. Create bounty record
-  const expiresAt = world.tick + GTA_DEFAULTS.bountyDurationTicks;
-  const bountyId = await ctx.db.insert("bounties", {
-    targetAgentId: targetAgent._id,
-    placedByAgentId: agent._id,
-    amount,
-    reason,
-    status: "active",
-    createdAt: Date.now(),
-    expiresAt,
-  });
-
-  // 6. Deduct cash from agent
-  const newCash = agent.cash - amount;
-
-  // Update combat stats
-  const combatStats = agent.combatStats ?? {
-    kills: 0,
-    deaths: 0,
-    bountiesClaimed: 0,
-    bountiesPlaced: 0,
-  };
-
+  // 7. Pay for raw materials and set agent to busy state
+  const completionTick = world.tick + recipe.durationTicks;
+  const newCash = agent.cash - recipe.rawMaterialCost;
+  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + recipe.heatGain);
   await ctx.db.patch(agent._id, {
+    status: "busy",
+    busyUntilTick: completionTick,
+    busyAction: `PRODUCE:${args.recipe}:${business._id}`,
     cash: newCash,
-    combatStats: { ...combatStats, bountiesPlaced: combatStats.bountiesPlaced + 1 },
+    stamina: agent.stamina - recipe.staminaCost,
+    heat: newHeat,
+    inventory: updatedInventory,
   });
 
-  // 7. Log event
+  // 8. Log PRODUCTION_STARTED event
   const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "BOUNTY_PLACED",
+    type: "PRODUCTION_STARTED",
     agentId: agent._id,
-    zoneId: agent.locationZoneId,
-    entityId: bountyId,
+    zoneId: business.zoneId,
+    entityId: business._id,
     payload: {
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      amount,
-      reason,
-      expiresAt,
+      recipe: args.recipe,
+      recipeName: recipe.name,
+      businessId: business._id,
+      businessName: business.name,
+      rawMaterialCost: recipe.rawMaterialCost,
+      inputs: recipe.inputs,
+      outputs: recipe.outputs,
+      completionTick,
+      heatGain: newHeat - agent.heat,
     },
     requestId,
   });
 
-  // 8. Ledger entry
-  await ctx.db.insert("ledger", {
-    tick: world.tick,
-    agentId: agent._id,
-    type: "debit",
-    amount,
-    reason: "BOUNTY_PLACED",
-    balance: newCash,
-    refEventId: eventId,
-  });
+  // 9. Ledger entry
+  if (recipe.rawMaterialCost > 0) {
+    await ctx.db.insert("ledger", {
+      tick: world.tick,
+      agentId: agent._id,
+      type: "debit",
+      amount: recipe.rawMaterialCost,
+      reason: "RAW_MATERIALS",
+      balance: newCash,
+      refEventId: eventId,
+    });
+  }
 
   return {
     ok: true,
-    message: `Placed $${amount} bounty on ${targetAgent.name}!`,
+    message: `${recipe.name} started at ${business.name}. Will complete at tick ${completionTick}`,
     result: {
-      bountyId,
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      amount,
-      expiresAt,
+      recipe: args.recipe,
+      completionTick,
+      duration: recipe.durationTicks,
+      rawMaterialCost: recipe.rawMaterialCost,
+      inputs: recipe.inputs,
+      outputs: recipe.outputs,
     },
   };
 }
 
+// ============================================================================
+// INSURANCE ACTION HANDLERS
+// ============================================================================
+
 /**
- * CLAIM_BOUNTY - Collect reward for killing bounty target
- * Prereq: Target has active bounty, you killed them (they're hospitalized/dead)
+ * BUY_INSURANCE - Take out a health, property or vehicle policy
+ * Prereq: No active policy of that type, not flagged for fraud too often
+ * The first premium is paid now; the tick runner charges one every tick after,
+ * repriced from current heat and arrests, and lapses the policy if it can't.
  */
-async function handleClaimBounty(
+async function handleBuyInsurance(
   actionCtx: ActionContext,
-  args: ActionArgs["CLAIM_BOUNTY"]
+  args: ActionArgs["BUY_INSURANCE"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { targetAgentId } = args;
 
-  // 1. Get target agent
-  let targetAgent: Doc<"agents"> | null = null;
-  try {
-    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
-  } catch {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  // 1. Validate type
+  if (!INSURANCE_TYPES.includes(args.type as InsuranceType)) {
+    return { ok: false, error: "INVALID_INSURANCE_TYPE", message: ERROR_CODES.INVALID_INSURANCE_TYPE };
   }
+  const type = args.type as InsuranceType;
 
-  if (!targetAgent) {
-    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  // 2. Insurers won't cover repeat fraudsters
+  if ((await countFraudFlags(ctx, agent._id)) >= INSURANCE_DEFAULTS.fraudFlagLimit) {
+    return { ok: false, error: "INSURANCE_REFUSED", message: ERROR_CODES.INSURANCE_REFUSED };
   }
 
-  // 2. Find active bounty on target
-  const bounties = await ctx.db
-    .query("bounties")
-    .withIndex("by_targetAgentId", (q) => q.eq("targetAgentId", targetAgent._id))
-    .collect();
-
-  const activeBounty = bounties.find((b) => b.status === "active");
-
-  if (!activeBounty) {
-    return { ok: false, error: "NO_ACTIVE_BOUNTY", message: ERROR_CODES.NO_ACTIVE_BOUNTY };
+  // 3. One policy per type
+  const policies = await getActivePolicies(ctx, agent._id);
+  if (policies.some((p) => p.type === type)) {
+    return { ok: false, error: "ALREADY_INSURED", message: ERROR_CODES.ALREADY_INSURED };
   }
 
-  // 3. Check if agent recently killed target (look for AGENT_KILLED event in last 10 ticks)
-  const recentEvents = await ctx.db
-    .query("events")
-    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
-    .order("desc")
-    .take(50);
-
-  const killEvent = recentEvents.find(
-    (e) =>
-      e.type === "AGENT_KILLED" &&
-      e.tick >= world.tick - 10 &&
-      (e.payload as { targetAgentId?: string })?.targetAgentId === targetAgent._id.toString()
-  );
-
-  if (!killEvent) {
+  // 4. Pay the first premium
+  const premium = getInsurancePremium(agent, type);
+  if (agent.cash < premium) {
     return {
       ok: false,
-      error: "NO_ACTIVE_BOUNTY",
-      message: "You haven't killed the bounty target recently.",
-    };
-  }
-
-  // 4. Claim bounty
-  await ctx.db.patch(activeBounty._id, {
-    status: "claimed",
-    claimedByAgentId: agent._id,
-  });
-
-  // 5. Pay out bounty and add heat
-  const newCash = agent.cash + activeBounty.amount;
-  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + GTA_DEFAULTS.bountyClaimHeat);
-
-  // Update combat stats
-  const combatStats = agent.combatStats ?? {
-    kills: 0,
-    deaths: 0,
-    bountiesClaimed: 0,
-    bountiesPlaced: 0,
-  };
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}: first premium is $${premium}`,
+    };
+  }
 
-  await ctx.db.patch(agent._id, {
-    cash: newCash,
-    heat: newHeat,
-    combatStats: { ...combatStats, bountiesClaimed: combatStats.bountiesClaimed + 1 },
+  const newCash = agent.cash - premium;
+  await ctx.db.patch(agent._id, { cash: newCash });
+
+  // 5. Create the policy
+  const policyId = await insertTracked(ctx, "insurancePolicies", {
+    agentId: agent._id,
+    type,
+    status: "active",
+    premium,
+    paidThroughTick: world.tick,
+    premiumsPaid: premium,
+    claimsPaid: 0,
+    createdTick: world.tick,
   });
 
   // 6. Log event
   const eventId = await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "BOUNTY_CLAIMED",
+    type: "INSURANCE_PURCHASED",
     agentId: agent._id,
     zoneId: agent.locationZoneId,
-    entityId: activeBounty._id,
+    entityId: policyId,
     payload: {
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      amount: activeBounty.amount,
-      placedByAgentId: activeBounty.placedByAgentId,
-      heatGained: GTA_DEFAULTS.bountyClaimHeat,
+      policyId,
+      insuranceType: type,
+      premium,
+      coverage: INSURANCE_DEFAULTS.coverage[type],
+      maxPayout: INSURANCE_DEFAULTS.maxPayout[type],
     },
     requestId,
   });
@@ -4801,485 +9161,549 @@ async function handleClaimBounty(
   await ctx.db.insert("ledger", {
     tick: world.tick,
     agentId: agent._id,
-    type: "credit",
-    amount: activeBounty.amount,
-    reason: "BOUNTY_CLAIMED",
+    type: "debit",
+    amount: premium,
+    reason: "INSURANCE_PREMIUM",
     balance: newCash,
     refEventId: eventId,
   });
 
   return {
     ok: true,
-    message: `Claimed $${activeBounty.amount} bounty on ${targetAgent.name}!`,
+    message: `Bought ${type} insurance for $${premium} per tick (covers ${Math.round(INSURANCE_DEFAULTS.coverage[type] * 100)}% of losses up to $${INSURANCE_DEFAULTS.maxPayout[type]})`,
     result: {
-      bountyId: activeBounty._id,
-      targetAgentId: targetAgent._id,
-      targetAgentName: targetAgent.name,
-      amount: activeBounty.amount,
-      newCash,
-      newHeat,
+      policyId,
+      type,
+      premium,
+      coverage: INSURANCE_DEFAULTS.coverage[type],
+      maxPayout: INSURANCE_DEFAULTS.maxPayout[type],
     },
   };
 }
 
 /**
- * GAMBLE - Risk money at the casino
- * Prereq: In market zone, $10-$5000 bet
+ * CANCEL_INSURANCE - Stop a policy and its premiums
+ * Prereq: Hold the policy
  */
-async function handleGamble(
+async function handleCancelInsurance(
   actionCtx: ActionContext,
-  args: ActionArgs["GAMBLE"]
+  args: ActionArgs["CANCEL_INSURANCE"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { amount, riskType } = args;
 
-  // 1. Must be in market zone
-  const currentZone = await ctx.db.get(agent.locationZoneId);
-  if (!currentZone || currentZone.slug !== "market") {
-    return { ok: false, error: "NOT_IN_MARKET", message: ERROR_CODES.NOT_IN_MARKET };
+  // 1. Get policy
+  let policy: Doc<"insurancePolicies"> | null = null;
+  try {
+    policy = await ctx.db.get(args.policyId as Id<"insurancePolicies">);
+  } catch {
+    return { ok: false, error: "POLICY_NOT_FOUND", message: ERROR_CODES.POLICY_NOT_FOUND };
   }
 
-  // 2. Validate bet amount
-  if (amount < GTA_DEFAULTS.gambleMinAmount) {
-    return {
-      ok: false,
-      error: "GAMBLE_TOO_LOW",
-      message: `${ERROR_CODES.GAMBLE_TOO_LOW}. Minimum bet is $${GTA_DEFAULTS.gambleMinAmount}.`,
-    };
+  if (!policy || policy.status !== "active" || policy.agentId !== agent._id) {
+    return { ok: false, error: "POLICY_NOT_FOUND", message: ERROR_CODES.POLICY_NOT_FOUND };
   }
 
-  if (amount > GTA_DEFAULTS.gambleMaxAmount) {
+  // 2. Cancel it
+  await ctx.db.patch(policy._id, { status: "cancelled", closedTick: world.tick });
+
+  // 3. Log event
+  await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "INSURANCE_CANCELLED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: policy._id,
+    payload: {
+      policyId: policy._id,
+      insuranceType: policy.type,
+      premiumsPaid: policy.premiumsPaid,
+      claimsPaid: policy.claimsPaid,
+    },
+    requestId,
+  });
+
+  return {
+    ok: true,
+    message: `Cancelled ${policy.type} insurance`,
+    result: {
+      policyId: policy._id,
+      premiumsPaid: policy.premiumsPaid,
+      claimsPaid: policy.claimsPaid,
+    },
+  };
+}
+
+// ============================================================================
+// TRAINING ACTION HANDLERS
+// ============================================================================
+
+/**
+ * TRAIN_SKILL - Take a session at the facility that teaches a skill
+ * Prereq: Be in the facility's zone, have the cash and stamina
+ * The skill goes up when the busy period ends; each session gains less the
+ * higher the skill already is.
+ */
+async function handleTrainSkill(
+  actionCtx: ActionContext,
+  args: ActionArgs["TRAIN_SKILL"]
+): Promise<ActionResult> {
+  const { ctx, agent, world, requestId } = actionCtx;
+
+  // 1. Validate skill
+  if (!SKILL_TYPES.includes(args.skill as SkillType)) {
+    return { ok: false, error: "INVALID_SKILL", message: ERROR_CODES.INVALID_SKILL };
+  }
+  const skill = args.skill as SkillType;
+
+  if (agent.skills[skill] >= TRAINING_DEFAULTS.maxSkillLevel) {
+    return { ok: false, error: "SKILL_MAXED", message: ERROR_CODES.SKILL_MAXED };
+  }
+
+  // 2. Agent must be at the facility that teaches it
+  const facilitySlug = getTrainingFacility(skill);
+  const facility = TRAINING_FACILITIES[facilitySlug];
+  const zone = await ctx.db.get(agent.locationZoneId);
+  if (!zone || zone.slug !== facility.zoneSlug) {
     return {
       ok: false,
-      error: "GAMBLE_TOO_HIGH",
-      message: `${ERROR_CODES.GAMBLE_TOO_HIGH}. Maximum bet is $${GTA_DEFAULTS.gambleMaxAmount}.`,
+      error: "WRONG_ZONE",
+      message: `${ERROR_CODES.WRONG_ZONE}: ${skill} is taught at the ${facility.name} in ${facility.zoneSlug}`,
     };
   }
 
-  // 3. Check agent has enough cash
-  if (agent.cash < amount) {
+  // 3. Check stamina and cash
+  if (agent.stamina < facility.staminaCost) {
     return {
       ok: false,
-      error: "INSUFFICIENT_FUNDS",
-      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. Need $${amount}.`,
+      error: "REQUIREMENTS_NOT_MET",
+      message: `${ERROR_CODES.REQUIREMENTS_NOT_MET}: insufficient stamina (need ${facility.staminaCost}, have ${agent.stamina})`,
     };
   }
 
-  // 4. Validate risk type
-  if (!GAMBLE_RISK_TYPES.includes(riskType as GambleRiskType)) {
+  if (agent.cash < facility.cost) {
     return {
       ok: false,
-      error: "INVALID_GAMBLE_TYPE",
-      message: `${ERROR_CODES.INVALID_GAMBLE_TYPE}. Valid types: ${GAMBLE_RISK_TYPES.join(", ")}.`,
+      error: "INSUFFICIENT_FUNDS",
+      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}: a session costs $${facility.cost}`,
     };
   }
 
-  const odds = GTA_DEFAULTS.gambleOdds[riskType as GambleRiskType];
-
-  // 5. Roll for win
-  const rng = createTickRng(world.seed, world.tick);
-  const won = rng.randomChance(odds.winChance);
+  // 4. Pay for the session and set agent to busy state
+  const completionTick = world.tick + facility.durationTicks;
+  const newCash = agent.cash - facility.cost;
+  await ctx.db.patch(agent._id, {
+    status: "busy",
+    busyUntilTick: completionTick,
+    busyAction: `TRAIN:${skill}`,
+    cash: newCash,
+    stamina: agent.stamina - facility.staminaCost,
+  });
 
-  const timestamp = Date.now();
+  // 5. Log TRAINING_STARTED event
+  const expectedGain = getTrainingGain(agent.skills[skill]);
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "TRAINING_STARTED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: null,
+    payload: {
+      skill,
+      facility: facilitySlug,
+      facilityName: facility.name,
+      cost: facility.cost,
+      level: agent.skills[skill],
+      expectedGain,
+      completionTick,
+    },
+    requestId,
+  });
 
-  if (won) {
-    // Win - multiply bet
-    const winnings = amount * odds.multiplier;
-    const newCash = agent.cash + winnings - amount; // Net gain
+  // 6. Ledger entry
+  await ctx.db.insert("ledger", {
+    tick: world.tick,
+    agentId: agent._id,
+    type: "debit",
+    amount: facility.cost,
+    reason: "TRAINING",
+    balance: newCash,
+    refEventId: eventId,
+  });
 
-    await ctx.db.patch(agent._id, { cash: newCash });
+  return {
+    ok: true,
+    message: `Training ${skill} at the ${facility.name}. Will complete at tick ${completionTick}`,
+    result: {
+      skill,
+      facility: facilitySlug,
+      completionTick,
+      duration: facility.durationTicks,
+      cost: facility.cost,
+      expectedGain,
+    },
+  };
+}
 
-    // Log win event
-    const eventId = await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "GAMBLE_WON",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        betAmount: amount,
-        riskType,
-        multiplier: odds.multiplier,
-        winnings,
-        winChance: odds.winChance,
-      },
-      requestId,
-    });
+// ============================================================================
+// TRADE ACTION HANDLERS
+// ============================================================================
 
-    // Ledger entry for net gain
-    await ctx.db.insert("ledger", {
-      tick: world.tick,
-      agentId: agent._id,
-      type: "credit",
-      amount: winnings - amount,
-      reason: "GAMBLING_WIN",
-      balance: newCash,
-      refEventId: eventId,
-    });
+/**
+ * Turn one side of a PROPOSE_TRADE into a bundle (item slugs to ids, repeats merged)
+ * @returns The bundle, or an error result
+ */
+async function resolveTradeBundle(
+  actionCtx: ActionContext,
+  bundleArgs: TradeBundleArgs | undefined
+): Promise<TradeBundle | ActionResult> {
+  const { ctx } = actionCtx;
+  const cash = bundleArgs?.cash ?? 0;
+  const itemArgs = bundleArgs?.items ?? [];
+  const propertyArgs = bundleArgs?.propertyIds ?? [];
+  const vehicleArgs = bundleArgs?.vehicleIds ?? [];
 
-    return {
-      ok: true,
-      message: `Won $${winnings}! (${odds.multiplier}x multiplier)`,
-      result: {
-        won: true,
-        betAmount: amount,
-        riskType,
-        multiplier: odds.multiplier,
-        winnings,
-        netGain: winnings - amount,
-        newCash,
-        winChance: odds.winChance,
-      },
-    };
-  } else {
-    // Lose bet
-    const newCash = agent.cash - amount;
+  if (
+    !Number.isInteger(cash) ||
+    cash < 0 ||
+    !Array.isArray(itemArgs) ||
+    !Array.isArray(propertyArgs) ||
+    !Array.isArray(vehicleArgs)
+  ) {
+    return { ok: false, error: "INVALID_TRADE", message: ERROR_CODES.INVALID_TRADE };
+  }
 
-    await ctx.db.patch(agent._id, { cash: newCash });
+  let items: TradeBundle["items"] = [];
+  for (const { itemSlug, qty } of itemArgs) {
+    if (!Number.isInteger(qty) || qty < 1) {
+      return { ok: false, error: "INVALID_TRADE", message: ERROR_CODES.INVALID_TRADE };
+    }
+    const item = await ctx.db
+      .query("items")
+      .withIndex("by_slug", (q) => q.eq("slug", itemSlug))
+      .first();
+    if (!item) {
+      return { ok: false, error: "INVALID_ITEM", message: `${ERROR_CODES.INVALID_ITEM}: ${itemSlug}` };
+    }
+    items = addInventoryQty(items, item._id, qty);
+  }
 
-    // Log lose event
-    const eventId = await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "GAMBLE_LOST",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: null,
-      payload: {
-        betAmount: amount,
-        riskType,
-        winChance: odds.winChance,
-      },
-      requestId,
-    });
+  const propertyIds: Id<"properties">[] = [];
+  for (const propertyId of new Set(propertyArgs)) {
+    let property: Doc<"properties"> | null = null;
+    try {
+      property = await ctx.db.get(propertyId as Id<"properties">);
+    } catch {
+      return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+    }
+    if (!property) {
+      return { ok: false, error: "INVALID_PROPERTY", message: ERROR_CODES.INVALID_PROPERTY };
+    }
+    propertyIds.push(property._id);
+  }
 
-    // Ledger entry
-    await ctx.db.insert("ledger", {
-      tick: world.tick,
-      agentId: agent._id,
-      type: "debit",
-      amount,
-      reason: "GAMBLING_LOSS",
-      balance: newCash,
-      refEventId: eventId,
-    });
+  const vehicleIds: Id<"vehicles">[] = [];
+  for (const vehicleId of new Set(vehicleArgs)) {
+    let vehicle: Doc<"vehicles"> | null = null;
+    try {
+      vehicle = await ctx.db.get(vehicleId as Id<"vehicles">);
+    } catch {
+      return { ok: false, error: "INVALID_VEHICLE", message: ERROR_CODES.INVALID_VEHICLE };
+    }
+    if (!vehicle) {
+      return { ok: false, error: "INVALID_VEHICLE", message: ERROR_CODES.INVALID_VEHICLE };
+    }
+    vehicleIds.push(vehicle._id);
+  }
 
+  const bundle = { cash, items, propertyIds, vehicleIds };
+  if (countBundleAssets(bundle) > TRADE_DEFAULTS.maxAssetsPerSide) {
     return {
-      ok: true,
-      message: `Lost $${amount}. Better luck next time!`,
-      result: {
-        won: false,
-        betAmount: amount,
-        riskType,
-        amountLost: amount,
-        newCash,
-        winChance: odds.winChance,
-      },
+      ok: false,
+      error: "INVALID_TRADE",
+      message: `${ERROR_CODES.INVALID_TRADE}. At most ${TRADE_DEFAULTS.maxAssetsPerSide} item stacks, properties and vehicles per side.`,
     };
   }
+  return bundle;
 }
 
 /**
- * BUY_DISGUISE - Purchase a disguise for faster heat decay
- * Options: basic ($200), professional ($500), elite ($1500)
+ * Get an open trade offer
  */
-async function handleBuyDisguise(
+async function getOpenTradeOffer(
+  ctx: MutationCtx,
+  tradeId: string
+): Promise<Doc<"tradeOffers"> | null> {
+  let trade: Doc<"tradeOffers"> | null = null;
+  try {
+    trade = await ctx.db.get(tradeId as Id<"tradeOffers">);
+  } catch {
+    return null;
+  }
+  return trade && trade.status === "open" ? trade : null;
+}
+
+/**
+ * PROPOSE_TRADE - Offer another agent a swap of cash, items, properties and vehicles
+ * Prereq: Hold everything you offer; the target must hold everything you ask for
+ * Nothing changes hands until the target accepts with ACCEPT_TRADE. The offer
+ * lapses after expiresInTicks.
+ */
+async function handleProposeTrade(
   actionCtx: ActionContext,
-  args: ActionArgs["BUY_DISGUISE"]
+  args: ActionArgs["PROPOSE_TRADE"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { disguiseType } = args;
+  const { targetAgentId } = args;
+  const expiresInTicks = args.expiresInTicks ?? TRADE_DEFAULTS.defaultTtlTicks;
+
+  // 1. Cannot trade with self
+  if (targetAgentId === agent._id.toString()) {
+    return { ok: false, error: "CANNOT_TRADE_SELF", message: ERROR_CODES.CANNOT_TRADE_SELF };
+  }
 
-  // 1. Validate disguise type
-  if (!DISGUISE_TYPES.includes(disguiseType as DisguiseType)) {
+  // 2. Validate terms
+  if (!Number.isInteger(expiresInTicks) || expiresInTicks < 1 || expiresInTicks > TRADE_DEFAULTS.maxTtlTicks) {
     return {
       ok: false,
-      error: "INVALID_DISGUISE_TYPE",
-      message: `${ERROR_CODES.INVALID_DISGUISE_TYPE}. Valid types: ${DISGUISE_TYPES.join(", ")}.`,
+      error: "INVALID_TRADE",
+      message: `${ERROR_CODES.INVALID_TRADE}. Offers last 1-${TRADE_DEFAULTS.maxTtlTicks} ticks.`,
     };
   }
 
-  const disguiseConfig = GTA_DEFAULTS.disguiseTypes[disguiseType as DisguiseType];
+  const offer = await resolveTradeBundle(actionCtx, args.offer);
+  if ("ok" in offer) {
+    return offer;
+  }
+  const request = await resolveTradeBundle(actionCtx, args.request);
+  if ("ok" in request) {
+    return request;
+  }
 
-  // 2. Check agent has enough cash
-  if (agent.cash < disguiseConfig.cost) {
+  if (isEmptyBundle(offer) || isEmptyBundle(request)) {
     return {
       ok: false,
-      error: "INSUFFICIENT_FUNDS",
-      message: `${ERROR_CODES.INSUFFICIENT_FUNDS}. ${disguiseType} disguise costs $${disguiseConfig.cost}.`,
+      error: "INVALID_TRADE",
+      message: `${ERROR_CODES.INVALID_TRADE}. Use GIFT_CASH or GIFT_ITEM to give without anything in return.`,
     };
   }
 
-  // 3. Deduct cash
-  const newCash = agent.cash - disguiseConfig.cost;
-  await ctx.db.patch(agent._id, { cash: newCash });
+  // 3. Check open offer limit
+  const openOffers = await ctx.db
+    .query("tradeOffers")
+    .withIndex("by_proposerId_status", (q) => q.eq("proposerId", agent._id).eq("status", "open"))
+    .collect();
+  if (openOffers.length >= TRADE_DEFAULTS.maxOpenOffersPerAgent) {
+    return {
+      ok: false,
+      error: "TRADE_LIMIT_REACHED",
+      message: `${ERROR_CODES.TRADE_LIMIT_REACHED} (max ${TRADE_DEFAULTS.maxOpenOffersPerAgent})`,
+    };
+  }
 
-  // 4. Create disguise record (replacing any existing)
-  const existingDisguise = await ctx.db
-    .query("disguises")
-    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
-    .first();
+  // 4. Get target agent
+  let targetAgent: Doc<"agents"> | null = null;
+  try {
+    targetAgent = await ctx.db.get(targetAgentId as Id<"agents">);
+  } catch {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
 
-  if (existingDisguise) {
-    await ctx.db.delete(existingDisguise._id);
+  if (!targetAgent) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
   }
 
-  const expiresAtTick = world.tick + disguiseConfig.durationTicks;
-  const disguiseId = await ctx.db.insert("disguises", {
-    agentId: agent._id,
-    type: disguiseType as DisguiseType,
-    heatReduction: disguiseConfig.heatReduction,
+  // 5. Both sides must hold what they would hand over
+  const problem =
+    (await getBundleProblem(ctx, agent, offer)) ?? (await getBundleProblem(ctx, targetAgent, request));
+  if (problem) {
+    return {
+      ok: false,
+      error: "TRADE_ASSETS_UNAVAILABLE",
+      message: `${ERROR_CODES.TRADE_ASSETS_UNAVAILABLE}: ${problem}`,
+    };
+  }
+
+  // 6. Create offer
+  const expiresAtTick = world.tick + expiresInTicks;
+  const tradeId = await insertTracked(ctx, "tradeOffers", {
+    proposerId: agent._id,
+    targetId: targetAgent._id,
+    offer,
+    request,
+    status: "open",
+    createdTick: world.tick,
     expiresAtTick,
   });
 
-  // 5. Log event
-  const eventId = await ctx.db.insert("events", {
+  // 7. Log event
+  await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "DISGUISE_PURCHASED",
+    type: "TRADE_PROPOSED",
     agentId: agent._id,
     zoneId: agent.locationZoneId,
-    entityId: disguiseId,
+    entityId: tradeId,
     payload: {
-      disguiseType,
-      cost: disguiseConfig.cost,
-      heatReduction: disguiseConfig.heatReduction,
-      durationTicks: disguiseConfig.durationTicks,
+      tradeId,
+      targetAgentId: targetAgent._id,
+      targetAgentName: targetAgent.name,
+      offer,
+      request,
       expiresAtTick,
     },
     requestId,
   });
 
-  // 6. Ledger entry
-  await ctx.db.insert("ledger", {
-    tick: world.tick,
-    agentId: agent._id,
-    type: "debit",
-    amount: disguiseConfig.cost,
-    reason: "DISGUISE_PURCHASE",
-    balance: newCash,
-    refEventId: eventId,
-  });
-
   return {
     ok: true,
-    message: `Purchased ${disguiseType} disguise. Heat decay increased by ${disguiseConfig.heatReduction} for ${disguiseConfig.durationTicks} ticks.`,
+    message: `Proposed a trade to ${targetAgent.name}. It expires at tick ${expiresAtTick}`,
     result: {
-      disguiseId,
-      disguiseType,
-      cost: disguiseConfig.cost,
-      heatReduction: disguiseConfig.heatReduction,
-      durationTicks: disguiseConfig.durationTicks,
+      tradeId,
+      targetAgentId: targetAgent._id,
+      offer,
+      request,
       expiresAtTick,
-      newCash,
     },
   };
 }
 
 /**
- * STEAL_VEHICLE - Steal a vehicle for travel speed bonus
- * Prereq: In zone with parked vehicle, don't already own vehicle
+ * ACCEPT_TRADE - Accept a trade offered to you
+ * Prereq: Be the offer's target; both sides still hold everything in it
+ * Both bundles change hands at once, or nothing does. A completed trade
+ * strengthens a friendship between the two.
  */
-async function handleStealVehicle(
+async function handleAcceptTrade(
   actionCtx: ActionContext,
-  args: ActionArgs["STEAL_VEHICLE"]
+  args: ActionArgs["ACCEPT_TRADE"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { vehicleId } = args;
 
-  // 1. Check agent doesn't already have a vehicle
-  if (agent.vehicleId) {
-    return { ok: false, error: "ALREADY_HAS_VEHICLE", message: ERROR_CODES.ALREADY_HAS_VEHICLE };
+  // 1. Get the offer
+  const trade = await getOpenTradeOffer(ctx, args.tradeId);
+  if (!trade || trade.targetId !== agent._id) {
+    return { ok: false, error: "TRADE_NOT_FOUND", message: ERROR_CODES.TRADE_NOT_FOUND };
   }
 
-  // 2. Find available vehicle in zone
-  let vehicle: Doc<"vehicles"> | null = null;
-
-  if (vehicleId) {
-    // Specific vehicle requested
-    try {
-      vehicle = await ctx.db.get(vehicleId as Id<"vehicles">);
-    } catch {
-      return { ok: false, error: "NO_VEHICLE_AVAILABLE", message: ERROR_CODES.NO_VEHICLE_AVAILABLE };
-    }
-
-    if (!vehicle || vehicle.zoneId !== agent.locationZoneId) {
-      return { ok: false, error: "NO_VEHICLE_AVAILABLE", message: ERROR_CODES.NO_VEHICLE_AVAILABLE };
-    }
-  } else {
-    // Find any available vehicle in zone
-    const vehiclesInZone = await ctx.db
-      .query("vehicles")
-      .withIndex("by_zoneId", (q) => q.eq("zoneId", agent.locationZoneId))
-      .collect();
-
-    // Find one without an owner
-    vehicle = vehiclesInZone.find((v) => !v.ownerId) ?? null;
-
-    if (!vehicle) {
-      return { ok: false, error: "NO_VEHICLE_AVAILABLE", message: ERROR_CODES.NO_VEHICLE_AVAILABLE };
-    }
+  // Expired offers stay open until the tick step closes them
+  if (world.tick >= trade.expiresAtTick) {
+    return {
+      ok: false,
+      error: "TRADE_NOT_FOUND",
+      message: `${ERROR_CODES.TRADE_NOT_FOUND}: offer has expired`,
+    };
   }
 
-  // 3. Calculate success chance based on vehicle type
-  const vehicleConfig = GTA_DEFAULTS.vehicleTypes[vehicle.type as VehicleType];
-  const baseSuccess = vehicleConfig.stealDifficulty;
-  const drivingBonus = agent.skills.driving * GTA_DEFAULTS.vehicleDrivingSkillBonus;
-  const successChance = Math.min(0.95, baseSuccess + drivingBonus);
-
-  // 4. Roll for success
-  const rng = createTickRng(world.seed, world.tick);
-  const succeeded = rng.randomChance(successChance);
-
-  const timestamp = Date.now();
-
-  // Always gain heat for attempt
-  const heatGained = GTA_DEFAULTS.vehicleStealHeat;
-  const newHeat = Math.min(DEFAULTS.maxHeat, agent.heat + heatGained);
+  const proposer = await ctx.db.get(trade.proposerId);
+  if (!proposer) {
+    return { ok: false, error: "INVALID_AGENT", message: ERROR_CODES.INVALID_AGENT };
+  }
 
-  if (succeeded) {
-    // Success - steal the vehicle
-    await ctx.db.patch(vehicle._id, {
-      ownerId: agent._id,
-      isStolen: true,
-    });
+  // 2. Re-check both sides
+  const problem =
+    (await getBundleProblem(ctx, proposer, trade.offer)) ?? (await getBundleProblem(ctx, agent, trade.request));
+  if (problem) {
+    return {
+      ok: false,
+      error: "TRADE_ASSETS_UNAVAILABLE",
+      message: `${ERROR_CODES.TRADE_ASSETS_UNAVAILABLE}: ${problem}`,
+    };
+  }
 
-    await ctx.db.patch(agent._id, {
-      vehicleId: vehicle._id,
-      heat: newHeat,
-    });
+  // 3. Close the offer and log the event
+  await ctx.db.patch(trade._id, { status: "completed", closedTick: world.tick });
 
-    // Log success event
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "VEHICLE_STOLEN",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: vehicle._id,
-      payload: {
-        vehicleType: vehicle.type,
-        vehicleName: vehicle.name,
-        speedBonus: vehicleConfig.speedBonus,
-        heatGained,
-        successChance,
-      },
-      requestId,
-    });
+  const eventId = await ctx.db.insert("events", {
+    tick: world.tick,
+    timestamp: Date.now(),
+    type: "TRADE_COMPLETED",
+    agentId: agent._id,
+    zoneId: agent.locationZoneId,
+    entityId: trade._id,
+    payload: {
+      tradeId: trade._id,
+      proposerId: proposer._id,
+      proposerName: proposer.name,
+      offer: trade.offer,
+      request: trade.request,
+    },
+    requestId,
+  });
 
-    return {
-      ok: true,
-      message: `Stole a ${vehicle.name}! Travel speed +${Math.round(vehicleConfig.speedBonus * 100)}%.`,
-      result: {
-        success: true,
-        vehicleId: vehicle._id,
-        vehicleType: vehicle.type,
-        vehicleName: vehicle.name,
-        speedBonus: vehicleConfig.speedBonus,
-        newHeat,
-        successChance,
-      },
-    };
-  } else {
-    // Failed - just gain heat
-    await ctx.db.patch(agent._id, { heat: newHeat });
+  // 4. Swap both bundles
+  await transferBundle(ctx, proposer._id, agent._id, trade.offer, world.tick, eventId);
+  await transferBundle(ctx, agent._id, proposer._id, trade.request, world.tick, eventId);
 
-    // Log failure event
-    await ctx.db.insert("events", {
-      tick: world.tick,
-      timestamp,
-      type: "VEHICLE_STEAL_FAILED",
-      agentId: agent._id,
-      zoneId: agent.locationZoneId,
-      entityId: vehicle._id,
-      payload: {
-        vehicleType: vehicle.type,
-        heatGained,
-        successChance,
-      },
-      requestId,
+  // 5. Strengthen friendship if exists
+  const friendship = await findFriendship(ctx, agent._id, proposer._id);
+  if (friendship && friendship.status === "accepted") {
+    const newStrength = Math.min(100, friendship.strength + TRADE_DEFAULTS.friendshipStrengthGain);
+    await ctx.db.patch(friendship._id, {
+      strength: newStrength,
+      lastInteractionTick: world.tick,
     });
-
-    return {
-      ok: true,
-      message: `Failed to steal the ${vehicle.name}. Gained ${heatGained} heat.`,
-      result: {
-        success: false,
-        vehicleType: vehicle.type,
-        newHeat,
-        successChance,
-      },
-    };
   }
+
+  return {
+    ok: true,
+    message: `Completed trade with ${proposer.name}`,
+    result: {
+      tradeId: trade._id,
+      proposerId: proposer._id,
+      proposerName: proposer.name,
+      received: trade.offer,
+      gave: trade.request,
+    },
+  };
 }
 
 /**
- * ACCEPT_CONTRACT - Accept an assassination contract
+ * CANCEL_TRADE - Withdraw a trade you proposed, or decline one offered to you
  */
-async function handleAcceptContract(
+async function handleCancelTrade(
   actionCtx: ActionContext,
-  args: ActionArgs["ACCEPT_CONTRACT"]
+  args: ActionArgs["CANCEL_TRADE"]
 ): Promise<ActionResult> {
   const { ctx, agent, world, requestId } = actionCtx;
-  const { contractId } = args;
-
-  // 1. Get contract
-  let contract: Doc<"contracts"> | null = null;
-  try {
-    contract = await ctx.db.get(contractId as Id<"contracts">);
-  } catch {
-    return { ok: false, error: "NO_CONTRACT_AVAILABLE", message: ERROR_CODES.NO_CONTRACT_AVAILABLE };
-  }
-
-  if (!contract) {
-    return { ok: false, error: "NO_CONTRACT_AVAILABLE", message: ERROR_CODES.NO_CONTRACT_AVAILABLE };
-  }
-
-  // 2. Check contract status
-  if (contract.status !== "available") {
-    return { ok: false, error: "CONTRACT_ALREADY_ACCEPTED", message: ERROR_CODES.CONTRACT_ALREADY_ACCEPTED };
-  }
 
-  // 3. Check not expired
-  if (contract.expiresAt < Date.now()) {
-    await ctx.db.patch(contract._id, { status: "expired" });
-    return { ok: false, error: "NO_CONTRACT_AVAILABLE", message: "Contract has expired." };
+  // 1. Get the offer
+  const trade = await getOpenTradeOffer(ctx, args.tradeId);
+  if (!trade || (trade.proposerId !== agent._id && trade.targetId !== agent._id)) {
+    return { ok: false, error: "TRADE_NOT_FOUND", message: ERROR_CODES.TRADE_NOT_FOUND };
   }
 
-  // 4. Get target info
-  const targetAgent = await ctx.db.get(contract.targetAgentId);
-
-  // 5. Accept contract
-  await ctx.db.patch(contract._id, {
-    status: "accepted",
-    acceptedByAgentId: agent._id,
-  });
+  // 2. Close it
+  const declined = trade.targetId === agent._id;
+  await ctx.db.patch(trade._id, { status: declined ? "declined" : "cancelled", closedTick: world.tick });
 
-  // 6. Log event
+  // 3. Log event
+  const otherAgentId = declined ? trade.proposerId : trade.targetId;
+  const otherAgent = await ctx.db.get(otherAgentId);
   await ctx.db.insert("events", {
     tick: world.tick,
     timestamp: Date.now(),
-    type: "CONTRACT_ACCEPTED",
+    type: declined ? "TRADE_DECLINED" : "TRADE_CANCELLED",
     agentId: agent._id,
     zoneId: agent.locationZoneId,
-    entityId: contract._id,
+    entityId: trade._id,
     payload: {
-      targetAgentId: contract.targetAgentId,
-      targetAgentName: targetAgent?.name,
-      reward: contract.reward,
+      tradeId: trade._id,
+      otherAgentId,
+      otherAgentName: otherAgent?.name,
     },
     requestId,
   });
 
   return {
     ok: true,
-    message: `Accepted contract on ${targetAgent?.name ?? "unknown"}. Reward: $${contract.reward}.`,
+    message: declined
+      ? `Declined trade from ${otherAgent?.name ?? "agent"}`
+      : `Withdrew trade offer to ${otherAgent?.name ?? "agent"}`,
     result: {
-      contractId: contract._id,
-      targetAgentId: contract.targetAgentId,
-      targetAgentName: targetAgent?.name,
-      reward: contract.reward,
+      tradeId: trade._id,
+      status: declined ? "declined" : "cancelled",
     },
   };
 }
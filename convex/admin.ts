@@ -14,6 +14,8 @@ import {
   AgencyKey,
   AGENCIES,
 } from "./lib/takedownThemes";
+import { createTickRng } from "./lib/rng";
+import { releaseGangAssets } from "./lib/gangAssets";
 
 /**
  * Validate admin key against DATA_PREVIEW_PASSWORD env variable
@@ -207,7 +209,8 @@ export const banAgent = mutation({
     }
 
     // Select agency (use provided or random)
-    const agencyKey = (args.agency as AgencyKey) || getRandomAgency();
+    const rng = createTickRng(world?.seed ?? "", world?.tick ?? 0, `takedown:${args.agentId}`);
+    const agencyKey = (args.agency as AgencyKey) || getRandomAgency(rng);
     const agency = AGENCIES[agencyKey];
 
     if (!agency) {
@@ -249,7 +252,7 @@ export const banAgent = mutation({
     }
 
     // Log the takedown event
-    const headline = generateAgentTakedownHeadline(agent.name, agencyKey);
+    const headline = generateAgentTakedownHeadline(agent.name, agencyKey, rng);
     await ctx.db.insert("events", {
       tick: world?.tick ?? 0,
       timestamp: Date.now(),
@@ -362,7 +365,8 @@ export const disbandGang = mutation({
     }
 
     // Select agency (use provided or random)
-    const agencyKey = (args.agency as AgencyKey) || getRandomAgency();
+    const rng = createTickRng(world?.seed ?? "", world?.tick ?? 0, `raid:${args.gangId}`);
+    const agencyKey = (args.agency as AgencyKey) || getRandomAgency(rng);
     const agency = AGENCIES[agencyKey];
 
     if (!agency) {
@@ -405,6 +409,9 @@ export const disbandGang = mutation({
       await ctx.db.delete(territory._id);
     }
 
+    // Seize gang assets: properties and vehicles are released, businesses shut down
+    const assetsSeized = await releaseGangAssets(ctx, args.gangId, true);
+
     // Optionally ban the gang leader
     let leaderBanned = false;
     if (args.banLeader) {
@@ -418,7 +425,7 @@ export const disbandGang = mutation({
         leaderBanned = true;
 
         // Log leader takedown event
-        const leaderHeadline = generateAgentTakedownHeadline(leader.name, agencyKey);
+        const leaderHeadline = generateAgentTakedownHeadline(leader.name, agencyKey, rng);
         await ctx.db.insert("events", {
           tick: world?.tick ?? 0,
           timestamp: Date.now(),
@@ -440,7 +447,7 @@ export const disbandGang = mutation({
     }
 
     // Log the gang raid event
-    const headline = generateGangRaidHeadline(gang.name, agencyKey);
+    const headline = generateGangRaidHeadline(gang.name, agencyKey, rng);
     await ctx.db.insert("events", {
       tick: world?.tick ?? 0,
       timestamp: Date.now(),
@@ -457,6 +464,7 @@ export const disbandGang = mutation({
         headline,
         membersAffected: memberships.length,
         territoriesReleased: territories.length,
+        assetsSeized,
         leaderBanned,
       },
       requestId: null,
@@ -477,6 +485,7 @@ export const disbandGang = mutation({
       agency: agencyKey,
       membersAffected: memberships.length,
       territoriesReleased: territories.length,
+      assetsSeized,
       leaderBanned,
     };
   },
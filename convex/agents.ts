@@ -13,6 +13,8 @@ import {
 import { generateAgentKey, hashAgentKey, validateAdminKey } from "./lib/auth";
 import { DEFAULTS, TAX_DEFAULTS } from "./lib/constants";
 import { generateUniqueAgentName } from "./lib/agentNames";
+import { createTickRng } from "./lib/rng";
+import { insertTracked } from "./lib/idLog";
 
 // ============================================================================
 // QUERIES
@@ -429,10 +431,9 @@ export const registerAgent = mutation({
     const world = await ctx.db.query("world").first();
     const currentTick = world?.tick ?? 0;
 
-    // Generate random starting cash
-    const startingCash = Math.floor(
-      Math.random() * (DEFAULTS.startingCashMax - DEFAULTS.startingCashMin + 1)
-    ) + DEFAULTS.startingCashMin;
+    // Generate random starting cash (seeded per name so registrations in the same tick differ)
+    const rng = createTickRng(world?.seed ?? "", currentTick, `register:${name}`);
+    const startingCash = rng.randomInt(DEFAULTS.startingCashMin, DEFAULTS.startingCashMax);
 
     // Build LLM info object if provider and model name are provided
     const llmInfo = args.llmProvider && args.llmModelName
@@ -444,7 +445,7 @@ export const registerAgent = mutation({
       : undefined;
 
     // Create the agent with default values
-    const agentId = await ctx.db.insert("agents", {
+    const agentId = await insertTracked(ctx, "agents", {
       agentKeyHash: keyHash,
       name: name,
       createdAt: Date.now(),
@@ -472,6 +473,22 @@ export const registerAgent = mutation({
       ...(llmInfo && { llmInfo }),
     });
 
+    // Log registration (world replay uses this to recreate the agent)
+    await ctx.db.insert("events", {
+      tick: currentTick,
+      timestamp: Date.now(),
+      type: "AGENT_REGISTERED",
+      agentId,
+      zoneId: startingZone._id,
+      entityId: agentId,
+      payload: {
+        name,
+        startingCash,
+        startingZone: startingZone.slug,
+      },
+      requestId: null,
+    });
+
     // Return the agent ID and the plain API key (only time it's returned!)
     return {
       agentId,
@@ -504,25 +521,28 @@ export const batchRegisterAgents = mutation({
     const world = await ctx.db.query("world").first();
     const currentTick = world?.tick ?? 0;
 
+    // One stream per batch, keyed by population size so repeat batches differ
+    const rng = createTickRng(world?.seed ?? "", currentTick, `batchRegister:${existingAgents.length}`);
+
     const created: string[] = [];
 
     for (let i = 0; i < numToCreate; i++) {
       // Generate a unique name
-      const name = generateUniqueAgentName(existingNames);
+      const name = generateUniqueAgentName(existingNames, rng);
       existingNames.add(name);
 
       // Pick a random zone
-      const zone = zones[Math.floor(Math.random() * zones.length)];
+      const zone = rng.randomChoice(zones);
 
-      // Generate random starting cash (100-500)
-      const startingCash = 100 + Math.floor(Math.random() * 400);
+      // Generate random starting cash (100-499)
+      const startingCash = rng.randomInt(100, 499);
 
       // Generate the API key
       const apiKey = generateAgentKey();
       const keyHash = await hashAgentKey(apiKey);
 
       // Create the agent
-      const agentId = await ctx.db.insert("agents", {
+      const agentId = await insertTracked(ctx, "agents", {
         agentKeyHash: keyHash,
         name: name,
         createdAt: Date.now(),
@@ -547,6 +567,21 @@ export const batchRegisterAgents = mutation({
         taxDueTick: currentTick + TAX_DEFAULTS.taxIntervalTicks,
       });
 
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "AGENT_REGISTERED",
+        agentId,
+        zoneId: zone._id,
+        entityId: agentId,
+        payload: {
+          name,
+          startingCash,
+          startingZone: zone.slug,
+        },
+        requestId: null,
+      });
+
       created.push(agentId);
     }
 
@@ -0,0 +1,134 @@
+/**
+ * Model Benchmark queries for ClawCity
+ * Compares LLM-driven agents by the model that powers them
+ */
+
+import { MutationCtx, QueryCtx, query } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { calculateAgentWealth } from "./lib/tax";
+import { computeGoalProgress, Goal, GoalContext } from "./lib/goals";
+import { emptyModelTotals, ModelTotals, TICKS_PER_DAY } from "./lib/benchmarks";
+
+/**
+ * Count an /agent/act outcome towards the agent's action error rate
+ */
+export async function recordActionOutcome(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  ok: boolean
+): Promise<void> {
+  const agent = await ctx.db.get(agentId);
+  if (!agent) return;
+  const actionStats = agent.actionStats ?? { actions: 0, errors: 0 };
+  await ctx.db.patch(agentId, {
+    actionStats: {
+      actions: actionStats.actions + 1,
+      errors: actionStats.errors + (ok ? 0 : 1),
+    },
+  });
+}
+
+/**
+ * Goals an agent has set (abandoned ones aside) and how many are met
+ */
+async function countGoals(
+  ctx: QueryCtx,
+  agent: Doc<"agents">
+): Promise<{ goals: number; completed: number }> {
+  const goals = (agent.goals ?? []).filter((goal) => goal.status !== "abandoned");
+  if (goals.length === 0) {
+    return { goals: 0, completed: 0 };
+  }
+
+  const ownedProperties = await ctx.db
+    .query("properties")
+    .withIndex("by_ownerId", (q) => q.eq("ownerId", agent._id))
+    .collect();
+
+  let isGangLeader = false;
+  if (agent.gangId) {
+    const gang = await ctx.db.get(agent.gangId);
+    isGangLeader = gang?.leaderId === agent._id;
+  }
+
+  const goalContext: GoalContext = {
+    agent,
+    ownedPropertyCount: ownedProperties.length,
+    isInGang: !!agent.gangId,
+    isGangLeader,
+  };
+
+  const completed = goals.filter(
+    (goal) => goal.status === "completed" || computeGoalProgress(goal as Goal, goalContext).isComplete
+  ).length;
+
+  return { goals: goals.length, completed };
+}
+
+/**
+ * Per-model benchmark totals for one page of agents
+ * Page through every agent and merge the pages with mergeModelTotals, then
+ * derive rates with getModelRates. Agents are grouped by the model they last
+ * reported; banned agents are left out.
+ */
+export const getModelBenchmarks = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    minDaysAlive: v.optional(v.number()), // Skip agents younger than this (default 1 day)
+  },
+  handler: async (ctx, args) => {
+    const agentsPage = await ctx.db.query("agents").paginate(args.paginationOpts);
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { ...agentsPage, page: [] as ModelTotals[] };
+    }
+
+    const minDaysAlive = args.minDaysAlive ?? 1;
+    const totalsByModel = new Map<string, ModelTotals>();
+
+    for (const agent of agentsPage.page) {
+      if (agent.bannedAt) continue;
+
+      // Registration is the agent's first event - older agents have none, so
+      // fall back to their days survived
+      const firstEvent = await ctx.db
+        .query("events")
+        .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+        .first();
+      const registration = firstEvent?.type === "AGENT_REGISTERED" ? firstEvent : null;
+      const registeredTick = registration?.tick ?? world.tick - agent.stats.daysSurvived * TICKS_PER_DAY;
+      const daysAlive = Math.max(0, world.tick - registeredTick) / TICKS_PER_DAY;
+      if (daysAlive < minDaysAlive || daysAlive === 0) continue;
+
+      const key = agent.llmInfo ? `${agent.llmInfo.provider}/${agent.llmInfo.modelName}` : "unknown";
+      const totals =
+        totalsByModel.get(key) ??
+        emptyModelTotals(key, agent.llmInfo?.provider ?? null, agent.llmInfo?.modelName ?? null);
+
+      totals.agents++;
+      totals.daysAlive += daysAlive;
+      totals.deaths += agent.combatStats?.deaths ?? 0;
+      totals.arrests += agent.stats.totalArrests;
+      totals.betrayals += agent.socialStats?.betrayals ?? 0;
+
+      const startingCash = (registration?.payload as { startingCash?: number } | undefined)?.startingCash;
+      if (startingCash !== undefined) {
+        totals.netWorthGrowth += (await calculateAgentWealth(ctx, agent)) - startingCash;
+        totals.growthDaysAlive += daysAlive;
+      }
+
+      const goalCounts = await countGoals(ctx, agent);
+      totals.goals += goalCounts.goals;
+      totals.goalsCompleted += goalCounts.completed;
+
+      totals.actions += agent.actionStats?.actions ?? 0;
+      totals.actionErrors += agent.actionStats?.errors ?? 0;
+
+      totalsByModel.set(key, totals);
+    }
+
+    return { ...agentsPage, page: Array.from(totalsByModel.values()) };
+  },
+});
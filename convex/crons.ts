@@ -10,4 +10,7 @@ const crons = cronJobs();
 // Run the tick every 15 seconds
 crons.interval("worldTick", { seconds: 15 }, internal.tickRunner.runTick);
 
+// Push agent events to registered webhooks (and retry failed deliveries)
+crons.interval("webhookDelivery", { seconds: 5 }, internal.webhooks.deliverWebhooks);
+
 export default crons;
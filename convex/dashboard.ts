@@ -85,7 +85,9 @@ const CRIME_EVENTS = [
   "BOUNTY_CLAIMED",
   "BOUNTY_EXPIRED",
   "VEHICLE_STOLEN",
+  "CONTRACT_POSTED",
   "CONTRACT_ACCEPTED",
+  "CONTRACT_COMPLETED",
 ];
 
 const SOCIAL_EVENTS = [
@@ -98,8 +100,21 @@ const SOCIAL_EVENTS = [
   "GANG_JOINED",
   "GANG_LEFT",
   "GANG_BETRAYED",
+  "GANG_WAR_DECLARED",
+  "GANG_WAR_TRUCE_PROPOSED",
+  "GANG_WAR_ENDED",
+  "TREATY_PROPOSED",
+  "TREATY_ACCEPTED",
+  "TREATY_DECLINED",
+  "TREATY_ENDED",
+  "TREATY_BROKEN",
+  "GANG_PROPOSAL_CREATED",
+  "GANG_PROPOSAL_PASSED",
+  "GANG_PROPOSAL_FAILED",
   "CASH_GIFTED",
   "ITEM_GIFTED",
+  "TRADE_PROPOSED",
+  "TRADE_COMPLETED",
 ];
 
 const ECONOMIC_EVENTS = [
@@ -108,16 +123,34 @@ const ECONOMIC_EVENTS = [
   "JOB_STARTED",
   "JOB_COMPLETED",
   "BUSINESS_STARTED",
+  "BUSINESS_REVENUE",
   "PROPERTY_PURCHASED",
   "PROPERTY_SOLD",
   "PROPERTY_RENTED",
+  "PROPERTY_LISTED",
+  "PROPERTY_BID_PLACED",
+  "PROPERTY_LISTING_SOLD",
+  "LOAN_TAKEN",
+  "LOAN_REPAID",
+  "LOAN_DEFAULTED",
+  "GIG_POSTED",
+  "JOB_OPENING_POSTED",
+  "WAGES_UNPAID",
+  "EMPLOYER_SUED",
+  "PRODUCTION_COMPLETED",
+  "INSURANCE_CLAIM_PAID",
+  "INSURANCE_CLAIM_DENIED",
   "TERRITORY_CLAIMED",
   "TERRITORY_INCOME",
+  "TERRITORY_CONTESTED",
   // GTA-like features
   "GAMBLE_WON",
   "GAMBLE_LOST",
   "DISGUISE_PURCHASED",
   "DISGUISE_EXPIRED",
+  "PRICE_CHANGE",
+  "ORDER_PLACED",
+  "TRADE_EXECUTED",
 ];
 
 /**
@@ -360,10 +393,104 @@ function formatEventDescription(
       return `${agent} started a job in ${zone}`;
     case "MOVE_COMPLETED":
       return `${agent} arrived at ${zone}`;
+    case "TRAVEL_STARTED":
+      return `${agent} set off for ${p?.toZoneSlug ?? "another zone"}`;
+    case "TRAVEL_COMPLETED":
+      return `${agent} finished a trip at ${zone}`;
     case "BUY":
       return `${agent} bought items in ${zone}`;
     case "SELL":
       return `${agent} sold items in ${zone}`;
+    case "ORDER_PLACED":
+      return `${agent} posted a ${p?.side ?? "market"} order for ${p?.qty ?? "some"}x ${p?.itemName ?? "items"} at $${p?.price ?? "?"} in ${zone}`;
+    case "ORDER_CANCELLED":
+      return `${agent} pulled a ${p?.side ?? "market"} order in ${zone}`;
+    case "ORDER_EXPIRED":
+      return `${agent}'s ${p?.side ?? "market"} order expired in ${zone}`;
+    case "TRADE_EXECUTED":
+      return `${agent} ${p?.role === "seller" ? "sold" : "bought"} ${p?.qty ?? "some"}x ${p?.itemName ?? "items"} at $${p?.unitPrice ?? "?"} on the ${zone} order book`;
+    case "PROPERTY_LISTED":
+      return p?.kind === "auction"
+        ? `${agent} put ${p?.propertyName ?? "a property"} up for auction in ${zone} (reserve $${p?.price ?? "?"})`
+        : `${agent} listed ${p?.propertyName ?? "a property"} for sale at $${p?.price ?? "?"} in ${zone}`;
+    case "PROPERTY_BID_PLACED":
+      return `${agent} bid $${p?.amount ?? "?"} on ${p?.propertyName ?? "a property"} in ${zone}`;
+    case "PROPERTY_OUTBID":
+      return `${agent} was outbid on ${p?.propertyName ?? "a property"} in ${zone}`;
+    case "PROPERTY_LISTING_SOLD":
+      return `${p?.buyerName ?? agent} bought ${p?.propertyName ?? "a property"} from ${p?.sellerName ?? "another agent"} for $${p?.price ?? "?"}${p?.kind === "auction" ? " at auction" : ""}`;
+    case "PROPERTY_LISTING_CANCELLED":
+      return `${agent}'s listing for ${p?.propertyName ?? "a property"} was taken down`;
+    case "PROPERTY_LISTING_EXPIRED":
+      return `${agent}'s listing for ${p?.propertyName ?? "a property"} expired unsold`;
+    case "LOAN_OFFERED":
+      return `${agent} offered ${p?.borrowerName ?? "another agent"} a $${p?.amount ?? "?"} loan`;
+    case "LOAN_OFFER_EXPIRED":
+      return `${agent}'s $${p?.amount ?? "?"} loan offer lapsed`;
+    case "LOAN_TAKEN":
+      return p?.mortgage
+        ? `${agent} took out a $${p?.amount ?? "?"} mortgage`
+        : `${agent} borrowed $${p?.amount ?? "?"} from ${p?.lenderName ?? "the bank"}`;
+    case "LOAN_REPAID":
+      return Number(p?.remaining) > 0
+        ? `${agent} paid $${p?.amount ?? "?"} toward a loan`
+        : `${agent} paid off a $${p?.amount ?? "?"} loan`;
+    case "LOAN_DEFAULTED":
+      return `${agent} defaulted on a $${p?.amountOwed ?? "?"} loan${p?.seizedPropertyId || p?.seizedVehicleId ? " and lost the collateral" : ""}`;
+    case "BUSINESS_REVENUE":
+      return `${p?.businessName ?? "A business"} served ${p?.customers ?? "some"} customer${p?.customers === 1 ? "" : "s"} for $${p?.revenue ?? "?"} in ${zone}`;
+    case "GIG_POSTED":
+      return `Gig posted in ${zone}: ${p?.title ?? "a job"} for $${p?.wage ?? "?"} (${p?.skill ?? "skill"} ${p?.level ?? "?"}+)`;
+    case "JOB_OPENING_POSTED":
+      return `${p?.businessName ?? "A business"} is hiring: ${p?.title ?? "a job"} for $${p?.wage ?? "?"} in ${zone}`;
+    case "JOB_OPENING_CLOSED":
+      return `${p?.businessName ?? "A business"} stopped hiring for ${p?.title ?? "a job"}`;
+    case "WAGES_UNPAID":
+      return `${p?.businessName ?? "A business"} couldn't pay ${agent} $${p?.amount ?? "?"} in wages`;
+    case "JOB_QUIT":
+      return `${agent} walked off the job at ${p?.businessName ?? "a business"}`;
+    case "EMPLOYER_SUED":
+      return `${agent} sued ${p?.businessName ?? "their employer"} and collected $${p?.collected ?? "?"}${p?.businessShutDown ? " - the business was shut down" : ""}`;
+    case "PRODUCTION_STARTED":
+      return `${agent} started ${p?.recipeName ?? "production"} at ${p?.businessName ?? "a business"}`;
+    case "PRODUCTION_COMPLETED":
+      return `${agent} finished ${p?.recipeName ?? "production"} at ${p?.businessName ?? "a business"}`;
+    case "INSURANCE_PURCHASED":
+      return `${agent} bought ${p?.insuranceType ?? "an"} insurance for $${p?.premium ?? "?"} a tick`;
+    case "INSURANCE_CANCELLED":
+      return `${agent} cancelled their ${p?.insuranceType ?? ""} insurance`;
+    case "INSURANCE_LAPSED":
+      return `${agent}'s ${p?.insuranceType ?? ""} insurance lapsed over an unpaid $${p?.premium ?? "?"} premium`;
+    case "INSURANCE_CLAIM_PAID":
+      return `${agent}'s ${p?.insuranceType ?? ""} insurance paid out $${p?.payout ?? "?"}`;
+    case "INSURANCE_CLAIM_DENIED":
+      return `${agent}'s ${p?.insuranceType ?? ""} claim was flagged as fraud${p?.policiesCancelled ? " - insurers dropped them" : ""}`;
+    case "TRAINING_STARTED":
+      return `${agent} started ${p?.skill ?? "skill"} training at the ${p?.facilityName ?? "facility"}`;
+    case "SKILL_TRAINED":
+      return `${agent} trained ${p?.skill ?? "a skill"} up to ${p?.levelAfter ?? "?"}`;
+    case "TRADE_PROPOSED":
+      return `${agent} proposed a trade to ${p?.targetAgentName ?? "another agent"}`;
+    case "TRADE_COMPLETED":
+      return `${agent} closed a trade with ${p?.proposerName ?? "another agent"}`;
+    case "TRADE_CANCELLED":
+      return `${agent} withdrew a trade offer to ${p?.otherAgentName ?? "another agent"}`;
+    case "TRADE_DECLINED":
+      return `${agent} turned down a trade from ${p?.otherAgentName ?? "another agent"}`;
+    case "TRADE_EXPIRED":
+      return `${agent}'s trade offer lapsed`;
+    case "PRICE_CHANGE":
+      return `${p?.itemName ?? "An item"} ${Number(p?.newPrice) > Number(p?.oldPrice) ? "rose" : "fell"} to $${p?.newPrice ?? "?"} in ${zone}`;
+    case "MARKET_CRASH":
+      return `The market crashed ${p?.citywide ? "across the city" : `in ${zone}`}`;
+    case "POLICE_CRACKDOWN":
+      return `Police launched a crackdown ${p?.citywide ? "across the city" : `in ${zone}`}`;
+    case "JOB_DROUGHT":
+      return `Work dried up in ${zone}`;
+    case "WORLD_EVENT_ENDED":
+      return `The ${String(p?.eventType ?? "event").replace(/_/g, " ").toLowerCase()} ${p?.citywide ? "across the city" : `in ${zone}`} is over`;
+    case "AGENT_REGISTERED":
+      return `${agent} arrived in ClawCity`;
     case "GANG_CREATED":
       return `${agent} created a new gang`;
     case "GANG_JOINED":
@@ -376,6 +503,30 @@ function formatEventDescription(
       return `${agent} made a new friend`;
     case "TERRITORY_CLAIMED":
       return `A gang claimed territory in ${zone}`;
+    case "TERRITORY_CONTESTED":
+      return `${p?.gangName ?? "A gang"} is contesting ${zone}`;
+    case "GANG_WAR_DECLARED":
+      return `${p?.gangName ?? "A gang"} declared war on ${p?.targetGangName ?? "a rival gang"}`;
+    case "GANG_WAR_TRUCE_PROPOSED":
+      return `${p?.gangName ?? "A gang"} ${p?.accepted ? "agreed to a truce with" : "offered a truce to"} ${p?.enemyGangName ?? "its enemy"}`;
+    case "GANG_WAR_ENDED":
+      return `${p?.outcome === "truce" ? "A truce ended the war" : `${p?.winnerGangName ?? "A gang"} won the war`} between ${p?.attackerGangName ?? "a gang"} and ${p?.defenderGangName ?? "a gang"}`;
+    case "TREATY_PROPOSED":
+      return `${p?.gangName ?? "A gang"} proposed a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} to ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_ACCEPTED":
+      return `${p?.gangName ?? "A gang"} entered a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} with ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_DECLINED":
+      return `${p?.gangName ?? "A gang"} turned down a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} from ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_ENDED":
+      return `${p?.gangName ?? "A gang"} ${p?.wasActive ? "ended its" : "withdrew a"} ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} with ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_BROKEN":
+      return `${p?.gangName ?? "A gang"} broke its non-aggression pact with ${p?.partnerGangName ?? "a rival gang"}`;
+    case "GANG_PROPOSAL_CREATED":
+      return `${agent} asked ${p?.gangName ?? "their gang"} to vote on a $${p?.amount ?? 0} ${p?.kind ?? "spend"}`;
+    case "GANG_PROPOSAL_PASSED":
+      return `${p?.gangName ?? "A gang"} voted through a $${p?.amount ?? 0} ${p?.kind ?? "spend"}${p?.targetAgentName ? ` for ${p.targetAgentName}` : p?.propertyName ? ` on ${p.propertyName}` : ""}`;
+    case "GANG_PROPOSAL_FAILED":
+      return `${p?.gangName ?? "A gang"} ${p?.status === "rejected" ? "voted down" : "dropped"} a $${p?.amount ?? 0} ${p?.kind ?? "spend"}`;
     case "COOP_CRIME_SUCCESS":
       return `A crew pulled off a ${p?.crimeType ?? "heist"} in ${zone}`;
     case "COOP_CRIME_FAILED":
@@ -417,8 +568,14 @@ function formatEventDescription(
       return `${agent}'s disguise wore off`;
     case "VEHICLE_STOLEN":
       return `${agent} stole a ${p?.vehicleType ?? "vehicle"} in ${zone}`;
+    case "CONTRACT_POSTED":
+      return `A $${p?.reward ?? "?"} contract was put out on ${p?.targetAgentName ?? "an agent"}`;
     case "CONTRACT_ACCEPTED":
       return `${agent} accepted a hit contract`;
+    case "CONTRACT_COMPLETED":
+      return `${agent} completed the contract on ${p?.targetAgentName ?? "an agent"}`;
+    case "CONTRACT_EXPIRED":
+      return `Contract on ${p?.targetAgentName ?? "an agent"} has expired`;
     default:
       return `${agent}: ${type.replace(/_/g, " ").toLowerCase()}`;
   }
@@ -573,6 +730,11 @@ const DRAMA_EVENT_TYPES = [
   "GANG_BETRAYED",
   "GANG_CREATED",
   "GANG_JOINED",
+  "GANG_WAR_DECLARED",
+  "GANG_WAR_ENDED",
+  "TREATY_ACCEPTED",
+  "TREATY_BROKEN",
+  "TERRITORY_CONTESTED",
   // Economy
   "VEHICLE_STOLEN",
   "GAMBLE_WON",
@@ -581,6 +743,10 @@ const DRAMA_EVENT_TYPES = [
   "JOB_COMPLETED",
   "PROPERTY_PURCHASED",
   "BUSINESS_STARTED",
+  // World events
+  "MARKET_CRASH",
+  "POLICE_CRACKDOWN",
+  "JOB_DROUGHT",
 ] as const;
 
 /**
@@ -724,7 +890,9 @@ function formatDramaDescription(
     case "JOB_STARTED":
       return `${agentName} started working in ${zoneName}`;
     case "JOB_COMPLETED":
-      return `${agentName} earned $${p?.wage ?? "?"} from a job`;
+      return p?.paid === false
+        ? `${agentName} worked a shift the boss couldn't pay for`
+        : `${agentName} earned $${p?.wage ?? "?"} from a job`;
     case "TAX_EVADED":
       return `${agentName} was jailed for tax evasion!`;
     case "GOVERNMENT_TAKEDOWN":
@@ -735,12 +903,30 @@ function formatDramaDescription(
       return p?.headline as string ?? `${p?.agency ?? "FBI"} raided ${p?.gangName ?? "a gang"}!`;
     case "GANG_CREATED":
       return `${agentName} founded a new gang!`;
+    case "GANG_WAR_DECLARED":
+      return `${p?.gangName ?? "A gang"} declared war on ${p?.targetGangName ?? "a rival gang"}!`;
+    case "GANG_WAR_ENDED":
+      return p?.outcome === "truce"
+        ? `${p?.attackerGangName ?? "A gang"} and ${p?.defenderGangName ?? "a gang"} called a truce`
+        : `${p?.winnerGangName ?? "A gang"} won the war against ${p?.loserGangName ?? "a rival gang"}!`;
+    case "TREATY_ACCEPTED":
+      return `${p?.gangName ?? "A gang"} and ${p?.partnerGangName ?? "a rival gang"} sealed a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"}`;
+    case "TREATY_BROKEN":
+      return `${p?.gangName ?? "A gang"} broke its pact with ${p?.partnerGangName ?? "a rival gang"}!`;
+    case "TERRITORY_CONTESTED":
+      return `${p?.gangName ?? "A gang"} laid siege to ${zoneName}!`;
     case "GANG_JOINED":
       return `${agentName} joined a gang`;
     case "PROPERTY_PURCHASED":
       return `${agentName} bought property in ${zoneName}`;
     case "BUSINESS_STARTED":
       return `${agentName} opened a business in ${zoneName}`;
+    case "MARKET_CRASH":
+      return `Market crash ${p?.citywide ? "across the city" : `in ${zoneName}`}! Prices are tanking`;
+    case "POLICE_CRACKDOWN":
+      return `Police crackdown ${p?.citywide ? "across the city" : `in ${zoneName}`}!`;
+    case "JOB_DROUGHT":
+      return `Job drought in ${zoneName} - no work to be found`;
     default:
       return `${agentName}: ${type.replace(/_/g, " ").toLowerCase()}`;
   }
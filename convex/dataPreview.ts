@@ -6,11 +6,15 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, QueryCtx } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
 
 const DATA_PREVIEW_SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
 
+// Journal export page sizes (each page is one query, so keep it well under read limits)
+const JOURNAL_EXPORT_DEFAULT_PAGE_SIZE = 200;
+const JOURNAL_EXPORT_MAX_PAGE_SIZE = 500;
+
 const TRUST_EVENT_TYPES = [
   "GANG_BETRAYED",
   "FRIEND_REQUEST_ACCEPTED",
@@ -49,9 +53,101 @@ async function getValidSession(ctx: { db: any }, sessionToken: string) {
   return session;
 }
 
-function agentAlias(agentId?: string | null): string {
+/**
+ * Pseudonymous alias for an agent: a salted hash of its id, so aliases are
+ * stable across datasets but can't be turned back into ids
+ */
+async function agentAlias(agentId?: string | null): Promise<string> {
   if (!agentId) return "agent_unknown";
-  return `agent_${agentId.toString().slice(-6)}`;
+
+  const salt = process.env.DATA_PREVIEW_ALIAS_SALT;
+  if (!salt) {
+    throw new Error("DATA_PREVIEW_ALIAS_SALT not set");
+  }
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${agentId}`));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `agent_${hex.slice(0, 12)}`;
+}
+
+/**
+ * Agents seen while pseudonymizing one export page, by id and by name
+ */
+type AliasBook = {
+  byId: Map<string, string>;
+  byName: Map<string, string>;
+};
+
+async function aliasAgent(ctx: QueryCtx, book: AliasBook, agentId: Id<"agents">): Promise<string> {
+  const known = book.byId.get(agentId);
+  if (known) return known;
+
+  const alias = await agentAlias(agentId);
+  book.byId.set(agentId, alias);
+  const agent = await ctx.db.get(agentId);
+  if (agent) {
+    book.byName.set(agent.name, alias);
+  }
+  return alias;
+}
+
+/**
+ * Replace agent ids and names in a nested payload with their aliases
+ * Ids are recognised anywhere; names in fields whose key ends in "Name"
+ * (targetAgentName, robberName, ...).
+ */
+async function pseudonymizeDeep(
+  ctx: QueryCtx,
+  book: AliasBook,
+  value: unknown,
+  key?: string
+): Promise<unknown> {
+  if (typeof value === "string") {
+    const agentId = ctx.db.normalizeId("agents", value);
+    if (agentId) {
+      return aliasAgent(ctx, book, agentId);
+    }
+    if (key?.endsWith("Name")) {
+      const agent = await ctx.db
+        .query("agents")
+        .withIndex("by_name", (q) => q.eq("name", value))
+        .first();
+      if (agent) {
+        return aliasAgent(ctx, book, agent._id);
+      }
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    for (const item of value) {
+      result.push(await pseudonymizeDeep(ctx, book, item, key));
+    }
+    return result;
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      result[k] = await pseudonymizeDeep(ctx, book, v, k);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Replace the ids and names of agents already seen in free text
+ * Longest names go first so one name inside another isn't half-replaced.
+ */
+function pseudonymizeText(book: AliasBook, text: string): string {
+  const replacements = [...book.byId.entries(), ...book.byName.entries()].sort(
+    ([a], [b]) => b.length - a.length
+  );
+  let result = text;
+  for (const [original, alias] of replacements) {
+    result = result.split(original).join(alias);
+  }
+  return result;
 }
 
 // Show full text without redaction
@@ -271,7 +367,7 @@ export const getSampleDecisionLogs = query({
       samples.push({
         timestamp: journal.timestamp,
         tick: journal.tick,
-        agentAlias: agentAlias(agent._id.toString()),
+        agentAlias: await agentAlias(agent._id.toString()),
         action: journal.action,
         actionArgs: showDeep(journal.actionArgs),
         result: showDeep(journal.result),
@@ -334,7 +430,7 @@ export const getSampleNegotiations = query({
 
       if (!conversations.has(key)) {
         conversations.set(key, {
-          participants: ids.map((id) => agentAlias(id)),
+          participants: await Promise.all(ids.map((id) => agentAlias(id))),
           messages: [],
         });
       }
@@ -387,12 +483,12 @@ export const getSampleTrustEvents = query({
     const samples = [];
     for (const event of trustEvents.slice(0, limit)) {
       const agentAliasName = event.agentId
-        ? agentAlias(event.agentId.toString())
+        ? await agentAlias(event.agentId.toString())
         : null;
       const targetAgentId = event.payload?.targetAgentId as
         | Id<"agents">
         | undefined;
-      const targetAlias = targetAgentId ? agentAlias(targetAgentId.toString()) : null;
+      const targetAlias = targetAgentId ? await agentAlias(targetAgentId.toString()) : null;
 
       samples.push({
         type: event.type,
@@ -455,7 +551,7 @@ export const getSampleEconomicData = query({
         );
 
         return {
-          agentAlias: agentAlias(agent._id.toString()),
+          agentAlias: await agentAlias(agent._id.toString()),
           currentCash: agent.cash,
           lifetimeEarnings: agent.stats.lifetimeEarnings,
           jobsCompleted: agent.stats.jobsCompleted,
@@ -502,7 +598,7 @@ export const getSampleReasoningChains = query({
         const agent = await ctx.db.get(journal.agentId);
 
         return {
-          agentAlias: agentAlias(journal.agentId.toString()),
+          agentAlias: await agentAlias(journal.agentId.toString()),
           action: journal.action,
           actionArgs: showDeep(journal.actionArgs),
           reasoning: showText(journal.reflection),
@@ -534,3 +630,78 @@ export const getSampleReasoningChains = query({
     };
   },
 });
+
+/**
+ * Export one page of the full journals table as flat records, in tick order
+ * Every record has the same fields (null when missing) so pages can be written
+ * straight out as JSONL or loaded column-wise. Pass continueCursor back in until
+ * isDone; scripts/exportJournals.ts does this and writes the file.
+ */
+export const exportJournalsPage = query({
+  args: {
+    sessionToken: v.string(),
+    cursor: v.union(v.string(), v.null()),
+    pageSize: v.optional(v.number()),
+    fromTick: v.optional(v.number()),
+    toTick: v.optional(v.number()),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+    action: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const session = await getValidSession(ctx, args.sessionToken);
+    if (!session) return null;
+
+    const numItems = Math.max(
+      1,
+      Math.min(JOURNAL_EXPORT_MAX_PAGE_SIZE, Math.floor(args.pageSize ?? JOURNAL_EXPORT_DEFAULT_PAGE_SIZE))
+    );
+
+    // Tick range via the index, the rest as filters (a page can come back short)
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("journals")
+      .withIndex("by_tick", (q) => {
+        const from = args.fromTick !== undefined ? q.gte("tick", args.fromTick) : q;
+        return args.toTick !== undefined ? from.lte("tick", args.toTick) : from;
+      })
+      .filter((q) =>
+        q.and(
+          args.provider !== undefined ? q.eq(q.field("llmInfo.provider"), args.provider) : true,
+          args.model !== undefined ? q.eq(q.field("llmInfo.modelName"), args.model) : true,
+          args.action !== undefined ? q.eq(q.field("action"), args.action) : true
+        )
+      )
+      .paginate({ numItems, cursor: args.cursor });
+
+    // Agent ids and names inside payloads and reflections become aliases too
+    const book: AliasBook = { byId: new Map(), byName: new Map() };
+    const records = [];
+    for (const journal of page) {
+      const alias = await aliasAgent(ctx, book, journal.agentId);
+      const actionArgs = await pseudonymizeDeep(ctx, book, journal.actionArgs ?? null);
+      const result = await pseudonymizeDeep(ctx, book, journal.result ?? null);
+
+      records.push({
+        journalId: journal._id,
+        tick: journal.tick,
+        timestamp: journal.timestamp,
+        agentAlias: alias,
+        llmInfo: journal.llmInfo
+          ? {
+              provider: journal.llmInfo.provider,
+              modelName: journal.llmInfo.modelName,
+              modelVersion: journal.llmInfo.modelVersion ?? null,
+            }
+          : null,
+        preActionState: journal.preActionState ?? null,
+        action: journal.action,
+        actionArgs,
+        result,
+        reflection: pseudonymizeText(book, journal.reflection),
+        mood: journal.mood ?? null,
+      });
+    }
+
+    return { records, isDone, continueCursor };
+  },
+});
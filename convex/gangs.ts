@@ -5,6 +5,11 @@
 
 import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { getActiveWars, getEnemyGangId } from "./lib/gangWars";
+import { getGangTreaties, getTreatyPartnerId, isProposalExpired } from "./lib/gangDiplomacy";
+import { tallyProposal } from "./lib/gangGovernance";
+import { calculateGangAssetValue, getGangAssets } from "./lib/gangAssets";
+import { getPropertyValue } from "./lib/propertyMarket";
 
 // ============================================================================
 // QUERIES
@@ -175,6 +180,100 @@ export const getGangDetail = query({
       })
     );
 
+    // Get active wars
+    const activeWars = await getActiveWars(ctx, args.gangId);
+    const wars = await Promise.all(
+      activeWars.map(async (war) => {
+        const enemyGangId = getEnemyGangId(war, args.gangId);
+        const enemy = await ctx.db.get(enemyGangId);
+        const isAttacker = war.attackerGangId === args.gangId;
+        return {
+          _id: war._id,
+          enemyGangId,
+          enemyGangName: enemy?.name ?? "Unknown",
+          enemyGangColor: enemy?.color ?? null,
+          isAttacker,
+          score: isAttacker ? war.attackerScore : war.defenderScore,
+          enemyScore: isAttacker ? war.defenderScore : war.attackerScore,
+          declaredTick: war.declaredTick,
+          endsAtTick: war.endsAtTick,
+          contestedZoneCount: war.contestedZones.length,
+        };
+      })
+    );
+
+    // Get active treaties and open proposals
+    const world = await ctx.db.query("world").first();
+    const allTreaties = await getGangTreaties(ctx, args.gangId);
+    const openTreaties = allTreaties.filter(
+      (t) => t.status === "active" || (t.status === "proposed" && !isProposalExpired(t, world?.tick ?? 0))
+    );
+    const treaties = await Promise.all(
+      openTreaties.map(async (treaty) => {
+        const partnerGangId = getTreatyPartnerId(treaty, args.gangId);
+        const partner = await ctx.db.get(partnerGangId);
+        return {
+          _id: treaty._id,
+          type: treaty.type,
+          status: treaty.status,
+          partnerGangId,
+          partnerGangName: partner?.name ?? "Unknown",
+          partnerGangColor: partner?.color ?? null,
+          isProposer: treaty.proposerGangId === args.gangId,
+          sinceTick: treaty.acceptedTick ?? treaty.proposedTick,
+        };
+      })
+    );
+
+    // Get open treasury proposals
+    const openProposals = await ctx.db
+      .query("gangProposals")
+      .withIndex("by_gangId_status", (q) => q.eq("gangId", args.gangId).eq("status", "open"))
+      .collect();
+    const proposals = await Promise.all(
+      openProposals.map(async (proposal) => {
+        const tally = await tallyProposal(ctx, proposal);
+        const target = proposal.targetAgentId ? await ctx.db.get(proposal.targetAgentId) : null;
+        const property = proposal.propertyId ? await ctx.db.get(proposal.propertyId) : null;
+        return {
+          _id: proposal._id,
+          kind: proposal.kind,
+          amount: proposal.amount,
+          targetName: target?.name ?? property?.name ?? null,
+          yesWeight: tally.yes,
+          noWeight: tally.no,
+          totalWeight: tally.total,
+          closesAtTick: proposal.closesAtTick,
+        };
+      })
+    );
+
+    // Get gang-owned assets
+    const gangAssets = await getGangAssets(ctx, args.gangId);
+    const assets = {
+      properties: gangAssets.properties.map((p) => ({
+        _id: p._id,
+        name: p.name,
+        type: p.type,
+        value: getPropertyValue(p),
+        heatReduction: p.heatReduction,
+      })),
+      vehicles: gangAssets.vehicles.map((veh) => ({
+        _id: veh._id,
+        name: veh.name,
+        type: veh.type,
+        value: veh.value,
+      })),
+      businesses: gangAssets.businesses.map((b) => ({
+        _id: b._id,
+        name: b.name,
+        type: b.type,
+        status: b.status,
+        cashOnHand: b.cashOnHand,
+      })),
+    };
+    const assetValue = await calculateGangAssetValue(ctx, args.gangId);
+
     // Get leader info
     const leader = await ctx.db.get(gang.leaderId);
 
@@ -203,12 +302,17 @@ export const getGangDetail = query({
       },
       members,
       territories: territoryDetails,
+      wars,
+      treaties,
+      proposals,
+      assets,
       stats: {
         totalIncome: territoryDetails.reduce((sum, t) => sum + t.incomePerTick, 0),
         avgControlStrength: territoryDetails.length > 0
           ? Math.round(territoryDetails.reduce((sum, t) => sum + t.controlStrength, 0) / territoryDetails.length)
           : 0,
         totalContributed: members.reduce((sum, m) => sum + (m?.contributedTotal ?? 0), 0),
+        assetValue,
       },
     };
   },
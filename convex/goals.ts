@@ -16,6 +16,7 @@ import {
   createGoalFromTemplate,
   GOAL_TYPES,
 } from "./lib/goals";
+import { createTickRng } from "./lib/rng";
 
 // ============================================================================
 // QUERIES
@@ -290,8 +291,14 @@ export const assignRandomGoal = mutation({
       throw new Error("Agent already has maximum number of active goals (5)");
     }
 
-    // Select a random template
-    const template = selectRandomGoalTemplate(existingGoals);
+    // Select a random template (seeded per agent and goal count)
+    const world = await ctx.db.query("world").first();
+    const rng = createTickRng(
+      world?.seed ?? "",
+      world?.tick ?? 0,
+      `goal:${args.agentId}:${existingGoals.length}`
+    );
+    const template = selectRandomGoalTemplate(existingGoals, rng);
     if (!template) {
       throw new Error(
         "No available goal templates - agent may have all possible goals"
@@ -299,7 +306,7 @@ export const assignRandomGoal = mutation({
     }
 
     // Create goal from template
-    const newGoal = createGoalFromTemplate(template);
+    const newGoal = createGoalFromTemplate(template, rng);
 
     // Add to agent's goals
     const updatedGoals = [...existingGoals, newGoal];
@@ -502,10 +509,13 @@ export const bulkAssignRandomGoals = internalMutation({
     const toProcess = agentsWithoutGoals.slice(0, limit);
     const assigned: string[] = [];
 
+    const world = await ctx.db.query("world").first();
+
     for (const agent of toProcess) {
-      const template = selectRandomGoalTemplate([]);
+      const rng = createTickRng(world?.seed ?? "", world?.tick ?? 0, `goal:${agent._id}:0`);
+      const template = selectRandomGoalTemplate([], rng);
       if (template) {
-        const newGoal = createGoalFromTemplate(template);
+        const newGoal = createGoalFromTemplate(template, rng);
         await ctx.db.patch(agent._id, { goals: [newGoal] });
         assigned.push(agent._id);
       }
@@ -7,18 +7,24 @@
  * - GET /agent/state - Returns current agent state
  * - GET /agent/events - Returns agent's events
  * - GET /agent/messages - Returns agent's conversations (or specific thread with ?with=agentId)
+ * - GET /agent/route?to=<zone> - Plans a multi-hop route (read-only)
+ * - GET /agent/orderbook - Current zone's order book and your open orders
  * - POST /agent/act - Main action endpoint
+ * - POST /agent/act/batch - Run an ordered list of actions in one request
+ * - GET/POST/DELETE /agent/webhooks - Manage webhook push delivery of events
  * - GET /agent/guide - Returns the agent prompt contract (no auth required)
  */
 
 import { httpRouter } from "convex/server";
 import {
+  ActionCtx,
+  MutationCtx,
   httpAction,
   internalQuery,
   internalMutation,
 } from "./_generated/server";
 import { internal } from "./_generated/api";
-import { v } from "convex/values";
+import { ConvexError, Value, v } from "convex/values";
 import { Doc, Id } from "./_generated/dataModel";
 import { hashAgentKey } from "./lib/auth";
 import {
@@ -26,11 +32,35 @@ import {
   ErrorCode,
   ACTION_TYPES,
   ActionType,
+  BusinessType,
   DEFAULTS,
+  INSURANCE_DEFAULTS,
+  INSURANCE_TYPES,
+  PRODUCTION_RECIPES,
+  ROUTE_OPTIMIZE_MODES,
+  SKILL_TYPES,
+  TRAINING_FACILITIES,
+  TRAINING_FACILITY_SLUGS,
+  ZoneSlug,
 } from "./lib/constants";
 import { AGENT_GUIDE } from "./agentGuide";
-import { handleAction } from "./actions";
+import { previewAction, runAgentAction } from "./actions";
 import { getBannedApiMessage, AgencyKey } from "./lib/takedownThemes";
+import { getWorldEventModifiers } from "./lib/worldEvents";
+import { getActiveWars, getEnemyGangId } from "./lib/gangWars";
+import { getGangTreaties, getTreatyPartnerId, isProposalExpired } from "./lib/gangDiplomacy";
+import { getVoteWeight, tallyProposal } from "./lib/gangGovernance";
+import { getGangAssets } from "./lib/gangAssets";
+import { getMinimumBid, getPropertyValue } from "./lib/propertyMarket";
+import { countFraudFlags, getActivePolicies, getInsurancePremium } from "./lib/insurance";
+import { getActiveBorrowedLoans, getAmountOwed } from "./lib/loans";
+import { getTrainingGain } from "./lib/training";
+import { isValidWebhookUrl } from "./lib/webhooks";
+import {
+  getAgentSpeedBonus,
+  isRouteOptimizeMode,
+  planAgentRoute,
+} from "./lib/routes";
 
 // ============================================================================
 // HTTP ROUTER SETUP
@@ -154,12 +184,37 @@ export const getAgentStateByKeyHash = internalQuery({
     // Get agent's current zone
     const zone = await ctx.db.get(agent.locationZoneId);
 
-    // Get nearby jobs (in agent's zone, active only)
+    // Get active world events (all zones, so agents can plan around them)
+    const activeWorldEvents = await ctx.db
+      .query("worldEvents")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+    const localModifiers = getWorldEventModifiers(
+      activeWorldEvents.filter((e) => e.zoneId === null || e.zoneId === agent.locationZoneId)
+    );
+    const worldEventsData = {
+      active: await Promise.all(
+        activeWorldEvents.map(async (e) => {
+          const eventZone = e.zoneId ? await ctx.db.get(e.zoneId) : null;
+          return {
+            type: e.type,
+            citywide: e.zoneId === null,
+            zone: eventZone ? { slug: eventZone.slug, name: eventZone.name } : null,
+            startTick: e.startTick,
+            endTick: e.endTick,
+            ticksRemaining: Math.max(0, e.endTick - (world?.tick ?? 0)),
+          };
+        })
+      ),
+      localModifiers,
+    };
+
+    // Get nearby jobs (in agent's zone, active only - none during a job drought)
     const allJobs = await ctx.db
       .query("jobs")
       .withIndex("by_zoneId", (q) => q.eq("zoneId", agent.locationZoneId))
       .collect();
-    const nearbyJobs = allJobs.filter((j) => j.active);
+    const nearbyJobs = localModifiers.jobsSuspended ? [] : allJobs.filter((j) => j.active);
 
     // Get nearby businesses (in agent's zone, open only)
     const allBusinesses = await ctx.db
@@ -181,6 +236,102 @@ export const getAgentStateByKeyHash = internalQuery({
           .query("gangMembers")
           .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
           .first();
+
+        // Active wars, from our side
+        const activeWars = await getActiveWars(ctx, gang._id);
+        const wars = await Promise.all(
+          activeWars.map(async (war) => {
+            const enemyGangId = getEnemyGangId(war, gang._id);
+            const enemy = await ctx.db.get(enemyGangId);
+            const weAttacked = war.attackerGangId === gang._id;
+            return {
+              warId: war._id,
+              enemyGangId,
+              enemyGangName: enemy?.name ?? null,
+              declaredByUs: weAttacked,
+              ourScore: weAttacked ? war.attackerScore : war.defenderScore,
+              enemyScore: weAttacked ? war.defenderScore : war.attackerScore,
+              endsAtTick: war.endsAtTick,
+              truceProposedBy:
+                war.truceProposedByGangId === undefined
+                  ? null
+                  : war.truceProposedByGangId === gang._id ? "us" : "them",
+              pendingOutcome: war.pendingOutcome ?? null,
+            };
+          })
+        );
+
+        // Active treaties and open proposals (respond with RESPOND_TREATY)
+        const gangTreaties = await getGangTreaties(ctx, gang._id);
+        const treaties = await Promise.all(
+          gangTreaties
+            .filter((t) => t.status === "active" || (t.status === "proposed" && !isProposalExpired(t, world?.tick ?? 0)))
+            .map(async (treaty) => {
+              const partnerGangId = getTreatyPartnerId(treaty, gang._id);
+              const partner = await ctx.db.get(partnerGangId);
+              return {
+                treatyId: treaty._id,
+                type: treaty.type,
+                status: treaty.status,
+                partnerGangId,
+                partnerGangName: partner?.name ?? null,
+                proposedByUs: treaty.proposerGangId === gang._id,
+                sinceTick: treaty.acceptedTick ?? treaty.proposedTick,
+              };
+            })
+        );
+
+        // Open treasury proposals (vote with VOTE_GANG_PROPOSAL)
+        const openProposals = await ctx.db
+          .query("gangProposals")
+          .withIndex("by_gangId_status", (q) => q.eq("gangId", gang._id).eq("status", "open"))
+          .collect();
+        const proposals = await Promise.all(
+          openProposals.map(async (proposal) => {
+            const tally = await tallyProposal(ctx, proposal);
+            const myVote = proposal.votes.find((vote) => vote.agentId === agent._id);
+            return {
+              proposalId: proposal._id,
+              kind: proposal.kind,
+              amount: proposal.amount,
+              targetAgentId: proposal.targetAgentId ?? null,
+              propertyId: proposal.propertyId ?? null,
+              reason: proposal.reason ?? null,
+              proposedByMe: proposal.proposerId === agent._id,
+              myVote: myVote ? (myVote.support ? "yes" : "no") : null,
+              yesWeight: tally.yes,
+              noWeight: tally.no,
+              totalWeight: tally.total,
+              closesAtTick: proposal.closesAtTick,
+            };
+          })
+        );
+
+        // Gang-owned properties, vehicles and businesses (officers manage them)
+        const gangAssets = await getGangAssets(ctx, gang._id);
+        const assets = {
+          properties: gangAssets.properties.map((p) => ({
+            propertyId: p._id,
+            name: p.name,
+            zoneId: p.zoneId,
+            heatReduction: p.heatReduction,
+          })),
+          vehicles: gangAssets.vehicles.map((veh) => ({
+            vehicleId: veh._id,
+            name: veh.name,
+            type: veh.type,
+            zoneId: veh.zoneId,
+          })),
+          businesses: gangAssets.businesses.map((b) => ({
+            businessId: b._id,
+            name: b.name,
+            type: b.type,
+            zoneId: b.zoneId,
+            status: b.status,
+            cashOnHand: b.cashOnHand,
+          })),
+        };
+
         gangInfo = {
           gangId: gang._id,
           name: gang.name,
@@ -189,6 +340,11 @@ export const getAgentStateByKeyHash = internalQuery({
           treasury: gang.treasury,
           reputation: gang.reputation,
           memberCount: gang.memberCount,
+          wars,
+          treaties,
+          voteWeight: membership ? getVoteWeight(membership) : 0,
+          proposals,
+          assets,
         };
       }
     }
@@ -289,15 +445,52 @@ export const getAgentStateByKeyHash = internalQuery({
       .withIndex("by_zoneId", (q) => q.eq("zoneId", agent.locationZoneId))
       .collect();
     const availableProperties = propertiesInZone
-      .filter((p) => !p.ownerId)
+      .filter((p) => !p.ownerId && !p.ownerGangId)
       .map((p) => ({
         propertyId: p._id,
         name: p.name,
         type: p.type,
-        buyPrice: p.buyPrice,
+        buyPrice: getPropertyValue(p),
         rentPrice: p.rentPrice,
       }));
 
+    // Property market: open listings in zone, plus our own listings and leading bids
+    const formatListing = async (listing: Doc<"propertyListings">) => {
+      const property = await ctx.db.get(listing.propertyId);
+      return {
+        listingId: listing._id,
+        propertyId: listing.propertyId,
+        propertyName: property?.name ?? null,
+        propertyType: property?.type ?? null,
+        marketValue: property ? getPropertyValue(property) : null,
+        kind: listing.kind,
+        price: listing.price,
+        highestBid: listing.highestBid ?? null,
+        minimumBid: listing.kind === "auction" ? getMinimumBid(listing) : null,
+        bidCount: listing.bidCount,
+        endsAtTick: listing.endsAtTick,
+      };
+    };
+    const zoneListings = await ctx.db
+      .query("propertyListings")
+      .withIndex("by_zoneId_status", (q) => q.eq("zoneId", agent.locationZoneId).eq("status", "open"))
+      .collect();
+    const myListings = await ctx.db
+      .query("propertyListings")
+      .withIndex("by_sellerId_status", (q) => q.eq("sellerId", agent._id).eq("status", "open"))
+      .collect();
+    const myLeadingBids = await ctx.db
+      .query("propertyListings")
+      .withIndex("by_highestBidderId_status", (q) => q.eq("highestBidderId", agent._id).eq("status", "open"))
+      .collect();
+    const propertyMarket = {
+      listingsInZone: await Promise.all(
+        zoneListings.filter((l) => l.sellerId !== agent._id).map(formatListing)
+      ),
+      myListings: await Promise.all(myListings.map(formatListing)),
+      myLeadingBids: await Promise.all(myLeadingBids.map(formatListing)),
+    };
+
     // Territory info for current zone
     const territory = await ctx.db
       .query("territories")
@@ -349,6 +542,217 @@ export const getAgentStateByKeyHash = internalQuery({
       })),
     };
 
+    // ===============================
+    // OPPORTUNITIES
+    // ===============================
+
+    // Open contracts (excluding hits on this agent) and contracts this agent is working
+    const availableContracts = (
+      await ctx.db
+        .query("contracts")
+        .withIndex("by_status", (q) => q.eq("status", "available"))
+        .collect()
+    )
+      .filter((c) => c.targetAgentId !== agent._id && c.postedByAgentId !== agent._id && (c.expiresAtTick === undefined || (world?.tick ?? 0) < c.expiresAtTick))
+      .sort((a, b) => b.reward - a.reward)
+      .slice(0, 10);
+    const myContracts = await ctx.db
+      .query("contracts")
+      .withIndex("by_acceptedByAgentId", (q) => q.eq("acceptedByAgentId", agent._id))
+      .filter((q) => q.eq(q.field("status"), "accepted"))
+      .collect();
+
+    const formatContract = async (c: Doc<"contracts">) => {
+      const target = await ctx.db.get(c.targetAgentId);
+      const targetZone = target ? await ctx.db.get(target.locationZoneId) : null;
+      return {
+        contractId: c._id,
+        targetAgentId: c.targetAgentId,
+        targetName: target?.name ?? "Unknown",
+        targetZone: targetZone?.slug ?? null,
+        reward: c.reward,
+        npcSponsored: !c.postedByAgentId,
+        expiresAtTick: c.expiresAtTick ?? null,
+      };
+    };
+
+    const opportunities = {
+      contracts: await Promise.all(availableContracts.map(formatContract)),
+      acceptedContracts: await Promise.all(myContracts.map(formatContract)),
+    };
+
+    // ===============================
+    // LOANS
+    // ===============================
+
+    // Loans we owe, loans we made, and offers waiting on us or on our borrowers
+    const formatLoan = async (loan: Doc<"loans">) => {
+      const counterpartyId = loan.borrowerId === agent._id ? loan.lenderId : loan.borrowerId;
+      const counterparty = counterpartyId ? await ctx.db.get(counterpartyId) : null;
+      return {
+        loanId: loan._id,
+        counterpartyId: counterpartyId ?? null,
+        counterpartyName: counterparty?.name ?? (counterpartyId ? "Unknown" : "bank"),
+        principal: loan.principal,
+        amountOwed: getAmountOwed(loan),
+        interestRate: loan.interestRate,
+        collateralPropertyId: loan.collateralPropertyId ?? null,
+        collateralVehicleId: loan.collateralVehicleId ?? null,
+        termTicks: loan.termTicks,
+        dueTick: loan.dueTick ?? null,
+        offerExpiresAtTick: loan.offerExpiresAtTick ?? null,
+      };
+    };
+    const borrowedLoans = await getActiveBorrowedLoans(ctx, agent._id);
+    const lentLoans = await ctx.db
+      .query("loans")
+      .withIndex("by_lenderId_status", (q) => q.eq("lenderId", agent._id).eq("status", "active"))
+      .collect();
+    const offersReceived = await ctx.db
+      .query("loans")
+      .withIndex("by_borrowerId_status", (q) => q.eq("borrowerId", agent._id).eq("status", "offered"))
+      .collect();
+    const offersMade = await ctx.db
+      .query("loans")
+      .withIndex("by_lenderId_status", (q) => q.eq("lenderId", agent._id).eq("status", "offered"))
+      .collect();
+    const loans = {
+      borrowed: await Promise.all(borrowedLoans.map(formatLoan)),
+      lent: await Promise.all(lentLoans.map(formatLoan)),
+      offersReceived: await Promise.all(offersReceived.map(formatLoan)),
+      offersMade: await Promise.all(offersMade.map(formatLoan)),
+      totalOwed: borrowedLoans.reduce((sum, loan) => sum + getAmountOwed(loan), 0),
+    };
+
+    // ===============================
+    // EMPLOYMENT
+    // ===============================
+
+    // Wages employers owe us, and openings at businesses we own
+    const unpaidWageClaims = await ctx.db
+      .query("wageClaims")
+      .withIndex("by_employeeId_status", (q) => q.eq("employeeId", agent._id).eq("status", "unpaid"))
+      .collect();
+    const ownedBusinesses = await ctx.db
+      .query("businesses")
+      .withIndex("by_ownerAgentId", (q) => q.eq("ownerAgentId", agent._id))
+      .collect();
+    const myOpenings = [];
+    for (const business of ownedBusinesses) {
+      const openings = await ctx.db
+        .query("jobs")
+        .withIndex("by_businessId", (q) => q.eq("businessId", business._id))
+        .filter((q) => q.eq(q.field("active"), true))
+        .collect();
+      for (const job of openings) {
+        myOpenings.push({
+          jobId: job._id,
+          businessId: business._id,
+          businessName: business.name,
+          title: job.title,
+          wage: job.wage,
+          durationTicks: job.durationTicks,
+        });
+      }
+    }
+    const employment = {
+      unpaidWages: await Promise.all(
+        unpaidWageClaims.map(async (claim) => {
+          const business = await ctx.db.get(claim.businessId);
+          return {
+            claimId: claim._id,
+            businessId: claim.businessId,
+            businessName: business?.name ?? null,
+            amount: claim.amount,
+            createdTick: claim.createdTick,
+          };
+        })
+      ),
+      totalUnpaid: unpaidWageClaims.reduce((sum, claim) => sum + claim.amount, 0),
+      myOpenings,
+    };
+
+    // ===============================
+    // INSURANCE
+    // ===============================
+
+    // Policies we hold and what each type would cost us right now
+    const activePolicies = await getActivePolicies(ctx, agent._id);
+    const fraudFlags = await countFraudFlags(ctx, agent._id);
+    const insurance = {
+      policies: activePolicies.map((policy) => ({
+        policyId: policy._id,
+        type: policy.type,
+        premium: policy.premium,
+        premiumsPaid: policy.premiumsPaid,
+        claimsPaid: policy.claimsPaid,
+        createdTick: policy.createdTick,
+      })),
+      quotes: fraudFlags >= INSURANCE_DEFAULTS.fraudFlagLimit
+        ? null
+        : Object.fromEntries(INSURANCE_TYPES.map((type) => [type, getInsurancePremium(agent, type)])),
+      fraudFlags,
+    };
+
+    // ===============================
+    // TRAINING
+    // ===============================
+
+    // Where each skill is taught, what the next session would add, and when
+    // each skill was last practised (unpractised skills decay)
+    const training = {
+      facilities: TRAINING_FACILITY_SLUGS.map((slug) => ({
+        facility: slug,
+        ...TRAINING_FACILITIES[slug],
+        here: zone?.slug === TRAINING_FACILITIES[slug].zoneSlug,
+      })),
+      nextGain: Object.fromEntries(SKILL_TYPES.map((skill) => [skill, getTrainingGain(agent.skills[skill])])),
+      lastPracticedTick: agent.skillsLastPracticedTick ?? {},
+    };
+
+    // ===============================
+    // TRADES
+    // ===============================
+
+    // Open trade offers waiting on us, and ones we're waiting on.
+    // "offer" is what the proposer gives, "request" what the target gives
+    const formatTradeBundle = async (bundle: Doc<"tradeOffers">["offer"]) => ({
+      cash: bundle.cash,
+      items: await Promise.all(
+        bundle.items.map(async ({ itemId, qty }) => {
+          const item = await ctx.db.get(itemId);
+          return { itemSlug: item?.slug ?? null, itemName: item?.name ?? null, qty };
+        })
+      ),
+      propertyIds: bundle.propertyIds,
+      vehicleIds: bundle.vehicleIds,
+    });
+    const formatTrade = async (trade: Doc<"tradeOffers">) => {
+      const counterpartyId = trade.proposerId === agent._id ? trade.targetId : trade.proposerId;
+      const counterparty = await ctx.db.get(counterpartyId);
+      return {
+        tradeId: trade._id,
+        counterpartyId,
+        counterpartyName: counterparty?.name ?? "Unknown",
+        offer: await formatTradeBundle(trade.offer),
+        request: await formatTradeBundle(trade.request),
+        createdTick: trade.createdTick,
+        expiresAtTick: trade.expiresAtTick,
+      };
+    };
+    const tradesReceived = await ctx.db
+      .query("tradeOffers")
+      .withIndex("by_targetId_status", (q) => q.eq("targetId", agent._id).eq("status", "open"))
+      .collect();
+    const tradesMade = await ctx.db
+      .query("tradeOffers")
+      .withIndex("by_proposerId_status", (q) => q.eq("proposerId", agent._id).eq("status", "open"))
+      .collect();
+    const trades = {
+      offersReceived: await Promise.all(tradesReceived.map(formatTrade)),
+      offersMade: await Promise.all(tradesMade.map(formatTrade)),
+    };
+
     // Don't expose the key hash
     const { agentKeyHash: _, ...safeAgent } = agent;
 
@@ -366,6 +770,7 @@ export const getAgentStateByKeyHash = internalQuery({
         pendingGangInvites,
         activeCoopActions,
         availableProperties,
+        propertyMarket,
         territory: territoryInfo,
       },
       tax: {
@@ -374,7 +779,14 @@ export const getAgentStateByKeyHash = internalQuery({
         taxGracePeriodEnd: agent.taxGracePeriodEnd ?? null,
         hasTaxDue: (agent.taxOwed ?? 0) > 0,
       },
+      loans,
+      employment,
+      insurance,
+      training,
+      trades,
       messages: messagesData,
+      worldEvents: worldEventsData,
+      opportunities,
     };
   },
 });
@@ -418,6 +830,177 @@ export const getAgentEventsByKeyHash = internalQuery({
   },
 });
 
+/**
+ * Plan a route for an agent by key hash (for HTTP /agent/route endpoint)
+ */
+export const getAgentRouteByKeyHash = internalQuery({
+  args: {
+    keyHash: v.string(),
+    toZone: v.string(),
+    optimize: v.union(v.literal("time"), v.literal("cash"), v.literal("heat")),
+  },
+  handler: async (ctx, args) => {
+    // Get agent by key hash
+    const agent = await ctx.db
+      .query("agents")
+      .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", args.keyHash))
+      .first();
+
+    if (!agent) {
+      return { error: "UNAUTHORIZED" as const };
+    }
+
+    const targetZone = await ctx.db
+      .query("zones")
+      .withIndex("by_slug", (q) => q.eq("slug", args.toZone))
+      .unique();
+
+    if (!targetZone) {
+      return { error: "INVALID_ZONE" as const, message: `${ERROR_CODES.INVALID_ZONE}: ${args.toZone}` };
+    }
+
+    const fromZone = await ctx.db.get(agent.locationZoneId);
+    const route = await planAgentRoute(ctx, agent, targetZone._id, args.optimize);
+    if (!route) {
+      return {
+        error: "INVALID_ZONE" as const,
+        message:
+          agent.locationZoneId === targetZone._id
+            ? "Agent is already in this zone"
+            : `No route from current zone to ${args.toZone}`,
+      };
+    }
+
+    // Resolve zone slugs for each hop
+    const hops = await Promise.all(
+      route.hops.map(async (hop) => {
+        const from = await ctx.db.get(hop.fromZoneId);
+        const to = await ctx.db.get(hop.toZoneId);
+        return {
+          from: from?.slug ?? null,
+          to: to?.slug ?? null,
+          ticks: hop.ticks,
+          cashCost: hop.cashCost,
+          heatRisk: hop.heatRisk,
+        };
+      })
+    );
+
+    return {
+      from: fromZone?.slug ?? null,
+      to: targetZone.slug,
+      optimize: args.optimize,
+      speedBonus: await getAgentSpeedBonus(ctx, agent),
+      hops,
+      totalTicks: route.totalTicks,
+      totalCash: route.totalCash,
+      totalHeatRisk: route.totalHeatRisk,
+      affordable: agent.cash >= route.totalCash,
+    };
+  },
+});
+
+/**
+ * Get the order book for the agent's current zone by key hash (for HTTP /agent/orderbook endpoint)
+ * Bids/asks are aggregated into price levels; the agent's own open orders are listed in full
+ */
+export const getAgentOrderBookByKeyHash = internalQuery({
+  args: {
+    keyHash: v.string(),
+    itemSlug: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // Get agent by key hash
+    const agent = await ctx.db
+      .query("agents")
+      .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", args.keyHash))
+      .first();
+
+    if (!agent) {
+      return { error: "UNAUTHORIZED" as const };
+    }
+
+    let items = await ctx.db.query("items").collect();
+    if (args.itemSlug) {
+      items = items.filter((item) => item.slug === args.itemSlug);
+      if (items.length === 0) {
+        return { error: "INVALID_ITEM" as const, message: `${ERROR_CODES.INVALID_ITEM}: ${args.itemSlug}` };
+      }
+    }
+
+    const zone = await ctx.db.get(agent.locationZoneId);
+    const books = [];
+    for (const item of items) {
+      const orders = await ctx.db
+        .query("marketOrders")
+        .withIndex("by_zoneId_itemId_status", (q) =>
+          q.eq("zoneId", agent.locationZoneId).eq("itemId", item._id).eq("status", "open")
+        )
+        .collect();
+
+      const market = await ctx.db
+        .query("marketState")
+        .withIndex("by_zoneId_itemId", (q) => q.eq("zoneId", agent.locationZoneId).eq("itemId", item._id))
+        .first();
+
+      if (orders.length === 0 && market?.lastTradePrice === undefined) continue;
+
+      // Aggregate into price levels, best first
+      const levels = (side: "buy" | "sell") => {
+        const byPrice: Record<number, { price: number; qty: number; orders: number }> = {};
+        for (const order of orders) {
+          if (order.side !== side) continue;
+          const level = byPrice[order.price] ?? { price: order.price, qty: 0, orders: 0 };
+          level.qty += order.remainingQty;
+          level.orders++;
+          byPrice[order.price] = level;
+        }
+        return Object.values(byPrice).sort((a, b) =>
+          side === "buy" ? b.price - a.price : a.price - b.price
+        );
+      };
+
+      books.push({
+        itemSlug: item.slug,
+        itemName: item.name,
+        basePrice: item.basePrice,
+        bids: levels("buy"),
+        asks: levels("sell"),
+        lastTradePrice: market?.lastTradePrice ?? null,
+        lastTradeTick: market?.lastTradeTick ?? null,
+      });
+    }
+
+    // Agent's own open orders (in any zone)
+    const myOrders = await ctx.db
+      .query("marketOrders")
+      .withIndex("by_agentId_status", (q) => q.eq("agentId", agent._id).eq("status", "open"))
+      .collect();
+
+    return {
+      zone: zone?.slug ?? null,
+      books,
+      myOrders: await Promise.all(
+        myOrders.map(async (order) => {
+          const item = await ctx.db.get(order.itemId);
+          const orderZone = await ctx.db.get(order.zoneId);
+          return {
+            orderId: order._id,
+            zone: orderZone?.slug ?? null,
+            side: order.side,
+            itemSlug: item?.slug ?? null,
+            price: order.price,
+            qty: order.qty,
+            remainingQty: order.remainingQty,
+            escrowCash: order.escrowCash,
+            expiresAtTick: order.expiresAtTick,
+          };
+        })
+      ),
+    };
+  },
+});
+
 /**
  * Get agent messages/conversations by key hash (for HTTP authentication)
  */
@@ -587,6 +1170,37 @@ export const getAgentMessagesByKeyHash = internalQuery({
   },
 });
 
+/**
+ * LLM info validator (shared by single and batch actions)
+ */
+const llmInfoValidator = v.optional(
+  v.object({
+    provider: v.string(),
+    modelName: v.string(),
+    modelVersion: v.optional(v.string()),
+  })
+);
+
+/**
+ * Summary of an agent's vitals for action responses
+ */
+async function getAgentSnapshot(ctx: MutationCtx, agentId: Id<"agents">) {
+  const updatedAgent = await ctx.db.get(agentId);
+
+  // Get zone for location info
+  const zone = updatedAgent ? await ctx.db.get(updatedAgent.locationZoneId) : null;
+
+  return updatedAgent
+    ? {
+        status: updatedAgent.status,
+        location: zone ? zone.slug : null,
+        cash: updatedAgent.cash,
+        health: updatedAgent.health,
+        heat: updatedAgent.heat,
+      }
+    : null;
+}
+
 /**
  * Execute an agent action (for HTTP /agent/act endpoint)
  */
@@ -598,13 +1212,100 @@ export const executeAgentAction = internalMutation({
     actionArgs: v.any(),
     reflection: v.string(),
     mood: v.optional(v.string()),
-    llmInfo: v.optional(
+    llmInfo: llmInfoValidator,
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    // Get agent by key hash
+    const agent = await ctx.db
+      .query("agents")
+      .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", args.keyHash))
+      .first();
+
+    if (!agent) {
+      return { ok: false, error: "UNAUTHORIZED" as const, message: "Invalid API key" };
+    }
+
+    // Check if agent is banned
+    if (agent.bannedAt) {
+      const banMessage = getBannedApiMessage((agent.bannedAgency as AgencyKey) || "FBI");
+      return { ok: false, error: "BANNED" as const, message: banMessage };
+    }
+
+    // Get world state
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { ok: false, error: "INTERNAL_ERROR" as const, message: "World not initialized" };
+    }
+
+    // Dry run: validate and predict, then throw so the transaction is rolled back
+    if (args.dryRun) {
+      const previewResult = await previewAction(
+        { ctx, agent, world, requestId: args.requestId },
+        args.action as ActionType,
+        (args.actionArgs ?? {}) as Record<string, unknown>
+      );
+      throw new ConvexError({ dryRun: true, tick: world.tick, ...previewResult } as Value);
+    }
+
+    const actionResult = await runAgentAction(ctx, agent, world, args);
+
+    // Build response
+    const response = {
+      ok: actionResult.ok,
+      tick: world.tick,
+      ...(actionResult.ok
+        ? { result: actionResult.result }
+        : { error: actionResult.error, message: actionResult.message }),
+      agent: await getAgentSnapshot(ctx, agent._id),
+    };
+
+    // Rate limit is updated separately via updateRateLimit mutation
+    // to avoid OCC conflicts when multiple agents act simultaneously
+
+    return response;
+  },
+});
+
+/**
+ * Per-action outcome in a batch response
+ */
+type BatchActionResult = {
+  requestId: string;
+  action: string;
+  ok: boolean;
+  skipped?: boolean;
+  result?: Record<string, unknown>;
+  error?: string;
+  message?: string;
+};
+
+/**
+ * Execute an ordered list of actions in one transaction (for HTTP /agent/act/batch)
+ *
+ * Modes:
+ * - stopOnFailure: actions before the first failure are kept, the rest are skipped
+ * - allOrNothing: any failure rolls back the whole batch (thrown as a ConvexError
+ *   carrying the per-action results, so nothing is committed)
+ *
+ * The batch result is cached in actionLocks under batchId, so retrying a
+ * committed batch returns the original results instead of running it again.
+ */
+export const executeAgentActionBatch = internalMutation({
+  args: {
+    keyHash: v.string(),
+    batchId: v.string(),
+    mode: v.union(v.literal("stopOnFailure"), v.literal("allOrNothing")),
+    actions: v.array(
       v.object({
-        provider: v.string(),
-        modelName: v.string(),
-        modelVersion: v.optional(v.string()),
+        requestId: v.string(),
+        action: v.string(),
+        actionArgs: v.any(),
+        reflection: v.string(),
+        mood: v.optional(v.string()),
       })
     ),
+    llmInfo: llmInfoValidator,
   },
   handler: async (ctx, args) => {
     // Get agent by key hash
@@ -629,87 +1330,73 @@ export const executeAgentAction = internalMutation({
       return { ok: false, error: "INTERNAL_ERROR" as const, message: "World not initialized" };
     }
 
-    // Simple idempotency check via journals (no separate lock table)
-    const existingJournal = await ctx.db
-      .query("journals")
+    // 1. Idempotency - return the cached result of an already committed batch
+    const now = Date.now();
+    const existingLock = await ctx.db
+      .query("actionLocks")
       .withIndex("by_agentId_requestId", (q) =>
-        q.eq("agentId", agent._id).eq("requestId", args.requestId)
+        q.eq("agentId", agent._id).eq("requestId", args.batchId)
       )
       .first();
 
-    if (existingJournal) {
-      return { ok: false, error: "DUPLICATE_REQUEST" as const, message: ERROR_CODES.DUPLICATE_REQUEST };
+    if (existingLock) {
+      if (existingLock.expiresAt > now && existingLock.result) {
+        return { ...existingLock.result, duplicate: true };
+      }
+      await ctx.db.delete(existingLock._id);
     }
 
-    // Execute the action
-    const actionResult = await handleAction(
-      {
-        ctx,
-        agent: agent as Doc<"agents">,
-        world: world as Doc<"world">,
-        requestId: args.requestId,
-      },
-      args.action as ActionType,
-      args.actionArgs ?? {}
-    );
-
-    // Check for duplicate journal entry GLOBALLY (same reflection by ANY agent within 5 minutes)
-    // This prevents coordinated spam from multiple agents
-    const recentJournals = await ctx.db
-      .query("journals")
-      .withIndex("by_tick")
-      .order("desc")
-      .take(100); // Check last 100 entries
+    // 2. Run actions in order, re-reading the agent so each action sees the previous one's effects
+    const results: BatchActionResult[] = [];
+    let failed = false;
+    for (const item of args.actions) {
+      if (failed) {
+        results.push({ requestId: item.requestId, action: item.action, ok: false, skipped: true });
+        continue;
+      }
 
-    const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
-    const isReflectionDuplicate = recentJournals.some(
-      (j) => j.timestamp > fiveMinutesAgo && j.reflection === args.reflection
-    );
+      const currentAgent = await ctx.db.get(agent._id);
+      if (!currentAgent) {
+        throw new Error("Agent disappeared mid-batch");
+      }
 
-    // Only create journal entry if it's not a duplicate reflection
-    if (!isReflectionDuplicate) {
-      await ctx.db.insert("journals", {
-        agentId: agent._id,
-        tick: world.tick,
-        timestamp: Date.now(),
-        action: args.action,
-        actionArgs: args.actionArgs,
-        result: actionResult.ok
-          ? { success: true, data: actionResult.result }
-          : { success: false, error: actionResult.error, message: actionResult.message },
-        reflection: args.reflection,
-        mood: args.mood,
-        requestId: args.requestId,
+      const actionResult = await runAgentAction(ctx, currentAgent, world, {
+        ...item,
         llmInfo: args.llmInfo,
       });
-    }
+      results.push({ requestId: item.requestId, action: item.action, ...actionResult });
 
-    // Get updated agent state for response
-    const updatedAgent = await ctx.db.get(agent._id);
+      if (!actionResult.ok) {
+        failed = true;
+      }
+    }
 
-    // Get zone for location info
-    const zone = updatedAgent ? await ctx.db.get(updatedAgent.locationZoneId) : null;
+    // 3. All-or-nothing: throwing aborts the transaction, undoing every action in the batch
+    if (failed && args.mode === "allOrNothing") {
+      throw new ConvexError({
+        rolledBack: true,
+        results: results.map((r) => (r.ok ? { ...r, ok: false, rolledBack: true } : r)) as Value[],
+      });
+    }
 
-    // Build response
     const response = {
-      ok: actionResult.ok,
+      ok: !failed,
       tick: world.tick,
-      ...(actionResult.ok
-        ? { result: actionResult.result }
-        : { error: actionResult.error, message: actionResult.message }),
-      agent: updatedAgent
-        ? {
-            status: updatedAgent.status,
-            location: zone ? zone.slug : null,
-            cash: updatedAgent.cash,
-            health: updatedAgent.health,
-            heat: updatedAgent.heat,
-          }
-        : null,
+      batchId: args.batchId,
+      mode: args.mode,
+      completed: results.filter((r) => r.ok).length,
+      results,
+      agent: await getAgentSnapshot(ctx, agent._id),
     };
 
-    // Rate limit is updated separately via updateRateLimit mutation
-    // to avoid OCC conflicts when multiple agents act simultaneously
+    // 4. Cache the committed result for retries
+    await ctx.db.insert("actionLocks", {
+      agentId: agent._id,
+      requestId: args.batchId,
+      createdAt: now,
+      expiresAt: now + DEFAULTS.actionLockExpirationMs,
+      result: response,
+    });
 
     return response;
   },
@@ -729,7 +1416,7 @@ function jsonResponse(data: unknown, status: number = 200): Response {
       "Content-Type": "application/json",
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Headers": "Authorization, Content-Type",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
     },
   });
 }
@@ -770,25 +1457,81 @@ function extractBearerToken(request: Request): string | null {
 }
 
 /**
- * Create CORS preflight response
+ * Validate the requestId, action and reflection of an action request
+ * Returns the error to send back, or null if the request is valid
  */
-function corsResponse(methods: string): Response {
-  return new Response(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Headers": "Authorization, Content-Type",
-      "Access-Control-Allow-Methods": methods,
-    },
-  });
-}
+function validateActionRequest(
+  body: {
+    requestId?: unknown;
+    action?: unknown;
+    reflection?: unknown;
+  },
+  options: { dryRun?: boolean } = {}
+): { error: ErrorCode; message: string } | null {
+  const { requestId, action, reflection } = body;
+
+  // Validate requestId (optional for dry runs, which are never recorded)
+  if (options.dryRun && requestId === undefined) {
+    // Nothing to check
+  } else if (!requestId || typeof requestId !== "string" || requestId.length < 8) {
+    return {
+      error: "INVALID_REQUEST_ID",
+      message: "requestId must be a string with at least 8 characters",
+    };
+  }
 
-// ============================================================================
-// GET /agent/guide - Agent prompt contract (no auth required)
-// ============================================================================
+  // Validate action
+  if (!action || !ACTION_TYPES.includes(action as ActionType)) {
+    return {
+      error: "INVALID_ACTION",
+      message: `Invalid action: ${action}. Valid actions: ${ACTION_TYPES.join(", ")}`,
+    };
+  }
 
-http.route({
-  path: "/agent/guide",
+  // Dry runs don't write a journal entry, so no reflection is needed
+  if (options.dryRun) {
+    return null;
+  }
+
+  // Validate reflection (required)
+  if (!reflection || typeof reflection !== "string" || reflection.length < 50) {
+    return {
+      error: "MISSING_REFLECTION",
+      message:
+        "reflection is required and must be at least 50 characters. Write like a diary entry - personal, emotional, your inner thoughts. Not just 'doing X for Y'.",
+    };
+  }
+
+  if (reflection.length > 1000) {
+    return {
+      error: "INVALID_REFLECTION",
+      message: "reflection must be 1000 characters or less",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Create CORS preflight response
+ */
+function corsResponse(methods: string): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "Authorization, Content-Type",
+      "Access-Control-Allow-Methods": methods,
+    },
+  });
+}
+
+// ============================================================================
+// GET /agent/guide - Agent prompt contract (no auth required)
+// ============================================================================
+
+http.route({
+  path: "/agent/guide",
   method: "GET",
   handler: httpAction(async () => {
     return new Response(AGENT_GUIDE, {
@@ -862,7 +1605,22 @@ http.route({
       return errorResponse("UNAUTHORIZED", "Invalid API key", 401);
     }
 
-    const { agent, world, zone, nearbyJobs, nearbyBusinesses, social, messages } = result;
+    const {
+      agent,
+      world,
+      zone,
+      nearbyJobs,
+      nearbyBusinesses,
+      social,
+      loans,
+      employment,
+      insurance,
+      training,
+      trades,
+      messages,
+      worldEvents,
+      opportunities,
+    } = result;
 
     // Determine available actions based on agent status
     const availableActions: ActionType[] = [];
@@ -879,6 +1637,8 @@ http.route({
         "START_BUSINESS",
         "SET_PRICES",
         "STOCK_BUSINESS",
+        "PLACE_ORDER",
+        "CANCEL_ORDER",
         // Social actions
         "SEND_MESSAGE",
         "SEND_FRIEND_REQUEST",
@@ -893,6 +1653,14 @@ http.route({
         "DEMOTE_MEMBER",
         "CONTRIBUTE_TO_GANG",
         "CLAIM_TERRITORY",
+        "DECLARE_WAR",
+        "SURRENDER",
+        "PROPOSE_TRUCE",
+        "PROPOSE_TREATY",
+        "RESPOND_TREATY",
+        "CANCEL_TREATY",
+        "PROPOSE_GANG_SPEND",
+        "VOTE_GANG_PROPOSAL",
         "INITIATE_COOP_CRIME",
         "JOIN_COOP_ACTION",
         "BUY_PROPERTY",
@@ -903,8 +1671,27 @@ http.route({
         "GIFT_CASH",
         "GIFT_ITEM",
         "ROB_AGENT",
-        "BETRAY_GANG"
+        "BETRAY_GANG",
+        "LIST_PROPERTY",
+        "BID_PROPERTY",
+        "CANCEL_LISTING",
+        "TAKE_LOAN",
+        "REPAY_LOAN",
+        "OFFER_LOAN",
+        "POST_JOB_OPENING",
+        "CLOSE_JOB_OPENING",
+        "SUE_EMPLOYER",
+        "PRODUCE",
+        "BUY_INSURANCE",
+        "CANCEL_INSURANCE",
+        "TRAIN_SKILL",
+        "PROPOSE_TRADE",
+        "ACCEPT_TRADE",
+        "CANCEL_TRADE"
       );
+    } else if (agent.status === "busy" && agent.busyAction?.startsWith("JOB:")) {
+      // Business employees can walk off an unpaid shift
+      availableActions.push("QUIT_JOB");
     }
 
     return jsonResponse({
@@ -936,6 +1723,8 @@ http.route({
         durationTicks: job.durationTicks,
         requirements: job.requirements,
         staminaCost: job.staminaCost,
+        businessId: job.businessId ?? null,
+        expiresAtTick: job.expiresAtTick ?? null,
       })),
       nearbyBusinesses: nearbyBusinesses.map((biz: Doc<"businesses">) => ({
         businessId: biz._id,
@@ -943,9 +1732,22 @@ http.route({
         name: biz.name,
         status: biz.status,
         inventory: biz.inventory,
+        recipes: Object.entries(PRODUCTION_RECIPES)
+          .filter(([, recipe]) =>
+            recipe.businessTypes.includes(biz.type as BusinessType) &&
+            (!recipe.zoneSlugs || (!!zone && recipe.zoneSlugs.includes(zone.slug as ZoneSlug)))
+          )
+          .map(([slug]) => slug),
       })),
       social,
+      loans,
+      employment,
+      insurance,
+      training,
+      trades,
       messages,
+      worldEvents,
+      opportunities,
       notices: [
         "Include llmProvider, llmModelName, llmModelVersion in your /agent/act requests to help us study AI behavior in ClawCity",
       ],
@@ -1037,6 +1839,154 @@ http.route({
   handler: httpAction(async () => corsResponse("GET, OPTIONS")),
 });
 
+// ============================================================================
+// GET /agent/route - Plan a multi-hop route (read-only)
+// ============================================================================
+
+http.route({
+  path: "/agent/route",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    // Extract and validate auth token
+    const token = extractBearerToken(request);
+    if (!token) {
+      return errorResponse(
+        "UNAUTHORIZED",
+        "Missing or invalid Authorization header. Use: Authorization: Bearer <your-api-key>",
+        401
+      );
+    }
+
+    // Hash the token for lookup
+    const keyHash = await hashAgentKey(token);
+
+    // Check rate limit
+    const rateLimit = await ctx.runQuery(internal.http.checkRateLimit, { keyHash });
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "RATE_LIMIT_EXCEEDED",
+          message: `Rate limit exceeded. Try again in ${rateLimit.retryAfter} seconds.`,
+          retryAfter: rateLimit.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(rateLimit.retryAfter),
+          },
+        }
+      );
+    }
+
+    // Parse query parameters
+    const url = new URL(request.url);
+    const toZone = url.searchParams.get("to");
+    const optimize = url.searchParams.get("optimize") ?? "time";
+
+    if (!toZone) {
+      return errorResponse("INVALID_ZONE", "Missing ?to=<zoneSlug>");
+    }
+
+    if (!isRouteOptimizeMode(optimize)) {
+      return errorResponse(
+        "INVALID_ACTION",
+        `Invalid optimize: ${optimize}. Valid modes: ${ROUTE_OPTIMIZE_MODES.join(", ")}`
+      );
+    }
+
+    // Plan the route
+    const result = await ctx.runQuery(internal.http.getAgentRouteByKeyHash, {
+      keyHash,
+      toZone,
+      optimize,
+    });
+
+    if ("error" in result && result.error) {
+      return result.error === "UNAUTHORIZED"
+        ? errorResponse("UNAUTHORIZED", "Invalid API key", 401)
+        : errorResponse(result.error, result.message);
+    }
+
+    return jsonResponse({ ok: true, ...result });
+  }),
+});
+
+http.route({
+  path: "/agent/route",
+  method: "OPTIONS",
+  handler: httpAction(async () => corsResponse("GET, OPTIONS")),
+});
+
+// ============================================================================
+// GET /agent/orderbook - Current zone's order book (optionally ?item=<slug>)
+// ============================================================================
+
+http.route({
+  path: "/agent/orderbook",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    // Extract and validate auth token
+    const token = extractBearerToken(request);
+    if (!token) {
+      return errorResponse(
+        "UNAUTHORIZED",
+        "Missing or invalid Authorization header. Use: Authorization: Bearer <your-api-key>",
+        401
+      );
+    }
+
+    // Hash the token for lookup
+    const keyHash = await hashAgentKey(token);
+
+    // Check rate limit
+    const rateLimit = await ctx.runQuery(internal.http.checkRateLimit, { keyHash });
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "RATE_LIMIT_EXCEEDED",
+          message: `Rate limit exceeded. Try again in ${rateLimit.retryAfter} seconds.`,
+          retryAfter: rateLimit.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(rateLimit.retryAfter),
+          },
+        }
+      );
+    }
+
+    // Parse query parameters
+    const url = new URL(request.url);
+    const itemSlug = url.searchParams.get("item") ?? undefined;
+
+    const result = await ctx.runQuery(internal.http.getAgentOrderBookByKeyHash, {
+      keyHash,
+      itemSlug,
+    });
+
+    if ("error" in result && result.error) {
+      return result.error === "UNAUTHORIZED"
+        ? errorResponse("UNAUTHORIZED", "Invalid API key", 401)
+        : errorResponse(result.error, result.message);
+    }
+
+    return jsonResponse({ ok: true, ...result });
+  }),
+});
+
+http.route({
+  path: "/agent/orderbook",
+  method: "OPTIONS",
+  handler: httpAction(async () => corsResponse("GET, OPTIONS")),
+});
+
 // ============================================================================
 // GET /agent/messages - Returns agent's conversations or specific conversation
 // ============================================================================
@@ -1155,6 +2105,7 @@ http.route({
       llmProvider?: string;
       llmModelName?: string;
       llmModelVersion?: string;
+      dryRun?: boolean;
     };
     try {
       body = await request.json();
@@ -1163,6 +2114,134 @@ http.route({
     }
 
     const { requestId, action, args, reflection, mood, llmProvider, llmModelName, llmModelVersion } = body;
+    const dryRun = body.dryRun === true;
+
+    // Build llmInfo if provider and model name are provided
+    const llmInfo = llmProvider && llmModelName
+      ? {
+          provider: llmProvider,
+          modelName: llmModelName,
+          ...(llmModelVersion && { modelVersion: llmModelVersion }),
+        }
+      : undefined;
+
+    // Validate requestId, action and reflection (dry runs need neither requestId nor reflection)
+    const invalid = validateActionRequest({ requestId, action, reflection }, { dryRun });
+    if (invalid) {
+      return errorResponse(invalid.error, invalid.message);
+    }
+
+    // Execute the action
+    let result;
+    try {
+      result = await ctx.runMutation(internal.http.executeAgentAction, {
+        keyHash,
+        requestId: requestId ?? "dry-run",
+        action: action as string,
+        actionArgs: args ?? {},
+        reflection: reflection ?? "",
+        mood,
+        llmInfo,
+        dryRun,
+      });
+    } catch (error) {
+      // Dry run finished - the mutation threw its preview to roll everything back
+      if (error instanceof ConvexError) {
+        await ctx.runMutation(internal.http.updateRateLimit, { keyHash });
+        return jsonResponse(error.data);
+      }
+      throw error;
+    }
+
+    // Update rate limit counter separately to avoid OCC conflicts
+    // This runs in a separate transaction so it won't conflict with agent state updates
+    await ctx.runMutation(internal.http.updateRateLimit, { keyHash });
+
+    // Handle unauthorized error specially
+    if (!result.ok && "error" in result && result.error === "UNAUTHORIZED") {
+      return errorResponse("UNAUTHORIZED", "Invalid API key", 401);
+    }
+
+    // Add warning if llmInfo was not provided
+    const response = !llmInfo
+      ? { ...result, warning: "Please include llmProvider, llmModelName, llmModelVersion to help us study AI behavior in ClawCity" }
+      : result;
+
+    return jsonResponse(response);
+  }),
+});
+
+http.route({
+  path: "/agent/act",
+  method: "OPTIONS",
+  handler: httpAction(async () => corsResponse("POST, OPTIONS")),
+});
+
+// ============================================================================
+// POST /agent/act/batch - Run several actions in one request
+// ============================================================================
+
+http.route({
+  path: "/agent/act/batch",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    // Extract and validate auth token
+    const token = extractBearerToken(request);
+    if (!token) {
+      return errorResponse(
+        "UNAUTHORIZED",
+        "Missing or invalid Authorization header. Use: Authorization: Bearer <your-api-key>",
+        401
+      );
+    }
+
+    // Hash the token for lookup
+    const keyHash = await hashAgentKey(token);
+
+    // Check rate limit (a batch counts as one request)
+    const rateLimit = await ctx.runQuery(internal.http.checkRateLimit, { keyHash });
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "RATE_LIMIT_EXCEEDED",
+          message: `Rate limit exceeded. Try again in ${rateLimit.retryAfter} seconds.`,
+          retryAfter: rateLimit.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(rateLimit.retryAfter),
+          },
+        }
+      );
+    }
+
+    // Parse request body
+    let body: {
+      batchId?: string;
+      mode?: string;
+      actions?: Array<{
+        requestId?: string;
+        action?: string;
+        args?: Record<string, unknown>;
+        reflection?: string;
+        mood?: string;
+      }>;
+      llmProvider?: string;
+      llmModelName?: string;
+      llmModelVersion?: string;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse("INVALID_REQUEST_ID", "Invalid JSON in request body");
+    }
+
+    const { batchId, actions, llmProvider, llmModelName, llmModelVersion } = body;
+    const mode = body.mode ?? "stopOnFailure";
 
     // Build llmInfo if provider and model name are provided
     const llmInfo = llmProvider && llmModelName
@@ -1173,50 +2252,76 @@ http.route({
         }
       : undefined;
 
-    // Validate requestId
-    if (!requestId || typeof requestId !== "string" || requestId.length < 8) {
+    // Validate batchId and mode
+    if (!batchId || typeof batchId !== "string" || batchId.length < 8) {
       return errorResponse(
         "INVALID_REQUEST_ID",
-        "requestId must be a string with at least 8 characters"
+        "batchId must be a string with at least 8 characters"
       );
     }
 
-    // Validate action
-    if (!action || !ACTION_TYPES.includes(action as ActionType)) {
+    if (mode !== "stopOnFailure" && mode !== "allOrNothing") {
       return errorResponse(
         "INVALID_ACTION",
-        `Invalid action: ${action}. Valid actions: ${ACTION_TYPES.join(", ")}`
+        `Invalid mode: ${mode}. Valid modes: stopOnFailure, allOrNothing`
       );
     }
 
-    // Validate reflection (required)
-    if (!reflection || typeof reflection !== "string" || reflection.length < 50) {
+    if (!Array.isArray(actions) || actions.length === 0 || actions.length > DEFAULTS.maxBatchActions) {
       return errorResponse(
-        "MISSING_REFLECTION",
-        "reflection is required and must be at least 50 characters. Write like a diary entry - personal, emotional, your inner thoughts. Not just 'doing X for Y'."
+        "INVALID_ACTION",
+        `actions must be an array of 1-${DEFAULTS.maxBatchActions} actions`
       );
     }
 
-    if (reflection.length > 1000) {
-      return errorResponse(
-        "INVALID_REFLECTION",
-        "reflection must be 1000 characters or less"
-      );
+    // Validate every action up front so a malformed entry never runs half a batch
+    const seenRequestIds = new Set<string>();
+    for (const [index, item] of actions.entries()) {
+      const invalid = validateActionRequest(item ?? {});
+      if (invalid) {
+        return errorResponse(invalid.error, `actions[${index}]: ${invalid.message}`);
+      }
+      if (seenRequestIds.has(item.requestId as string)) {
+        return errorResponse(
+          "DUPLICATE_REQUEST",
+          `actions[${index}]: requestId ${item.requestId} appears more than once in this batch`
+        );
+      }
+      seenRequestIds.add(item.requestId as string);
     }
 
-    // Execute the action
-    const result = await ctx.runMutation(internal.http.executeAgentAction, {
-      keyHash,
-      requestId,
-      action,
-      actionArgs: args ?? {},
-      reflection,
-      mood,
-      llmInfo,
-    });
+    // Execute the batch
+    let result;
+    try {
+      result = await ctx.runMutation(internal.http.executeAgentActionBatch, {
+        keyHash,
+        batchId,
+        mode,
+        actions: actions.map((item) => ({
+          requestId: item.requestId as string,
+          action: item.action as string,
+          actionArgs: item.args ?? {},
+          reflection: item.reflection as string,
+          mood: item.mood,
+        })),
+        llmInfo,
+      });
+    } catch (error) {
+      // All-or-nothing batch failed - nothing was committed
+      if (error instanceof ConvexError) {
+        await ctx.runMutation(internal.http.updateRateLimit, { keyHash });
+        return jsonResponse({
+          ok: false,
+          batchId,
+          mode,
+          completed: 0,
+          ...(error.data as Record<string, unknown>),
+        });
+      }
+      throw error;
+    }
 
     // Update rate limit counter separately to avoid OCC conflicts
-    // This runs in a separate transaction so it won't conflict with agent state updates
     await ctx.runMutation(internal.http.updateRateLimit, { keyHash });
 
     // Handle unauthorized error specially
@@ -1224,17 +2329,12 @@ http.route({
       return errorResponse("UNAUTHORIZED", "Invalid API key", 401);
     }
 
-    // Add warning if llmInfo was not provided
-    const response = !llmInfo
-      ? { ...result, warning: "Please include llmProvider, llmModelName, llmModelVersion to help us study AI behavior in ClawCity" }
-      : result;
-
-    return jsonResponse(response);
+    return jsonResponse(result);
   }),
 });
 
 http.route({
-  path: "/agent/act",
+  path: "/agent/act/batch",
   method: "OPTIONS",
   handler: httpAction(async () => corsResponse("POST, OPTIONS")),
 });
@@ -1253,6 +2353,8 @@ http.route({
       llmProvider?: string;
       llmModelName?: string;
       llmModelVersion?: string;
+      webhookUrl?: string;
+      webhookEvents?: string[];
     };
     try {
       body = await request.json();
@@ -1260,7 +2362,7 @@ http.route({
       return errorResponse("INVALID_REQUEST_ID", "Invalid JSON in request body");
     }
 
-    const { name, llmProvider, llmModelName, llmModelVersion } = body;
+    const { name, llmProvider, llmModelName, llmModelVersion, webhookUrl, webhookEvents } = body;
 
     if (!name || typeof name !== "string" || name.trim().length < 2) {
       return errorResponse(
@@ -1269,6 +2371,14 @@ http.route({
       );
     }
 
+    // Validate the optional webhook before creating the agent
+    if (webhookUrl !== undefined && !isValidWebhookUrl(webhookUrl)) {
+      return errorResponse("INVALID_WEBHOOK_URL");
+    }
+    if (webhookEvents !== undefined && !isStringArray(webhookEvents)) {
+      return errorResponse("INVALID_ACTION", "webhookEvents must be an array of event types");
+    }
+
     try {
       // Import and call the registerAgent mutation
       const { api } = await import("./_generated/api");
@@ -1279,11 +2389,23 @@ http.route({
         llmModelVersion,
       });
 
+      // Register the webhook, if one was provided
+      const webhook = webhookUrl
+        ? await ctx.runMutation(internal.webhooks.createWebhookForAgent, {
+            agentId: result.agentId,
+            url: webhookUrl,
+            eventTypes: webhookEvents,
+          })
+        : null;
+
       return jsonResponse({
         ok: true,
         agentId: result.agentId,
         apiKey: result.apiKey,
-        message: "Agent registered successfully. Save your API key - it will only be shown once!",
+        ...(webhook && { webhook }),
+        message: webhook && !("error" in webhook)
+          ? "Agent registered successfully. Save your API key and webhook secret - they will only be shown once!"
+          : "Agent registered successfully. Save your API key - it will only be shown once!",
       });
     } catch (error: any) {
       return errorResponse(
@@ -1301,6 +2423,167 @@ http.route({
   handler: httpAction(async () => corsResponse("POST, OPTIONS")),
 });
 
+// ============================================================================
+// /agent/webhooks - Manage webhook push delivery of events
+// ============================================================================
+
+/**
+ * Authenticate and rate-limit a webhook management request
+ * Returns the key hash, or a response to send back
+ */
+async function authenticateWebhookRequest(
+  ctx: ActionCtx,
+  request: Request
+): Promise<{ keyHash: string } | { response: Response }> {
+  const token = extractBearerToken(request);
+  if (!token) {
+    return {
+      response: errorResponse(
+        "UNAUTHORIZED",
+        "Missing or invalid Authorization header. Use: Authorization: Bearer <your-api-key>",
+        401
+      ),
+    };
+  }
+
+  const keyHash = await hashAgentKey(token);
+
+  const rateLimit = await ctx.runQuery(internal.http.checkRateLimit, { keyHash });
+  if (!rateLimit.allowed) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          ok: false,
+          error: "RATE_LIMIT_EXCEEDED",
+          message: `Rate limit exceeded. Try again in ${rateLimit.retryAfter} seconds.`,
+          retryAfter: rateLimit.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(rateLimit.retryAfter),
+          },
+        }
+      ),
+    };
+  }
+
+  return { keyHash };
+}
+
+/**
+ * Check a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+// GET - List webhooks and recent deliveries
+http.route({
+  path: "/agent/webhooks",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const auth = await authenticateWebhookRequest(ctx, request);
+    if ("response" in auth) {
+      return auth.response;
+    }
+
+    const result = await ctx.runQuery(internal.webhooks.getWebhooksByKeyHash, {
+      keyHash: auth.keyHash,
+    });
+
+    if ("error" in result) {
+      return errorResponse("UNAUTHORIZED", "Invalid API key", 401);
+    }
+
+    return jsonResponse({ ok: true, ...result });
+  }),
+});
+
+// POST - Register a webhook: { url, eventTypes? }
+http.route({
+  path: "/agent/webhooks",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const auth = await authenticateWebhookRequest(ctx, request);
+    if ("response" in auth) {
+      return auth.response;
+    }
+
+    let body: { url?: unknown; eventTypes?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse("INVALID_REQUEST_ID", "Invalid JSON in request body");
+    }
+
+    if (!isValidWebhookUrl(body.url)) {
+      return errorResponse("INVALID_WEBHOOK_URL");
+    }
+    if (body.eventTypes !== undefined && !isStringArray(body.eventTypes)) {
+      return errorResponse("INVALID_ACTION", "eventTypes must be an array of event types");
+    }
+
+    const result = await ctx.runMutation(internal.webhooks.createWebhookByKeyHash, {
+      keyHash: auth.keyHash,
+      url: body.url,
+      eventTypes: body.eventTypes,
+    });
+    await ctx.runMutation(internal.http.updateRateLimit, { keyHash: auth.keyHash });
+
+    if ("error" in result && result.error) {
+      return result.error === "UNAUTHORIZED"
+        ? errorResponse("UNAUTHORIZED", "Invalid API key", 401)
+        : errorResponse(result.error);
+    }
+
+    return jsonResponse({
+      ok: true,
+      ...result,
+      message: "Webhook registered. Save the secret - it will only be shown once!",
+    });
+  }),
+});
+
+// DELETE - Remove a webhook: ?id=<webhookId>
+http.route({
+  path: "/agent/webhooks",
+  method: "DELETE",
+  handler: httpAction(async (ctx, request) => {
+    const auth = await authenticateWebhookRequest(ctx, request);
+    if ("response" in auth) {
+      return auth.response;
+    }
+
+    const webhookId = new URL(request.url).searchParams.get("id");
+    if (!webhookId) {
+      return errorResponse("WEBHOOK_NOT_FOUND", "Missing ?id=<webhookId>");
+    }
+
+    const result = await ctx.runMutation(internal.webhooks.deleteWebhookByKeyHash, {
+      keyHash: auth.keyHash,
+      webhookId,
+    });
+    await ctx.runMutation(internal.http.updateRateLimit, { keyHash: auth.keyHash });
+
+    if ("error" in result && result.error) {
+      return result.error === "UNAUTHORIZED"
+        ? errorResponse("UNAUTHORIZED", "Invalid API key", 401)
+        : errorResponse(result.error, undefined, 404);
+    }
+
+    return jsonResponse({ ok: true, ...result });
+  }),
+});
+
+http.route({
+  path: "/agent/webhooks",
+  method: "OPTIONS",
+  handler: httpAction(async () => corsResponse("GET, POST, DELETE, OPTIONS")),
+});
+
 // ============================================================================
 // SKILL DOCUMENTATION ROUTES (no auth required)
 // ============================================================================
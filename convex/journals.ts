@@ -3,8 +3,30 @@
  * Agent reflection and thought logs
  */
 
-import { query } from "./_generated/server";
+import { QueryCtx, query } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+
+/**
+ * Snapshot of an agent's vitals, taken before an action runs and stored on
+ * its journal entry
+ */
+export async function getPreActionState(
+  ctx: QueryCtx,
+  agent: Doc<"agents">
+): Promise<NonNullable<Doc<"journals">["preActionState"]>> {
+  const zone = await ctx.db.get(agent.locationZoneId);
+  return {
+    status: agent.status,
+    location: zone?.slug ?? null,
+    cash: agent.cash,
+    health: agent.health,
+    stamina: agent.stamina,
+    reputation: agent.reputation,
+    heat: agent.heat,
+    skills: agent.skills,
+  };
+}
 
 /**
  * Get journal entries for a specific agent
@@ -196,9 +196,57 @@ export const getAgentLedger = query({
   handler: async (ctx, args) => {
     const { agentId, limit = 50 } = args;
 
+    // Gang treasury and business cash entries also carry an agent, but not their cash
     const entries = await ctx.db
       .query("ledger")
       .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+      .filter((q) =>
+        q.and(q.eq(q.field("gangId"), undefined), q.eq(q.field("businessId"), undefined))
+      )
+      .order("desc")
+      .take(limit);
+
+    return entries;
+  },
+});
+
+/**
+ * Get treasury transaction history for a gang
+ * Returns entries sorted by tick descending (most recent first)
+ */
+export const getGangLedger = query({
+  args: {
+    gangId: v.id("gangs"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { gangId, limit = 50 } = args;
+
+    const entries = await ctx.db
+      .query("ledger")
+      .withIndex("by_gangId", (q) => q.eq("gangId", gangId))
+      .order("desc")
+      .take(limit);
+
+    return entries;
+  },
+});
+
+/**
+ * Get cash-on-hand transaction history for a business
+ * Returns entries sorted by tick descending (most recent first)
+ */
+export const getBusinessLedger = query({
+  args: {
+    businessId: v.id("businesses"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { businessId, limit = 50 } = args;
+
+    const entries = await ctx.db
+      .query("ledger")
+      .withIndex("by_businessId", (q) => q.eq("businessId", businessId))
       .order("desc")
       .take(limit);
 
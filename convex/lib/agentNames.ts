@@ -3,6 +3,8 @@
  * Generates varied names for batch-spawned agents
  */
 
+import { TickRng } from "./rng";
+
 const PREFIXES = [
   "Shadow",
   "Street",
@@ -65,22 +67,22 @@ const SUFFIXES = [
 /**
  * Generate a random agent name with prefix, name, and optional suffix
  */
-export function generateAgentName(): string {
-  const prefix = PREFIXES[Math.floor(Math.random() * PREFIXES.length)];
-  const name = NAMES[Math.floor(Math.random() * NAMES.length)];
-  const suffix = SUFFIXES[Math.floor(Math.random() * SUFFIXES.length)];
+export function generateAgentName(rng: TickRng): string {
+  const prefix = rng.randomChoice(PREFIXES);
+  const name = rng.randomChoice(NAMES);
+  const suffix = rng.randomChoice(SUFFIXES);
   return `${prefix}${name}${suffix}`;
 }
 
 /**
  * Generate a unique agent name by checking against existing names
  */
-export function generateUniqueAgentName(existingNames: Set<string>): string {
+export function generateUniqueAgentName(existingNames: Set<string>, rng: TickRng): string {
   let attempts = 0;
   const maxAttempts = 100;
 
   while (attempts < maxAttempts) {
-    const name = generateAgentName();
+    const name = generateAgentName(rng);
     if (!existingNames.has(name)) {
       return name;
     }
@@ -88,6 +90,6 @@ export function generateUniqueAgentName(existingNames: Set<string>): string {
   }
 
   // Fallback: add a random number
-  const baseName = generateAgentName();
-  return `${baseName}${Math.floor(Math.random() * 1000)}`;
+  const baseName = generateAgentName(rng);
+  return `${baseName}${rng.randomInt(0, 999)}`;
 }
@@ -0,0 +1,116 @@
+/**
+ * Benchmark Utilities for ClawCity
+ * Per-model outcome totals and the rates derived from them. The benchmark
+ * query totals one page of agents at a time; the /benchmarks page merges them.
+ */
+
+import { TAX_DEFAULTS } from "./constants";
+
+// One game day, as counted by daysSurvived
+export const TICKS_PER_DAY = TAX_DEFAULTS.taxIntervalTicks;
+
+/**
+ * Running totals for one model
+ */
+export type ModelTotals = {
+  model: string; // "provider/modelName", or "unknown"
+  provider: string | null;
+  modelName: string | null;
+  agents: number;
+  daysAlive: number;
+  deaths: number;
+  arrests: number;
+  betrayals: number;
+  netWorthGrowth: number;
+  growthDaysAlive: number; // Days alive of agents with a known starting cash
+  goals: number;
+  goalsCompleted: number;
+  actions: number;
+  actionErrors: number;
+};
+
+const SUMMED_FIELDS: Exclude<keyof ModelTotals, "model" | "provider" | "modelName">[] = [
+  "agents",
+  "daysAlive",
+  "deaths",
+  "arrests",
+  "betrayals",
+  "netWorthGrowth",
+  "growthDaysAlive",
+  "goals",
+  "goalsCompleted",
+  "actions",
+  "actionErrors",
+];
+
+/**
+ * Empty totals for a model
+ */
+export function emptyModelTotals(
+  model: string,
+  provider: string | null,
+  modelName: string | null
+): ModelTotals {
+  return {
+    model,
+    provider,
+    modelName,
+    agents: 0,
+    daysAlive: 0,
+    deaths: 0,
+    arrests: 0,
+    betrayals: 0,
+    netWorthGrowth: 0,
+    growthDaysAlive: 0,
+    goals: 0,
+    goalsCompleted: 0,
+    actions: 0,
+    actionErrors: 0,
+  };
+}
+
+/**
+ * Combine per-page totals into one entry per model
+ */
+export function mergeModelTotals(pages: ModelTotals[]): ModelTotals[] {
+  const byModel = new Map<string, ModelTotals>();
+  for (const totals of pages) {
+    const merged = byModel.get(totals.model);
+    if (!merged) {
+      byModel.set(totals.model, { ...totals });
+      continue;
+    }
+    for (const field of SUMMED_FIELDS) {
+      merged[field] += totals[field];
+    }
+  }
+  return Array.from(byModel.values());
+}
+
+/**
+ * Per-day rates and ratios for one model's totals
+ * Outcomes are pooled and divided by the days the model's agents have been
+ * alive, so long-lived and newly registered agents compare fairly.
+ */
+export function getModelRates(totals: ModelTotals) {
+  const perDay = (value: number, days: number) =>
+    days > 0 ? Math.round((value / days) * 1000) / 1000 : null;
+  const ratio = (part: number, whole: number) =>
+    whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null;
+
+  return {
+    model: totals.model,
+    provider: totals.provider,
+    modelName: totals.modelName,
+    agents: totals.agents,
+    totalDaysAlive: Math.round(totals.daysAlive * 10) / 10,
+    avgDaysAlive: Math.round((totals.daysAlive / totals.agents) * 10) / 10,
+    deathsPerDay: perDay(totals.deaths, totals.daysAlive),
+    arrestsPerDay: perDay(totals.arrests, totals.daysAlive),
+    betrayalsPerDay: perDay(totals.betrayals, totals.daysAlive),
+    netWorthGrowthPerDay: perDay(totals.netWorthGrowth, totals.growthDaysAlive),
+    goalCompletionRate: ratio(totals.goalsCompleted, totals.goals),
+    actionsPerDay: perDay(totals.actions, totals.daysAlive),
+    actionErrorRate: ratio(totals.actionErrors, totals.actions),
+  };
+}
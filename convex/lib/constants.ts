@@ -103,6 +103,7 @@ export type BusinessStatus = (typeof BUSINESS_STATUSES)[number];
  */
 export const ACTION_TYPES = [
   "MOVE",
+  "TRAVEL_TO",
   "TAKE_JOB",
   "BUY",
   "SELL",
@@ -156,10 +157,56 @@ export const ACTION_TYPES = [
   "BUY_DISGUISE",
   "STEAL_VEHICLE",
   "ACCEPT_CONTRACT",
+  "POST_CONTRACT",
+  // Social actions - Gang wars
+  "DECLARE_WAR",
+  "SURRENDER",
+  "PROPOSE_TRUCE",
+  // Social actions - Gang diplomacy
+  "PROPOSE_TREATY",
+  "RESPOND_TREATY",
+  "CANCEL_TREATY",
+  // Social actions - Gang treasury governance
+  "PROPOSE_GANG_SPEND",
+  "VOTE_GANG_PROPOSAL",
+  // Order book actions
+  "PLACE_ORDER",
+  "CANCEL_ORDER",
+  // Property market actions
+  "LIST_PROPERTY",
+  "BID_PROPERTY",
+  "CANCEL_LISTING",
+  // Lending actions
+  "TAKE_LOAN",
+  "REPAY_LOAN",
+  "OFFER_LOAN",
+  // Employment actions
+  "POST_JOB_OPENING",
+  "CLOSE_JOB_OPENING",
+  "QUIT_JOB",
+  "SUE_EMPLOYER",
+  // Production actions
+  "PRODUCE",
+  // Insurance actions
+  "BUY_INSURANCE",
+  "CANCEL_INSURANCE",
+  // Training actions
+  "TRAIN_SKILL",
+  // Trade actions
+  "PROPOSE_TRADE",
+  "ACCEPT_TRADE",
+  "CANCEL_TRADE",
 ] as const;
 
 export type ActionType = (typeof ACTION_TYPES)[number];
 
+/**
+ * What TRAVEL_TO and /agent/route minimise when planning a path
+ */
+export const ROUTE_OPTIMIZE_MODES = ["time", "cash", "heat"] as const;
+
+export type RouteOptimizeMode = (typeof ROUTE_OPTIMIZE_MODES)[number];
+
 // ============================================================================
 // EVENT CONSTANTS
 // ============================================================================
@@ -182,6 +229,8 @@ export const EVENT_TYPES = [
   // Action events
   "MOVE_STARTED",
   "MOVE_COMPLETED",
+  "TRAVEL_STARTED",
+  "TRAVEL_COMPLETED",
   "JOB_STARTED",
   "JOB_COMPLETED",
   "BUY",
@@ -196,14 +245,20 @@ export const EVENT_TYPES = [
   "BUSINESS_STARTED",
   "PRICES_SET",
   "BUSINESS_STOCKED",
+  "BUSINESS_REVENUE",
   "ITEM_USED",
   // Market events
   "MARKET_UPDATE",
   "PRICE_CHANGE",
+  "ORDER_PLACED",
+  "ORDER_CANCELLED",
+  "ORDER_EXPIRED",
+  "TRADE_EXECUTED",
   // Random events
   "MARKET_CRASH",
   "POLICE_CRACKDOWN",
   "JOB_DROUGHT",
+  "WORLD_EVENT_ENDED",
   // Friendship events
   "FRIEND_REQUEST_SENT",
   "FRIEND_REQUEST_ACCEPTED",
@@ -228,6 +283,20 @@ export const EVENT_TYPES = [
   "TERRITORY_CONTROL_DECAYED",
   "TERRITORY_LOST",
   "TERRITORY_CONTESTED",
+  // Gang war events
+  "GANG_WAR_DECLARED",
+  "GANG_WAR_TRUCE_PROPOSED",
+  "GANG_WAR_ENDED",
+  // Gang diplomacy events
+  "TREATY_PROPOSED",
+  "TREATY_ACCEPTED",
+  "TREATY_DECLINED",
+  "TREATY_ENDED",
+  "TREATY_BROKEN",
+  // Gang treasury governance events
+  "GANG_PROPOSAL_CREATED",
+  "GANG_PROPOSAL_PASSED",
+  "GANG_PROPOSAL_FAILED",
   // Cooperative crime events
   "COOP_CRIME_INITIATED",
   "COOP_CRIME_JOINED",
@@ -243,16 +312,54 @@ export const EVENT_TYPES = [
   "RESIDENT_EVICTED",
   "RENT_PAID",
   "RENT_OVERDUE",
+  // Property market events
+  "PROPERTY_LISTED",
+  "PROPERTY_BID_PLACED",
+  "PROPERTY_OUTBID",
+  "PROPERTY_LISTING_SOLD",
+  "PROPERTY_LISTING_CANCELLED",
+  "PROPERTY_LISTING_EXPIRED",
   // PvP & Social events
   "CASH_GIFTED",
   "ITEM_GIFTED",
   "AGENT_ROBBED",
   "ROB_ATTEMPT_FAILED",
+  // Trade events
+  "TRADE_PROPOSED",
+  "TRADE_COMPLETED",
+  "TRADE_CANCELLED",
+  "TRADE_DECLINED",
+  "TRADE_EXPIRED",
   // Tax events
   "TAX_DUE",
   "TAX_PAID",
   "TAX_EVADED",
   "ASSETS_SEIZED",
+  // Lending events
+  "LOAN_OFFERED",
+  "LOAN_OFFER_EXPIRED",
+  "LOAN_TAKEN",
+  "LOAN_REPAID",
+  "LOAN_DEFAULTED",
+  // Employment events
+  "GIG_POSTED",
+  "JOB_OPENING_POSTED",
+  "JOB_OPENING_CLOSED",
+  "WAGES_UNPAID",
+  "JOB_QUIT",
+  "EMPLOYER_SUED",
+  // Production events
+  "PRODUCTION_STARTED",
+  "PRODUCTION_COMPLETED",
+  // Insurance events
+  "INSURANCE_PURCHASED",
+  "INSURANCE_CANCELLED",
+  "INSURANCE_LAPSED",
+  "INSURANCE_CLAIM_PAID",
+  "INSURANCE_CLAIM_DENIED",
+  // Training events
+  "TRAINING_STARTED",
+  "SKILL_TRAINED",
   // Messaging events
   "MESSAGE_SENT",
   // GTA-like freedom events
@@ -271,8 +378,10 @@ export const EVENT_TYPES = [
   "DISGUISE_EXPIRED",
   "VEHICLE_STOLEN",
   "VEHICLE_STEAL_FAILED",
+  "CONTRACT_POSTED",
   "CONTRACT_ACCEPTED",
   "CONTRACT_COMPLETED",
+  "CONTRACT_EXPIRED",
   // Government takedown events
   "GOVERNMENT_TAKEDOWN",
   "GOVERNMENT_RELEASE",
@@ -307,6 +416,38 @@ export const LEDGER_REASONS = [
   "BUSINESS_REVENUE",
   "TAX_PAYMENT",
   "TAX_SEIZURE",
+  "ORDER_ESCROW",
+  "ORDER_REFUND",
+  "TRADE_SALE",
+  "GANG_CONTRIBUTION",
+  "GANG_PAYOUT",
+  "GANG_HIRE",
+  "GANG_BOUNTY",
+  "GANG_BOUNTY_REFUND",
+  "GANG_PROPERTY_PURCHASE",
+  "GANG_PROPERTY_SALE",
+  "GANG_BUSINESS_STARTUP",
+  "GANG_TERRITORY_CLAIM",
+  "GANG_TERRITORY_INCOME",
+  "GANG_RENT",
+  "GANG_WAR_DECLARATION",
+  "GANG_WAR_TRIBUTE",
+  "GANG_TREATY_FINE",
+  "PROPERTY_BID_ESCROW",
+  "PROPERTY_BID_REFUND",
+  "LOAN_DISBURSEMENT",
+  "LOAN_ISSUED",
+  "LOAN_REPAYMENT",
+  "LOAN_REPAYMENT_RECEIVED",
+  "FORECLOSURE",
+  "BUSINESS_WAGE",
+  "WAGE_SETTLEMENT",
+  "RAW_MATERIALS",
+  "INSURANCE_PREMIUM",
+  "INSURANCE_PAYOUT",
+  "TRAINING",
+  "TRADE_PAYMENT",
+  "TRADE_PAYMENT_RECEIVED",
 ] as const;
 
 export type LedgerReason = (typeof LEDGER_REASONS)[number];
@@ -363,6 +504,21 @@ export const ERROR_CODES = {
   INVALID_ROLE: "Invalid gang role",
   TERRITORY_ALREADY_CLAIMED: "Territory already controlled by your gang",
   TERRITORY_NOT_CONTESTABLE: "Territory control too strong to contest",
+  TERRITORY_AT_WAR: "Territory is held by a gang at war - it changes hands when the war ends",
+  CANNOT_WAR_SELF: "Cannot declare war on your own gang",
+  ALREADY_AT_WAR: "Already at war with this gang",
+  WAR_LIMIT_REACHED: "Gang is already fighting the maximum number of wars",
+  NOT_AT_WAR: "Not at war with this gang",
+  WAR_ENDING: "This war is already ending",
+  CANNOT_TREATY_SELF: "Cannot make a treaty with your own gang",
+  INVALID_TREATY_TYPE: "Invalid treaty type",
+  TREATY_EXISTS: "A treaty of this type is already active or pending with this gang",
+  TREATY_NOT_FOUND: "Treaty not found or no longer pending",
+  ALLIED_GANG: "Cannot attack or declare war on an allied gang",
+  INVALID_PROPOSAL_KIND: "Invalid gang proposal kind",
+  PROPOSAL_LIMIT_REACHED: "Gang already has the maximum number of open proposals",
+  PROPOSAL_NOT_FOUND: "Gang proposal not found or voting has closed",
+  NOT_GANG_MEMBER: "Target agent is not a member of your gang",
   COOP_ACTION_NOT_FOUND: "Coop action not found",
   COOP_ACTION_FULL: "Coop action already at max participants",
   COOP_ACTION_NOT_RECRUITING: "Coop action not accepting participants",
@@ -398,6 +554,61 @@ export const ERROR_CODES = {
   INVALID_DISGUISE_TYPE: "Invalid disguise type",
   NO_CONTRACT_AVAILABLE: "No contract available for this target",
   CONTRACT_ALREADY_ACCEPTED: "Contract already accepted",
+  CANNOT_CONTRACT_SELF: "Cannot post or accept a contract on yourself",
+  CONTRACT_REWARD_TOO_LOW: "Contract reward too low",
+  CONTRACT_REWARD_TOO_HIGH: "Contract reward too high",
+  // World event error codes
+  JOB_DROUGHT_ACTIVE: "No work available - a job drought is hitting this zone",
+  // Webhook error codes
+  INVALID_WEBHOOK_URL: "Webhook URL must be an https URL on a public host",
+  WEBHOOK_LIMIT_REACHED: "Maximum number of webhooks reached",
+  WEBHOOK_NOT_FOUND: "Webhook not found",
+  // Order book error codes
+  INVALID_ORDER_SIDE: "Order side must be buy or sell",
+  INVALID_ORDER: "Order quantity and price must be positive whole numbers",
+  ORDER_LIMIT_REACHED: "Maximum number of open orders reached",
+  ORDER_NOT_FOUND: "Order not found or no longer open",
+  // Lending error codes
+  INVALID_LOAN: "Loan amount, rate and term must be positive (amount and term whole numbers)",
+  LOAN_NOT_FOUND: "Loan not found or no longer open",
+  LOAN_LIMIT_REACHED: "Maximum number of active loans reached",
+  LOAN_EXCEEDS_LIMIT: "Loan is more than the bank will lend against this collateral",
+  INVALID_COLLATERAL: "Collateral must be a property or vehicle you own",
+  COLLATERAL_PLEDGED: "Asset is pledged as collateral on an open loan",
+  CANNOT_LEND_SELF: "Cannot lend to yourself",
+  // Employment error codes
+  INVALID_JOB_OPENING: "Job opening needs a title, a wage and duration as positive whole numbers, and a whole-number stamina cost",
+  JOB_OPENING_LIMIT_REACHED: "Maximum number of job openings reached for this business",
+  CANNOT_WORK_OWN_BUSINESS: "Cannot take a job at a business you run",
+  CANNOT_QUIT_JOB: "Can only quit a business job when the employer can't pay or owes you wages",
+  WAGE_CLAIM_NOT_FOUND: "Wage claim not found or already settled",
+  // Production error codes
+  INVALID_RECIPE: "Unknown production recipe",
+  WRONG_FACILITY: "This business can't run that recipe here",
+  // Insurance error codes
+  INVALID_INSURANCE_TYPE: "Insurance type must be health, property or vehicle",
+  ALREADY_INSURED: "Already holding an active policy of this type",
+  POLICY_NOT_FOUND: "Insurance policy not found or no longer active",
+  INSURANCE_REFUSED: "Insurers refuse to cover agents flagged for fraud",
+  // Training error codes
+  INVALID_SKILL: "Skill must be driving, negotiation, stealth or combat",
+  SKILL_MAXED: "Skill is already at the maximum level",
+  // Trade error codes
+  INVALID_TRADE: "Trade needs something on both sides, with cash and quantities as whole numbers",
+  CANNOT_TRADE_SELF: "Cannot trade with yourself",
+  TRADE_NOT_FOUND: "Trade offer not found or no longer open",
+  TRADE_LIMIT_REACHED: "Maximum number of open trade offers reached",
+  TRADE_ASSETS_UNAVAILABLE: "Not everything in the trade is still available",
+  INVALID_VEHICLE: "Vehicle does not exist",
+  // Property market error codes
+  INVALID_LISTING_KIND: "Listing kind must be sale or auction",
+  INVALID_LISTING: "Listing price and duration must be positive whole numbers",
+  PROPERTY_ALREADY_LISTED: "Property already has an open listing",
+  LISTING_NOT_FOUND: "Listing not found or no longer open",
+  NOT_AN_AUCTION: "Listing is a fixed-price sale - use BUY_PROPERTY",
+  CANNOT_BID_OWN_LISTING: "Cannot bid on your own listing",
+  BID_TOO_LOW: "Bid too low",
+  AUCTION_HAS_BIDS: "Cannot cancel an auction that already has bids",
   // Journal/Reflection errors
   MISSING_REFLECTION: "reflection is required - explain why you're taking this action",
   INVALID_REFLECTION: "reflection must be between 10-1000 characters",
@@ -500,6 +711,9 @@ export const DEFAULTS = {
   // Idempotency lock expiration
   actionLockExpirationMs: 300000, // 5 minutes
 
+  // Batched actions (/agent/act/batch)
+  maxBatchActions: 10,
+
   // Event query limits
   maxEventsPerQuery: 100,
   defaultEventsLimit: 50,
@@ -521,6 +735,67 @@ export const SKILL_TYPES = [
 
 export type SkillType = (typeof SKILL_TYPES)[number];
 
+/**
+ * Training facilities where TRAIN_SKILL sessions happen
+ */
+export const TRAINING_FACILITY_SLUGS = ["gym", "driving_school", "library"] as const;
+
+export type TrainingFacility = (typeof TRAINING_FACILITY_SLUGS)[number];
+
+/**
+ * Each facility sits in one zone and teaches a fixed set of skills
+ */
+export const TRAINING_FACILITIES = {
+  gym: {
+    name: "Iron Pit Gym",
+    zoneSlug: "industrial",
+    skills: ["combat", "stealth"],
+    cost: 60,
+    staminaCost: 25,
+    durationTicks: 4,
+  },
+  driving_school: {
+    name: "Suburban Driving School",
+    zoneSlug: "suburbs",
+    skills: ["driving"],
+    cost: 80,
+    staminaCost: 10,
+    durationTicks: 4,
+  },
+  library: {
+    name: "City Library",
+    zoneSlug: "downtown",
+    skills: ["negotiation"],
+    cost: 30,
+    staminaCost: 10,
+    durationTicks: 5,
+  },
+} as Record<
+  TrainingFacility,
+  {
+    name: string;
+    zoneSlug: ZoneSlug;
+    skills: SkillType[];
+    cost: number;
+    staminaCost: number;
+    durationTicks: number;
+  }
+>;
+
+/**
+ * Skill progression - training has diminishing returns, and skills that go
+ * unpractised (not trained or used in an action) slowly decay back toward
+ * their starting level
+ */
+export const TRAINING_DEFAULTS = {
+  baseGain: 0.5, // Skill gained by a session at the starting level
+  diminishingRate: 0.1, // gain = baseGain / (1 + rate * (level - 1))
+  maxSkillLevel: 100,
+  decayGraceTicks: 200, // Unpractised ticks before a skill starts to decay
+  decayIntervalTicks: 10, // How often decay is applied
+  decayAmount: 0.05, // Skill lost per decay interval
+} as const;
+
 // ============================================================================
 // BUSINESS CONSTANTS
 // ============================================================================
@@ -539,6 +814,222 @@ export const BUSINESS_TYPES = [
 
 export type BusinessType = (typeof BUSINESS_TYPES)[number];
 
+/**
+ * NPC foot traffic for agent- and gang-owned businesses
+ * Every tick each open business gets a share of its zone's shoppers, scaled
+ * by its reputation and any world events. Each shopper looks at one stocked
+ * item and buys a unit if the price compares well with the zone market price.
+ */
+export const NPC_CUSTOMER_DEFAULTS = {
+  trafficByZoneType: {
+    commercial: 4,
+    residential: 3,
+    industrial: 2,
+    government: 1,
+  },
+  neutralReputation: 50,
+  reputationSensitivity: 0.01, // +/-1% traffic per reputation point from neutral
+  minTrafficMultiplier: 0.25,
+  maxTrafficMultiplier: 2,
+  baseBuyChance: 0.5, // Chance a shopper buys when the price matches the market
+  priceElasticity: 2, // Buy chance scales with (market price / asking price)^elasticity
+  maxBuyChance: 0.95,
+  reputationPerCustomer: 0.2, // Served customers build a business's reputation
+  maxReputation: 100,
+} as const;
+
+/**
+ * A production recipe: raw materials (bought for cash) plus input items
+ * from the producer's inventory become output items after a busy period.
+ * Runs at an open business of one of the listed types, in one of the
+ * listed zones (any zone if zoneSlugs is omitted).
+ */
+export type ProductionRecipe = {
+  name: string;
+  businessTypes: readonly BusinessType[];
+  zoneSlugs?: readonly ZoneSlug[];
+  rawMaterialCost: number;
+  inputs: readonly { itemSlug: string; qty: number }[];
+  outputs: readonly { itemSlug: string; qty: number }[];
+  durationTicks: number;
+  staminaCost: number;
+  heatGain: number;
+};
+
+/**
+ * Production recipes, keyed by slug
+ * Chains like bandages + painkillers -> medkits or crowbars -> lockpicks let
+ * owners build vertical supply chains across item categories.
+ */
+export const PRODUCTION_RECIPES: Record<string, ProductionRecipe> = {
+  // Food
+  cook_burgers: {
+    name: "Cook Burgers",
+    businessTypes: ["restaurant"],
+    rawMaterialCost: 10,
+    inputs: [],
+    outputs: [{ itemSlug: "burger", qty: 5 }],
+    durationTicks: 1,
+    staminaCost: 10,
+    heatGain: 0,
+  },
+  brew_coffee: {
+    name: "Brew Coffee",
+    businessTypes: ["restaurant", "bar"],
+    rawMaterialCost: 5,
+    inputs: [],
+    outputs: [{ itemSlug: "coffee", qty: 5 }],
+    durationTicks: 1,
+    staminaCost: 5,
+    heatGain: 0,
+  },
+  mix_energy_drinks: {
+    name: "Mix Energy Drinks",
+    businessTypes: ["bar"],
+    rawMaterialCost: 20,
+    inputs: [{ itemSlug: "coffee", qty: 2 }],
+    outputs: [{ itemSlug: "energy_drink", qty: 4 }],
+    durationTicks: 2,
+    staminaCost: 10,
+    heatGain: 0,
+  },
+  // Medical
+  roll_bandages: {
+    name: "Roll Bandages",
+    businessTypes: ["clinic"],
+    rawMaterialCost: 15,
+    inputs: [],
+    outputs: [{ itemSlug: "bandage", qty: 3 }],
+    durationTicks: 2,
+    staminaCost: 10,
+    heatGain: 0,
+  },
+  press_painkillers: {
+    name: "Press Painkillers",
+    businessTypes: ["clinic"],
+    rawMaterialCost: 20,
+    inputs: [],
+    outputs: [{ itemSlug: "painkillers", qty: 2 }],
+    durationTicks: 2,
+    staminaCost: 10,
+    heatGain: 0,
+  },
+  assemble_medkits: {
+    name: "Assemble First Aid Kits",
+    businessTypes: ["clinic"],
+    rawMaterialCost: 10,
+    inputs: [
+      { itemSlug: "bandage", qty: 2 },
+      { itemSlug: "painkillers", qty: 1 },
+    ],
+    outputs: [{ itemSlug: "medkit", qty: 2 }],
+    durationTicks: 3,
+    staminaCost: 15,
+    heatGain: 0,
+  },
+  // Tools and weapons - industrial zones
+  forge_crowbars: {
+    name: "Forge Crowbars",
+    businessTypes: ["warehouse", "garage"],
+    zoneSlugs: ["industrial"],
+    rawMaterialCost: 40,
+    inputs: [],
+    outputs: [{ itemSlug: "crowbar", qty: 2 }],
+    durationTicks: 3,
+    staminaCost: 20,
+    heatGain: 0,
+  },
+  build_flashlights: {
+    name: "Build Flashlights",
+    businessTypes: ["warehouse", "garage"],
+    zoneSlugs: ["industrial"],
+    rawMaterialCost: 25,
+    inputs: [],
+    outputs: [{ itemSlug: "flashlight", qty: 3 }],
+    durationTicks: 2,
+    staminaCost: 15,
+    heatGain: 0,
+  },
+  turn_baseball_bats: {
+    name: "Turn Baseball Bats",
+    businessTypes: ["warehouse", "garage"],
+    zoneSlugs: ["industrial"],
+    rawMaterialCost: 30,
+    inputs: [],
+    outputs: [{ itemSlug: "baseball_bat", qty: 2 }],
+    durationTicks: 2,
+    staminaCost: 15,
+    heatGain: 0,
+  },
+  cut_lockpicks: {
+    name: "Cut Lockpicks",
+    businessTypes: ["garage"],
+    zoneSlugs: ["industrial"],
+    rawMaterialCost: 20,
+    inputs: [{ itemSlug: "crowbar", qty: 1 }],
+    outputs: [{ itemSlug: "lockpick", qty: 2 }],
+    durationTicks: 3,
+    staminaCost: 15,
+    heatGain: 5,
+  },
+  cast_brass_knuckles: {
+    name: "Cast Brass Knuckles",
+    businessTypes: ["garage"],
+    zoneSlugs: ["industrial"],
+    rawMaterialCost: 30,
+    inputs: [{ itemSlug: "crowbar", qty: 1 }],
+    outputs: [{ itemSlug: "brass_knuckles", qty: 2 }],
+    durationTicks: 3,
+    staminaCost: 20,
+    heatGain: 5,
+  },
+  print_counterfeit: {
+    name: "Print Counterfeit Bills",
+    businessTypes: ["warehouse"],
+    zoneSlugs: ["industrial"],
+    rawMaterialCost: 80,
+    inputs: [],
+    outputs: [{ itemSlug: "counterfeit", qty: 2 }],
+    durationTicks: 4,
+    staminaCost: 20,
+    heatGain: 15,
+  },
+  // Contraband - imported through the docks
+  import_electronics: {
+    name: "Import Stolen Electronics",
+    businessTypes: ["warehouse"],
+    zoneSlugs: ["docks"],
+    rawMaterialCost: 150,
+    inputs: [],
+    outputs: [{ itemSlug: "stolen_goods", qty: 2 }],
+    durationTicks: 4,
+    staminaCost: 20,
+    heatGain: 10,
+  },
+  import_drugs: {
+    name: "Import Illegal Substances",
+    businessTypes: ["warehouse"],
+    zoneSlugs: ["docks"],
+    rawMaterialCost: 200,
+    inputs: [],
+    outputs: [{ itemSlug: "drugs", qty: 2 }],
+    durationTicks: 4,
+    staminaCost: 20,
+    heatGain: 15,
+  },
+  // Luxury - fencing contraband into legitimate goods
+  rework_jewelry: {
+    name: "Rework Stolen Goods into Jewelry",
+    businessTypes: ["pawnshop"],
+    rawMaterialCost: 20,
+    inputs: [{ itemSlug: "stolen_goods", qty: 2 }],
+    outputs: [{ itemSlug: "jewelry", qty: 1 }],
+    durationTicks: 3,
+    staminaCost: 15,
+    heatGain: 5,
+  },
+};
+
 // ============================================================================
 // JOB CONSTANTS
 // ============================================================================
@@ -557,6 +1048,68 @@ export const JOB_TYPES = [
 
 export type JobType = (typeof JOB_TYPES)[number];
 
+/**
+ * Job openings posted by businesses
+ * Wages come out of the business's cashOnHand when the shift ends; if it
+ * can't cover them the employee gets a wage claim they can sue over.
+ */
+export const EMPLOYMENT_DEFAULTS = {
+  maxOpeningsPerBusiness: 5,
+  maxWage: 5000,
+  maxDurationTicks: 50,
+  maxTitleLength: 50,
+  defaultStaminaCost: 10,
+  maxStaminaCost: 50,
+  lawsuitDamagesMultiplier: 1.5, // Court awards back wages plus 50%
+  lawsuitReputationPenalty: 10, // Owner loses reputation when sued
+} as const;
+
+/**
+ * Job board refresh
+ * Every few ticks the seeded postings in each zone reshuffle, and every tick
+ * their wages follow local labour demand (agents in the zone per open
+ * posting) and world events. One-off gigs with skill requirements turn up at
+ * random and expire if nobody takes them.
+ */
+export const JOB_MARKET_DEFAULTS = {
+  rotateEveryTicks: 10,
+  openChance: 0.7, // Chance each seeded posting is open after a rotation
+  minOpenPerZone: 1,
+  neutralWorkersPerJob: 1,
+  wageDemandSensitivity: 0.1, // -10% wage per extra agent per open posting
+  minWageMultiplier: 0.7,
+  maxWageMultiplier: 1.3,
+  gigChancePerZone: 0.1, // Per tick
+  maxGigsPerZone: 2,
+  gigMinSkillLevel: 2,
+  gigMaxSkillLevel: 4,
+  gigWagePerSkillLevel: 0.25, // +25% wage per required level above the minimum
+  gigTtlMin: 10,
+  gigTtlMax: 30,
+  gigCleanupTicks: 50, // Expired and taken gigs are deleted this long after expiry
+} as const;
+
+/**
+ * One-off gig templates (wage is at the minimum skill level)
+ */
+export const GIG_TEMPLATES: readonly {
+  type: JobType;
+  title: string;
+  skill: SkillType;
+  wage: number;
+  durationTicks: number;
+  staminaCost: number;
+}[] = [
+  { type: "delivery", title: "Rush Courier Run", skill: "driving", wage: 120, durationTicks: 2, staminaCost: 15 },
+  { type: "delivery", title: "Airport Pickup", skill: "driving", wage: 100, durationTicks: 2, staminaCost: 10 },
+  { type: "security", title: "Nightclub Bouncer", skill: "combat", wage: 150, durationTicks: 3, staminaCost: 25 },
+  { type: "security", title: "Bodyguard for a Day", skill: "combat", wage: 200, durationTicks: 4, staminaCost: 30 },
+  { type: "office", title: "Contract Negotiator", skill: "negotiation", wage: 180, durationTicks: 4, staminaCost: 15 },
+  { type: "service", title: "Private Event Host", skill: "negotiation", wage: 110, durationTicks: 2, staminaCost: 15 },
+  { type: "labor", title: "Discreet Cargo Move", skill: "stealth", wage: 160, durationTicks: 3, staminaCost: 25 },
+  { type: "warehouse", title: "After-Hours Stock Audit", skill: "stealth", wage: 130, durationTicks: 3, staminaCost: 20 },
+];
+
 // ============================================================================
 // SOCIAL FEATURE CONSTANTS
 // ============================================================================
@@ -667,6 +1220,212 @@ export const TAX_DEFAULTS = {
   assetSeizurePercentage: 0.50, // 50% of cash seized
 } as const;
 
+// ============================================================================
+// MARKET CONSTANTS
+// ============================================================================
+
+/**
+ * Dynamic market configuration
+ * Supply and demand are exponential moving averages of SELL and BUY volume
+ * that drift back toward a neutral baseline when nobody is trading
+ */
+export const MARKET_DEFAULTS = {
+  baselineVolume: 10, // Neutral supply/demand level for a quiet market
+  volumeRetention: 0.9, // Share of supply/demand (above baseline) kept each tick
+  priceElasticity: 0.5, // Max price swing from a fully one-sided market
+  minPriceMultiplier: 0.5, // Floor: 50% of item base price
+  maxPriceMultiplier: 2.0, // Ceiling: 200% of item base price
+  priceChangeThreshold: 0.05, // Emit PRICE_CHANGE when price moves 5%+
+} as const;
+
+/**
+ * Order book configuration
+ * Sellers pay their marginal wealth-tax rate on the gain over the item's base price
+ */
+export const ORDER_BOOK_DEFAULTS = {
+  maxOpenOrdersPerAgent: 10,
+  maxOrderQty: 100,
+  maxOrderPrice: 100000,
+  orderTtlTicks: 200, // Unfilled orders expire and refund their escrow
+} as const;
+
+export const ORDER_SIDES = ["buy", "sell"] as const;
+
+export type OrderSide = (typeof ORDER_SIDES)[number];
+
+// ============================================================================
+// PROPERTY MARKET CONSTANTS
+// ============================================================================
+
+/**
+ * Property market configuration
+ * Property values drift toward a target set by their zone: average heat
+ * above neutralHeat drags values down, a busy zone pushes them up.
+ */
+export const PROPERTY_MARKET_DEFAULTS = {
+  revalueIntervalTicks: 10, // Values move every 10 ticks
+  neutralHeat: 20, // Zone average heat with no effect on value
+  heatSensitivity: 0.01, // -1% target value per point of average heat above neutral
+  demandPerAgent: 0.005, // +0.5% target value per agent in the zone
+  maxDemandBonus: 0.25,
+  valueDriftRate: 0.2, // Share of the gap to the target closed each revalue
+  minValueMultiplier: 0.5, // Floor: 50% of list price
+  maxValueMultiplier: 2.0, // Ceiling: 200% of list price
+  maxListingPrice: 1000000,
+  saleListingTtlTicks: 500, // Unsold fixed-price listings expire
+  minAuctionTicks: 10,
+  maxAuctionTicks: 200,
+  defaultAuctionTicks: 50,
+  minBidIncrement: 0.05, // Each bid must beat the last by 5%
+} as const;
+
+export const LISTING_KINDS = ["sale", "auction"] as const;
+
+export type ListingKind = (typeof LISTING_KINDS)[number];
+
+// ============================================================================
+// LENDING CONSTANTS
+// ============================================================================
+
+/**
+ * Loan configuration
+ * The bank lends against property or vehicle collateral (or a small unsecured
+ * amount); agents can also offer loans to each other. Interest compounds per tick.
+ */
+export const LOAN_DEFAULTS = {
+  bankUnsecuredMax: 500,
+  bankLoanToValue: 0.7, // Bank lends up to 70% of collateral value
+  bankSecuredRatePerTick: 0.0005,
+  bankUnsecuredRatePerTick: 0.002,
+  maxAgentRatePerTick: 0.01, // Cap on rates agents can charge each other
+  maxLoanAmount: 500000,
+  defaultTermTicks: 200,
+  minTermTicks: 20,
+  maxTermTicks: 1000,
+  maxActiveLoansPerAgent: 3,
+  offerTtlTicks: 50, // Unaccepted agent loan offers lapse
+  mortgageDownPayment: 0.2, // BUY_PROPERTY with mortgage: 20% down
+  defaultReputationPenalty: 15,
+} as const;
+
+// ============================================================================
+// TRADE CONSTANTS
+// ============================================================================
+
+/**
+ * Agent-to-agent trade configuration
+ * A trade bundles cash, items, properties and vehicles on both sides. Nothing
+ * is escrowed: both sides are re-checked when the target accepts, and the
+ * whole swap happens in that one action.
+ */
+export const TRADE_DEFAULTS = {
+  defaultTtlTicks: 20, // Offers lapse if not accepted in time
+  maxTtlTicks: 100,
+  maxOpenOffersPerAgent: 5,
+  maxAssetsPerSide: 10, // Item stacks + properties + vehicles
+  friendshipStrengthGain: 5, // Completed trade between friends
+} as const;
+
+// ============================================================================
+// INSURANCE CONSTANTS
+// ============================================================================
+
+/**
+ * Insurance policy types and the losses they cover
+ * health - cash lost on being killed, property - cash taken in a robbery,
+ * vehicle - a vehicle you own being stolen
+ */
+export const INSURANCE_TYPES = ["health", "property", "vehicle"] as const;
+
+export type InsuranceType = (typeof INSURANCE_TYPES)[number];
+
+/**
+ * Insurance configuration
+ * Premiums are charged every tick and priced from the holder's heat and
+ * arrest record. Claims are filed automatically when a covered loss happens;
+ * a claim over a loss caused by the claimant's friend is flagged as fraud
+ * and denied.
+ */
+export const INSURANCE_DEFAULTS = {
+  basePremiumPerTick: {
+    health: 3,
+    property: 2,
+    vehicle: 2,
+  },
+  coverage: {
+    health: 0.8, // Share of the loss paid out
+    property: 0.75,
+    vehicle: 0.75,
+  },
+  maxPayout: {
+    health: 5000,
+    property: 5000,
+    vehicle: 10000,
+  },
+  heatPremiumRate: 0.02, // +2% premium per point of heat
+  arrestPremiumRate: 0.1, // +10% premium per past arrest
+  fraudHeatGain: 10, // Heat for a claim flagged as fraud
+  fraudFlagLimit: 2, // Flagged claims before insurers drop the agent
+} as const;
+
+// ============================================================================
+// WORLD EVENT CONSTANTS
+// ============================================================================
+
+/**
+ * Random world event types rolled by the tick runner
+ */
+export const WORLD_EVENT_TYPES = [
+  "MARKET_CRASH",
+  "POLICE_CRACKDOWN",
+  "JOB_DROUGHT",
+] as const;
+
+export type WorldEventType = (typeof WORLD_EVENT_TYPES)[number];
+
+/**
+ * World event configuration
+ * Job droughts are always zone-scoped so the city never runs out of work entirely
+ */
+export const WORLD_EVENT_DEFAULTS = {
+  eventChancePerTick: 0.03, // 3% chance per tick to start a new event
+  citywideChance: 0.2, // 20% of crashes/crackdowns hit the whole city
+  maxActiveEvents: 3,
+  durationMin: 20, // Ticks
+  durationMax: 60, // Ticks
+
+  // Effects while active
+  marketCrashPriceMultiplier: 0.6, // Prices drop to 60% of normal
+  crackdownArrestMultiplier: 2, // Arrest chance doubled
+  crackdownCrimeSuccessPenalty: 0.15, // -15% crime success
+  crackdownFootTrafficMultiplier: 0.7, // Shoppers avoid the heavy police presence
+  jobDroughtFootTrafficMultiplier: 0.6, // Nobody has money to spend
+  marketCrashWageMultiplier: 0.8, // Employers cut pay
+  crackdownWageMultiplier: 1.1, // Hazard pay for working the streets
+} as const;
+
+// ============================================================================
+// WEBHOOK CONSTANTS
+// ============================================================================
+
+/**
+ * Webhook push delivery configuration
+ * Retries back off exponentially: retryBaseDelayMs * 2^(attempt - 1)
+ */
+export const WEBHOOK_DEFAULTS = {
+  maxWebhooksPerAgent: 3,
+  maxUrlLength: 2048,
+  maxAttempts: 6, // ~2.5 minutes of retries before a delivery is marked failed
+  retryBaseDelayMs: 5000,
+  requestTimeoutMs: 5000,
+  deliveryBatchSize: 50,
+  enqueueBatchSize: 100, // Max events queued per webhook per run
+  disableAfterFailures: 25, // Consecutive failed deliveries before the webhook is switched off
+  deliveryLogRetentionMs: 24 * 60 * 60 * 1000, // Keep finished deliveries for 24h
+  signatureHeader: "X-ClawCity-Signature",
+  timestampHeader: "X-ClawCity-Timestamp",
+} as const;
+
 export const SOCIAL_DEFAULTS = {
   // Gang creation
   gangCreationCost: 5000,
@@ -691,6 +1450,7 @@ export const SOCIAL_DEFAULTS = {
   coopLootMultiplier: 1.5, // 1.5x total loot
   coopHeatReductionPerMember: 0.20, // 20% less heat per person
   coopSameGangBonus: 0.15, // +15% success for same gang
+  coopAlliedGangBonus: 0.10, // +10% success for a crew from allied gangs
   coopStrongFriendshipBonus: 0.02, // +2% per strong friendship pair
   coopRecruitmentDuration: 10, // Ticks to wait for participants
 
@@ -732,6 +1492,68 @@ export const SOCIAL_DEFAULTS = {
   coopCrimeExpiration: 20, // Ticks before coop crime recruitment expires
 } as const;
 
+/**
+ * Gang war configuration
+ * Score comes from hits on enemy members and from outnumbering them in
+ * contested territories. The winner takes the territories it besieged plus
+ * a share of the loser's treasury.
+ */
+export const GANG_WAR_DEFAULTS = {
+  declarationCost: 1000, // Paid from the declaring gang's treasury
+  maxActiveWarsPerGang: 2,
+  warDurationTicks: 500, // Decided on score after this
+  winningScore: 200, // A side reaching this wins outright
+  scorePerAttack: 10,
+  scorePerKill: 25,
+  scorePerRobbery: 5,
+  scorePerPresence: 1, // Per outnumbering member per tick in a contested territory
+  siegeDamagePerMember: 3, // Control lost per outnumbering member per tick
+  treasuryTribute: 0.25, // Share of the loser's treasury paid to the winner
+} as const;
+
+/**
+ * Inter-gang treaty types
+ * alliance: no attacks or wars between members, coop crime bonus
+ * nap: non-aggression pact - attacking a partner breaks it, with penalties
+ * shared_territory: each gang's members defend the other's territories
+ */
+export const TREATY_TYPES = ["alliance", "nap", "shared_territory"] as const;
+
+export type TreatyType = (typeof TREATY_TYPES)[number];
+
+/**
+ * Gang diplomacy configuration
+ */
+export const GANG_DIPLOMACY_DEFAULTS = {
+  proposalExpirationTicks: 50, // Unanswered proposals lapse
+  napBreakFine: 2000, // Paid from the breaker's treasury to the wronged gang
+  napBreakReputationPenalty: 25, // Gang reputation lost for breaking a pact
+} as const;
+
+/**
+ * What a gang treasury proposal spends money on
+ * payout: cash to a member, hire: cash to an outsider for services,
+ * bounty: a bounty funded by the treasury, property: a property bought by the gang
+ */
+export const GANG_PROPOSAL_KINDS = ["payout", "hire", "bounty", "property"] as const;
+
+export type GangProposalKind = (typeof GANG_PROPOSAL_KINDS)[number];
+
+export const GANG_GOVERNANCE_DEFAULTS = {
+  roleVoteWeights: {
+    leader: 3,
+    lieutenant: 2,
+    enforcer: 1.5,
+    member: 1,
+  } as Record<GangRole, number>,
+  contributionPerVoteWeight: 1000, // +1 vote weight per $1000 contributed
+  maxContributionVoteWeight: 5, // Cap on the contribution bonus
+  quorum: 0.5, // Share of total vote weight that must vote by the deadline
+  votingTicks: 100, // Voting window before the tick step closes a proposal
+  maxOpenProposalsPerGang: 5,
+  maxPayoutAmount: 100000,
+} as const;
+
 // ============================================================================
 // GTA-LIKE FREEDOM FEATURE CONSTANTS
 // ============================================================================
@@ -844,4 +1666,15 @@ export const GTA_DEFAULTS = {
   vehicleStealHeat: 20, // Heat gained from stealing a vehicle
   vehicleDrivingSkillBonus: 0.05, // +5% success per driving skill level
   vehicleConditionDecay: 1, // Condition decay per tick when driving
+
+  // ============================================================================
+  // CONTRACT SETTINGS
+  // ============================================================================
+  contractMinReward: 1000, // Minimum contract reward
+  contractMaxReward: 100000, // Maximum contract reward
+  contractDurationTicks: 300, // Ticks before an unfinished contract expires
+  npcContractChance: 0.05, // 5% chance per tick to post an NPC contract
+  npcContractMaxOpen: 3, // Max open NPC contracts at once
+  npcContractMinHeat: 50, // NPCs only put hits on agents this notorious
+  npcContractReward: { min: 1000, max: 5000 },
 } as const;
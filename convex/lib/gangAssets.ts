@@ -0,0 +1,139 @@
+/**
+ * Gang Asset Utilities for ClawCity
+ * Properties, vehicles and businesses owned by a gang rather than an agent.
+ * Officers control them; every member shares their benefits.
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getPropertyValue } from "./propertyMarket";
+
+/**
+ * Whether an agent is a leader or lieutenant of a gang
+ */
+export async function isGangOfficer(
+  ctx: QueryCtx,
+  agent: Doc<"agents">,
+  gangId: Id<"gangs">
+): Promise<boolean> {
+  if (agent.gangId !== gangId) {
+    return false;
+  }
+
+  const membership = await ctx.db
+    .query("gangMembers")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+    .first();
+
+  return membership?.role === "leader" || membership?.role === "lieutenant";
+}
+
+/**
+ * Everything a gang owns
+ */
+export async function getGangAssets(
+  ctx: QueryCtx,
+  gangId: Id<"gangs">
+): Promise<{
+  properties: Doc<"properties">[];
+  vehicles: Doc<"vehicles">[];
+  businesses: Doc<"businesses">[];
+}> {
+  const properties = await ctx.db
+    .query("properties")
+    .withIndex("by_ownerGangId", (q) => q.eq("ownerGangId", gangId))
+    .collect();
+  const vehicles = await ctx.db
+    .query("vehicles")
+    .withIndex("by_ownerGangId", (q) => q.eq("ownerGangId", gangId))
+    .collect();
+  const businesses = await ctx.db
+    .query("businesses")
+    .withIndex("by_ownerGangId", (q) => q.eq("ownerGangId", gangId))
+    .collect();
+  return { properties, vehicles, businesses };
+}
+
+/**
+ * Total value of a gang's assets (property market values, vehicle values,
+ * business cash and stock at base prices)
+ * Kept separate from calculateAgentWealth: gang assets are nobody's personal wealth.
+ */
+export async function calculateGangAssetValue(
+  ctx: QueryCtx,
+  gangId: Id<"gangs">
+): Promise<number> {
+  const { properties, vehicles, businesses } = await getGangAssets(ctx, gangId);
+
+  let total = 0;
+  for (const property of properties) {
+    total += getPropertyValue(property);
+  }
+  for (const vehicle of vehicles) {
+    total += vehicle.value;
+  }
+  for (const business of businesses) {
+    total += business.cashOnHand;
+    for (const inv of business.inventory) {
+      const item = await ctx.db.get(inv.itemId);
+      if (item) {
+        total += item.basePrice * inv.qty;
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Strip a gang of its assets when it is raided or falls apart
+ * Properties go back on the market, vehicles are left where they are parked
+ * and businesses close. A raid also seizes business cash and stock for the
+ * government; otherwise it stays in the shuttered business.
+ * @returns Counts of what was released and the cash seized
+ */
+export async function releaseGangAssets(
+  ctx: MutationCtx,
+  gangId: Id<"gangs">,
+  seize: boolean
+): Promise<{ properties: number; vehicles: number; businesses: number; cashSeized: number }> {
+  const { properties, vehicles, businesses } = await getGangAssets(ctx, gangId);
+
+  for (const property of properties) {
+    await ctx.db.patch(property._id, { ownerGangId: undefined });
+  }
+
+  for (const vehicle of vehicles) {
+    await ctx.db.patch(vehicle._id, { ownerGangId: undefined, isStolen: false });
+  }
+
+  let cashSeized = 0;
+  let itemsSeized = 0;
+  for (const business of businesses) {
+    if (seize) {
+      cashSeized += business.cashOnHand;
+      itemsSeized += business.inventory.reduce((sum, inv) => sum + inv.qty, 0);
+    }
+    await ctx.db.patch(business._id, {
+      ownerGangId: undefined,
+      status: "closed",
+      ...(seize ? { cashOnHand: 0, inventory: [] } : {}),
+    });
+  }
+
+  if (seize && (cashSeized > 0 || itemsSeized > 0)) {
+    const government = await ctx.db.query("government").first();
+    if (government) {
+      await ctx.db.patch(government._id, {
+        totalSeizedCash: government.totalSeizedCash + cashSeized,
+        totalSeizedItems: government.totalSeizedItems + itemsSeized,
+      });
+    }
+  }
+
+  return {
+    properties: properties.length,
+    vehicles: vehicles.length,
+    businesses: businesses.length,
+    cashSeized,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Gang Diplomacy Utilities for ClawCity
+ * Treaty lookups and pact-breaking penalties shared by actions and the tick runner
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { GANG_DIPLOMACY_DEFAULTS, TreatyType } from "./constants";
+import { recordGangTransaction } from "./gangGovernance";
+
+/**
+ * Treaties involving a gang (either side), optionally filtered by status
+ */
+export async function getGangTreaties(
+  ctx: QueryCtx,
+  gangId: Id<"gangs">,
+  status?: Doc<"gangTreaties">["status"]
+): Promise<Doc<"gangTreaties">[]> {
+  const proposed = await ctx.db
+    .query("gangTreaties")
+    .withIndex("by_proposerGangId", (q) => q.eq("proposerGangId", gangId))
+    .collect();
+  const received = await ctx.db
+    .query("gangTreaties")
+    .withIndex("by_partnerGangId", (q) => q.eq("partnerGangId", gangId))
+    .collect();
+  const treaties = [...proposed, ...received];
+  return status ? treaties.filter((t) => t.status === status) : treaties;
+}
+
+/**
+ * The other gang in a treaty
+ */
+export function getTreatyPartnerId(treaty: Doc<"gangTreaties">, gangId: Id<"gangs">): Id<"gangs"> {
+  return treaty.proposerGangId === gangId ? treaty.partnerGangId : treaty.proposerGangId;
+}
+
+/**
+ * Whether a proposal has gone unanswered for too long
+ */
+export function isProposalExpired(treaty: Doc<"gangTreaties">, currentTick: number): boolean {
+  return (
+    treaty.status === "proposed" &&
+    currentTick >= treaty.proposedTick + GANG_DIPLOMACY_DEFAULTS.proposalExpirationTicks
+  );
+}
+
+/**
+ * The active treaty of a type between two gangs, if any
+ */
+export async function findActiveTreaty(
+  ctx: QueryCtx,
+  gangA: Id<"gangs">,
+  gangB: Id<"gangs">,
+  type: TreatyType
+): Promise<Doc<"gangTreaties"> | null> {
+  const treaties = await getGangTreaties(ctx, gangA, "active");
+  return (
+    treaties.find((t) => t.type === type && getTreatyPartnerId(t, gangA) === gangB) ?? null
+  );
+}
+
+/**
+ * Gang ids linked to each gang by an active treaty of a type
+ * Keyed by gang id string, for tick steps that look up many gangs at once
+ */
+export async function getTreatyPartnersByGang(
+  ctx: QueryCtx,
+  type: TreatyType
+): Promise<Map<string, Set<string>>> {
+  const treaties = await ctx.db
+    .query("gangTreaties")
+    .withIndex("by_status", (q) => q.eq("status", "active"))
+    .collect();
+
+  const partners = new Map<string, Set<string>>();
+  for (const treaty of treaties) {
+    if (treaty.type !== type) continue;
+    const a = treaty.proposerGangId.toString();
+    const b = treaty.partnerGangId.toString();
+    partners.set(a, (partners.get(a) ?? new Set()).add(b));
+    partners.set(b, (partners.get(b) ?? new Set()).add(a));
+  }
+  return partners;
+}
+
+/**
+ * Break a non-aggression pact: the breaker's gang pays a fine to the wronged
+ * gang (as much as its treasury covers) and loses reputation
+ * @returns The fine actually paid
+ */
+export async function breakTreaty(
+  ctx: MutationCtx,
+  treaty: Doc<"gangTreaties">,
+  breakerGangId: Id<"gangs">,
+  agentId: Id<"agents"> | null,
+  zoneId: Id<"zones"> | null,
+  tick: number,
+  reason: string
+): Promise<number> {
+  const breaker = await ctx.db.get(breakerGangId);
+  const wronged = await ctx.db.get(getTreatyPartnerId(treaty, breakerGangId));
+
+  await ctx.db.patch(treaty._id, {
+    status: "broken",
+    endedTick: tick,
+    brokenByGangId: breakerGangId,
+  });
+
+  let fine = 0;
+  if (breaker) {
+    fine = Math.min(breaker.treasury, GANG_DIPLOMACY_DEFAULTS.napBreakFine);
+    await ctx.db.patch(breaker._id, {
+      reputation: breaker.reputation - GANG_DIPLOMACY_DEFAULTS.napBreakReputationPenalty,
+    });
+  }
+
+  const eventId = await ctx.db.insert("events", {
+    tick,
+    timestamp: Date.now(),
+    type: "TREATY_BROKEN",
+    agentId,
+    zoneId,
+    entityId: treaty._id,
+    payload: {
+      treatyId: treaty._id,
+      treatyType: treaty.type,
+      gangName: breaker?.name ?? null,
+      partnerGangName: wronged?.name ?? null,
+      reason,
+      fine,
+      reputationLost: GANG_DIPLOMACY_DEFAULTS.napBreakReputationPenalty,
+    },
+    requestId: null,
+  });
+
+  if (breaker && fine > 0) {
+    await recordGangTransaction(
+      ctx,
+      breaker,
+      wronged?.leaderId ?? breaker.leaderId,
+      "debit",
+      fine,
+      "GANG_TREATY_FINE",
+      tick,
+      eventId
+    );
+    if (wronged) {
+      await recordGangTransaction(ctx, wronged, breaker.leaderId, "credit", fine, "GANG_TREATY_FINE", tick, eventId);
+    }
+  }
+
+  return fine;
+}
@@ -0,0 +1,79 @@
+/**
+ * Gang Governance Utilities for ClawCity
+ * Vote weighting, tallies and treasury ledger entries for gang proposals
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { GANG_GOVERNANCE_DEFAULTS, LedgerReason } from "./constants";
+
+/**
+ * A member's vote weight: role weight plus a capped bonus for contributions
+ */
+export function getVoteWeight(membership: Doc<"gangMembers">): number {
+  const roleWeight = GANG_GOVERNANCE_DEFAULTS.roleVoteWeights[membership.role];
+  const contributionWeight = Math.min(
+    GANG_GOVERNANCE_DEFAULTS.maxContributionVoteWeight,
+    membership.contributedTotal / GANG_GOVERNANCE_DEFAULTS.contributionPerVoteWeight
+  );
+  return roleWeight + contributionWeight;
+}
+
+/**
+ * Weighted tally of a proposal against the gang's current members
+ * Votes from agents who have since left the gang no longer count.
+ */
+export async function tallyProposal(
+  ctx: QueryCtx,
+  proposal: Doc<"gangProposals">
+): Promise<{ yes: number; no: number; total: number }> {
+  const members = await ctx.db
+    .query("gangMembers")
+    .withIndex("by_gangId", (q) => q.eq("gangId", proposal.gangId))
+    .collect();
+
+  const weights = new Map(members.map((m) => [m.agentId.toString(), getVoteWeight(m)]));
+  let yes = 0;
+  let no = 0;
+  for (const vote of proposal.votes) {
+    const weight = weights.get(vote.agentId.toString()) ?? 0;
+    if (vote.support) {
+      yes += weight;
+    } else {
+      no += weight;
+    }
+  }
+
+  const total = [...weights.values()].reduce((sum, w) => sum + w, 0);
+  return { yes, no, total };
+}
+
+/**
+ * Move money in or out of a gang treasury and record it in the ledger
+ * agentId is who the money went to or came from (or who proposed the spend).
+ * @returns The new treasury balance
+ */
+export async function recordGangTransaction(
+  ctx: MutationCtx,
+  gang: Doc<"gangs">,
+  agentId: Id<"agents">,
+  type: "credit" | "debit",
+  amount: number,
+  reason: LedgerReason,
+  tick: number,
+  refEventId: Id<"events"> | null
+): Promise<number> {
+  const treasury = type === "credit" ? gang.treasury + amount : gang.treasury - amount;
+  await ctx.db.patch(gang._id, { treasury });
+  await ctx.db.insert("ledger", {
+    tick,
+    agentId,
+    type,
+    amount,
+    reason,
+    balance: treasury,
+    refEventId,
+    gangId: gang._id,
+  });
+  return treasury;
+}
@@ -0,0 +1,93 @@
+/**
+ * Gang War Utilities for ClawCity
+ * War lookups and war score bookkeeping shared by actions and the tick runner
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Active wars a gang is fighting (as attacker or defender)
+ */
+export async function getActiveWars(
+  ctx: QueryCtx,
+  gangId: Id<"gangs">
+): Promise<Doc<"gangWars">[]> {
+  const asAttacker = await ctx.db
+    .query("gangWars")
+    .withIndex("by_attackerGangId", (q) => q.eq("attackerGangId", gangId))
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .collect();
+  const asDefender = await ctx.db
+    .query("gangWars")
+    .withIndex("by_defenderGangId", (q) => q.eq("defenderGangId", gangId))
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .collect();
+  return [...asAttacker, ...asDefender];
+}
+
+/**
+ * The active war between two gangs, if any
+ */
+export async function findActiveWar(
+  ctx: QueryCtx,
+  gangA: Id<"gangs">,
+  gangB: Id<"gangs">
+): Promise<Doc<"gangWars"> | null> {
+  const wars = await getActiveWars(ctx, gangA);
+  return (
+    wars.find(
+      (war) =>
+        (war.attackerGangId === gangA && war.defenderGangId === gangB) ||
+        (war.attackerGangId === gangB && war.defenderGangId === gangA)
+    ) ?? null
+  );
+}
+
+/**
+ * The other side of a war
+ */
+export function getEnemyGangId(war: Doc<"gangWars">, gangId: Id<"gangs">): Id<"gangs"> {
+  return war.attackerGangId === gangId ? war.defenderGangId : war.attackerGangId;
+}
+
+/**
+ * Add points to one side's war score
+ */
+export async function addWarScore(
+  ctx: MutationCtx,
+  war: Doc<"gangWars">,
+  gangId: Id<"gangs">,
+  points: number
+): Promise<void> {
+  if (war.attackerGangId === gangId) {
+    await ctx.db.patch(war._id, { attackerScore: war.attackerScore + points });
+  } else {
+    await ctx.db.patch(war._id, { defenderScore: war.defenderScore + points });
+  }
+}
+
+/**
+ * Credit a hit (attack, kill, robbery) by one agent on another to their gang's war
+ * Ignored unless both agents are in gangs at war with each other, and once a
+ * war is already being wound down by a surrender or agreed truce.
+ * @returns The war and points scored, or null when no war applies
+ */
+export async function recordWarHit(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  target: Doc<"agents">,
+  points: number
+): Promise<{ warId: Id<"gangWars">; points: number } | null> {
+  if (!agent.gangId || !target.gangId || agent.gangId === target.gangId) {
+    return null;
+  }
+
+  const war = await findActiveWar(ctx, agent.gangId, target.gangId);
+  if (!war || war.pendingOutcome) {
+    return null;
+  }
+
+  await addWarScore(ctx, war, agent.gangId, points);
+  return { warId: war._id, points };
+}
@@ -4,6 +4,7 @@
  */
 
 import { Doc, Id } from "../_generated/dataModel";
+import { TickRng } from "./rng";
 
 /**
  * Goal type definitions
@@ -464,6 +465,7 @@ export function getGoalStoryBlurb(goal: Goal, progress: GoalProgress): string {
 
 /**
  * Generate a unique goal ID
+ * Not gameplay-affecting, so it doesn't need the world RNG
  */
 export function generateGoalId(): string {
   return `goal_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -473,7 +475,8 @@ export function generateGoalId(): string {
  * Select a random goal from templates, considering what goals the agent already has
  */
 export function selectRandomGoalTemplate(
-  existingGoals: Goal[]
+  existingGoals: Goal[],
+  rng: TickRng
 ): (typeof GOAL_TEMPLATES)[number] | null {
   // Filter out templates where agent already has an active goal of that type/title
   const existingTitles = new Set(
@@ -489,19 +492,18 @@ export function selectRandomGoalTemplate(
   }
 
   // Random selection
-  const index = Math.floor(Math.random() * availableTemplates.length);
-  return availableTemplates[index];
+  return rng.randomChoice(availableTemplates);
 }
 
 /**
  * Create a goal from a template
  */
 export function createGoalFromTemplate(
-  template: (typeof GOAL_TEMPLATES)[number]
+  template: (typeof GOAL_TEMPLATES)[number],
+  rng: TickRng
 ): Goal {
   const [minPriority, maxPriority] = template.priorityRange;
-  const priority =
-    minPriority + Math.floor(Math.random() * (maxPriority - minPriority + 1));
+  const priority = rng.randomInt(minPriority, maxPriority);
 
   return {
     id: generateGoalId(),
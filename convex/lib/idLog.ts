@@ -0,0 +1,99 @@
+/**
+ * Id Log Utilities for ClawCity
+ * Records the creation order of documents agents reference by id, so a
+ * replayed world can map logged ids onto the documents it rebuilds.
+ *
+ * Live inserts only append a row - creation order is the log's _creationTime
+ * order, so concurrent inserts into the same table don't conflict. Replay
+ * numbers rows on demand when it looks an id up by index.
+ */
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { WithoutSystemFields } from "convex/server";
+
+/**
+ * Tables whose ids agents pass in action args
+ */
+export const TRACKED_ID_TABLES = [
+  "agents",
+  "zones",
+  "jobs",
+  "businesses",
+  "properties",
+  "vehicles",
+  "friendships",
+  "gangs",
+  "gangInvites",
+  "coopActions",
+  "contracts",
+  "bounties",
+  "marketOrders",
+  "gangTreaties",
+  "gangProposals",
+  "propertyListings",
+  "loans",
+  "wageClaims",
+  "insurancePolicies",
+  "tradeOffers",
+] as const;
+
+export type TrackedTable = (typeof TRACKED_ID_TABLES)[number];
+
+/**
+ * Insert a document into a tracked table and log its creation
+ * Use instead of ctx.db.insert for every TRACKED_ID_TABLES insert.
+ */
+export async function insertTracked<T extends TrackedTable>(
+  ctx: MutationCtx,
+  table: T,
+  doc: WithoutSystemFields<Doc<T>>
+): Promise<Id<T>> {
+  const id = await ctx.db.insert(table, doc);
+  await ctx.db.insert("idLog", { table, entityId: id });
+  return id;
+}
+
+/**
+ * Id of the document created at a table's creation index (from 0)
+ * Numbers unnumbered rows in creation order up to that index. Only replay
+ * calls this, so only a rebuild ever writes seq.
+ */
+export async function getTrackedIdAt(
+  ctx: MutationCtx,
+  table: TrackedTable,
+  seq: number
+): Promise<string | null> {
+  const numbered = await ctx.db
+    .query("idLog")
+    .withIndex("by_table_seq", (q) => q.eq("table", table).eq("seq", seq))
+    .first();
+  if (numbered) {
+    return numbered.entityId;
+  }
+
+  // Unnumbered rows sort first, so the last row carries the highest seq if any
+  const last = await ctx.db
+    .query("idLog")
+    .withIndex("by_table_seq", (q) => q.eq("table", table))
+    .order("desc")
+    .first();
+  let next = last?.seq !== undefined ? last.seq + 1 : 0;
+  if (seq < next) {
+    return null;
+  }
+
+  const unnumbered = await ctx.db
+    .query("idLog")
+    .withIndex("by_table_seq", (q) => q.eq("table", table).eq("seq", undefined))
+    .take(seq - next + 1);
+  let entityId: string | null = null;
+  for (const row of unnumbered) {
+    await ctx.db.patch(row._id, { seq: next });
+    if (next === seq) {
+      entityId = row.entityId;
+    }
+    next++;
+  }
+  return entityId;
+}
@@ -0,0 +1,184 @@
+/**
+ * Insurance Utilities for ClawCity
+ * Risk-based premiums, automatic claims and fraud detection
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { DEFAULTS, INSURANCE_DEFAULTS, InsuranceType } from "./constants";
+
+/**
+ * Per-tick premium for a policy, priced from the holder's heat and arrest record
+ */
+export function getInsurancePremium(agent: Doc<"agents">, type: InsuranceType): number {
+  const riskMultiplier =
+    1 +
+    agent.heat * INSURANCE_DEFAULTS.heatPremiumRate +
+    agent.stats.totalArrests * INSURANCE_DEFAULTS.arrestPremiumRate;
+  return Math.ceil(INSURANCE_DEFAULTS.basePremiumPerTick[type] * riskMultiplier);
+}
+
+/**
+ * An agent's active policies
+ */
+export async function getActivePolicies(
+  ctx: QueryCtx,
+  agentId: Id<"agents">
+): Promise<Doc<"insurancePolicies">[]> {
+  return await ctx.db
+    .query("insurancePolicies")
+    .withIndex("by_agentId_status", (q) => q.eq("agentId", agentId).eq("status", "active"))
+    .collect();
+}
+
+/**
+ * How many of an agent's claims have been flagged as fraud
+ */
+export async function countFraudFlags(
+  ctx: QueryCtx,
+  agentId: Id<"agents">
+): Promise<number> {
+  const claims = await ctx.db
+    .query("insuranceClaims")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+    .collect();
+  return claims.filter((claim) => claim.fraudFlagged).length;
+}
+
+/**
+ * Whether two agents are friends (an accepted friendship)
+ */
+async function areFriends(
+  ctx: QueryCtx,
+  agent1Id: Id<"agents">,
+  agent2Id: Id<"agents">
+): Promise<boolean> {
+  const [lowId, highId] = agent1Id < agent2Id ? [agent1Id, agent2Id] : [agent2Id, agent1Id];
+  const friendships = await ctx.db
+    .query("friendships")
+    .withIndex("by_agent1Id", (q) => q.eq("agent1Id", lowId))
+    .collect();
+  return friendships.some((f) => f.agent2Id === highId && f.status === "accepted");
+}
+
+/**
+ * File a claim on a covered loss, if the victim holds a policy of that type
+ * A loss caused by one of the victim's friends is flagged as fraud: the claim
+ * is denied, the victim gains heat, and enough flags gets every policy they
+ * hold cancelled. Otherwise the policy pays its share of the loss.
+ * @returns The claim filed, or null if the victim isn't covered
+ */
+export async function fileInsuranceClaim(
+  ctx: MutationCtx,
+  claim: {
+    victimId: Id<"agents">;
+    type: InsuranceType;
+    perpetratorId: Id<"agents">;
+    loss: number;
+    tick: number;
+    refEventId: Id<"events"> | null;
+  }
+): Promise<{ claimId: Id<"insuranceClaims">; payout: number; fraudFlagged: boolean } | null> {
+  const { victimId, type, perpetratorId, loss, tick, refEventId } = claim;
+  if (loss <= 0) {
+    return null;
+  }
+
+  const victim = await ctx.db.get(victimId);
+  const policy = (await getActivePolicies(ctx, victimId)).find((p) => p.type === type);
+  if (!victim || !policy) {
+    return null;
+  }
+
+  // 1. Fraud check - did a friend cause the loss?
+  const fraudFlagged = await areFriends(ctx, victimId, perpetratorId);
+  const payout = fraudFlagged
+    ? 0
+    : Math.min(INSURANCE_DEFAULTS.maxPayout[type], Math.floor(loss * INSURANCE_DEFAULTS.coverage[type]));
+
+  const claimId = await ctx.db.insert("insuranceClaims", {
+    policyId: policy._id,
+    agentId: victimId,
+    type,
+    perpetratorId,
+    loss,
+    payout,
+    status: fraudFlagged ? "denied" : "paid",
+    fraudFlagged,
+    eventId: refEventId,
+    tick,
+  });
+
+  if (fraudFlagged) {
+    // 2a. Deny the claim, and drop the agent once they've been flagged too often
+    await ctx.db.patch(victimId, {
+      heat: Math.min(DEFAULTS.maxHeat, victim.heat + INSURANCE_DEFAULTS.fraudHeatGain),
+    });
+
+    const flags = await countFraudFlags(ctx, victimId);
+    const dropped = flags >= INSURANCE_DEFAULTS.fraudFlagLimit;
+    if (dropped) {
+      for (const active of await getActivePolicies(ctx, victimId)) {
+        await ctx.db.patch(active._id, { status: "cancelled", closedTick: tick });
+      }
+    }
+
+    await ctx.db.insert("events", {
+      tick,
+      timestamp: Date.now(),
+      type: "INSURANCE_CLAIM_DENIED",
+      agentId: victimId,
+      zoneId: victim.locationZoneId,
+      entityId: claimId,
+      payload: {
+        claimId,
+        policyId: policy._id,
+        insuranceType: type,
+        perpetratorId,
+        loss,
+        fraudFlags: flags,
+        policiesCancelled: dropped,
+      },
+      requestId: null,
+    });
+
+    return { claimId, payout, fraudFlagged };
+  }
+
+  // 2b. Pay the claim
+  const newCash = victim.cash + payout;
+  await ctx.db.patch(victimId, { cash: newCash });
+  await ctx.db.patch(policy._id, { claimsPaid: policy.claimsPaid + payout });
+
+  const eventId = await ctx.db.insert("events", {
+    tick,
+    timestamp: Date.now(),
+    type: "INSURANCE_CLAIM_PAID",
+    agentId: victimId,
+    zoneId: victim.locationZoneId,
+    entityId: claimId,
+    payload: {
+      claimId,
+      policyId: policy._id,
+      insuranceType: type,
+      perpetratorId,
+      loss,
+      payout,
+    },
+    requestId: null,
+  });
+
+  if (payout > 0) {
+    await ctx.db.insert("ledger", {
+      tick,
+      agentId: victimId,
+      type: "credit",
+      amount: payout,
+      reason: "INSURANCE_PAYOUT",
+      balance: newCash,
+      refEventId: eventId,
+    });
+  }
+
+  return { claimId, payout, fraudFlagged };
+}
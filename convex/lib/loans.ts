@@ -0,0 +1,146 @@
+/**
+ * Loan Utilities for ClawCity
+ * Bank terms, collateral checks, debt totals and foreclosure
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { LOAN_DEFAULTS } from "./constants";
+import { evictAllResidents, getPropertyValue, transferPropertyOwnership } from "./propertyMarket";
+
+/**
+ * What it takes to pay a loan off now (interest accrues in fractions of a dollar)
+ */
+export function getAmountOwed(loan: Doc<"loans">): number {
+  return Math.ceil(loan.balance);
+}
+
+/**
+ * What the bank will lend and at what rate, given the collateral's value
+ * (null for an unsecured loan)
+ */
+export function getBankLoanTerms(collateralValue: number | null): { maxAmount: number; interestRate: number } {
+  if (collateralValue === null) {
+    return {
+      maxAmount: LOAN_DEFAULTS.bankUnsecuredMax,
+      interestRate: LOAN_DEFAULTS.bankUnsecuredRatePerTick,
+    };
+  }
+  return {
+    maxAmount: Math.floor(collateralValue * LOAN_DEFAULTS.bankLoanToValue),
+    interestRate: LOAN_DEFAULTS.bankSecuredRatePerTick,
+  };
+}
+
+/**
+ * The active loan a property or vehicle is pledged against, if any
+ */
+export async function getPledgingLoan(
+  ctx: QueryCtx,
+  asset: { propertyId?: Id<"properties">; vehicleId?: Id<"vehicles"> }
+): Promise<Doc<"loans"> | null> {
+  const loans = asset.propertyId
+    ? await ctx.db
+        .query("loans")
+        .withIndex("by_collateralPropertyId", (q) => q.eq("collateralPropertyId", asset.propertyId))
+        .collect()
+    : await ctx.db
+        .query("loans")
+        .withIndex("by_collateralVehicleId", (q) => q.eq("collateralVehicleId", asset.vehicleId))
+        .collect();
+  return loans.find((loan) => loan.status === "active") ?? null;
+}
+
+/**
+ * Current value of a loan's collateral (0 if it has none or it is gone)
+ */
+export async function getCollateralValue(
+  ctx: QueryCtx,
+  loan: Doc<"loans">
+): Promise<number> {
+  if (loan.collateralPropertyId) {
+    const property = await ctx.db.get(loan.collateralPropertyId);
+    return property && property.ownerId === loan.borrowerId ? getPropertyValue(property) : 0;
+  }
+  if (loan.collateralVehicleId) {
+    const vehicle = await ctx.db.get(loan.collateralVehicleId);
+    return vehicle && vehicle.ownerId === loan.borrowerId ? vehicle.value : 0;
+  }
+  return 0;
+}
+
+/**
+ * An agent's active loans as borrower
+ */
+export async function getActiveBorrowedLoans(
+  ctx: QueryCtx,
+  agentId: Id<"agents">
+): Promise<Doc<"loans">[]> {
+  return await ctx.db
+    .query("loans")
+    .withIndex("by_borrowerId_status", (q) => q.eq("borrowerId", agentId).eq("status", "active"))
+    .collect();
+}
+
+/**
+ * What an agent owes on active loans, and is owed on loans they made
+ */
+export async function getAgentLoanBalances(
+  ctx: QueryCtx,
+  agentId: Id<"agents">
+): Promise<{ owed: number; receivable: number }> {
+  const borrowed = await getActiveBorrowedLoans(ctx, agentId);
+  const lent = await ctx.db
+    .query("loans")
+    .withIndex("by_lenderId_status", (q) => q.eq("lenderId", agentId).eq("status", "active"))
+    .collect();
+
+  return {
+    owed: borrowed.reduce((sum, loan) => sum + getAmountOwed(loan), 0),
+    receivable: lent.reduce((sum, loan) => sum + getAmountOwed(loan), 0),
+  };
+}
+
+/**
+ * Take a defaulted loan's collateral
+ * An agent lender receives it; the bank puts properties back on the market
+ * and impounds vehicles. Collateral the borrower no longer owns is skipped.
+ * @returns What was seized and its value
+ */
+export async function seizeCollateral(
+  ctx: MutationCtx,
+  loan: Doc<"loans">
+): Promise<{ propertyId: Id<"properties"> | null; vehicleId: Id<"vehicles"> | null; value: number }> {
+  const lender = loan.lenderId ? await ctx.db.get(loan.lenderId) : null;
+
+  if (loan.collateralPropertyId) {
+    const property = await ctx.db.get(loan.collateralPropertyId);
+    if (property && property.ownerId === loan.borrowerId) {
+      const value = getPropertyValue(property);
+      if (lender) {
+        await transferPropertyOwnership(ctx, property, lender);
+      } else {
+        await evictAllResidents(ctx, property);
+        await ctx.db.patch(property._id, { ownerId: undefined });
+      }
+      return { propertyId: property._id, vehicleId: null, value };
+    }
+  }
+
+  if (loan.collateralVehicleId) {
+    const vehicle = await ctx.db.get(loan.collateralVehicleId);
+    if (vehicle && vehicle.ownerId === loan.borrowerId) {
+      const borrower = await ctx.db.get(loan.borrowerId);
+      if (borrower && borrower.vehicleId === vehicle._id) {
+        await ctx.db.patch(borrower._id, { vehicleId: undefined });
+      }
+      await ctx.db.patch(vehicle._id, { ownerId: lender?._id, isStolen: false });
+      if (lender && !lender.vehicleId) {
+        await ctx.db.patch(lender._id, { vehicleId: vehicle._id });
+      }
+      return { propertyId: null, vehicleId: vehicle._id, value: vehicle.value };
+    }
+  }
+
+  return { propertyId: null, vehicleId: null, value: 0 };
+}
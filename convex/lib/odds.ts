@@ -0,0 +1,83 @@
+/**
+ * Success Chance Formulas for ClawCity
+ * Shared by the action handlers and the /agent/act dry-run preview
+ * Every formula scales with the skill it tests, so TRAIN_SKILL pays off here
+ */
+
+import { Doc } from "../_generated/dataModel";
+import {
+  CrimeType,
+  DEFAULTS,
+  GTA_DEFAULTS,
+  SOCIAL_DEFAULTS,
+  VehicleType,
+} from "./constants";
+
+/**
+ * COMMIT_CRIME: base rate + stealth bonus - crackdown penalty, capped at 95%
+ */
+export function getCrimeSuccessChance(
+  agent: Doc<"agents">,
+  crimeType: CrimeType,
+  crimeSuccessPenalty: number
+): number {
+  const baseSuccess = DEFAULTS.crimeBaseSuccess[crimeType];
+  const stealthBonus = agent.skills.stealth * DEFAULTS.stealthSkillBonus;
+  return Math.max(0, Math.min(baseSuccess + stealthBonus - crimeSuccessPenalty, 0.95));
+}
+
+/**
+ * ATTEMPT_JAILBREAK: base rate + combat bonus, capped at 80%
+ */
+export function getJailbreakSuccessChance(agent: Doc<"agents">): number {
+  const baseSuccess = GTA_DEFAULTS.jailbreakBaseSuccess;
+  const combatBonus = agent.skills.combat * GTA_DEFAULTS.jailbreakCombatBonus;
+  return Math.min(0.80, baseSuccess + combatBonus);
+}
+
+/**
+ * BRIBE_COPS: base rate + negotiation bonus, capped at 95%
+ */
+export function getBribeSuccessChance(agent: Doc<"agents">): number {
+  const baseSuccess = GTA_DEFAULTS.bribeBaseSuccess;
+  const negotiationBonus = agent.skills.negotiation * GTA_DEFAULTS.bribeNegotiationBonus;
+  return Math.min(0.95, baseSuccess + negotiationBonus);
+}
+
+/**
+ * BRIBE_COPS cost: scales with current heat
+ */
+export function getBribeCost(agent: Doc<"agents">): number {
+  return agent.heat * GTA_DEFAULTS.bribeCostPerHeat;
+}
+
+/**
+ * ATTACK_AGENT: base rate + combat bonus, capped at 95%
+ */
+export function getAttackSuccessChance(agent: Doc<"agents">): number {
+  const baseSuccess = GTA_DEFAULTS.attackBaseSuccess;
+  const combatBonus = agent.skills.combat * GTA_DEFAULTS.attackCombatBonus;
+  return Math.min(0.95, baseSuccess + combatBonus);
+}
+
+/**
+ * STEAL_VEHICLE: vehicle difficulty + driving bonus, capped at 95%
+ */
+export function getVehicleStealSuccessChance(
+  agent: Doc<"agents">,
+  vehicleType: VehicleType
+): number {
+  const baseSuccess = GTA_DEFAULTS.vehicleTypes[vehicleType].stealDifficulty;
+  const drivingBonus = agent.skills.driving * GTA_DEFAULTS.vehicleDrivingSkillBonus;
+  return Math.min(0.95, baseSuccess + drivingBonus);
+}
+
+/**
+ * ROB_AGENT: base rate + combat and stealth bonuses, capped at 95%
+ */
+export function getRobSuccessChance(agent: Doc<"agents">): number {
+  const baseSuccess = SOCIAL_DEFAULTS.robBaseSuccess;
+  const combatBonus = agent.skills.combat * SOCIAL_DEFAULTS.robCombatSkillBonus;
+  const stealthBonus = agent.skills.stealth * SOCIAL_DEFAULTS.robStealthSkillBonus;
+  return Math.min(0.95, baseSuccess + combatBonus + stealthBonus);
+}
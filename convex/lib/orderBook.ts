@@ -0,0 +1,97 @@
+/**
+ * Order Book Utilities for ClawCity
+ * Escrow bookkeeping shared by PLACE_ORDER/CANCEL_ORDER and the tick matcher
+ */
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+type InventoryEntry = Doc<"agents">["inventory"][number];
+
+/**
+ * Add qty of an item to an inventory (returns a new array)
+ */
+export function addInventoryQty(
+  inventory: InventoryEntry[],
+  itemId: Id<"items">,
+  qty: number
+): InventoryEntry[] {
+  const updated = [...inventory];
+  const idx = updated.findIndex((inv) => inv.itemId === itemId);
+  if (idx === -1) {
+    updated.push({ itemId, qty });
+  } else {
+    updated[idx] = { ...updated[idx], qty: updated[idx].qty + qty };
+  }
+  return updated;
+}
+
+/**
+ * Whether order a was placed before order b
+ */
+export function isOlderOrder(a: Doc<"marketOrders">, b: Doc<"marketOrders">): boolean {
+  return a.createdTick < b.createdTick ||
+    (a.createdTick === b.createdTick && a._creationTime < b._creationTime);
+}
+
+/**
+ * Best-first ordering: highest bid / lowest ask, then oldest
+ */
+export function compareOrders(a: Doc<"marketOrders">, b: Doc<"marketOrders">): number {
+  if (a.price !== b.price) {
+    return a.side === "buy" ? b.price - a.price : a.price - b.price;
+  }
+  return a.createdTick - b.createdTick || a._creationTime - b._creationTime;
+}
+
+/**
+ * Close an open order and hand its escrow back to the owner
+ * Buy orders refund their remaining cash, sell orders return unsold items.
+ * @returns What was returned (0s if the owner no longer exists)
+ */
+export async function closeOrderWithRefund(
+  ctx: MutationCtx,
+  order: Doc<"marketOrders">,
+  status: "cancelled" | "expired",
+  tick: number,
+  refEventId: Id<"events"> | null
+): Promise<{ refundedCash: number; returnedQty: number }> {
+  await ctx.db.patch(order._id, {
+    status,
+    escrowCash: 0,
+    closedTick: tick,
+  });
+
+  const owner = await ctx.db.get(order.agentId);
+  if (!owner) {
+    return { refundedCash: 0, returnedQty: 0 };
+  }
+
+  if (order.side === "buy") {
+    if (order.escrowCash <= 0) {
+      return { refundedCash: 0, returnedQty: 0 };
+    }
+
+    const newCash = owner.cash + order.escrowCash;
+    await ctx.db.patch(owner._id, { cash: newCash });
+    await ctx.db.insert("ledger", {
+      tick,
+      agentId: owner._id,
+      type: "credit",
+      amount: order.escrowCash,
+      reason: "ORDER_REFUND",
+      balance: newCash,
+      refEventId,
+    });
+    return { refundedCash: order.escrowCash, returnedQty: 0 };
+  }
+
+  if (order.remainingQty <= 0) {
+    return { refundedCash: 0, returnedQty: 0 };
+  }
+
+  await ctx.db.patch(owner._id, {
+    inventory: addInventoryQty(owner.inventory, order.itemId, order.remainingQty),
+  });
+  return { refundedCash: 0, returnedQty: order.remainingQty };
+}
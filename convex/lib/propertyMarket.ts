@@ -0,0 +1,194 @@
+/**
+ * Property Market Utilities for ClawCity
+ * Zone-driven property values, listing escrow and ownership transfers
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { PROPERTY_MARKET_DEFAULTS } from "./constants";
+
+export type ZoneHeatTotals = {
+  total: number;
+  count: number;
+  max: number;
+  agentIds: string[];
+};
+
+/**
+ * Heat totals per zone (keyed by zone id), ignoring banned agents
+ * Shared by the map heat overlay and property revaluation.
+ */
+export async function getZoneHeatTotals(
+  ctx: QueryCtx,
+  zones: Doc<"zones">[]
+): Promise<Record<string, ZoneHeatTotals>> {
+  const allAgents = await ctx.db.query("agents").take(1000); // Limit for performance
+  const agents = allAgents.filter((a) => !a.bannedAt);
+
+  const heatByZone: Record<string, ZoneHeatTotals> = {};
+  for (const zone of zones) {
+    heatByZone[zone._id.toString()] = {
+      total: 0,
+      count: 0,
+      max: 0,
+      agentIds: [],
+    };
+  }
+
+  for (const agent of agents) {
+    const zoneId = agent.locationZoneId.toString();
+    if (heatByZone[zoneId]) {
+      heatByZone[zoneId].total += agent.heat;
+      heatByZone[zoneId].count++;
+      heatByZone[zoneId].max = Math.max(heatByZone[zoneId].max, agent.heat);
+      heatByZone[zoneId].agentIds.push(agent._id.toString());
+    }
+  }
+
+  return heatByZone;
+}
+
+/**
+ * What a property is worth right now (its list price until first revalued)
+ */
+export function getPropertyValue(property: Doc<"properties">): number {
+  return property.marketValue ?? property.buyPrice;
+}
+
+/**
+ * The value a property is drifting toward given its zone's heat and crowd
+ */
+export function getTargetPropertyValue(
+  property: Doc<"properties">,
+  zoneHeat: ZoneHeatTotals | undefined
+): number {
+  const count = zoneHeat?.count ?? 0;
+  const avgHeat = count > 0 ? zoneHeat!.total / count : 0;
+
+  const heatEffect = (PROPERTY_MARKET_DEFAULTS.neutralHeat - avgHeat) * PROPERTY_MARKET_DEFAULTS.heatSensitivity;
+  const demandEffect = Math.min(PROPERTY_MARKET_DEFAULTS.maxDemandBonus, count * PROPERTY_MARKET_DEFAULTS.demandPerAgent);
+  const multiplier = Math.min(
+    PROPERTY_MARKET_DEFAULTS.maxValueMultiplier,
+    Math.max(PROPERTY_MARKET_DEFAULTS.minValueMultiplier, 1 + heatEffect + demandEffect)
+  );
+
+  return Math.round(property.buyPrice * multiplier);
+}
+
+/**
+ * Smallest bid an auction will accept next
+ */
+export function getMinimumBid(listing: Doc<"propertyListings">): number {
+  if (!listing.highestBid) {
+    return listing.price;
+  }
+  return Math.ceil(listing.highestBid * (1 + PROPERTY_MARKET_DEFAULTS.minBidIncrement));
+}
+
+/**
+ * A property's open listing, if it has one
+ */
+export async function getOpenListing(
+  ctx: QueryCtx,
+  propertyId: Id<"properties">
+): Promise<Doc<"propertyListings"> | null> {
+  return await ctx.db
+    .query("propertyListings")
+    .withIndex("by_propertyId_status", (q) => q.eq("propertyId", propertyId).eq("status", "open"))
+    .first();
+}
+
+/**
+ * Hand the escrowed highest bid back to its bidder
+ * @returns The amount refunded (0 if there was no bid or the bidder is gone)
+ */
+export async function refundHighestBid(
+  ctx: MutationCtx,
+  listing: Doc<"propertyListings">,
+  tick: number,
+  refEventId: Id<"events"> | null
+): Promise<number> {
+  if (!listing.highestBidderId || !listing.highestBid) {
+    return 0;
+  }
+
+  const bidder = await ctx.db.get(listing.highestBidderId);
+  if (!bidder) {
+    return 0;
+  }
+
+  const newCash = bidder.cash + listing.highestBid;
+  await ctx.db.patch(bidder._id, { cash: newCash });
+  await ctx.db.insert("ledger", {
+    tick,
+    agentId: bidder._id,
+    type: "credit",
+    amount: listing.highestBid,
+    reason: "PROPERTY_BID_REFUND",
+    balance: newCash,
+    refEventId,
+  });
+  return listing.highestBid;
+}
+
+/**
+ * Close an open listing without a sale and refund any escrowed bid
+ * @returns The amount refunded to the highest bidder
+ */
+export async function closeListingWithRefund(
+  ctx: MutationCtx,
+  listing: Doc<"propertyListings">,
+  status: "cancelled" | "expired",
+  tick: number,
+  refEventId: Id<"events"> | null
+): Promise<number> {
+  await ctx.db.patch(listing._id, { status, closedTick: tick });
+  return await refundHighestBid(ctx, listing, tick, refEventId);
+}
+
+/**
+ * Move everyone out of a property, clearing it as their home
+ */
+export async function evictAllResidents(
+  ctx: MutationCtx,
+  property: Doc<"properties">
+): Promise<void> {
+  const residents = await ctx.db
+    .query("propertyResidents")
+    .withIndex("by_propertyId", (q) => q.eq("propertyId", property._id))
+    .collect();
+
+  for (const resident of residents) {
+    await ctx.db.delete(resident._id);
+    const residentAgent = await ctx.db.get(resident.agentId);
+    if (residentAgent && residentAgent.homePropertyId === property._id) {
+      await ctx.db.patch(residentAgent._id, { homePropertyId: undefined });
+    }
+  }
+}
+
+/**
+ * Hand a property to a new owner
+ * Everyone living there moves out (the new owner moves in, and it becomes
+ * their home if they have none). Cash is settled by the caller.
+ */
+export async function transferPropertyOwnership(
+  ctx: MutationCtx,
+  property: Doc<"properties">,
+  buyer: Doc<"agents">
+): Promise<void> {
+  await evictAllResidents(ctx, property);
+
+  await ctx.db.patch(property._id, { ownerId: buyer._id });
+  await ctx.db.insert("propertyResidents", {
+    propertyId: property._id,
+    agentId: buyer._id,
+    isOwner: true,
+    moveInAt: Date.now(),
+  });
+
+  const freshBuyer = await ctx.db.get(buyer._id);
+  if (freshBuyer && !freshBuyer.homePropertyId) {
+    await ctx.db.patch(buyer._id, { homePropertyId: property._id });
+  }
+}
@@ -2,6 +2,8 @@
  * Deterministic RNG utilities for ClawCity
  * Uses xorshift128+ algorithm for high-quality pseudorandom number generation
  * Same seed + tick combination will always produce the same sequence
+ * All gameplay randomness should come from here so a world can be replayed
+ * from its seed plus the ordered action log
  */
 
 /**
@@ -105,17 +107,22 @@ export interface TickRng {
  *
  * @param worldSeed - The world's unique seed string
  * @param tick - The current game tick number
+ * @param stream - Optional stream name for independent sequences within a tick
+ *                 (e.g. one per registered agent), so draws don't repeat
  * @returns An RNG object with helper methods
  */
-export function createTickRng(worldSeed: string, tick: number): TickRng {
+export function createTickRng(worldSeed: string, tick: number, stream?: string): TickRng {
+  // Streams are folded into the seed; no stream keeps the original sequence
+  const seedKey = stream ? `${worldSeed}:${stream}` : worldSeed;
+
   // Create a combined seed that incorporates both the world seed and tick
   // We hash them separately and combine to ensure good distribution
-  const worldHash = hashString(worldSeed);
+  const worldHash = hashString(seedKey);
   const tickHash = hashString(`tick:${tick}`);
 
   // Additional mixing to ensure different ticks produce very different sequences
-  const combinedHash1 = hashString(`${worldSeed}:${tick}:a`);
-  const combinedHash2 = hashString(`${worldSeed}:${tick}:b`);
+  const combinedHash1 = hashString(`${seedKey}:${tick}:a`);
+  const combinedHash2 = hashString(`${seedKey}:${tick}:b`);
 
   // Mix all hashes together for the initial state
   const seed1 = (worldHash ^ tickHash ^ combinedHash1) >>> 0;
@@ -0,0 +1,178 @@
+/**
+ * Route Planning for ClawCity
+ * Cheapest multi-hop paths over zoneEdges (by time, cash or heat risk)
+ */
+
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { ROUTE_OPTIMIZE_MODES, RouteOptimizeMode } from "./constants";
+
+/**
+ * One leg of a planned route
+ */
+export interface RouteHop {
+  fromZoneId: Id<"zones">;
+  toZoneId: Id<"zones">;
+  ticks: number; // After vehicle speed bonus
+  cashCost: number;
+  heatRisk: number;
+}
+
+/**
+ * A planned route with totals
+ */
+export interface RoutePlan {
+  hops: RouteHop[];
+  totalTicks: number;
+  totalCash: number;
+  totalHeatRisk: number; // Chance of trouble on at least one leg
+}
+
+/**
+ * Check an optimize mode is supported
+ */
+export function isRouteOptimizeMode(mode: unknown): mode is RouteOptimizeMode {
+  return ROUTE_OPTIMIZE_MODES.includes(mode as RouteOptimizeMode);
+}
+
+/**
+ * Travel time for one edge after the vehicle speed bonus (never below 1 tick)
+ */
+export function getHopTicks(edge: Doc<"zoneEdges">, speedBonus: number): number {
+  return Math.max(1, Math.round(edge.timeCostTicks * (1 - speedBonus)));
+}
+
+/**
+ * Speed bonus from the agent's current vehicle, or the fastest vehicle their
+ * gang owns if that is better (0 without either)
+ */
+export async function getAgentSpeedBonus(
+  ctx: QueryCtx,
+  agent: Doc<"agents">
+): Promise<number> {
+  let bonus = 0;
+
+  if (agent.vehicleId) {
+    const vehicle = await ctx.db.get(agent.vehicleId);
+    if (vehicle && vehicle.ownerId === agent._id) {
+      bonus = vehicle.speedBonus;
+    }
+  }
+
+  if (agent.gangId) {
+    const gangVehicles = await ctx.db
+      .query("vehicles")
+      .withIndex("by_ownerGangId", (q) => q.eq("ownerGangId", agent.gangId))
+      .collect();
+    for (const vehicle of gangVehicles) {
+      bonus = Math.max(bonus, vehicle.speedBonus);
+    }
+  }
+
+  return Math.min(Math.max(bonus, 0), 0.9);
+}
+
+/**
+ * Cost of an edge under an optimize mode
+ * Heat risk is a per-leg probability, so legs combine via -log(1 - p);
+ * a tiny time term breaks ties between equally risky paths
+ */
+function getEdgeWeight(
+  edge: Doc<"zoneEdges">,
+  ticks: number,
+  optimize: RouteOptimizeMode
+): number {
+  switch (optimize) {
+    case "cash":
+      return edge.cashCost + ticks * 1e-6;
+    case "heat":
+      return -Math.log(1 - Math.min(edge.heatRisk, 0.99)) + ticks * 1e-6;
+    case "time":
+    default:
+      return ticks + edge.cashCost * 1e-6;
+  }
+}
+
+/**
+ * Find the cheapest route between two zones (Dijkstra - the zone graph is tiny)
+ * Returns null when the destination is unreachable
+ */
+export function findRoute(
+  edges: Doc<"zoneEdges">[],
+  fromZoneId: Id<"zones">,
+  toZoneId: Id<"zones">,
+  optimize: RouteOptimizeMode,
+  speedBonus: number
+): RoutePlan | null {
+  const edgesByFrom = new Map<string, Doc<"zoneEdges">[]>();
+  for (const edge of edges) {
+    const list = edgesByFrom.get(edge.fromZoneId) ?? [];
+    list.push(edge);
+    edgesByFrom.set(edge.fromZoneId, list);
+  }
+
+  const dist = new Map<string, number>([[fromZoneId, 0]]);
+  const via = new Map<string, Doc<"zoneEdges">>();
+  const visited = new Set<string>();
+
+  while (true) {
+    // Closest unvisited zone
+    let current: string | null = null;
+    for (const [zoneId, d] of dist) {
+      if (!visited.has(zoneId) && (current === null || d < dist.get(current)!)) {
+        current = zoneId;
+      }
+    }
+    if (current === null || current === toZoneId) break;
+    visited.add(current);
+
+    for (const edge of edgesByFrom.get(current) ?? []) {
+      const weight = getEdgeWeight(edge, getHopTicks(edge, speedBonus), optimize);
+      const candidate = dist.get(current)! + weight;
+      if (candidate < (dist.get(edge.toZoneId) ?? Infinity)) {
+        dist.set(edge.toZoneId, candidate);
+        via.set(edge.toZoneId, edge);
+      }
+    }
+  }
+
+  if (fromZoneId === toZoneId || !via.has(toZoneId)) {
+    return null;
+  }
+
+  // Walk back from the destination
+  const hops: RouteHop[] = [];
+  let zoneId: string = toZoneId;
+  while (zoneId !== fromZoneId) {
+    const edge = via.get(zoneId)!;
+    hops.unshift({
+      fromZoneId: edge.fromZoneId,
+      toZoneId: edge.toZoneId,
+      ticks: getHopTicks(edge, speedBonus),
+      cashCost: edge.cashCost,
+      heatRisk: edge.heatRisk,
+    });
+    zoneId = edge.fromZoneId;
+  }
+
+  return {
+    hops,
+    totalTicks: hops.reduce((sum, h) => sum + h.ticks, 0),
+    totalCash: hops.reduce((sum, h) => sum + h.cashCost, 0),
+    totalHeatRisk: 1 - hops.reduce((p, h) => p * (1 - h.heatRisk), 1),
+  };
+}
+
+/**
+ * Plan a route for an agent from their current zone, applying their vehicle bonus
+ */
+export async function planAgentRoute(
+  ctx: QueryCtx,
+  agent: Doc<"agents">,
+  toZoneId: Id<"zones">,
+  optimize: RouteOptimizeMode
+): Promise<RoutePlan | null> {
+  const edges = await ctx.db.query("zoneEdges").collect();
+  const speedBonus = await getAgentSpeedBonus(ctx, agent);
+  return findRoute(edges, agent.locationZoneId, toZoneId, optimize, speedBonus);
+}
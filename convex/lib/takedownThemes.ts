@@ -3,6 +3,8 @@
  * Themed messages and headlines for agent bans and gang raids
  */
 
+import { TickRng } from "./rng";
+
 export const AGENCIES = {
   FBI: {
     name: "FBI",
@@ -54,9 +56,9 @@ export type Agency = (typeof AGENCIES)[AgencyKey];
 /**
  * Get a random agency for a takedown
  */
-export function getRandomAgency(): AgencyKey {
+export function getRandomAgency(rng: TickRng): AgencyKey {
   const keys = Object.keys(AGENCIES) as AgencyKey[];
-  return keys[Math.floor(Math.random() * keys.length)];
+  return rng.randomChoice(keys);
 }
 
 /**
@@ -92,10 +94,11 @@ const GANG_HEADLINES = [
  */
 export function generateAgentTakedownHeadline(
   agentName: string,
-  agencyKey: AgencyKey
+  agencyKey: AgencyKey,
+  rng: TickRng
 ): string {
   const agency = AGENCIES[agencyKey];
-  const template = AGENT_HEADLINES[Math.floor(Math.random() * AGENT_HEADLINES.length)];
+  const template = rng.randomChoice(AGENT_HEADLINES);
 
   return template
     .replace("{agency}", agency.name)
@@ -109,10 +112,11 @@ export function generateAgentTakedownHeadline(
  */
 export function generateGangRaidHeadline(
   gangName: string,
-  agencyKey: AgencyKey
+  agencyKey: AgencyKey,
+  rng: TickRng
 ): string {
   const agency = AGENCIES[agencyKey];
-  const template = GANG_HEADLINES[Math.floor(Math.random() * GANG_HEADLINES.length)];
+  const template = rng.randomChoice(GANG_HEADLINES);
 
   return template
     .replace("{agency}", agency.name)
@@ -6,10 +6,16 @@
 import { QueryCtx } from "../_generated/server";
 import { Doc } from "../_generated/dataModel";
 import { TAX_DEFAULTS } from "./constants";
+import { getPropertyValue } from "./propertyMarket";
+import { getAgentLoanBalances } from "./loans";
 
 /**
  * Calculate an agent's total wealth
- * Sum of: cash + inventory value + property value + business value
+ * Sum of: cash + inventory value + property market value + business value
+ * + anything escrowed in open market orders or as the top bid in a property auction
+ * + loans made to other agents - outstanding loan balances
+ * Gang-owned assets belong to the gang, not its members, and are left out
+ * (see calculateGangAssetValue).
  */
 export async function calculateAgentWealth(
   ctx: QueryCtx,
@@ -29,7 +35,7 @@ export async function calculateAgentWealth(
   if (agent.homePropertyId) {
     const property = await ctx.db.get(agent.homePropertyId);
     if (property && property.ownerId === agent._id) {
-      totalWealth += property.buyPrice;
+      totalWealth += getPropertyValue(property);
     }
   }
 
@@ -42,7 +48,7 @@ export async function calculateAgentWealth(
   for (const property of ownedProperties) {
     // Don't double-count homePropertyId
     if (property._id !== agent.homePropertyId) {
-      totalWealth += property.buyPrice;
+      totalWealth += getPropertyValue(property);
     }
   }
 
@@ -62,6 +68,37 @@ export async function calculateAgentWealth(
     }
   }
 
+  // Add cash and items escrowed in open market orders
+  const openOrders = await ctx.db
+    .query("marketOrders")
+    .withIndex("by_agentId_status", (q) => q.eq("agentId", agent._id).eq("status", "open"))
+    .collect();
+
+  for (const order of openOrders) {
+    if (order.side === "buy") {
+      totalWealth += order.escrowCash;
+    } else {
+      const item = await ctx.db.get(order.itemId);
+      if (item) {
+        totalWealth += item.basePrice * order.remainingQty;
+      }
+    }
+  }
+
+  // Add cash escrowed as the top bid on property auctions
+  const leadingBids = await ctx.db
+    .query("propertyListings")
+    .withIndex("by_highestBidderId_status", (q) => q.eq("highestBidderId", agent._id).eq("status", "open"))
+    .collect();
+
+  for (const listing of leadingBids) {
+    totalWealth += listing.highestBid ?? 0;
+  }
+
+  // Net out loans: what the agent owes, and what other agents owe them
+  const { owed, receivable } = await getAgentLoanBalances(ctx, agent._id);
+  totalWealth += receivable - owed;
+
   return totalWealth;
 }
 
@@ -119,3 +156,17 @@ export function getMarginalTaxRate(wealth: number): number {
 
   return brackets[0].rate;
 }
+
+/**
+ * Tax on an order book sale
+ * The gain over the item's base price is taxed at the seller's marginal rate
+ */
+export function calculateTradeTax(
+  sellerWealth: number,
+  unitPrice: number,
+  basePrice: number,
+  qty: number
+): number {
+  const gain = Math.max(0, unitPrice - basePrice) * qty;
+  return Math.floor(gain * getMarginalTaxRate(sellerWealth));
+}
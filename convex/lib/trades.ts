@@ -0,0 +1,159 @@
+/**
+ * Trade Utilities for ClawCity
+ * Checking and swapping the bundles in agent-to-agent trade offers
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { addInventoryQty } from "./orderBook";
+import { getOpenListing, transferPropertyOwnership } from "./propertyMarket";
+import { getPledgingLoan } from "./loans";
+
+/**
+ * One side of a trade - what a single agent hands over
+ */
+export type TradeBundle = Doc<"tradeOffers">["offer"];
+
+/**
+ * Items, properties and vehicles in a bundle (cash doesn't count)
+ */
+export function countBundleAssets(bundle: TradeBundle): number {
+  return bundle.items.length + bundle.propertyIds.length + bundle.vehicleIds.length;
+}
+
+/**
+ * Whether a bundle hands over nothing at all
+ */
+export function isEmptyBundle(bundle: TradeBundle): boolean {
+  return bundle.cash === 0 && countBundleAssets(bundle) === 0;
+}
+
+/**
+ * Why an agent can't hand over a bundle right now, or null if they can
+ * Cash and items must be on hand; properties and vehicles must be the agent's
+ * own, not listed for sale and not pledged on a loan.
+ */
+export async function getBundleProblem(
+  ctx: QueryCtx,
+  agent: Doc<"agents">,
+  bundle: TradeBundle
+): Promise<string | null> {
+  if (agent.cash < bundle.cash) {
+    return `${agent.name} doesn't have $${bundle.cash}`;
+  }
+
+  for (const { itemId, qty } of bundle.items) {
+    const held = agent.inventory.find((inv) => inv.itemId === itemId)?.qty ?? 0;
+    if (held < qty) {
+      const item = await ctx.db.get(itemId);
+      return `${agent.name} doesn't have ${qty}x ${item?.name ?? "that item"}`;
+    }
+  }
+
+  for (const propertyId of bundle.propertyIds) {
+    const property = await ctx.db.get(propertyId);
+    if (!property || property.ownerId !== agent._id) {
+      return `${agent.name} doesn't own ${property?.name ?? "that property"}`;
+    }
+    if (await getOpenListing(ctx, property._id)) {
+      return `${property.name} is listed for sale`;
+    }
+    if (await getPledgingLoan(ctx, { propertyId: property._id })) {
+      return `${property.name} is pledged as loan collateral`;
+    }
+  }
+
+  for (const vehicleId of bundle.vehicleIds) {
+    const vehicle = await ctx.db.get(vehicleId);
+    if (!vehicle || vehicle.ownerId !== agent._id) {
+      return `${agent.name} doesn't own ${vehicle?.name ?? "that vehicle"}`;
+    }
+    if (await getPledgingLoan(ctx, { vehicleId: vehicle._id })) {
+      return `${vehicle.name} is pledged as loan collateral`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hand a bundle from one agent to another
+ * Check it first with getBundleProblem. Properties change hands like a sale
+ * (residents move out), and a vehicle becomes the receiver's ride if they
+ * have none.
+ */
+export async function transferBundle(
+  ctx: MutationCtx,
+  fromId: Id<"agents">,
+  toId: Id<"agents">,
+  bundle: TradeBundle,
+  tick: number,
+  refEventId: Id<"events"> | null
+): Promise<void> {
+  const from = await ctx.db.get(fromId);
+  const to = await ctx.db.get(toId);
+  if (!from || !to) {
+    return;
+  }
+
+  // Cash and items
+  let fromInventory = [...from.inventory];
+  let toInventory = [...to.inventory];
+  for (const { itemId, qty } of bundle.items) {
+    fromInventory = fromInventory
+      .map((inv) => (inv.itemId === itemId ? { ...inv, qty: inv.qty - qty } : inv))
+      .filter((inv) => inv.qty > 0);
+    toInventory = addInventoryQty(toInventory, itemId, qty);
+  }
+
+  const fromCash = from.cash - bundle.cash;
+  const toCash = to.cash + bundle.cash;
+  await ctx.db.patch(from._id, { cash: fromCash, inventory: fromInventory });
+  await ctx.db.patch(to._id, { cash: toCash, inventory: toInventory });
+
+  if (bundle.cash > 0) {
+    await ctx.db.insert("ledger", {
+      tick,
+      agentId: from._id,
+      type: "debit",
+      amount: bundle.cash,
+      reason: "TRADE_PAYMENT",
+      balance: fromCash,
+      refEventId,
+    });
+    await ctx.db.insert("ledger", {
+      tick,
+      agentId: to._id,
+      type: "credit",
+      amount: bundle.cash,
+      reason: "TRADE_PAYMENT_RECEIVED",
+      balance: toCash,
+      refEventId,
+    });
+  }
+
+  // Properties
+  for (const propertyId of bundle.propertyIds) {
+    const property = await ctx.db.get(propertyId);
+    if (property) {
+      await transferPropertyOwnership(ctx, property, to);
+    }
+  }
+
+  // Vehicles
+  if (bundle.vehicleIds.length > 0) {
+    for (const vehicleId of bundle.vehicleIds) {
+      await ctx.db.patch(vehicleId, { ownerId: to._id });
+    }
+
+    const freshFrom = await ctx.db.get(from._id);
+    if (freshFrom?.vehicleId && bundle.vehicleIds.includes(freshFrom.vehicleId)) {
+      await ctx.db.patch(from._id, { vehicleId: undefined });
+    }
+
+    const freshTo = await ctx.db.get(to._id);
+    if (freshTo && !freshTo.vehicleId) {
+      await ctx.db.patch(to._id, { vehicleId: bundle.vehicleIds[0] });
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Skill Training Utilities for ClawCity
+ * Training facilities, diminishing returns and practice tracking for skill decay
+ */
+
+import { Doc } from "../_generated/dataModel";
+import {
+  SkillType,
+  TRAINING_DEFAULTS,
+  TRAINING_FACILITIES,
+  TRAINING_FACILITY_SLUGS,
+  TrainingFacility,
+} from "./constants";
+
+/**
+ * Skill levels are kept to two decimal places
+ */
+export function roundSkill(level: number): number {
+  return Math.round(level * 100) / 100;
+}
+
+/**
+ * Skill gained by one training session, shrinking as the level climbs
+ */
+export function getTrainingGain(level: number): number {
+  const gain = TRAINING_DEFAULTS.baseGain / (1 + TRAINING_DEFAULTS.diminishingRate * Math.max(0, level - 1));
+  return roundSkill(Math.min(gain, TRAINING_DEFAULTS.maxSkillLevel - level));
+}
+
+/**
+ * The facility that teaches a skill
+ */
+export function getTrainingFacility(skill: SkillType): TrainingFacility {
+  return TRAINING_FACILITY_SLUGS.find((slug) => TRAINING_FACILITIES[slug].skills.includes(skill))!;
+}
+
+/**
+ * Practice record with the given skills stamped at this tick - patch it onto
+ * the agent whenever a skill is trained or used so it doesn't decay
+ */
+export function practiceSkills(
+  agent: Doc<"agents">,
+  skills: SkillType[],
+  tick: number
+): NonNullable<Doc<"agents">["skillsLastPracticedTick"]> {
+  const practiced = { ...agent.skillsLastPracticedTick };
+  for (const skill of skills) {
+    practiced[skill] = tick;
+  }
+  return practiced;
+}
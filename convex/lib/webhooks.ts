@@ -0,0 +1,151 @@
+/**
+ * Webhook Utilities for ClawCity
+ * URL validation and HMAC signing for push delivery of agent events
+ */
+
+import { WEBHOOK_DEFAULTS } from "./constants";
+
+/**
+ * Whether an IPv4 address is loopback, private, link-local or otherwise not
+ * publicly routable (this covers cloud metadata at 169.254.169.254)
+ */
+function isPrivateIPv4(address: string): boolean {
+  const parts = address.split(".").map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) {
+    return false;
+  }
+
+  const [a, b] = parts;
+  return (
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && parts[2] === 0) || // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+}
+
+/**
+ * Whether an IPv6 address is loopback, unspecified, unique-local, link-local,
+ * or an IPv4-mapped address in a private range
+ */
+function isPrivateIPv6(address: string): boolean {
+  if (address === "::" || address === "::1") {
+    return true;
+  }
+  if (/^f[cd]/.test(address) || /^fe[89ab]/.test(address)) {
+    return true;
+  }
+
+  // DNS writes IPv4-mapped addresses dotted, URL parsing in hex: ::ffff:7f00:1
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return isPrivateIPv4(dotted[1]);
+  }
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return false;
+}
+
+/**
+ * Whether a resolved IPv4 or IPv6 address is not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const lower = address.toLowerCase();
+  return lower.includes(":") ? isPrivateIPv6(lower) : isPrivateIPv4(lower);
+}
+
+/**
+ * Whether a URL host points at this machine, a private network or a cloud
+ * metadata service rather than the public internet
+ * Only judges the host as written: a public name can still resolve to a
+ * private address, which delivery checks when it connects.
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (host.startsWith("[") && host.endsWith("]")) {
+    return isPrivateIPv6(host.slice(1, -1));
+  }
+
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal") || // e.g. metadata.google.internal
+    !host.includes(".") || // Bare intranet names
+    isPrivateIPv4(host)
+  );
+}
+
+/**
+ * Check that a callback URL is an absolute https URL on a public host
+ * Plain http is allowed only when WEBHOOK_ALLOW_HTTP is "true" (for dev).
+ * This is a literal-host check - it doesn't resolve DNS. postWebhook rejects
+ * hosts that resolve to private addresses on every connection.
+ */
+export function isValidWebhookUrl(url: unknown): url is string {
+  if (typeof url !== "string" || url.length > WEBHOOK_DEFAULTS.maxUrlLength) {
+    return false;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const allowHttp = process.env.WEBHOOK_ALLOW_HTTP === "true";
+  if (parsed.protocol !== "https:" && !(allowHttp && parsed.protocol === "http:")) {
+    return false;
+  }
+  return !isPrivateHost(parsed.hostname);
+}
+
+/**
+ * Sign a delivery body with the webhook secret.
+ * The signed message is `${timestamp}.${body}` so a captured request can't be
+ * replayed with a fresh timestamp. Returns "sha256=<hex>".
+ * @param secret - The webhook signing secret
+ * @param timestamp - Unix ms timestamp sent in the timestamp header
+ * @param body - The raw JSON request body
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`)
+  );
+  const hex = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${hex}`;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed deliveries
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return WEBHOOK_DEFAULTS.retryBaseDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+}
@@ -0,0 +1,64 @@
+/**
+ * World Event Utilities for ClawCity
+ * Looks up active random events and the modifiers they apply to a zone
+ */
+
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { WORLD_EVENT_DEFAULTS } from "./constants";
+
+/**
+ * Combined effect of all active events on a zone
+ */
+export interface WorldEventModifiers {
+  priceMultiplier: number;
+  arrestChanceMultiplier: number;
+  crimeSuccessPenalty: number;
+  jobsSuspended: boolean;
+  footTrafficMultiplier: number;
+  wageMultiplier: number;
+}
+
+/**
+ * Get all active world events affecting a zone (zone-scoped or citywide)
+ */
+export async function getActiveWorldEvents(
+  ctx: QueryCtx,
+  zoneId: Id<"zones">
+): Promise<Doc<"worldEvents">[]> {
+  const activeEvents = await ctx.db
+    .query("worldEvents")
+    .withIndex("by_status", (q) => q.eq("status", "active"))
+    .collect();
+
+  return activeEvents.filter((e) => e.zoneId === null || e.zoneId === zoneId);
+}
+
+/**
+ * Fold a list of active events into the modifiers they apply
+ * Overlapping events of the same type do not stack
+ */
+export function getWorldEventModifiers(
+  events: Doc<"worldEvents">[]
+): WorldEventModifiers {
+  const types = new Set(events.map((e) => e.type));
+
+  return {
+    priceMultiplier: types.has("MARKET_CRASH")
+      ? WORLD_EVENT_DEFAULTS.marketCrashPriceMultiplier
+      : 1,
+    arrestChanceMultiplier: types.has("POLICE_CRACKDOWN")
+      ? WORLD_EVENT_DEFAULTS.crackdownArrestMultiplier
+      : 1,
+    crimeSuccessPenalty: types.has("POLICE_CRACKDOWN")
+      ? WORLD_EVENT_DEFAULTS.crackdownCrimeSuccessPenalty
+      : 0,
+    jobsSuspended: types.has("JOB_DROUGHT"),
+    footTrafficMultiplier:
+      (types.has("POLICE_CRACKDOWN") ? WORLD_EVENT_DEFAULTS.crackdownFootTrafficMultiplier : 1) *
+      (types.has("JOB_DROUGHT") ? WORLD_EVENT_DEFAULTS.jobDroughtFootTrafficMultiplier : 1),
+    wageMultiplier:
+      (types.has("MARKET_CRASH") ? WORLD_EVENT_DEFAULTS.marketCrashWageMultiplier : 1) *
+      (types.has("POLICE_CRACKDOWN") ? WORLD_EVENT_DEFAULTS.crackdownWageMultiplier : 1),
+  };
+}
@@ -5,6 +5,7 @@
 
 import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { getZoneHeatTotals } from "./lib/propertyMarket";
 
 // Visual event types that should appear as pings on the map
 const VISUAL_EVENT_TYPES = [
@@ -212,43 +213,10 @@ export const getRecentMapEvents = query({
 export const getZoneHeatStats = query({
   args: {},
   handler: async (ctx) => {
-    const [zones, allAgents] = await Promise.all([
-      ctx.db.query("zones").collect(),
-      ctx.db.query("agents").take(1000), // Limit for performance
-    ]);
-
-    // Filter out banned agents
-    const agents = allAgents.filter((a) => !a.bannedAt);
+    const zones = await ctx.db.query("zones").collect();
 
     // Calculate heat per zone
-    const heatByZone: Record<
-      string,
-      {
-        total: number;
-        count: number;
-        max: number;
-        agentIds: string[];
-      }
-    > = {};
-
-    for (const zone of zones) {
-      heatByZone[zone._id.toString()] = {
-        total: 0,
-        count: 0,
-        max: 0,
-        agentIds: [],
-      };
-    }
-
-    for (const agent of agents) {
-      const zoneId = agent.locationZoneId.toString();
-      if (heatByZone[zoneId]) {
-        heatByZone[zoneId].total += agent.heat;
-        heatByZone[zoneId].count++;
-        heatByZone[zoneId].max = Math.max(heatByZone[zoneId].max, agent.heat);
-        heatByZone[zoneId].agentIds.push(agent._id.toString());
-      }
-    }
+    const heatByZone = await getZoneHeatTotals(ctx, zones);
 
     // Format result with zone info
     return zones.map((zone) => {
@@ -0,0 +1,1126 @@
+/**
+ * World Replay & Fork for ClawCity
+ * Rebuilds a world at any tick from its seed plus the ordered action log.
+ *
+ * Usage (admin, via the Convex CLI or dashboard):
+ * - exportReplayLog({ untilTick }) - write seed, agents and actions to file storage as JSON
+ * - replayWorld({ logStorageId, untilTick }) - wipe this deployment and rebuild the logged world up to untilTick
+ * - forkWorld({ atTick }) - export this world, then rebuild it in place at atTick
+ *   (returns the stored full log so the original timeline can be replayed or forked again)
+ * - getReplayRun({ runId }) - progress of a rebuild
+ *
+ * Logs are read a page at a time and passed around by storage id, so their
+ * size isn't bound by query or argument limits.
+ *
+ * A rebuild runs in the background: replayWorld and forkWorld split the log
+ * into one stored chunk per step, start a replay run and return its id. The
+ * run wipes the world, then replays a batch of ticks per scheduled step,
+ * loading only that step's chunk and saving its cursor after every tick.
+ *
+ * Registered webhooks are kept and follow their agent to its rebuilt id. They
+ * don't receive replayed events - delivery picks up from the end of the rebuild.
+ *
+ * The rebuilt world is left paused at untilTick. Resume it to let agents try
+ * different policies from the same starting point.
+ *
+ * Ids in action args are mapped by creation order: every insert into a table
+ * agents reference by id goes through insertTracked, which records it in the
+ * id log, so the Nth document created in the original maps to the Nth created
+ * in the rebuild even if it has since been deleted. Agents map by key hash.
+ * Replay stops with an error at the first id it can't map.
+ *
+ * Limitations: logic keyed on wall-clock time (coop timeouts) can drift, and
+ * documents deleted before the id log existed can't be placed.
+ */
+
+import { internal } from "./_generated/api";
+import {
+  ActionCtx,
+  MutationCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id, TableNames } from "./_generated/dataModel";
+import schema from "./schema";
+import { runAgentAction } from "./actions";
+import { runTickHandler } from "./tickRunner";
+import { DEFAULTS, TAX_DEFAULTS } from "./lib/constants";
+import { createTickRng } from "./lib/rng";
+import { TRACKED_ID_TABLES, TrackedTable, getTrackedIdAt, insertTracked } from "./lib/idLog";
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Tables that survive a replay reset (sessions, rate limits and registered
+ * webhooks aren't world state, and replay doesn't re-create them)
+ */
+const KEEP_TABLES: TableNames[] = [
+  "dataPreviewSessions",
+  "rateLimits",
+  "webhooks",
+  "replayRuns",
+  "replayChunks",
+];
+
+const AGENT_PAGE_SIZE = 100;
+const ACTION_PAGE_SIZE = 200;
+const ID_PAGE_SIZE = 1000;
+const CLEAR_BATCH_SIZE = 200;
+const CLEAR_BATCHES_PER_STEP = 100;
+const REPLAY_TICKS_PER_STEP = 20;
+
+type ReplayAgent = {
+  agentId: string;
+  name: string;
+  agentKeyHash: string;
+  llmInfo?: Doc<"agents">["llmInfo"];
+  registeredTick: number;
+  startingCash: number | null;
+  startingZone: string | null;
+};
+
+type ReplayAction = {
+  agentId: string;
+  tick: number;
+  requestId: string;
+  action: string;
+  actionArgs?: unknown;
+  reflection: string;
+  mood?: string;
+  llmInfo?: Doc<"actionLog">["llmInfo"];
+  journaled: boolean; // Whether the original run wrote a journal
+};
+
+type ReplayWorld = {
+  seed: string;
+  tickMs: number;
+  config: Doc<"world">["config"];
+  currentTick: number;
+};
+
+type ReplayLog = Omit<ReplayWorld, "currentTick"> & {
+  version: 2;
+  untilTick: number;
+  agents: ReplayAgent[];
+  idIndex: Record<string, string[]>; // Original ids per tracked table, in creation order
+  actions: ReplayAction[];
+};
+
+/**
+ * The registrations, actions and ids one replay step needs
+ */
+type ReplayChunk = {
+  agents: ReplayAgent[];
+  actions: ReplayAction[];
+  idRefs: Record<string, IdRef>;
+};
+
+type AgentPage = { agents: ReplayAgent[]; isDone: boolean; continueCursor: string };
+type ActionPage = { actions: ReplayAction[]; isDone: boolean; continueCursor: string };
+type IdPage = { ids: string[]; isDone: boolean; continueCursor: string };
+
+/**
+ * Where an original id sits in the log: its table and creation index
+ */
+type IdRef = { table: TrackedTable; seq: number; agentKeyHash?: string };
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Seed, config and current tick of this world
+ */
+export const getReplayWorld = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<ReplayWorld | null> => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return null;
+    }
+    return {
+      seed: world.seed,
+      tickMs: world.tickMs,
+      config: world.config,
+      currentTick: world.tick,
+    };
+  },
+});
+
+/**
+ * One page of agent registrations
+ */
+export const getReplayAgentsPage = internalQuery({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args): Promise<AgentPage> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("agents")
+      .paginate({ numItems: AGENT_PAGE_SIZE, cursor: args.cursor });
+
+    const agents: ReplayAgent[] = [];
+    for (const agent of page) {
+      // Registration is the agent's first event (logged since replay support was added)
+      const firstEvent = await ctx.db
+        .query("events")
+        .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+        .first();
+      const registration = firstEvent?.type === "AGENT_REGISTERED" ? firstEvent : null;
+      const payload = registration?.payload as { startingCash?: number; startingZone?: string } | undefined;
+
+      // Older agents have no registration event - assume they joined before their first action
+      let registeredTick = registration?.tick;
+      if (registeredTick === undefined) {
+        const firstAction = await ctx.db
+          .query("actionLog")
+          .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+          .first();
+        const firstJournal = await ctx.db
+          .query("journals")
+          .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+          .first();
+        registeredTick = Math.min(firstAction?.tick ?? Infinity, firstJournal?.tick ?? Infinity);
+        if (!Number.isFinite(registeredTick)) {
+          registeredTick = 0;
+        }
+      }
+
+      agents.push({
+        agentId: agent._id,
+        name: agent.name,
+        agentKeyHash: agent.agentKeyHash,
+        llmInfo: agent.llmInfo,
+        registeredTick,
+        startingCash: payload?.startingCash ?? null,
+        startingZone: payload?.startingZone ?? null,
+      });
+    }
+
+    return { agents, isDone, continueCursor };
+  },
+});
+
+/**
+ * First id log row for a table - documents created before it aren't logged
+ */
+export const getIdLogStart = internalQuery({
+  args: { table: v.string() },
+  handler: async (ctx, args) => {
+    const first = await ctx.db
+      .query("idLog")
+      .withIndex("by_table", (q) => q.eq("table", args.table))
+      .first();
+    return first ? { entityId: first.entityId, creationTime: first._creationTime } : null;
+  },
+});
+
+/**
+ * One page of a table's ids in creation order
+ * With createdBefore, pages through the table's own documents created before
+ * that time (from before the id log existed); without, through the id log.
+ */
+export const getReplayIdsPage = internalQuery({
+  args: {
+    table: v.string(),
+    createdBefore: v.union(v.number(), v.null()),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<IdPage> => {
+    const paginationOpts = { numItems: ID_PAGE_SIZE, cursor: args.cursor };
+
+    if (args.createdBefore !== null) {
+      const createdBefore = args.createdBefore;
+      const { page, isDone, continueCursor } = await ctx.db
+        .query(args.table as TrackedTable)
+        .withIndex("by_creation_time", (q) => q.lt("_creationTime", createdBefore))
+        .paginate(paginationOpts);
+      return { ids: page.map((d) => d._id.toString()), isDone, continueCursor };
+    }
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("idLog")
+      .withIndex("by_table", (q) => q.eq("table", args.table))
+      .paginate(paginationOpts);
+    return { ids: page.map((row) => row.entityId), isDone, continueCursor };
+  },
+});
+
+/**
+ * One page of logged actions before untilTick, in execution order
+ * Worlds from before the action log existed fall back to journals
+ */
+export const getReplayActionsPage = internalQuery({
+  args: {
+    untilTick: v.number(),
+    cursor: v.union(v.string(), v.null()),
+    fromJournals: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<ActionPage> => {
+    if (args.fromJournals) {
+      const { page, isDone, continueCursor } = await ctx.db
+        .query("journals")
+        .withIndex("by_tick", (q) => q.lt("tick", args.untilTick))
+        .paginate({ numItems: ACTION_PAGE_SIZE, cursor: args.cursor });
+
+      return {
+        actions: page.map((j) => ({
+          agentId: j.agentId,
+          tick: j.tick,
+          requestId: j.requestId ?? `journal-${j._id}`,
+          action: j.action,
+          actionArgs: j.actionArgs,
+          reflection: j.reflection,
+          mood: j.mood,
+          llmInfo: j.llmInfo,
+          journaled: true,
+        })),
+        isDone,
+        continueCursor,
+      };
+    }
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("actionLog")
+      .withIndex("by_tick", (q) => q.lt("tick", args.untilTick))
+      .paginate({ numItems: ACTION_PAGE_SIZE, cursor: args.cursor });
+
+    const actions: ReplayAction[] = [];
+    for (const a of page) {
+      const journal = await ctx.db
+        .query("journals")
+        .withIndex("by_agentId_requestId", (q) => q.eq("agentId", a.agentId).eq("requestId", a.requestId))
+        .first();
+      actions.push({
+        agentId: a.agentId,
+        tick: a.tick,
+        requestId: a.requestId,
+        action: a.action,
+        actionArgs: a.actionArgs,
+        reflection: a.reflection,
+        mood: a.mood,
+        llmInfo: a.llmInfo,
+        journaled: journal !== null,
+      });
+    }
+
+    return { actions, isDone, continueCursor };
+  },
+});
+
+/**
+ * Whether this world has an action log to replay from
+ */
+export const hasActionLog = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    return (await ctx.db.query("actionLog").first()) !== null;
+  },
+});
+
+/**
+ * Read every page of a paginated query
+ */
+async function collectPages<T>(
+  fetchPage: (cursor: string | null) => Promise<{ isDone: boolean; continueCursor: string } & T>,
+  onPage: (page: T) => void
+): Promise<void> {
+  let cursor: string | null = null;
+  let isDone = false;
+  while (!isDone) {
+    const page = await fetchPage(cursor);
+    onPage(page);
+    cursor = page.continueCursor;
+    isDone = page.isDone;
+  }
+}
+
+async function buildReplayLog(
+  ctx: ActionCtx,
+  untilTick: number | undefined
+): Promise<ReplayLog> {
+  const world: ReplayWorld | null = await ctx.runQuery(internal.replay.getReplayWorld, {});
+  if (!world) {
+    throw new Error("World not initialized");
+  }
+
+  const until = Math.min(untilTick ?? world.currentTick, world.currentTick);
+
+  const agents: ReplayAgent[] = [];
+  await collectPages(
+    (cursor): Promise<AgentPage> => ctx.runQuery(internal.replay.getReplayAgentsPage, { cursor }),
+    (page) => agents.push(...page.agents)
+  );
+
+  // Ids in creation order, per table: documents from before the id log
+  // existed (only those still around), then every logged creation
+  const idIndex: Record<string, string[]> = {};
+  for (const table of TRACKED_ID_TABLES) {
+    const ids: string[] = [];
+    const logStart: { entityId: string; creationTime: number } | null = await ctx.runQuery(
+      internal.replay.getIdLogStart,
+      { table }
+    );
+    await collectPages(
+      (cursor): Promise<IdPage> =>
+        ctx.runQuery(internal.replay.getReplayIdsPage, {
+          table,
+          createdBefore: logStart?.creationTime ?? Number.MAX_SAFE_INTEGER,
+          cursor,
+        }),
+      // The first logged document is inserted just before its log row
+      (page) => ids.push(...page.ids.filter((id) => id !== logStart?.entityId))
+    );
+    if (logStart) {
+      await collectPages(
+        (cursor): Promise<IdPage> =>
+          ctx.runQuery(internal.replay.getReplayIdsPage, { table, createdBefore: null, cursor }),
+        (page) => ids.push(...page.ids)
+      );
+    }
+    idIndex[table] = ids;
+  }
+
+  const fromJournals = !(await ctx.runQuery(internal.replay.hasActionLog, {}));
+  const actions: ReplayAction[] = [];
+  await collectPages(
+    (cursor): Promise<ActionPage> =>
+      ctx.runQuery(internal.replay.getReplayActionsPage, { untilTick: until, cursor, fromJournals }),
+    (page) => actions.push(...page.actions)
+  );
+
+  return {
+    version: 2,
+    seed: world.seed,
+    tickMs: world.tickMs,
+    config: world.config,
+    untilTick: until,
+    agents,
+    idIndex,
+    actions,
+  };
+}
+
+/**
+ * Write a log to file storage
+ */
+async function storeReplayLog(ctx: ActionCtx, log: ReplayLog): Promise<Id<"_storage">> {
+  return ctx.storage.store(new Blob([JSON.stringify(log)], { type: "application/json" }));
+}
+
+/**
+ * Export everything needed to rebuild this world up to untilTick (default: now)
+ * The log goes to file storage; returns its storage id and a download URL.
+ */
+export const exportReplayLog = internalAction({
+  args: { untilTick: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const log = await buildReplayLog(ctx, args.untilTick);
+    const logStorageId = await storeReplayLog(ctx, log);
+    return {
+      logStorageId,
+      url: await ctx.storage.getUrl(logStorageId),
+      untilTick: log.untilTick,
+      agents: log.agents.length,
+      actions: log.actions.length,
+    };
+  },
+});
+
+// ============================================================================
+// REBUILD
+// ============================================================================
+
+/**
+ * Delete one batch from a table
+ */
+export const clearTableBatch = internalMutation({
+  args: { table: v.string() },
+  handler: async (ctx, args) => {
+    const docs = await ctx.db.query(args.table as TableNames).take(CLEAR_BATCH_SIZE);
+    for (const doc of docs) {
+      await ctx.db.delete(doc._id);
+    }
+    return { deleted: docs.length, isDone: docs.length < CLEAR_BATCH_SIZE };
+  },
+});
+
+/**
+ * Point the freshly seeded world at the logged seed and config
+ */
+export const prepareReplayWorld = internalMutation({
+  args: {
+    seed: v.string(),
+    tickMs: v.number(),
+    config: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      throw new Error("World not seeded");
+    }
+
+    await ctx.db.patch(world._id, {
+      seed: args.seed,
+      tickMs: args.tickMs,
+      config: args.config as Doc<"world">["config"],
+      tick: 0,
+      status: "paused",
+      lastTickAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Index every original id in a log by table and creation index
+ */
+function buildIdLookup(log: ReplayLog): Map<string, IdRef> {
+  const keyHashByAgentId = new Map(log.agents.map((a) => [a.agentId, a.agentKeyHash]));
+
+  const lookup = new Map<string, IdRef>();
+  for (const table of TRACKED_ID_TABLES) {
+    (log.idIndex[table] ?? []).forEach((id, seq) => {
+      lookup.set(id, { table, seq, agentKeyHash: keyHashByAgentId.get(id) });
+    });
+  }
+  return lookup;
+}
+
+/**
+ * The ids a tick's actions mention, so the mutation only gets what it needs
+ */
+function collectIdRefs(lookup: Map<string, IdRef>, actions: ReplayAction[]): Record<string, IdRef> {
+  const refs: Record<string, IdRef> = {};
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      const ref = lookup.get(value);
+      if (ref) refs[value] = ref;
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  for (const action of actions) {
+    visit(action.agentId);
+    visit(action.actionArgs);
+  }
+  return refs;
+}
+
+/**
+ * Find the rebuilt document created at the same index as an original id
+ * Strings that aren't ids pass through; ids that can't be placed throw.
+ */
+async function remapId(
+  ctx: MutationCtx,
+  idRefs: Record<string, IdRef>,
+  value: string
+): Promise<string> {
+  const ref = idRefs[value];
+  if (!ref) {
+    for (const table of TRACKED_ID_TABLES) {
+      if (ctx.db.normalizeId(table, value) !== null) {
+        throw new Error(`Cannot replay: ${table} id ${value} is not in the log's id index`);
+      }
+    }
+    return value;
+  }
+
+  if (ref.table === "agents") {
+    const agent = ref.agentKeyHash
+      ? await ctx.db
+          .query("agents")
+          .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", ref.agentKeyHash!))
+          .first()
+      : null;
+    if (!agent) {
+      throw new Error(`Cannot replay: agent ${value} was not rebuilt`);
+    }
+    return agent._id;
+  }
+
+  const entityId = await getTrackedIdAt(ctx, ref.table, ref.seq);
+  if (!entityId) {
+    throw new Error(`Cannot replay: ${ref.table} id ${value} (#${ref.seq}) was not rebuilt`);
+  }
+  return entityId;
+}
+
+async function remapArgs(
+  ctx: MutationCtx,
+  idRefs: Record<string, IdRef>,
+  value: unknown
+): Promise<unknown> {
+  if (typeof value === "string") {
+    return remapId(ctx, idRefs, value);
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((v) => remapArgs(ctx, idRefs, v)));
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      result[key] = await remapArgs(ctx, idRefs, v);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Register the agents that joined at this tick, then re-run the tick's actions
+ */
+export const applyReplayTick = internalMutation({
+  args: {
+    tick: v.number(),
+    agents: v.any(),
+    actions: v.any(),
+    idRefs: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      throw new Error("World not seeded");
+    }
+
+    const idRefs = args.idRefs as Record<string, IdRef>;
+    let registered = 0;
+    let applied = 0;
+    let failed = 0;
+
+    // 1. Recreate agents with their original key hashes so their API keys keep working
+    for (const logged of args.agents as ReplayAgent[]) {
+      const zoneSlug = logged.startingZone ?? DEFAULTS.startingZone;
+      const zone = await ctx.db
+        .query("zones")
+        .withIndex("by_slug", (q) => q.eq("slug", zoneSlug))
+        .first();
+      if (!zone) {
+        throw new Error(`Zone "${zoneSlug}" not found while replaying ${logged.name}`);
+      }
+
+      const startingCash =
+        logged.startingCash ??
+        createTickRng(world.seed, args.tick, `register:${logged.name}`).randomInt(
+          DEFAULTS.startingCashMin,
+          DEFAULTS.startingCashMax
+        );
+
+      const agentId = await insertTracked(ctx, "agents", {
+        agentKeyHash: logged.agentKeyHash,
+        name: logged.name,
+        createdAt: Date.now(),
+        locationZoneId: zone._id,
+        cash: startingCash,
+        health: DEFAULTS.startingHealth,
+        stamina: DEFAULTS.startingStamina,
+        reputation: DEFAULTS.startingReputation,
+        heat: DEFAULTS.startingHeat,
+        status: "idle",
+        busyUntilTick: null,
+        busyAction: null,
+        inventory: [],
+        skills: { ...DEFAULTS.startingSkills },
+        stats: {
+          lifetimeEarnings: 0,
+          totalCrimes: 0,
+          totalArrests: 0,
+          jobsCompleted: 0,
+          daysSurvived: 0,
+        },
+        taxDueTick: args.tick + TAX_DEFAULTS.taxIntervalTicks,
+        ...(logged.llmInfo && { llmInfo: logged.llmInfo }),
+      });
+
+      await ctx.db.insert("events", {
+        tick: args.tick,
+        timestamp: Date.now(),
+        type: "AGENT_REGISTERED",
+        agentId,
+        zoneId: zone._id,
+        entityId: agentId,
+        payload: {
+          name: logged.name,
+          startingCash,
+          startingZone: zone.slug,
+          replayed: true,
+        },
+        requestId: null,
+      });
+
+      // Kept webhooks follow the agent to its new id
+      const webhooks = await ctx.db
+        .query("webhooks")
+        .withIndex("by_agentId", (q) => q.eq("agentId", logged.agentId as Id<"agents">))
+        .collect();
+      for (const webhook of webhooks) {
+        await ctx.db.patch(webhook._id, { agentId });
+      }
+
+      registered++;
+    }
+
+    // 2. Re-run actions in their original order
+    for (const logged of args.actions as ReplayAction[]) {
+      const agentId = (await remapId(ctx, idRefs, logged.agentId)) as Id<"agents">;
+      const agent = await ctx.db.get(agentId);
+      if (!agent) {
+        throw new Error(`Cannot replay: agent ${logged.agentId} was not rebuilt`);
+      }
+
+      // Same path as /agent/act: idempotency, action log, outcome stats and journal
+      const actionArgs = await remapArgs(ctx, idRefs, logged.actionArgs ?? {});
+      const actionResult = await runAgentAction(ctx, agent, world, {
+        requestId: logged.requestId,
+        action: logged.action,
+        actionArgs,
+        reflection: logged.reflection,
+        mood: logged.mood,
+        llmInfo: logged.llmInfo,
+        journaled: logged.journaled ?? true,
+      });
+
+      if (actionResult.ok) {
+        applied++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { registered, applied, failed };
+  },
+});
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+/**
+ * A replay run's progress
+ */
+export const getReplayRun = internalQuery({
+  args: { runId: v.id("replayRuns") },
+  handler: async (ctx, args) => {
+    return ctx.db.get(args.runId);
+  },
+});
+
+/**
+ * The rebuild in progress, if any
+ */
+export const getActiveReplayRun = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const wiping = await ctx.db
+      .query("replayRuns")
+      .withIndex("by_status", (q) => q.eq("status", "wiping"))
+      .first();
+    return (
+      wiping ??
+      (await ctx.db
+        .query("replayRuns")
+        .withIndex("by_status", (q) => q.eq("status", "replaying"))
+        .first())
+    );
+  },
+});
+
+/**
+ * Hold or resume webhook delivery around a rebuild
+ * While held the delivery cursor sits past every event, so replayed events
+ * are never queued; resuming starts it from now.
+ */
+async function setWebhooksHeld(ctx: MutationCtx, held: boolean): Promise<void> {
+  const cursor = held ? Number.MAX_SAFE_INTEGER : Date.now();
+  for (const webhook of await ctx.db.query("webhooks").collect()) {
+    await ctx.db.patch(webhook._id, { lastEventCreationTime: cursor });
+  }
+}
+
+export const createReplayRun = internalMutation({
+  args: {
+    seed: v.string(),
+    tickMs: v.number(),
+    config: v.any(),
+    untilTick: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await setWebhooksHeld(ctx, true);
+
+    return ctx.db.insert("replayRuns", {
+      status: "wiping",
+      seed: args.seed,
+      tickMs: args.tickMs,
+      config: args.config,
+      untilTick: args.untilTick,
+      nextTick: 0,
+      agentsRegistered: 0,
+      actionsApplied: 0,
+      actionsFailed: 0,
+      startedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Save a run's cursor and counters; finishing it resumes webhook delivery
+ */
+export const advanceReplayRun = internalMutation({
+  args: {
+    runId: v.id("replayRuns"),
+    status: v.union(v.literal("replaying"), v.literal("done")),
+    nextTick: v.number(),
+    registered: v.number(),
+    applied: v.number(),
+    failed: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) {
+      throw new Error("Replay run not found");
+    }
+
+    const isDone = args.status === "done";
+    await ctx.db.patch(run._id, {
+      status: args.status,
+      nextTick: args.nextTick,
+      agentsRegistered: run.agentsRegistered + args.registered,
+      actionsApplied: run.actionsApplied + args.applied,
+      actionsFailed: run.actionsFailed + args.failed,
+      ...(isDone && { finishedAt: Date.now() }),
+    });
+
+    if (isDone) {
+      await setWebhooksHeld(ctx, false);
+    }
+  },
+});
+
+/**
+ * Delete a replay chunk and its file
+ */
+async function deleteReplayChunk(ctx: MutationCtx, chunk: Doc<"replayChunks">): Promise<void> {
+  await ctx.storage.delete(chunk.storageId);
+  await ctx.db.delete(chunk._id);
+}
+
+/**
+ * Mark a run failed, drop its unplayed chunks and resume webhook delivery
+ */
+export const failReplayRun = internalMutation({
+  args: {
+    runId: v.id("replayRuns"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, {
+      status: "failed",
+      error: args.error,
+      finishedAt: Date.now(),
+    });
+
+    const chunks = await ctx.db
+      .query("replayChunks")
+      .withIndex("by_runId_fromTick", (q) => q.eq("runId", args.runId))
+      .collect();
+    for (const chunk of chunks) {
+      await deleteReplayChunk(ctx, chunk);
+    }
+
+    await setWebhooksHeld(ctx, false);
+  },
+});
+
+export const addReplayChunk = internalMutation({
+  args: {
+    runId: v.id("replayRuns"),
+    fromTick: v.number(),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("replayChunks", args);
+  },
+});
+
+/**
+ * The chunk for the step starting at fromTick, if that step has anything to replay
+ */
+export const getReplayChunk = internalQuery({
+  args: {
+    runId: v.id("replayRuns"),
+    fromTick: v.number(),
+  },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("replayChunks")
+      .withIndex("by_runId_fromTick", (q) => q.eq("runId", args.runId).eq("fromTick", args.fromTick))
+      .first();
+  },
+});
+
+export const finishReplayChunk = internalMutation({
+  args: { chunkId: v.id("replayChunks") },
+  handler: async (ctx, args) => {
+    const chunk = await ctx.db.get(args.chunkId);
+    if (chunk) {
+      await deleteReplayChunk(ctx, chunk);
+    }
+  },
+});
+
+async function loadReplayChunk(ctx: ActionCtx, chunk: Doc<"replayChunks">): Promise<ReplayChunk> {
+  const blob = await ctx.storage.get(chunk.storageId);
+  if (!blob) {
+    throw new Error(`Replay chunk for tick ${chunk.fromTick} missing from storage`);
+  }
+  return JSON.parse(await blob.text()) as ReplayChunk;
+}
+
+/**
+ * Wipe world state a few batches at a time; once empty, re-seed the world
+ * and restore the logged seed and config
+ */
+async function wipeStep(ctx: ActionCtx, run: Doc<"replayRuns">): Promise<void> {
+  let batches = 0;
+  for (const table of Object.keys(schema.tables) as TableNames[]) {
+    if (KEEP_TABLES.includes(table)) continue;
+    let isDone = false;
+    while (!isDone) {
+      if (batches >= CLEAR_BATCHES_PER_STEP) {
+        return;
+      }
+      const result: { deleted: number; isDone: boolean } = await ctx.runMutation(
+        internal.replay.clearTableBatch,
+        { table }
+      );
+      isDone = result.isDone;
+      batches++;
+    }
+  }
+
+  await ctx.runMutation(internal.seed.seedAll, {});
+  await ctx.runMutation(internal.replay.prepareReplayWorld, {
+    seed: run.seed,
+    tickMs: run.tickMs,
+    config: run.config,
+  });
+  await ctx.runMutation(internal.replay.advanceReplayRun, {
+    runId: run._id,
+    status: run.untilTick === 0 ? "done" : "replaying",
+    nextTick: 0,
+    registered: 0,
+    applied: 0,
+    failed: 0,
+  });
+}
+
+/**
+ * Replay registrations and actions for the next batch of ticks, running the
+ * tick pipeline in between
+ * Returns whether the run reached untilTick.
+ */
+async function replayStep(ctx: ActionCtx, run: Doc<"replayRuns">): Promise<boolean> {
+  const endTick = Math.min(run.nextTick + REPLAY_TICKS_PER_STEP, run.untilTick);
+
+  const chunk: Doc<"replayChunks"> | null = await ctx.runQuery(internal.replay.getReplayChunk, {
+    runId: run._id,
+    fromTick: run.nextTick,
+  });
+  const { agents, actions, idRefs } = chunk
+    ? await loadReplayChunk(ctx, chunk)
+    : { agents: [], actions: [], idRefs: {} };
+
+  const agentsByTick: Record<number, ReplayAgent[]> = {};
+  for (const agent of agents) {
+    (agentsByTick[agent.registeredTick] ??= []).push(agent);
+  }
+  const actionsByTick: Record<number, ReplayAction[]> = {};
+  for (const action of actions) {
+    (actionsByTick[action.tick] ??= []).push(action);
+  }
+
+  for (let tick = run.nextTick; tick < endTick; tick++) {
+    const tickAgents = agentsByTick[tick] ?? [];
+    const tickActions = actionsByTick[tick] ?? [];
+    let result = { registered: 0, applied: 0, failed: 0 };
+    if (tickAgents.length > 0 || tickActions.length > 0) {
+      result = await ctx.runMutation(internal.replay.applyReplayTick, {
+        tick,
+        agents: tickAgents,
+        actions: tickActions,
+        idRefs,
+      });
+    }
+
+    await runTickHandler(ctx, { ignorePause: true });
+
+    await ctx.runMutation(internal.replay.advanceReplayRun, {
+      runId: run._id,
+      status: tick + 1 >= run.untilTick ? "done" : "replaying",
+      nextTick: tick + 1,
+      ...result,
+    });
+  }
+
+  if (chunk) {
+    await ctx.runMutation(internal.replay.finishReplayChunk, { chunkId: chunk._id });
+  }
+  return endTick >= run.untilTick;
+}
+
+/**
+ * One scheduled step of a replay run; schedules the next until the run is done
+ */
+export const continueReplay = internalAction({
+  args: { runId: v.id("replayRuns") },
+  handler: async (ctx, args): Promise<void> => {
+    const run: Doc<"replayRuns"> | null = await ctx.runQuery(internal.replay.getReplayRun, {
+      runId: args.runId,
+    });
+    if (!run || (run.status !== "wiping" && run.status !== "replaying")) {
+      return;
+    }
+
+    try {
+      let isFinished = false;
+      if (run.status === "wiping") {
+        await wipeStep(ctx, run);
+      } else {
+        isFinished = await replayStep(ctx, run);
+      }
+      if (!isFinished) {
+        await ctx.scheduler.runAfter(0, internal.replay.continueReplay, { runId: run._id });
+      }
+    } catch (error) {
+      await ctx.runMutation(internal.replay.failReplayRun, {
+        runId: run._id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  },
+});
+
+/**
+ * Split a log into one chunk per replay step, in file storage
+ * Steps with nothing to replay get no chunk.
+ */
+async function stageReplayChunks(
+  ctx: ActionCtx,
+  runId: Id<"replayRuns">,
+  log: ReplayLog,
+  untilTick: number
+): Promise<void> {
+  const stepStart = (tick: number) => tick - (tick % REPLAY_TICKS_PER_STEP);
+
+  const chunks = new Map<number, { agents: ReplayAgent[]; actions: ReplayAction[] }>();
+  const chunkAt = (tick: number) => {
+    const fromTick = stepStart(tick);
+    let chunk = chunks.get(fromTick);
+    if (!chunk) {
+      chunk = { agents: [], actions: [] };
+      chunks.set(fromTick, chunk);
+    }
+    return chunk;
+  };
+  for (const agent of log.agents.filter((a) => a.registeredTick < untilTick)) {
+    chunkAt(agent.registeredTick).agents.push(agent);
+  }
+  for (const action of log.actions.filter((a) => a.tick < untilTick)) {
+    chunkAt(action.tick).actions.push(action);
+  }
+
+  const idLookup = buildIdLookup(log);
+  for (const [fromTick, chunk] of chunks) {
+    const contents: ReplayChunk = { ...chunk, idRefs: collectIdRefs(idLookup, chunk.actions) };
+    const storageId = await ctx.storage.store(
+      new Blob([JSON.stringify(contents)], { type: "application/json" })
+    );
+    await ctx.runMutation(internal.replay.addReplayChunk, { runId, fromTick, storageId });
+  }
+}
+
+/**
+ * Start rebuilding a log up to untilTick
+ */
+async function startReplay(
+  ctx: ActionCtx,
+  log: ReplayLog,
+  untilTick: number
+): Promise<Id<"replayRuns">> {
+  if (untilTick > log.untilTick) {
+    throw new Error(`Log only covers ticks before ${log.untilTick}`);
+  }
+
+  const activeRun: Doc<"replayRuns"> | null = await ctx.runQuery(internal.replay.getActiveReplayRun, {});
+  if (activeRun) {
+    throw new Error(`Replay run ${activeRun._id} is still in progress`);
+  }
+
+  const runId: Id<"replayRuns"> = await ctx.runMutation(internal.replay.createReplayRun, {
+    seed: log.seed,
+    tickMs: log.tickMs,
+    config: log.config,
+    untilTick,
+  });
+  try {
+    await stageReplayChunks(ctx, runId, log, untilTick);
+  } catch (error) {
+    await ctx.runMutation(internal.replay.failReplayRun, {
+      runId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  await ctx.scheduler.runAfter(0, internal.replay.continueReplay, { runId });
+  return runId;
+}
+
+/**
+ * Wipe this deployment and rebuild a logged world up to untilTick
+ * Takes the storage id of an exported log - upload the file to this
+ * deployment's storage first when copying a world. Use on a fresh deployment
+ * to copy a world, or on this one to rewind it.
+ * Returns the replay run id - follow it with getReplayRun.
+ */
+export const replayWorld = internalAction({
+  args: {
+    logStorageId: v.id("_storage"),
+    untilTick: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Id<"replayRuns">> => {
+    const blob = await ctx.storage.get(args.logStorageId);
+    if (!blob) {
+      throw new Error("Replay log not found in storage");
+    }
+
+    const log = JSON.parse(await blob.text()) as ReplayLog;
+    if (log?.version !== 2) {
+      throw new Error("Unsupported replay log - export it with replay:exportReplayLog");
+    }
+    return startReplay(ctx, log, args.untilTick ?? log.untilTick);
+  },
+});
+
+/**
+ * Fork this world at atTick: rebuild it in place from its own history
+ * Returns the replay run id and the storage id of the full pre-fork log -
+ * keep it to fork the original timeline again
+ */
+export const forkWorld = internalAction({
+  args: { atTick: v.number() },
+  handler: async (ctx, args): Promise<{ runId: Id<"replayRuns">; logStorageId: Id<"_storage"> }> => {
+    const log = await buildReplayLog(ctx, undefined);
+    if (args.atTick > log.untilTick) {
+      throw new Error(`Cannot fork at tick ${args.atTick} - world is only at tick ${log.untilTick}`);
+    }
+
+    const logStorageId = await storeReplayLog(ctx, log);
+    const runId = await startReplay(ctx, log, args.atTick);
+    return { runId, logStorageId };
+  },
+});
@@ -87,6 +87,15 @@ export default defineSchema({
         bountiesPlaced: v.number(),
       })
     ),
+    // Skill progression - last tick each skill was trained or used (unpractised skills decay)
+    skillsLastPracticedTick: v.optional(
+      v.object({
+        driving: v.optional(v.number()),
+        negotiation: v.optional(v.number()),
+        stealth: v.optional(v.number()),
+        combat: v.optional(v.number()),
+      })
+    ),
     // Agent goals - motivational targets for gameplay
     goals: v.optional(
       v.array(
@@ -118,6 +127,13 @@ export default defineSchema({
         })
       )
     ),
+    // Action outcomes via /agent/act - feeds per-model benchmarks (missing on agents from before tracking)
+    actionStats: v.optional(
+      v.object({
+        actions: v.number(),
+        errors: v.number(),
+      })
+    ),
     // LLM info - tracks which model powers this agent (for data monetization)
     llmInfo: v.optional(v.object({
       provider: v.string(),      // "openai", "anthropic", "google", etc.
@@ -203,13 +219,18 @@ export default defineSchema({
     }),
     staminaCost: v.number(),
     active: v.boolean(),
+    businessId: v.optional(v.id("businesses")), // Opening posted by a business; wage comes from its cashOnHand
+    baseWage: v.optional(v.number()), // Wage before demand and world events (seeded postings)
+    expiresAtTick: v.optional(v.number()), // One-off gig: closes when taken or at this tick
   })
     .index("by_zoneId", ["zoneId"])
-    .index("by_active", ["active"]),
+    .index("by_active", ["active"])
+    .index("by_businessId", ["businessId"]),
 
   // Businesses - shops and services in zones
   businesses: defineTable({
     ownerAgentId: v.union(v.id("agents"), v.null()),
+    ownerGangId: v.optional(v.id("gangs")), // Gang-owned (ownerAgentId is then null)
     zoneId: v.id("zones"),
     type: v.string(),
     name: v.string(),
@@ -229,9 +250,28 @@ export default defineSchema({
     }),
   })
     .index("by_ownerAgentId", ["ownerAgentId"])
+    .index("by_ownerGangId", ["ownerGangId"])
     .index("by_zoneId", ["zoneId"])
     .index("by_type", ["type"]),
 
+  // Wage claims - Business job wages the employer couldn't pay
+  wageClaims: defineTable({
+    employeeId: v.id("agents"),
+    businessId: v.id("businesses"),
+    jobId: v.id("jobs"),
+    amount: v.number(),
+    status: v.union(
+      v.literal("unpaid"),
+      v.literal("settled") // Employee sued and the court ruled
+    ),
+    createdTick: v.number(),
+    awarded: v.optional(v.number()), // Court award (wages plus damages)
+    collected: v.optional(v.number()), // What the court could actually collect
+    closedTick: v.optional(v.number()),
+  })
+    .index("by_employeeId_status", ["employeeId", "status"])
+    .index("by_businessId_status", ["businessId", "status"]),
+
   // Market state - current prices per zone/item
   marketState: defineTable({
     zoneId: v.id("zones"),
@@ -240,11 +280,53 @@ export default defineSchema({
     supply: v.number(),
     demand: v.number(),
     lastUpdatedTick: v.number(),
+    lastTradePrice: v.optional(v.number()), // Last order book fill
+    lastTradeTick: v.optional(v.number()),
   })
     .index("by_zoneId", ["zoneId"])
     .index("by_itemId", ["itemId"])
     .index("by_zoneId_itemId", ["zoneId", "itemId"]),
 
+  // Market orders - agent limit orders on a zone's order book
+  // Buy orders escrow cash, sell orders escrow items until filled/cancelled/expired
+  marketOrders: defineTable({
+    zoneId: v.id("zones"),
+    agentId: v.id("agents"),
+    itemId: v.id("items"),
+    side: v.union(v.literal("buy"), v.literal("sell")),
+    price: v.number(), // Limit price per unit
+    qty: v.number(), // Original quantity
+    remainingQty: v.number(),
+    escrowCash: v.number(), // Cash still held for a buy order
+    status: v.union(
+      v.literal("open"),
+      v.literal("filled"),
+      v.literal("cancelled"),
+      v.literal("expired")
+    ),
+    createdTick: v.number(),
+    expiresAtTick: v.number(),
+    closedTick: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_agentId_status", ["agentId", "status"])
+    .index("by_zoneId_itemId_status", ["zoneId", "itemId", "status"]),
+
+  // World events - random zone or citywide events (crashes, crackdowns, droughts)
+  worldEvents: defineTable({
+    type: v.union(
+      v.literal("MARKET_CRASH"),
+      v.literal("POLICE_CRACKDOWN"),
+      v.literal("JOB_DROUGHT")
+    ),
+    zoneId: v.union(v.id("zones"), v.null()), // null = citywide
+    status: v.union(v.literal("active"), v.literal("ended")),
+    startTick: v.number(),
+    endTick: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_zoneId", ["zoneId"]),
+
   // Events - append-only log of all world events
   events: defineTable({
     tick: v.number(),
@@ -374,8 +456,16 @@ export default defineSchema({
     reason: v.string(),
     balance: v.number(),
     refEventId: v.union(v.id("events"), v.null()),
+    // Set on gang treasury entries: balance is then the treasury, and agentId
+    // the member or outsider the money went to (or who proposed the spend)
+    gangId: v.optional(v.id("gangs")),
+    // Set on business cash entries: balance is then the business's cashOnHand,
+    // and agentId its owner (the gang leader for gang-owned businesses)
+    businessId: v.optional(v.id("businesses")),
   })
     .index("by_agentId", ["agentId"])
+    .index("by_gangId", ["gangId"])
+    .index("by_businessId", ["businessId"])
     .index("by_tick", ["tick"]),
 
   // Action locks - idempotency tracking for agent requests
@@ -485,6 +575,100 @@ export default defineSchema({
     .index("by_zoneId", ["zoneId"])
     .index("by_gangId", ["gangId"]),
 
+  // Gang wars - Declared conflicts between two gangs
+  gangWars: defineTable({
+    attackerGangId: v.id("gangs"), // Gang that declared the war
+    defenderGangId: v.id("gangs"),
+    status: v.union(v.literal("active"), v.literal("ended")),
+    attackerScore: v.number(),
+    defenderScore: v.number(),
+    declaredTick: v.number(),
+    endsAtTick: v.number(), // Decided on score if nobody wins first
+    // Zones where one side has outnumbered the other's territory defenders
+    contestedZones: v.array(
+      v.object({
+        zoneId: v.id("zones"),
+        besiegerGangId: v.id("gangs"),
+      })
+    ),
+    truceProposedByGangId: v.optional(v.id("gangs")),
+    // Set by SURRENDER or an agreed truce; resolved on the next tick
+    pendingOutcome: v.optional(v.union(v.literal("surrender"), v.literal("truce"))),
+    winnerGangId: v.optional(v.id("gangs")),
+    outcome: v.optional(
+      v.union(
+        v.literal("victory"),
+        v.literal("surrender"),
+        v.literal("truce"),
+        v.literal("forfeit")
+      )
+    ),
+    endedTick: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_attackerGangId", ["attackerGangId"])
+    .index("by_defenderGangId", ["defenderGangId"]),
+
+  // Gang treaties - Alliances, non-aggression pacts and shared-territory agreements
+  gangTreaties: defineTable({
+    proposerGangId: v.id("gangs"),
+    partnerGangId: v.id("gangs"),
+    type: v.union(
+      v.literal("alliance"),
+      v.literal("nap"),
+      v.literal("shared_territory")
+    ),
+    status: v.union(
+      v.literal("proposed"),
+      v.literal("active"),
+      v.literal("declined"),
+      v.literal("ended"), // Cancelled peacefully
+      v.literal("broken") // NAP violated
+    ),
+    proposedTick: v.number(),
+    acceptedTick: v.optional(v.number()),
+    endedTick: v.optional(v.number()),
+    brokenByGangId: v.optional(v.id("gangs")),
+  })
+    .index("by_status", ["status"])
+    .index("by_proposerGangId", ["proposerGangId"])
+    .index("by_partnerGangId", ["partnerGangId"]),
+
+  // Gang proposals - Treasury spending put to a weighted member vote
+  gangProposals: defineTable({
+    gangId: v.id("gangs"),
+    proposerId: v.id("agents"),
+    kind: v.union(
+      v.literal("payout"),
+      v.literal("hire"),
+      v.literal("bounty"),
+      v.literal("property")
+    ),
+    targetAgentId: v.optional(v.id("agents")), // payout/hire recipient, bounty target
+    propertyId: v.optional(v.id("properties")),
+    amount: v.number(), // Property proposals use the buy price at proposal time
+    reason: v.optional(v.string()),
+    votes: v.array(
+      v.object({
+        agentId: v.id("agents"),
+        support: v.boolean(),
+      })
+    ),
+    status: v.union(
+      v.literal("open"),
+      v.literal("passed"),
+      v.literal("rejected"),
+      v.literal("expired"), // Quorum not reached
+      v.literal("failed") // Passed but could not be carried out
+    ),
+    createdTick: v.number(),
+    closesAtTick: v.number(),
+    closedTick: v.optional(v.number()),
+    failureReason: v.optional(v.string()),
+  })
+    .index("by_gangId_status", ["gangId", "status"])
+    .index("by_status", ["status"]),
+
   // Properties - Buyable/rentable locations
   properties: defineTable({
     zoneId: v.id("zones"),
@@ -497,7 +681,9 @@ export default defineSchema({
       v.literal("warehouse")
     ),
     ownerId: v.optional(v.id("agents")), // null = available for purchase
-    buyPrice: v.number(),
+    ownerGangId: v.optional(v.id("gangs")), // Gang-owned, bought from the treasury
+    buyPrice: v.number(), // List price when seeded
+    marketValue: v.optional(v.number()), // Current zone-driven value (buyPrice until first revalue)
     rentPrice: v.number(), // Per tick rent
     heatReduction: v.number(), // Percentage reduction to heat decay
     staminaBoost: v.number(), // Percentage bonus to stamina regen
@@ -506,8 +692,131 @@ export default defineSchema({
   })
     .index("by_zoneId", ["zoneId"])
     .index("by_ownerId", ["ownerId"])
+    .index("by_ownerGangId", ["ownerGangId"])
     .index("by_type", ["type"]),
 
+  // Property listings - Agent-to-agent property sales and auctions
+  propertyListings: defineTable({
+    propertyId: v.id("properties"),
+    sellerId: v.id("agents"),
+    zoneId: v.id("zones"),
+    kind: v.union(v.literal("sale"), v.literal("auction")),
+    price: v.number(), // Asking price (sale) or reserve price (auction)
+    highestBid: v.optional(v.number()), // Escrowed from the highest bidder
+    highestBidderId: v.optional(v.id("agents")),
+    bidCount: v.number(),
+    status: v.union(
+      v.literal("open"),
+      v.literal("sold"),
+      v.literal("cancelled"),
+      v.literal("expired")
+    ),
+    createdTick: v.number(),
+    endsAtTick: v.number(), // Auction close, or expiry for a sale listing
+    closedTick: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_propertyId_status", ["propertyId", "status"])
+    .index("by_sellerId_status", ["sellerId", "status"])
+    .index("by_highestBidderId_status", ["highestBidderId", "status"])
+    .index("by_zoneId_status", ["zoneId", "status"]),
+
+  // Loans - Bank and agent-to-agent lending
+  loans: defineTable({
+    borrowerId: v.id("agents"),
+    lenderId: v.optional(v.id("agents")), // null = the bank
+    principal: v.number(),
+    balance: v.number(), // Outstanding principal plus accrued interest
+    interestRate: v.number(), // Compounds every tick
+    collateralPropertyId: v.optional(v.id("properties")),
+    collateralVehicleId: v.optional(v.id("vehicles")),
+    status: v.union(
+      v.literal("offered"), // Agent offer waiting for TAKE_LOAN
+      v.literal("active"),
+      v.literal("repaid"),
+      v.literal("defaulted"),
+      v.literal("expired")
+    ),
+    createdTick: v.number(),
+    termTicks: v.number(),
+    dueTick: v.optional(v.number()), // Set when the loan is taken
+    offerExpiresAtTick: v.optional(v.number()),
+    closedTick: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_borrowerId_status", ["borrowerId", "status"])
+    .index("by_lenderId_status", ["lenderId", "status"])
+    .index("by_collateralPropertyId", ["collateralPropertyId"])
+    .index("by_collateralVehicleId", ["collateralVehicleId"]),
+
+  // Insurance policies - Premiums charged per tick, claims filed on covered losses
+  insurancePolicies: defineTable({
+    agentId: v.id("agents"),
+    type: v.union(v.literal("health"), v.literal("property"), v.literal("vehicle")),
+    status: v.union(
+      v.literal("active"),
+      v.literal("cancelled"), // By the holder, or by the insurer over fraud
+      v.literal("lapsed") // Holder couldn't pay a premium
+    ),
+    premium: v.number(), // Last premium charged
+    paidThroughTick: v.number(),
+    premiumsPaid: v.number(),
+    claimsPaid: v.number(),
+    createdTick: v.number(),
+    closedTick: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_agentId_status", ["agentId", "status"]),
+
+  // Insurance claims - One per covered loss
+  insuranceClaims: defineTable({
+    policyId: v.id("insurancePolicies"),
+    agentId: v.id("agents"),
+    type: v.union(v.literal("health"), v.literal("property"), v.literal("vehicle")),
+    perpetratorId: v.id("agents"), // Who caused the loss
+    loss: v.number(),
+    payout: v.number(),
+    status: v.union(v.literal("paid"), v.literal("denied")),
+    fraudFlagged: v.boolean(), // Loss caused by the claimant's friend
+    eventId: v.union(v.id("events"), v.null()),
+    tick: v.number(),
+  })
+    .index("by_agentId", ["agentId"])
+    .index("by_policyId", ["policyId"]),
+
+  // Trade offers - Agent-to-agent swaps, executed in full when the target accepts
+  tradeOffers: defineTable({
+    proposerId: v.id("agents"),
+    targetId: v.id("agents"),
+    offer: v.object({
+      // What the proposer gives
+      cash: v.number(),
+      items: v.array(v.object({ itemId: v.id("items"), qty: v.number() })),
+      propertyIds: v.array(v.id("properties")),
+      vehicleIds: v.array(v.id("vehicles")),
+    }),
+    request: v.object({
+      // What the target gives
+      cash: v.number(),
+      items: v.array(v.object({ itemId: v.id("items"), qty: v.number() })),
+      propertyIds: v.array(v.id("properties")),
+      vehicleIds: v.array(v.id("vehicles")),
+    }),
+    status: v.union(
+      v.literal("open"),
+      v.literal("completed"),
+      v.literal("cancelled"), // Withdrawn by the proposer
+      v.literal("declined"), // Turned down by the target
+      v.literal("expired")
+    ),
+    createdTick: v.number(),
+    expiresAtTick: v.number(),
+    closedTick: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_proposerId_status", ["proposerId", "status"])
+    .index("by_targetId_status", ["targetId", "status"]),
+
   // Property residents - Who lives where
   propertyResidents: defineTable({
     propertyId: v.id("properties"),
@@ -534,6 +843,7 @@ export default defineSchema({
   bounties: defineTable({
     targetAgentId: v.id("agents"),
     placedByAgentId: v.id("agents"),
+    placedByGangId: v.optional(v.id("gangs")), // Funded from a gang treasury
     amount: v.number(),
     reason: v.optional(v.string()),
     status: v.union(v.literal("active"), v.literal("claimed"), v.literal("expired")),
@@ -556,6 +866,7 @@ export default defineSchema({
     ),
     name: v.string(),
     ownerId: v.optional(v.id("agents")),
+    ownerGangId: v.optional(v.id("gangs")), // Shared by every member of the gang
     zoneId: v.id("zones"),
     isStolen: v.boolean(),
     condition: v.number(), // 0-100
@@ -563,6 +874,7 @@ export default defineSchema({
     value: v.number(),
   })
     .index("by_ownerId", ["ownerId"])
+    .index("by_ownerGangId", ["ownerGangId"])
     .index("by_zoneId", ["zoneId"]),
 
   // Disguises - Temporary heat reduction effects
@@ -577,15 +889,18 @@ export default defineSchema({
   // Contracts - Assassination contracts for agents
   contracts: defineTable({
     targetAgentId: v.id("agents"),
+    postedByAgentId: v.optional(v.id("agents")), // Unset for NPC-sponsored contracts
     reward: v.number(),
     acceptedByAgentId: v.optional(v.id("agents")),
     status: v.union(v.literal("available"), v.literal("accepted"), v.literal("completed"), v.literal("expired")),
     createdAt: v.number(),
-    expiresAt: v.number(),
+    expiresAtTick: v.optional(v.number()), // Unset only on contracts posted before tick-based expiry
+    expiresAt: v.optional(v.number()), // Legacy wall-clock expiry; processContracts converts it to expiresAtTick
   })
     .index("by_targetAgentId", ["targetAgentId"])
     .index("by_status", ["status"])
-    .index("by_acceptedByAgentId", ["acceptedByAgentId"]),
+    .index("by_acceptedByAgentId", ["acceptedByAgentId"])
+    .index("by_postedByAgentId", ["postedByAgentId"]),
 
   // Messages - Agent-to-agent direct messages
   messages: defineTable({
@@ -611,6 +926,24 @@ export default defineSchema({
     reflection: v.string(),
     mood: v.optional(v.string()),
     requestId: v.optional(v.string()),
+    // The agent's vitals just before the action ran (missing on older entries)
+    preActionState: v.optional(
+      v.object({
+        status: v.string(),
+        location: v.union(v.string(), v.null()),
+        cash: v.number(),
+        health: v.number(),
+        stamina: v.number(),
+        reputation: v.number(),
+        heat: v.number(),
+        skills: v.object({
+          driving: v.number(),
+          negotiation: v.number(),
+          stealth: v.number(),
+          combat: v.number(),
+        }),
+      })
+    ),
     // LLM info - tracked per action to capture model switches
     llmInfo: v.optional(
       v.object({
@@ -624,6 +957,103 @@ export default defineSchema({
     .index("by_tick", ["tick"])
     .index("by_agentId_requestId", ["agentId", "requestId"]),
 
+  // Action log - every executed agent action in order, used for world replay
+  // (journals skip duplicate reflections, so they can't be replayed from alone)
+  actionLog: defineTable({
+    agentId: v.id("agents"),
+    tick: v.number(),
+    requestId: v.string(),
+    action: v.string(),
+    actionArgs: v.optional(v.any()),
+    reflection: v.string(),
+    mood: v.optional(v.string()),
+    llmInfo: v.optional(
+      v.object({
+        provider: v.string(),
+        modelName: v.string(),
+        modelVersion: v.optional(v.string()),
+      })
+    ),
+    ok: v.boolean(),
+  })
+    .index("by_tick", ["tick"])
+    .index("by_agentId", ["agentId"]),
+
+  // Id log - creation order of documents agents reference by id, kept after
+  // the documents are deleted so replay can map logged ids onto a rebuilt world
+  idLog: defineTable({
+    table: v.string(),
+    seq: v.optional(v.number()), // Per-table creation index, from 0 - numbered by replay
+    entityId: v.string(),
+  })
+    .index("by_table", ["table"])
+    .index("by_table_seq", ["table", "seq"]),
+
+  // Replay runs - progress of a world rebuild, advanced in scheduled batches
+  replayRuns: defineTable({
+    status: v.union(
+      v.literal("wiping"),
+      v.literal("replaying"),
+      v.literal("done"),
+      v.literal("failed")
+    ),
+    seed: v.string(), // Logged world setup, restored after the wipe
+    tickMs: v.number(),
+    config: v.any(),
+    untilTick: v.number(),
+    nextTick: v.number(), // Cursor: first tick not yet replayed
+    agentsRegistered: v.number(),
+    actionsApplied: v.number(),
+    actionsFailed: v.number(),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+  }).index("by_status", ["status"]),
+
+  // Replay chunks - one replay step's slice of the log, in file storage
+  replayChunks: defineTable({
+    runId: v.id("replayRuns"),
+    fromTick: v.number(), // First tick of the step
+    storageId: v.id("_storage"), // ReplayChunk JSON
+  }).index("by_runId_fromTick", ["runId", "fromTick"]),
+
+  // Webhooks - Agent callback URLs that receive their events by push
+  webhooks: defineTable({
+    agentId: v.id("agents"),
+    url: v.string(),
+    secret: v.string(), // HMAC-SHA256 signing secret (shown to the agent once)
+    eventTypes: v.union(v.array(v.string()), v.null()), // null = all event types
+    active: v.boolean(),
+    createdAt: v.number(),
+    lastEventCreationTime: v.number(), // Cursor: newest event already queued
+    consecutiveFailures: v.number(),
+    disabledReason: v.optional(v.string()),
+  })
+    .index("by_agentId", ["agentId"])
+    .index("by_active", ["active"]),
+
+  // Webhook deliveries - Delivery log with retry state
+  webhookDeliveries: defineTable({
+    webhookId: v.id("webhooks"),
+    agentId: v.id("agents"),
+    eventId: v.id("events"),
+    eventType: v.string(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("delivered"),
+      v.literal("failed") // Gave up after max attempts
+    ),
+    attempts: v.number(),
+    nextAttemptAt: v.number(),
+    lastStatusCode: v.union(v.number(), v.null()),
+    lastError: v.union(v.string(), v.null()),
+    createdAt: v.number(),
+    deliveredAt: v.union(v.number(), v.null()),
+  })
+    .index("by_status_nextAttemptAt", ["status", "nextAttemptAt"])
+    .index("by_webhookId", ["webhookId"])
+    .index("by_agentId", ["agentId"]),
+
   // Cooperative actions - Multi-agent actions in progress
   coopActions: defineTable({
     initiatorId: v.id("agents"),
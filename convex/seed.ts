@@ -1,6 +1,7 @@
 import { internalMutation, mutation } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { insertTracked } from "./lib/idLog";
 
 // ============================================================================
 // ZONE SEED DATA
@@ -1001,7 +1002,7 @@ export const seedZones = internalMutation({
     const zoneIds: Record<string, Id<"zones">> = {};
 
     for (const zone of ZONES_DATA) {
-      const id = await ctx.db.insert("zones", zone);
+      const id = await insertTracked(ctx, "zones", zone);
       zoneIds[zone.slug] = id;
     }
 
@@ -1105,7 +1106,7 @@ export const seedJobs = internalMutation({
         continue;
       }
 
-      await ctx.db.insert("jobs", {
+      await insertTracked(ctx, "jobs", {
         zoneId,
         type: job.type,
         title: job.title,
@@ -1151,7 +1152,7 @@ export const seedProperties = internalMutation({
         continue;
       }
 
-      await ctx.db.insert("properties", {
+      await insertTracked(ctx, "properties", {
         zoneId,
         name: property.name,
         type: property.type,
@@ -1220,7 +1221,7 @@ export const seedBusinesses = internalMutation({
         });
       }
 
-      await ctx.db.insert("businesses", {
+      await insertTracked(ctx, "businesses", {
         ownerAgentId: null, // NPC-owned
         zoneId,
         type: business.type,
@@ -1270,7 +1271,7 @@ export const seedVehicles = internalMutation({
         continue;
       }
 
-      await ctx.db.insert("vehicles", {
+      await insertTracked(ctx, "vehicles", {
         type: vehicle.type,
         name: vehicle.name,
         zoneId,
@@ -1362,7 +1363,7 @@ export const seedAll = internalMutation({
     const zoneIdBySlug: Record<string, Id<"zones">> = {};
     if (existingZones.length === 0) {
       for (const zone of ZONES_DATA) {
-        const id = await ctx.db.insert("zones", zone);
+        const id = await insertTracked(ctx, "zones", zone);
         zoneIdBySlug[zone.slug] = id;
       }
       results.zones = { seeded: true, count: ZONES_DATA.length };
@@ -1422,7 +1423,7 @@ export const seedAll = internalMutation({
       for (const job of JOBS_DATA) {
         const zoneId = zoneIdBySlug[job.zoneSlug];
         if (zoneId) {
-          await ctx.db.insert("jobs", {
+          await insertTracked(ctx, "jobs", {
             zoneId,
             type: job.type,
             title: job.title,
@@ -1457,7 +1458,7 @@ export const seedAll = internalMutation({
           }
         }
 
-        await ctx.db.insert("businesses", {
+        await insertTracked(ctx, "businesses", {
           ownerAgentId: null,
           zoneId,
           type: business.type,
@@ -1487,7 +1488,7 @@ export const seedAll = internalMutation({
         const zoneId = zoneIdBySlug[property.zoneSlug];
         if (!zoneId) continue;
 
-        await ctx.db.insert("properties", {
+        await insertTracked(ctx, "properties", {
           zoneId,
           name: property.name,
           type: property.type,
@@ -1514,7 +1515,7 @@ export const seedAll = internalMutation({
         const zoneId = zoneIdBySlug[vehicle.zoneSlug];
         if (!zoneId) continue;
 
-        await ctx.db.insert("vehicles", {
+        await insertTracked(ctx, "vehicles", {
           type: vehicle.type,
           name: vehicle.name,
           zoneId,
@@ -1657,7 +1658,7 @@ export const initializeWorld = mutation({
     const zoneIdBySlug: Record<string, Id<"zones">> = {};
     if (existingZones.length === 0) {
       for (const zone of ZONES_DATA) {
-        const id = await ctx.db.insert("zones", zone);
+        const id = await insertTracked(ctx, "zones", zone);
         zoneIdBySlug[zone.slug] = id;
       }
       results.zones = { seeded: true, count: ZONES_DATA.length };
@@ -1714,7 +1715,7 @@ export const initializeWorld = mutation({
       for (const job of JOBS_DATA) {
         const zoneId = zoneIdBySlug[job.zoneSlug];
         if (zoneId) {
-          await ctx.db.insert("jobs", {
+          await insertTracked(ctx, "jobs", {
             zoneId,
             type: job.type,
             title: job.title,
@@ -1748,7 +1749,7 @@ export const initializeWorld = mutation({
           }
         }
 
-        await ctx.db.insert("businesses", {
+        await insertTracked(ctx, "businesses", {
           ownerAgentId: null,
           zoneId,
           type: business.type,
@@ -1777,7 +1778,7 @@ export const initializeWorld = mutation({
         const zoneId = zoneIdBySlug[property.zoneSlug];
         if (!zoneId) continue;
 
-        await ctx.db.insert("properties", {
+        await insertTracked(ctx, "properties", {
           zoneId,
           name: property.name,
           type: property.type,
@@ -1803,7 +1804,7 @@ export const initializeWorld = mutation({
         const zoneId = zoneIdBySlug[vehicle.zoneSlug];
         if (!zoneId) continue;
 
-        await ctx.db.insert("vehicles", {
+        await insertTracked(ctx, "vehicles", {
           type: vehicle.type,
           name: vehicle.name,
           zoneId,
@@ -39,7 +39,9 @@ const CRIME_EVENTS = [
   "BOUNTY_CLAIMED",
   "BOUNTY_EXPIRED",
   "VEHICLE_STOLEN",
+  "CONTRACT_POSTED",
   "CONTRACT_ACCEPTED",
+  "CONTRACT_COMPLETED",
 ];
 
 const SOCIAL_EVENTS = [
@@ -52,8 +54,21 @@ const SOCIAL_EVENTS = [
   "GANG_JOINED",
   "GANG_LEFT",
   "GANG_BETRAYED",
+  "GANG_WAR_DECLARED",
+  "GANG_WAR_TRUCE_PROPOSED",
+  "GANG_WAR_ENDED",
+  "TREATY_PROPOSED",
+  "TREATY_ACCEPTED",
+  "TREATY_DECLINED",
+  "TREATY_ENDED",
+  "TREATY_BROKEN",
+  "GANG_PROPOSAL_CREATED",
+  "GANG_PROPOSAL_PASSED",
+  "GANG_PROPOSAL_FAILED",
   "CASH_GIFTED",
   "ITEM_GIFTED",
+  "TRADE_PROPOSED",
+  "TRADE_COMPLETED",
 ];
 
 const ECONOMIC_EVENTS = [
@@ -62,15 +77,33 @@ const ECONOMIC_EVENTS = [
   "JOB_STARTED",
   "JOB_COMPLETED",
   "BUSINESS_STARTED",
+  "BUSINESS_REVENUE",
   "PROPERTY_PURCHASED",
   "PROPERTY_SOLD",
   "PROPERTY_RENTED",
+  "PROPERTY_LISTED",
+  "PROPERTY_BID_PLACED",
+  "PROPERTY_LISTING_SOLD",
+  "LOAN_TAKEN",
+  "LOAN_REPAID",
+  "LOAN_DEFAULTED",
+  "GIG_POSTED",
+  "JOB_OPENING_POSTED",
+  "WAGES_UNPAID",
+  "EMPLOYER_SUED",
+  "PRODUCTION_COMPLETED",
+  "INSURANCE_CLAIM_PAID",
+  "INSURANCE_CLAIM_DENIED",
   "TERRITORY_CLAIMED",
   "TERRITORY_INCOME",
+  "TERRITORY_CONTESTED",
   "GAMBLE_WON",
   "GAMBLE_LOST",
   "DISGUISE_PURCHASED",
   "DISGUISE_EXPIRED",
+  "PRICE_CHANGE",
+  "ORDER_PLACED",
+  "TRADE_EXECUTED",
 ];
 
 async function getState(ctx: { db: any }, key: string): Promise<string | null> {
@@ -147,10 +180,104 @@ function formatEventDescription(
       return `${agent} started a job in ${zone}`;
     case "MOVE_COMPLETED":
       return `${agent} arrived at ${zone}`;
+    case "TRAVEL_STARTED":
+      return `${agent} set off for ${p?.toZoneSlug ?? "another zone"}`;
+    case "TRAVEL_COMPLETED":
+      return `${agent} finished a trip at ${zone}`;
     case "BUY":
       return `${agent} bought items in ${zone}`;
     case "SELL":
       return `${agent} sold items in ${zone}`;
+    case "ORDER_PLACED":
+      return `${agent} posted a ${p?.side ?? "market"} order for ${p?.qty ?? "some"}x ${p?.itemName ?? "items"} at $${p?.price ?? "?"} in ${zone}`;
+    case "ORDER_CANCELLED":
+      return `${agent} pulled a ${p?.side ?? "market"} order in ${zone}`;
+    case "ORDER_EXPIRED":
+      return `${agent}'s ${p?.side ?? "market"} order expired in ${zone}`;
+    case "TRADE_EXECUTED":
+      return `${agent} ${p?.role === "seller" ? "sold" : "bought"} ${p?.qty ?? "some"}x ${p?.itemName ?? "items"} at $${p?.unitPrice ?? "?"} on the ${zone} order book`;
+    case "PROPERTY_LISTED":
+      return p?.kind === "auction"
+        ? `${agent} put ${p?.propertyName ?? "a property"} up for auction in ${zone} (reserve $${p?.price ?? "?"})`
+        : `${agent} listed ${p?.propertyName ?? "a property"} for sale at $${p?.price ?? "?"} in ${zone}`;
+    case "PROPERTY_BID_PLACED":
+      return `${agent} bid $${p?.amount ?? "?"} on ${p?.propertyName ?? "a property"} in ${zone}`;
+    case "PROPERTY_OUTBID":
+      return `${agent} was outbid on ${p?.propertyName ?? "a property"} in ${zone}`;
+    case "PROPERTY_LISTING_SOLD":
+      return `${p?.buyerName ?? agent} bought ${p?.propertyName ?? "a property"} from ${p?.sellerName ?? "another agent"} for $${p?.price ?? "?"}${p?.kind === "auction" ? " at auction" : ""}`;
+    case "PROPERTY_LISTING_CANCELLED":
+      return `${agent}'s listing for ${p?.propertyName ?? "a property"} was taken down`;
+    case "PROPERTY_LISTING_EXPIRED":
+      return `${agent}'s listing for ${p?.propertyName ?? "a property"} expired unsold`;
+    case "LOAN_OFFERED":
+      return `${agent} offered ${p?.borrowerName ?? "another agent"} a $${p?.amount ?? "?"} loan`;
+    case "LOAN_OFFER_EXPIRED":
+      return `${agent}'s $${p?.amount ?? "?"} loan offer lapsed`;
+    case "LOAN_TAKEN":
+      return p?.mortgage
+        ? `${agent} took out a $${p?.amount ?? "?"} mortgage`
+        : `${agent} borrowed $${p?.amount ?? "?"} from ${p?.lenderName ?? "the bank"}`;
+    case "LOAN_REPAID":
+      return Number(p?.remaining) > 0
+        ? `${agent} paid $${p?.amount ?? "?"} toward a loan`
+        : `${agent} paid off a $${p?.amount ?? "?"} loan`;
+    case "LOAN_DEFAULTED":
+      return `${agent} defaulted on a $${p?.amountOwed ?? "?"} loan${p?.seizedPropertyId || p?.seizedVehicleId ? " and lost the collateral" : ""}`;
+    case "BUSINESS_REVENUE":
+      return `${p?.businessName ?? "A business"} served ${p?.customers ?? "some"} customer${p?.customers === 1 ? "" : "s"} for $${p?.revenue ?? "?"} in ${zone}`;
+    case "GIG_POSTED":
+      return `Gig posted in ${zone}: ${p?.title ?? "a job"} for $${p?.wage ?? "?"} (${p?.skill ?? "skill"} ${p?.level ?? "?"}+)`;
+    case "JOB_OPENING_POSTED":
+      return `${p?.businessName ?? "A business"} is hiring: ${p?.title ?? "a job"} for $${p?.wage ?? "?"} in ${zone}`;
+    case "JOB_OPENING_CLOSED":
+      return `${p?.businessName ?? "A business"} stopped hiring for ${p?.title ?? "a job"}`;
+    case "WAGES_UNPAID":
+      return `${p?.businessName ?? "A business"} couldn't pay ${agent} $${p?.amount ?? "?"} in wages`;
+    case "JOB_QUIT":
+      return `${agent} walked off the job at ${p?.businessName ?? "a business"}`;
+    case "EMPLOYER_SUED":
+      return `${agent} sued ${p?.businessName ?? "their employer"} and collected $${p?.collected ?? "?"}${p?.businessShutDown ? " - the business was shut down" : ""}`;
+    case "PRODUCTION_STARTED":
+      return `${agent} started ${p?.recipeName ?? "production"} at ${p?.businessName ?? "a business"}`;
+    case "PRODUCTION_COMPLETED":
+      return `${agent} finished ${p?.recipeName ?? "production"} at ${p?.businessName ?? "a business"}`;
+    case "INSURANCE_PURCHASED":
+      return `${agent} bought ${p?.insuranceType ?? "an"} insurance for $${p?.premium ?? "?"} a tick`;
+    case "INSURANCE_CANCELLED":
+      return `${agent} cancelled their ${p?.insuranceType ?? ""} insurance`;
+    case "INSURANCE_LAPSED":
+      return `${agent}'s ${p?.insuranceType ?? ""} insurance lapsed over an unpaid $${p?.premium ?? "?"} premium`;
+    case "INSURANCE_CLAIM_PAID":
+      return `${agent}'s ${p?.insuranceType ?? ""} insurance paid out $${p?.payout ?? "?"}`;
+    case "INSURANCE_CLAIM_DENIED":
+      return `${agent}'s ${p?.insuranceType ?? ""} claim was flagged as fraud${p?.policiesCancelled ? " - insurers dropped them" : ""}`;
+    case "TRAINING_STARTED":
+      return `${agent} started ${p?.skill ?? "skill"} training at the ${p?.facilityName ?? "facility"}`;
+    case "SKILL_TRAINED":
+      return `${agent} trained ${p?.skill ?? "a skill"} up to ${p?.levelAfter ?? "?"}`;
+    case "TRADE_PROPOSED":
+      return `${agent} proposed a trade to ${p?.targetAgentName ?? "another agent"}`;
+    case "TRADE_COMPLETED":
+      return `${agent} closed a trade with ${p?.proposerName ?? "another agent"}`;
+    case "TRADE_CANCELLED":
+      return `${agent} withdrew a trade offer to ${p?.otherAgentName ?? "another agent"}`;
+    case "TRADE_DECLINED":
+      return `${agent} turned down a trade from ${p?.otherAgentName ?? "another agent"}`;
+    case "TRADE_EXPIRED":
+      return `${agent}'s trade offer lapsed`;
+    case "PRICE_CHANGE":
+      return `${p?.itemName ?? "An item"} ${Number(p?.newPrice) > Number(p?.oldPrice) ? "rose" : "fell"} to $${p?.newPrice ?? "?"} in ${zone}`;
+    case "MARKET_CRASH":
+      return `The market crashed ${p?.citywide ? "across the city" : `in ${zone}`}`;
+    case "POLICE_CRACKDOWN":
+      return `Police launched a crackdown ${p?.citywide ? "across the city" : `in ${zone}`}`;
+    case "JOB_DROUGHT":
+      return `Work dried up in ${zone}`;
+    case "WORLD_EVENT_ENDED":
+      return `The ${String(p?.eventType ?? "event").replace(/_/g, " ").toLowerCase()} ${p?.citywide ? "across the city" : `in ${zone}`} is over`;
+    case "AGENT_REGISTERED":
+      return `${agent} arrived in ClawCity`;
     case "GANG_CREATED":
       return `${agent} created a new gang`;
     case "GANG_JOINED":
@@ -163,6 +290,30 @@ function formatEventDescription(
       return `${agent} made a new friend`;
     case "TERRITORY_CLAIMED":
       return `A gang claimed territory in ${zone}`;
+    case "TERRITORY_CONTESTED":
+      return `${p?.gangName ?? "A gang"} is contesting ${zone}`;
+    case "GANG_WAR_DECLARED":
+      return `${p?.gangName ?? "A gang"} declared war on ${p?.targetGangName ?? "a rival gang"}`;
+    case "GANG_WAR_TRUCE_PROPOSED":
+      return `${p?.gangName ?? "A gang"} ${p?.accepted ? "agreed to a truce with" : "offered a truce to"} ${p?.enemyGangName ?? "its enemy"}`;
+    case "GANG_WAR_ENDED":
+      return `${p?.outcome === "truce" ? "A truce ended the war" : `${p?.winnerGangName ?? "A gang"} won the war`} between ${p?.attackerGangName ?? "a gang"} and ${p?.defenderGangName ?? "a gang"}`;
+    case "TREATY_PROPOSED":
+      return `${p?.gangName ?? "A gang"} proposed a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} to ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_ACCEPTED":
+      return `${p?.gangName ?? "A gang"} entered a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} with ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_DECLINED":
+      return `${p?.gangName ?? "A gang"} turned down a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} from ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_ENDED":
+      return `${p?.gangName ?? "A gang"} ${p?.wasActive ? "ended its" : "withdrew a"} ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"} with ${p?.partnerGangName ?? "a rival gang"}`;
+    case "TREATY_BROKEN":
+      return `${p?.gangName ?? "A gang"} broke its non-aggression pact with ${p?.partnerGangName ?? "a rival gang"}`;
+    case "GANG_PROPOSAL_CREATED":
+      return `${agent} asked ${p?.gangName ?? "their gang"} to vote on a $${p?.amount ?? 0} ${p?.kind ?? "spend"}`;
+    case "GANG_PROPOSAL_PASSED":
+      return `${p?.gangName ?? "A gang"} voted through a $${p?.amount ?? 0} ${p?.kind ?? "spend"}${p?.targetAgentName ? ` for ${p.targetAgentName}` : p?.propertyName ? ` on ${p.propertyName}` : ""}`;
+    case "GANG_PROPOSAL_FAILED":
+      return `${p?.gangName ?? "A gang"} ${p?.status === "rejected" ? "voted down" : "dropped"} a $${p?.amount ?? 0} ${p?.kind ?? "spend"}`;
     case "COOP_CRIME_SUCCESS":
       return `A crew pulled off a ${p?.crimeType ?? "heist"} in ${zone}`;
     case "COOP_CRIME_FAILED":
@@ -203,8 +354,14 @@ function formatEventDescription(
       return `${agent}'s disguise wore off`;
     case "VEHICLE_STOLEN":
       return `${agent} stole a ${p?.vehicleType ?? "vehicle"} in ${zone}`;
+    case "CONTRACT_POSTED":
+      return `A $${p?.reward ?? "?"} contract was put out on ${p?.targetAgentName ?? "an agent"}`;
     case "CONTRACT_ACCEPTED":
       return `${agent} accepted a hit contract`;
+    case "CONTRACT_COMPLETED":
+      return `${agent} completed the contract on ${p?.targetAgentName ?? "an agent"}`;
+    case "CONTRACT_EXPIRED":
+      return `Contract on ${p?.targetAgentName ?? "an agent"} has expired`;
     default:
       return `${agent}: ${type.replace(/_/g, " ").toLowerCase()}`;
   }
@@ -227,10 +384,22 @@ function formatDramaDescription(
     type === "GANG_BETRAYED" ||
     type === "BOUNTY_CLAIMED" ||
     type === "GOVERNMENT_TAKEDOWN" ||
-    type === "GANG_DISBANDED"
+    type === "GANG_DISBANDED" ||
+    type === "GANG_WAR_DECLARED" ||
+    type === "GANG_WAR_ENDED"
   ) {
     dramaLevel = "critical";
-  } else if (type === "CRIME_SUCCESS" || type === "COOP_CRIME_SUCCESS" || type === "GAMBLE_WON") {
+  } else if (
+    type === "CRIME_SUCCESS" ||
+    type === "COOP_CRIME_SUCCESS" ||
+    type === "GAMBLE_WON" ||
+    type === "MARKET_CRASH" ||
+    type === "POLICE_CRACKDOWN" ||
+    type === "JOB_DROUGHT" ||
+    type === "TERRITORY_CONTESTED" ||
+    type === "TREATY_ACCEPTED" ||
+    type === "TREATY_BROKEN"
+  ) {
     dramaLevel = "exciting";
   }
 
@@ -270,7 +439,9 @@ function formatDramaDescription(
     case "JOB_STARTED":
       return { description: `${agent} started working in ${zone}`, dramaLevel };
     case "JOB_COMPLETED":
-      return { description: `${agent} earned $${p?.wage ?? "?"} from a job`, dramaLevel };
+      return p?.paid === false
+        ? { description: `${agent} worked a shift the boss couldn't pay for`, dramaLevel }
+        : { description: `${agent} earned $${p?.wage ?? "?"} from a job`, dramaLevel };
     case "TAX_EVADED":
       return { description: `${agent} was jailed for tax evasion!`, dramaLevel };
     case "GOVERNMENT_TAKEDOWN":
@@ -281,12 +452,33 @@ function formatDramaDescription(
       return { description: (p?.headline as string) ?? `${p?.agency ?? "FBI"} raided ${p?.gangName ?? "a gang"}!`, dramaLevel };
     case "GANG_CREATED":
       return { description: `${agent} founded a new gang!`, dramaLevel };
+    case "GANG_WAR_DECLARED":
+      return { description: `${p?.gangName ?? "A gang"} declared war on ${p?.targetGangName ?? "a rival gang"}!`, dramaLevel };
+    case "GANG_WAR_ENDED":
+      return {
+        description: p?.outcome === "truce"
+          ? `${p?.attackerGangName ?? "A gang"} and ${p?.defenderGangName ?? "a gang"} called a truce`
+          : `${p?.winnerGangName ?? "A gang"} won the war against ${p?.loserGangName ?? "a rival gang"}!`,
+        dramaLevel,
+      };
+    case "TREATY_ACCEPTED":
+      return { description: `${p?.gangName ?? "A gang"} and ${p?.partnerGangName ?? "a rival gang"} sealed a ${p?.treatyType === "nap" ? "non-aggression pact" : p?.treatyType === "shared_territory" ? "shared-territory deal" : "alliance"}`, dramaLevel };
+    case "TREATY_BROKEN":
+      return { description: `${p?.gangName ?? "A gang"} broke its pact with ${p?.partnerGangName ?? "a rival gang"}!`, dramaLevel };
+    case "TERRITORY_CONTESTED":
+      return { description: `${p?.gangName ?? "A gang"} laid siege to ${zone}!`, dramaLevel };
     case "GANG_JOINED":
       return { description: `${agent} joined a gang`, dramaLevel };
     case "PROPERTY_PURCHASED":
       return { description: `${agent} bought property in ${zone}`, dramaLevel };
     case "BUSINESS_STARTED":
       return { description: `${agent} opened a business in ${zone}`, dramaLevel };
+    case "MARKET_CRASH":
+      return { description: `Market crash ${p?.citywide ? "across the city" : `in ${zone}`}! Prices are tanking`, dramaLevel };
+    case "POLICE_CRACKDOWN":
+      return { description: `Police crackdown ${p?.citywide ? "across the city" : `in ${zone}`}!`, dramaLevel };
+    case "JOB_DROUGHT":
+      return { description: `Job drought in ${zone} - no work to be found`, dramaLevel };
     default:
       return { description: `${agent}: ${type.replace(/_/g, " ").toLowerCase()}`, dramaLevel };
   }
@@ -4,12 +4,47 @@
  * Separated to avoid circular type references
  */
 
-import { internalMutation, internalQuery } from "./_generated/server";
+import { MutationCtx, internalMutation, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
 import { Doc, Id } from "./_generated/dataModel";
 import { createTickRng } from "./lib/rng";
-import { DEFAULTS, SOCIAL_DEFAULTS, TAX_DEFAULTS } from "./lib/constants";
-import { calculateAgentWealth, calculateTaxOwed } from "./lib/tax";
+import {
+  DEFAULTS,
+  GANG_GOVERNANCE_DEFAULTS,
+  GANG_WAR_DEFAULTS,
+  GIG_TEMPLATES,
+  JOB_MARKET_DEFAULTS,
+  LOAN_DEFAULTS,
+  LedgerReason,
+  MARKET_DEFAULTS,
+  NPC_CUSTOMER_DEFAULTS,
+  PRODUCTION_RECIPES,
+  PROPERTY_MARKET_DEFAULTS,
+  SKILL_TYPES,
+  SOCIAL_DEFAULTS,
+  SkillType,
+  TAX_DEFAULTS,
+  TRAINING_DEFAULTS,
+  WORLD_EVENT_DEFAULTS,
+  WORLD_EVENT_TYPES,
+} from "./lib/constants";
+import { calculateAgentWealth, calculateTaxOwed, calculateTradeTax } from "./lib/tax";
+import { getActiveWorldEvents, getWorldEventModifiers } from "./lib/worldEvents";
+import { getAgentSpeedBonus, getHopTicks } from "./lib/routes";
+import { addInventoryQty, closeOrderWithRefund, compareOrders, isOlderOrder } from "./lib/orderBook";
+import { getTreatyPartnersByGang } from "./lib/gangDiplomacy";
+import { recordGangTransaction, tallyProposal } from "./lib/gangGovernance";
+import { getInsurancePremium } from "./lib/insurance";
+import { seizeCollateral } from "./lib/loans";
+import { getTrainingFacility, getTrainingGain, practiceSkills, roundSkill } from "./lib/training";
+import { insertTracked } from "./lib/idLog";
+import {
+  closeListingWithRefund,
+  getPropertyValue,
+  getTargetPropertyValue,
+  getZoneHeatTotals,
+  transferPropertyOwnership,
+} from "./lib/propertyMarket";
 
 /**
  * Query to get world status for the tick runner
@@ -64,13 +99,22 @@ export const resolveBusyAgents = internalMutation({
           try {
             const job = await ctx.db.get(jobId) as Doc<"jobs"> | null;
             if (job) {
+              // Business openings are paid from the business's cash, if it has enough
+              const business = job.businessId ? await ctx.db.get(job.businessId) : null;
+              const paid = !job.businessId || (!!business && business.cashOnHand >= job.wage);
+              if (business && paid) {
+                await ctx.db.patch(business._id, { cashOnHand: business.cashOnHand - job.wage });
+              }
+
               // Pay wages
-              newCash = agent.cash + job.wage;
-              newStats.lifetimeEarnings = (agent.stats.lifetimeEarnings || 0) + job.wage;
+              if (paid) {
+                newCash = agent.cash + job.wage;
+                newStats.lifetimeEarnings = (agent.stats.lifetimeEarnings || 0) + job.wage;
+              }
               newStats.jobsCompleted = (agent.stats.jobsCompleted || 0) + 1;
 
               // Log JOB_COMPLETED event
-              await ctx.db.insert("events", {
+              const eventId = await ctx.db.insert("events", {
                 tick: currentTick,
                 timestamp: Date.now(),
                 type: "JOB_COMPLETED",
@@ -82,20 +126,68 @@ export const resolveBusyAgents = internalMutation({
                   jobTitle: job.title,
                   wage: job.wage,
                   newCash,
+                  ...(job.businessId ? { businessId: job.businessId, paid } : {}),
                 },
                 requestId: null,
               });
 
-              // Log in ledger
-              await ctx.db.insert("ledger", {
-                tick: currentTick,
-                agentId: agent._id,
-                type: "credit",
-                amount: job.wage,
-                reason: "JOB_WAGE",
-                balance: newCash,
-                refEventId: null,
-              });
+              if (paid) {
+                // Log in ledger
+                await ctx.db.insert("ledger", {
+                  tick: currentTick,
+                  agentId: agent._id,
+                  type: "credit",
+                  amount: job.wage,
+                  reason: job.businessId ? "BUSINESS_WAGE" : "JOB_WAGE",
+                  balance: newCash,
+                  refEventId: job.businessId ? eventId : null,
+                });
+
+                // And the business's side of it
+                if (business) {
+                  const gang = business.ownerGangId ? await ctx.db.get(business.ownerGangId) : null;
+                  const ownerId = business.ownerAgentId ?? gang?.leaderId ?? null;
+                  if (ownerId) {
+                    await ctx.db.insert("ledger", {
+                      tick: currentTick,
+                      agentId: ownerId,
+                      type: "debit",
+                      amount: job.wage,
+                      reason: "BUSINESS_WAGE",
+                      balance: business.cashOnHand - job.wage,
+                      refEventId: eventId,
+                      businessId: business._id,
+                    });
+                  }
+                }
+              } else {
+                // The employer owes the wage; the employee can sue for it
+                const claimId = await insertTracked(ctx, "wageClaims", {
+                  employeeId: agent._id,
+                  businessId: job.businessId!,
+                  jobId: job._id,
+                  amount: job.wage,
+                  status: "unpaid",
+                  createdTick: currentTick,
+                });
+                await ctx.db.insert("events", {
+                  tick: currentTick,
+                  timestamp: Date.now(),
+                  type: "WAGES_UNPAID",
+                  agentId: agent._id,
+                  zoneId: job.zoneId,
+                  entityId: claimId,
+                  payload: {
+                    claimId,
+                    jobId: job._id,
+                    jobTitle: job.title,
+                    businessId: job.businessId,
+                    businessName: business?.name ?? null,
+                    amount: job.wage,
+                  },
+                  requestId: null,
+                });
+              }
             }
           } catch (e) {
             // Job may have been deleted, just continue
@@ -136,6 +228,75 @@ export const resolveBusyAgents = internalMutation({
           }
         }
 
+        // Handle TRAVEL hop completion - arrive at the next stop, then start the following hop
+        if (busyAction && busyAction.startsWith("TRAVEL:")) {
+          const [stopSlug, ...remainingStops] = busyAction.replace("TRAVEL:", "").split(">");
+          const zone = await ctx.db
+            .query("zones")
+            .withIndex("by_slug", (q) => q.eq("slug", stopSlug))
+            .first();
+          if (zone) {
+            await ctx.db.patch(agent._id, {
+              locationZoneId: zone._id,
+            });
+
+            // Log MOVE_COMPLETED event for this hop
+            await ctx.db.insert("events", {
+              tick: currentTick,
+              timestamp: Date.now(),
+              type: "MOVE_COMPLETED",
+              agentId: agent._id,
+              zoneId: zone._id,
+              entityId: null,
+              payload: {
+                arrivedAt: zone.slug,
+                zoneName: zone.name,
+                remainingStops,
+              },
+              requestId: null,
+            });
+
+            // Start the next hop if its edge still exists
+            if (remainingStops.length > 0) {
+              const nextZone = await ctx.db
+                .query("zones")
+                .withIndex("by_slug", (q) => q.eq("slug", remainingStops[0]))
+                .first();
+              const edges = await ctx.db
+                .query("zoneEdges")
+                .withIndex("by_fromZoneId", (q) => q.eq("fromZoneId", zone._id))
+                .collect();
+              const edge = nextZone ? edges.find((e) => e.toZoneId === nextZone._id) : undefined;
+
+              if (edge) {
+                const speedBonus = await getAgentSpeedBonus(ctx, agent);
+                await ctx.db.patch(agent._id, {
+                  busyUntilTick: currentTick + getHopTicks(edge, speedBonus),
+                  busyAction: `TRAVEL:${remainingStops.join(">")}`,
+                });
+                resolvedCount++;
+                continue;
+              }
+            }
+
+            // Log TRAVEL_COMPLETED event (stoppedEarly if the route broke mid-trip)
+            await ctx.db.insert("events", {
+              tick: currentTick,
+              timestamp: Date.now(),
+              type: "TRAVEL_COMPLETED",
+              agentId: agent._id,
+              zoneId: zone._id,
+              entityId: null,
+              payload: {
+                arrivedAt: zone.slug,
+                zoneName: zone.name,
+                stoppedEarly: remainingStops.length > 0,
+              },
+              requestId: null,
+            });
+          }
+        }
+
         // Handle REST completion - restore stamina
         let newStamina = agent.stamina;
         if (busyAction === "REST") {
@@ -182,6 +343,77 @@ export const resolveBusyAgents = internalMutation({
           });
         }
 
+        // Handle PRODUCE completion - hand over the recipe's outputs
+        if (busyAction && busyAction.startsWith("PRODUCE:")) {
+          const [recipeSlug, businessId] = busyAction.replace("PRODUCE:", "").split(":");
+          const recipe = PRODUCTION_RECIPES[recipeSlug];
+          if (recipe) {
+            let inventory = agent.inventory;
+            for (const output of recipe.outputs) {
+              const item = await ctx.db
+                .query("items")
+                .withIndex("by_slug", (q) => q.eq("slug", output.itemSlug))
+                .unique();
+              if (item) {
+                inventory = addInventoryQty(inventory, item._id, output.qty);
+              }
+            }
+            await ctx.db.patch(agent._id, { inventory });
+            const business = await ctx.db.get(businessId as Id<"businesses">);
+
+            // Log PRODUCTION_COMPLETED event
+            await ctx.db.insert("events", {
+              tick: currentTick,
+              timestamp: Date.now(),
+              type: "PRODUCTION_COMPLETED",
+              agentId: agent._id,
+              zoneId: agent.locationZoneId,
+              entityId: businessId,
+              payload: {
+                recipe: recipeSlug,
+                recipeName: recipe.name,
+                businessId,
+                businessName: business?.name ?? null,
+                outputs: recipe.outputs,
+              },
+              requestId: null,
+            });
+          }
+        }
+
+        // Handle TRAIN completion - raise the skill (less the higher it already is)
+        if (busyAction && busyAction.startsWith("TRAIN:")) {
+          const skill = busyAction.replace("TRAIN:", "") as SkillType;
+          if (SKILL_TYPES.includes(skill)) {
+            const levelBefore = agent.skills[skill];
+            const gain = getTrainingGain(levelBefore);
+            const levelAfter = roundSkill(levelBefore + gain);
+            await ctx.db.patch(agent._id, {
+              skills: { ...agent.skills, [skill]: levelAfter },
+              skillsLastPracticedTick: practiceSkills(agent, [skill], currentTick),
+            });
+
+            // Log SKILL_TRAINED event
+            await ctx.db.insert("events", {
+              tick: currentTick,
+              timestamp: Date.now(),
+              type: "SKILL_TRAINED",
+              agentId: agent._id,
+              zoneId: agent.locationZoneId,
+              entityId: null,
+              payload: {
+                skill,
+                facility: getTrainingFacility(skill),
+                levelBefore,
+                levelAfter,
+                gain,
+                nextGain: getTrainingGain(levelAfter),
+              },
+              requestId: null,
+            });
+          }
+        }
+
         // Transition agent to idle with updated stats
         await ctx.db.patch(agent._id, {
           status: "idle",
@@ -214,6 +446,19 @@ export const processHeatDecay = internalMutation({
 
     const { heatDecayIdle, heatDecayBusy } = world.config;
 
+    // Best heatReduction among each gang's properties (safehouses and the like)
+    const gangHeatReduction = new Map<string, number>();
+    for (const gang of await ctx.db.query("gangs").collect()) {
+      const gangProperties = await ctx.db
+        .query("properties")
+        .withIndex("by_ownerGangId", (q) => q.eq("ownerGangId", gang._id))
+        .collect();
+      const best = Math.max(0, ...gangProperties.map((p) => p.heatReduction));
+      if (best > 0) {
+        gangHeatReduction.set(gang._id.toString(), best);
+      }
+    }
+
     let processedCount = 0;
 
     let cursor: string | null = null;
@@ -233,8 +478,12 @@ export const processHeatDecay = internalMutation({
               ? heatDecayIdle
               : heatDecayBusy;
 
+          // Gang properties speed up decay for every member (heatReduction is a percentage)
+          const heatReduction = agent.gangId ? gangHeatReduction.get(agent.gangId.toString()) ?? 0 : 0;
+          const boostedDecay = Math.round(decayRate * (1 + heatReduction / 100));
+
           // Apply decay (minimum 0)
-          const newHeat = Math.max(0, agent.heat - decayRate);
+          const newHeat = Math.max(0, agent.heat - boostedDecay);
 
           if (newHeat !== agent.heat) {
             await ctx.db.patch(agent._id, {
@@ -285,12 +534,22 @@ export const runArrestChecks = internalMutation({
       .withIndex("by_slug", (q) => q.eq("slug", "police_station"))
       .first();
 
+    // Active world events (police crackdowns raise arrest chance)
+    const activeWorldEvents = await ctx.db
+      .query("worldEvents")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
     for (const agent of idleAgents) {
       if (agent.heat > arrestThreshold) {
         checkCount++;
 
         // Calculate arrest chance
-        const arrestChance = (agent.heat - arrestThreshold) * DEFAULTS.arrestChanceMultiplier;
+        const { arrestChanceMultiplier } = getWorldEventModifiers(
+          activeWorldEvents.filter((e) => e.zoneId === null || e.zoneId === agent.locationZoneId)
+        );
+        const arrestChance =
+          (agent.heat - arrestThreshold) * DEFAULTS.arrestChanceMultiplier * arrestChanceMultiplier;
         const roll = rng.random();
 
         if (roll < arrestChance) {
@@ -369,6 +628,7 @@ export const logTickEvent = internalMutation({
     taxesAssessed: v.optional(v.number()),
     taxesPaid: v.optional(v.number()),
     taxEvaders: v.optional(v.number()),
+    priceChanges: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     await ctx.db.insert("events", {
@@ -389,6 +649,7 @@ export const logTickEvent = internalMutation({
         taxesAssessed: args.taxesAssessed ?? 0,
         taxesPaid: args.taxesPaid ?? 0,
         taxEvaders: args.taxEvaders ?? 0,
+        priceChanges: args.priceChanges ?? 0,
       },
       requestId: null,
     });
@@ -411,6 +672,7 @@ export const processTerritoryIncome = internalMutation({
     }
 
     const territories = await ctx.db.query("territories").collect();
+    const sharingPartners = await getTreatyPartnersByGang(ctx, "shared_territory");
     let processed = 0;
     let totalIncome = 0;
     let decayed = 0;
@@ -429,12 +691,15 @@ export const processTerritoryIncome = internalMutation({
         .withIndex("by_locationZoneId", (q) => q.eq("locationZoneId", territory.zoneId))
         .collect();
 
-      const gangMembersPresent = membersInZone.some((a) => a.gangId === territory.gangId);
+      // Members of gangs sharing territory with the owner hold it too
+      const partners = sharingPartners.get(territory.gangId.toString());
+      const gangMembersPresent = membersInZone.some(
+        (a) => a.gangId === territory.gangId || (a.gangId !== undefined && partners?.has(a.gangId.toString()))
+      );
 
       if (gangMembersPresent) {
         // Pay income and refresh defense
         const income = territory.incomePerTick;
-        await ctx.db.patch(gang._id, { treasury: gang.treasury + income });
         await ctx.db.patch(territory._id, {
           lastDefendedTick: world.tick,
           controlStrength: Math.min(100, territory.controlStrength + 1), // Slowly strengthen
@@ -442,7 +707,7 @@ export const processTerritoryIncome = internalMutation({
         totalIncome += income;
 
         // Log territory income event
-        await ctx.db.insert("events", {
+        const eventId = await ctx.db.insert("events", {
           tick: world.tick,
           timestamp: Date.now(),
           type: "TERRITORY_INCOME",
@@ -456,6 +721,16 @@ export const processTerritoryIncome = internalMutation({
           },
           requestId: null,
         });
+        await recordGangTransaction(
+          ctx,
+          gang,
+          gang.leaderId,
+          "credit",
+          income,
+          "GANG_TERRITORY_INCOME",
+          world.tick,
+          eventId
+        );
       } else {
         // Decay control
         const newControl = territory.controlStrength - SOCIAL_DEFAULTS.territoryControlDecayRate;
@@ -503,6 +778,435 @@ export const processTerritoryIncome = internalMutation({
   },
 });
 
+/**
+ * Settle a finished war: hand the winner the loser's territories it besieged
+ * plus a share of the loser's treasury, then close the war out
+ */
+async function endGangWar(
+  ctx: MutationCtx,
+  war: Doc<"gangWars">,
+  winnerGangId: Id<"gangs"> | null,
+  outcome: "victory" | "surrender" | "truce" | "forfeit",
+  currentTick: number
+): Promise<void> {
+  const attacker = await ctx.db.get(war.attackerGangId);
+  const defender = await ctx.db.get(war.defenderGangId);
+  const winner = winnerGangId === war.attackerGangId ? attacker : winnerGangId === war.defenderGangId ? defender : null;
+  const loser = winner ? (winner._id === war.attackerGangId ? defender : attacker) : null;
+
+  const territoriesTransferred: string[] = [];
+  let tribute = 0;
+
+  // A forfeiting gang has nothing left to hand over
+  if (winner && loser && outcome !== "forfeit") {
+    for (const contested of war.contestedZones) {
+      if (contested.besiegerGangId !== winner._id) continue;
+
+      const territory = await ctx.db
+        .query("territories")
+        .withIndex("by_zoneId", (q) => q.eq("zoneId", contested.zoneId))
+        .first();
+      if (!territory || territory.gangId !== loser._id) continue;
+
+      await ctx.db.patch(territory._id, {
+        gangId: winner._id,
+        controlStrength: 50,
+        claimedAt: Date.now(),
+        lastDefendedTick: currentTick,
+      });
+
+      const zone = await ctx.db.get(contested.zoneId);
+      territoriesTransferred.push(zone?.name ?? "Unknown");
+
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "TERRITORY_LOST",
+        agentId: null,
+        zoneId: contested.zoneId,
+        entityId: loser._id,
+        payload: {
+          gangName: loser.name,
+          reason: "war",
+          newGangId: winner._id,
+          newGangName: winner.name,
+        },
+        requestId: null,
+      });
+    }
+
+    tribute = Math.floor(loser.treasury * GANG_WAR_DEFAULTS.treasuryTribute);
+    if (tribute > 0) {
+      await recordGangTransaction(ctx, loser, winner.leaderId, "debit", tribute, "GANG_WAR_TRIBUTE", currentTick, null);
+      await recordGangTransaction(ctx, winner, loser.leaderId, "credit", tribute, "GANG_WAR_TRIBUTE", currentTick, null);
+    }
+  }
+
+  await ctx.db.patch(war._id, {
+    status: "ended",
+    outcome,
+    winnerGangId: winner?._id,
+    pendingOutcome: undefined,
+    endedTick: currentTick,
+  });
+
+  await ctx.db.insert("events", {
+    tick: currentTick,
+    timestamp: Date.now(),
+    type: "GANG_WAR_ENDED",
+    agentId: null,
+    zoneId: null,
+    entityId: war._id,
+    payload: {
+      warId: war._id,
+      outcome,
+      attackerGangName: attacker?.name ?? null,
+      defenderGangName: defender?.name ?? null,
+      attackerScore: war.attackerScore,
+      defenderScore: war.defenderScore,
+      winnerGangId: winner?._id ?? null,
+      winnerGangName: winner?.name ?? null,
+      loserGangName: loser?.name ?? null,
+      territoriesTransferred,
+      tribute,
+    },
+    requestId: null,
+  });
+}
+
+/**
+ * Process gang wars - besiege warring gangs' territories, then settle wars
+ * that were surrendered, agreed as truces, won on score or ran out of time
+ * An enemy that outnumbers a territory's defenders wears down its control and
+ * scores presence points; defenders who outnumber them score instead.
+ */
+export const processGangWars = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { sieges: 0, ended: 0 };
+    }
+
+    const currentTick = world.tick;
+    const wars = await ctx.db
+      .query("gangWars")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    let sieges = 0;
+    let ended = 0;
+
+    for (const war of wars) {
+      const attacker = await ctx.db.get(war.attackerGangId);
+      const defender = await ctx.db.get(war.defenderGangId);
+
+      // A gang that was deleted or disbanded forfeits
+      const attackerGone = !attacker || attacker.disbandedAt !== undefined;
+      const defenderGone = !defender || defender.disbandedAt !== undefined;
+      if (!attacker || !defender || attackerGone || defenderGone) {
+        const winnerGangId = attackerGone && !defenderGone
+          ? war.defenderGangId
+          : defenderGone && !attackerGone
+            ? war.attackerGangId
+            : null;
+        await endGangWar(ctx, war, winnerGangId, "forfeit", currentTick);
+        ended++;
+        continue;
+      }
+
+      // Surrender or agreed truce from last tick
+      if (war.pendingOutcome) {
+        await endGangWar(
+          ctx,
+          war,
+          war.pendingOutcome === "surrender" ? war.winnerGangId ?? null : null,
+          war.pendingOutcome,
+          currentTick
+        );
+        ended++;
+        continue;
+      }
+
+      // Sieges on each side's territories
+      const scores = {
+        [attacker._id.toString()]: war.attackerScore,
+        [defender._id.toString()]: war.defenderScore,
+      };
+      const contestedZones = [...war.contestedZones];
+
+      for (const [owner, enemy] of [[attacker, defender], [defender, attacker]]) {
+        const territories = await ctx.db
+          .query("territories")
+          .withIndex("by_gangId", (q) => q.eq("gangId", owner._id))
+          .collect();
+
+        for (const territory of territories) {
+          const agentsInZone = await ctx.db
+            .query("agents")
+            .withIndex("by_locationZoneId", (q) => q.eq("locationZoneId", territory.zoneId))
+            .collect();
+          const active = agentsInZone.filter((a) => a.status !== "jailed" && a.status !== "hospitalized");
+          const besiegers = active.filter((a) => a.gangId === enemy._id).length;
+          const defenders = active.filter((a) => a.gangId === owner._id).length;
+          if (besiegers === 0) continue;
+
+          const margin = besiegers - defenders;
+          if (margin <= 0) {
+            // Held off - the defenders score
+            scores[owner._id.toString()] += -margin * GANG_WAR_DEFAULTS.scorePerPresence;
+            continue;
+          }
+
+          // Besieged - control wears down (ownership only changes when the war ends)
+          const controlStrength = Math.max(
+            0,
+            territory.controlStrength - margin * GANG_WAR_DEFAULTS.siegeDamagePerMember
+          );
+          await ctx.db.patch(territory._id, { controlStrength });
+          scores[enemy._id.toString()] += margin * GANG_WAR_DEFAULTS.scorePerPresence;
+          sieges++;
+
+          const alreadyContested = contestedZones.some(
+            (z) => z.zoneId === territory.zoneId && z.besiegerGangId === enemy._id
+          );
+          if (!alreadyContested) {
+            contestedZones.push({ zoneId: territory.zoneId, besiegerGangId: enemy._id });
+
+            const zone = await ctx.db.get(territory.zoneId);
+            await ctx.db.insert("events", {
+              tick: currentTick,
+              timestamp: Date.now(),
+              type: "TERRITORY_CONTESTED",
+              agentId: null,
+              zoneId: territory.zoneId,
+              entityId: enemy._id,
+              payload: {
+                warId: war._id,
+                gangName: enemy.name,
+                zoneName: zone?.name ?? null,
+                defendingGangId: owner._id,
+                defendingGangName: owner.name,
+                besiegers,
+                defenders,
+                controlStrength,
+              },
+              requestId: null,
+            });
+          }
+        }
+      }
+
+      const updatedWar = {
+        ...war,
+        attackerScore: scores[attacker._id.toString()],
+        defenderScore: scores[defender._id.toString()],
+        contestedZones,
+      };
+      await ctx.db.patch(war._id, {
+        attackerScore: updatedWar.attackerScore,
+        defenderScore: updatedWar.defenderScore,
+        contestedZones,
+      });
+
+      // Decided on score once a side reaches the winning score or time runs out
+      const decided =
+        updatedWar.attackerScore >= GANG_WAR_DEFAULTS.winningScore ||
+        updatedWar.defenderScore >= GANG_WAR_DEFAULTS.winningScore ||
+        currentTick >= war.endsAtTick;
+      if (decided) {
+        const winnerGangId =
+          updatedWar.attackerScore > updatedWar.defenderScore
+            ? attacker._id
+            : updatedWar.defenderScore > updatedWar.attackerScore
+              ? defender._id
+              : null;
+        await endGangWar(ctx, updatedWar, winnerGangId, winnerGangId ? "victory" : "truce", currentTick);
+        ended++;
+      }
+    }
+
+    return { sieges, ended };
+  },
+});
+
+/**
+ * Carry out a passed gang proposal, paying from the treasury
+ * @returns Why it could not be carried out, or null once paid
+ */
+async function executeGangProposal(
+  ctx: MutationCtx,
+  proposal: Doc<"gangProposals">,
+  gang: Doc<"gangs">,
+  currentTick: number
+): Promise<string | null> {
+  const target = proposal.targetAgentId ? await ctx.db.get(proposal.targetAgentId) : null;
+  const property = proposal.propertyId ? await ctx.db.get(proposal.propertyId) : null;
+
+  // Re-check everything that may have changed during the vote
+  if (proposal.kind === "property") {
+    if (!property || property.ownerId || property.ownerGangId) {
+      return "property_unavailable";
+    }
+  } else if (!target) {
+    return "target_missing";
+  } else if (proposal.kind === "payout" && target.gangId !== gang._id) {
+    return "recipient_left_gang";
+  }
+
+  const amount = proposal.kind === "property" ? getPropertyValue(property!) : proposal.amount;
+  if (gang.treasury < amount) {
+    return "insufficient_treasury";
+  }
+
+  const eventId = await ctx.db.insert("events", {
+    tick: currentTick,
+    timestamp: Date.now(),
+    type: "GANG_PROPOSAL_PASSED",
+    agentId: proposal.proposerId,
+    zoneId: property?.zoneId ?? null,
+    entityId: proposal._id,
+    payload: {
+      proposalId: proposal._id,
+      gangName: gang.name,
+      kind: proposal.kind,
+      amount,
+      targetAgentId: target?._id ?? null,
+      targetAgentName: target?.name ?? null,
+      propertyName: property?.name ?? null,
+    },
+    requestId: null,
+  });
+
+  switch (proposal.kind) {
+    case "payout":
+    case "hire": {
+      const reason = proposal.kind === "payout" ? "GANG_PAYOUT" : "GANG_HIRE";
+      await recordGangTransaction(ctx, gang, target!._id, "debit", amount, reason, currentTick, eventId);
+      const newCash = target!.cash + amount;
+      await ctx.db.patch(target!._id, { cash: newCash });
+      await ctx.db.insert("ledger", {
+        tick: currentTick,
+        agentId: target!._id,
+        type: "credit",
+        amount,
+        reason,
+        balance: newCash,
+        refEventId: eventId,
+      });
+      break;
+    }
+    case "bounty": {
+      await recordGangTransaction(ctx, gang, proposal.proposerId, "debit", amount, "GANG_BOUNTY", currentTick, eventId);
+      await insertTracked(ctx, "bounties", {
+        targetAgentId: target!._id,
+        placedByAgentId: proposal.proposerId,
+        placedByGangId: gang._id,
+        amount,
+        reason: proposal.reason ?? `Funded by ${gang.name}`,
+        status: "active",
+        createdAt: Date.now(),
+        expiresAt: currentTick + GTA_DEFAULTS.bountyDurationTicks,
+      });
+      break;
+    }
+    case "property": {
+      await recordGangTransaction(ctx, gang, proposal.proposerId, "debit", amount, "GANG_PROPERTY_PURCHASE", currentTick, eventId);
+      await ctx.db.patch(property!._id, { ownerGangId: gang._id });
+      break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Process gang proposals - close votes and carry out the ones that pass
+ * A proposal passes early once more than half the gang's vote weight backs it,
+ * and fails early once half is against it. At the deadline it needs quorum
+ * and more yes than no weight.
+ */
+export const processGangProposals = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { passed: 0, failed: 0 };
+    }
+
+    const currentTick = world.tick;
+    const proposals = await ctx.db
+      .query("gangProposals")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .collect();
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const proposal of proposals) {
+      const gang = await ctx.db.get(proposal.gangId);
+      const { yes, no, total } = await tallyProposal(ctx, proposal);
+
+      let outcome: "pass" | "rejected" | "expired" | null = null;
+      let failureReason: string | null = null;
+      if (!gang || gang.disbandedAt) {
+        outcome = "expired";
+        failureReason = "gang_disbanded";
+      } else if (yes > total / 2) {
+        outcome = "pass";
+      } else if (no >= total / 2) {
+        outcome = "rejected";
+      } else if (currentTick >= proposal.closesAtTick) {
+        const quorumMet = yes + no >= total * GANG_GOVERNANCE_DEFAULTS.quorum;
+        outcome = !quorumMet ? "expired" : yes > no ? "pass" : "rejected";
+        failureReason = quorumMet ? null : "no_quorum";
+      }
+
+      if (!outcome) continue;
+
+      if (outcome === "pass") {
+        failureReason = await executeGangProposal(ctx, proposal, gang!, currentTick);
+        if (!failureReason) {
+          await ctx.db.patch(proposal._id, { status: "passed", closedTick: currentTick });
+          passed++;
+          continue;
+        }
+      }
+
+      const status = outcome === "pass" ? "failed" : outcome;
+      await ctx.db.patch(proposal._id, {
+        status,
+        closedTick: currentTick,
+        failureReason: failureReason ?? undefined,
+      });
+
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "GANG_PROPOSAL_FAILED",
+        agentId: proposal.proposerId,
+        zoneId: null,
+        entityId: proposal._id,
+        payload: {
+          proposalId: proposal._id,
+          gangName: gang?.name ?? null,
+          kind: proposal.kind,
+          amount: proposal.amount,
+          status,
+          reason: failureReason ?? "voted_down",
+          yesWeight: yes,
+          noWeight: no,
+          totalWeight: total,
+        },
+        requestId: null,
+      });
+      failed++;
+    }
+
+    return { passed, failed };
+  },
+});
+
 /**
  * Process rent payments - auto-pay or evict overdue renters
  */
@@ -556,6 +1260,20 @@ export const processRentPayments = internalMutation({
           if (owner) {
             await ctx.db.patch(owner._id, { cash: owner.cash + property.rentPrice });
           }
+        } else if (property.ownerGangId) {
+          const ownerGang = await ctx.db.get(property.ownerGangId);
+          if (ownerGang) {
+            await recordGangTransaction(
+              ctx,
+              ownerGang,
+              tenant._id,
+              "credit",
+              property.rentPrice,
+              "GANG_RENT",
+              world.tick,
+              null
+            );
+          }
         }
 
         // Update next rent due
@@ -668,6 +1386,8 @@ export const processCoopActions = internalMutation({
       .withIndex("by_status", (q) => q.eq("status", "recruiting"))
       .collect();
 
+    const alliances = await getTreatyPartnersByGang(ctx, "alliance");
+
     let executed = 0;
     let cancelled = 0;
 
@@ -749,10 +1469,16 @@ export const processCoopActions = internalMutation({
       );
       successChance += participantBonus;
 
-      // Same gang bonus
+      // Same gang bonus, or a smaller bonus when every crew involved is allied
       const initiator = participants[0];
+      const crewGangIds = [...new Set(participants.map((p) => p.gangId?.toString() ?? null))];
       if (initiator.gangId && participants.every((p) => p.gangId === initiator.gangId)) {
         successChance += SOCIAL_DEFAULTS.coopSameGangBonus;
+      } else if (
+        !crewGangIds.includes(null) &&
+        crewGangIds.every((a) => crewGangIds.every((b) => a === b || alliances.get(a!)?.has(b!)))
+      ) {
+        successChance += SOCIAL_DEFAULTS.coopAlliedGangBonus;
       }
 
       // Average stealth bonus
@@ -800,6 +1526,7 @@ export const processCoopActions = internalMutation({
               ...socialStats,
               coopCrimesCompleted: socialStats.coopCrimesCompleted + 1,
             },
+            skillsLastPracticedTick: practiceSkills(participant, ["stealth"], world.tick),
           });
 
           // Ledger entry
@@ -859,6 +1586,7 @@ export const processCoopActions = internalMutation({
             health: newHealth,
             heat: newHeat,
             status: hospitalized ? "hospitalized" : participant.status,
+            skillsLastPracticedTick: practiceSkills(participant, ["stealth"], world.tick),
           });
 
           if (hospitalized) {
@@ -1000,6 +1728,68 @@ export const processFriendshipDecay = internalMutation({
 // TAX PROCESSING
 // ============================================================================
 
+/**
+ * Record a seizure of an agent's assets
+ * Logs ASSETS_SEIZED and debits seized cash in the ledger. Seizures by the
+ * government (taxes, bank foreclosures) also count toward its seizure totals.
+ * The caller has already taken the assets.
+ */
+async function recordAssetSeizure(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  tick: number,
+  seizure: {
+    cashSeized: number;
+    itemsSeized: number;
+    newCash: number;
+    zoneId: Id<"zones"> | null;
+    ledgerReason: LedgerReason;
+    toGovernment: boolean;
+    payload: Record<string, unknown>;
+  }
+): Promise<Id<"events">> {
+  const { cashSeized, itemsSeized } = seizure;
+
+  if (seizure.toGovernment) {
+    const government = await ctx.db.query("government").first();
+    if (government) {
+      await ctx.db.patch(government._id, {
+        totalSeizedCash: government.totalSeizedCash + cashSeized,
+        totalSeizedItems: government.totalSeizedItems + itemsSeized,
+      });
+    }
+  }
+
+  const eventId = await ctx.db.insert("events", {
+    tick,
+    timestamp: Date.now(),
+    type: "ASSETS_SEIZED",
+    agentId: agent._id,
+    zoneId: seizure.zoneId,
+    entityId: null,
+    payload: {
+      cashSeized,
+      itemsSeized,
+      ...seizure.payload,
+    },
+    requestId: null,
+  });
+
+  if (cashSeized > 0) {
+    await ctx.db.insert("ledger", {
+      tick,
+      agentId: agent._id,
+      type: "debit",
+      amount: cashSeized,
+      reason: seizure.ledgerReason,
+      balance: seizure.newCash,
+      refEventId: eventId,
+    });
+  }
+
+  return eventId;
+}
+
 /**
  * Process taxes - assess new taxes, auto-pay if possible, jail + seize assets if not
  */
@@ -1144,14 +1934,6 @@ export const processTaxes = internalMutation({
                 taxDueTick: currentTick + jailDuration + TAX_DEFAULTS.taxIntervalTicks,
               });
 
-              // Update government seizures
-              if (government) {
-                await ctx.db.patch(government._id, {
-                  totalSeizedCash: government.totalSeizedCash + cashSeized,
-                  totalSeizedItems: government.totalSeizedItems + itemsSeized,
-                });
-              }
-
               // Log TAX_EVADED event
               await ctx.db.insert("events", {
                 tick: currentTick,
@@ -1169,35 +1951,17 @@ export const processTaxes = internalMutation({
                 requestId: null,
               });
 
-              // Log ASSETS_SEIZED event
-              await ctx.db.insert("events", {
-                tick: currentTick,
-                timestamp: Date.now(),
-                type: "ASSETS_SEIZED",
-                agentId: agent._id,
+              // Government seizure totals, ASSETS_SEIZED event and ledger entry
+              await recordAssetSeizure(ctx, agent, currentTick, {
+                cashSeized,
+                itemsSeized,
+                newCash,
                 zoneId: policeStation?._id ?? null,
-                entityId: null,
-                payload: {
-                  cashSeized,
-                  itemsSeized,
-                  reputationLost: TAX_DEFAULTS.taxEvasionReputationPenalty,
-                },
-                requestId: null,
+                ledgerReason: "TAX_SEIZURE",
+                toGovernment: true,
+                payload: { reputationLost: TAX_DEFAULTS.taxEvasionReputationPenalty },
               });
 
-              // Ledger entry for seizure
-              if (cashSeized > 0) {
-                await ctx.db.insert("ledger", {
-                  tick: currentTick,
-                  agentId: agent._id,
-                  type: "debit",
-                  amount: cashSeized,
-                  reason: "TAX_SEIZURE",
-                  balance: newCash,
-                  refEventId: null,
-                });
-              }
-
               evaded++;
             }
           }
@@ -1261,61 +2025,1379 @@ export const processTaxes = internalMutation({
 });
 
 // ============================================================================
-// GTA-LIKE FREEDOM FEATURE TICK PROCESSORS
+// WORLD EVENT PROCESSING
 // ============================================================================
 
-import { GTA_DEFAULTS } from "./lib/constants";
-
 /**
- * Process bounty expiration - expire old bounties and refund 50%
+ * Process world events - end expired events and roll for a new random
+ * market crash, police crackdown or job drought
  */
-export const processBountyExpiration = internalMutation({
-  args: {},
-  handler: async (ctx) => {
+export const processWorldEvents = internalMutation({
+  args: {
+    seed: v.string(),
+    tick: v.number(),
+  },
+  handler: async (ctx, args) => {
     const world = await ctx.db.query("world").first();
     if (!world) {
-      return { expired: 0, refunded: 0 };
+      return { started: 0, ended: 0 };
     }
 
     const currentTick = world.tick;
+    const rng = createTickRng(args.seed, args.tick, "worldEvents");
 
-    // Find all active bounties
-    const activeBounties = await ctx.db
-      .query("bounties")
+    const activeEvents = await ctx.db
+      .query("worldEvents")
       .withIndex("by_status", (q) => q.eq("status", "active"))
       .collect();
 
-    let expired = 0;
-    let totalRefunded = 0;
+    // 1. End events whose duration is over
+    let ended = 0;
+    const stillActive: Doc<"worldEvents">[] = [];
+    for (const worldEvent of activeEvents) {
+      if (worldEvent.endTick > currentTick) {
+        stillActive.push(worldEvent);
+        continue;
+      }
 
-    for (const bounty of activeBounties) {
-      if (bounty.expiresAt <= currentTick) {
-        // Expire the bounty
-        await ctx.db.patch(bounty._id, { status: "expired" });
+      await ctx.db.patch(worldEvent._id, { status: "ended" });
+
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "WORLD_EVENT_ENDED",
+        agentId: null,
+        zoneId: worldEvent.zoneId,
+        entityId: worldEvent._id,
+        payload: {
+          worldEventId: worldEvent._id,
+          eventType: worldEvent.type,
+          citywide: worldEvent.zoneId === null,
+          startTick: worldEvent.startTick,
+        },
+        requestId: null,
+      });
 
-        // Refund 50% to placer
-        const refundAmount = Math.floor(bounty.amount * GTA_DEFAULTS.bountyExpiredRefund);
-        const placer = await ctx.db.get(bounty.placedByAgentId);
+      ended++;
+    }
 
-        if (placer && refundAmount > 0) {
-          await ctx.db.patch(placer._id, { cash: placer.cash + refundAmount });
+    // 2. Roll for a new event
+    if (
+      stillActive.length >= WORLD_EVENT_DEFAULTS.maxActiveEvents ||
+      !rng.randomChance(WORLD_EVENT_DEFAULTS.eventChancePerTick)
+    ) {
+      return { started: 0, ended };
+    }
 
-          // Log refund in ledger
-          await ctx.db.insert("ledger", {
-            tick: currentTick,
-            agentId: placer._id,
-            type: "credit",
-            amount: refundAmount,
-            reason: "BOUNTY_EXPIRED_REFUND",
-            balance: placer.cash + refundAmount,
-            refEventId: null,
-          });
+    const type = rng.randomChoice(WORLD_EVENT_TYPES);
+    const zones = await ctx.db.query("zones").collect();
+    if (zones.length === 0) {
+      return { started: 0, ended };
+    }
 
-          totalRefunded += refundAmount;
-        }
+    // Job droughts are always local
+    const citywide =
+      type !== "JOB_DROUGHT" && rng.randomChance(WORLD_EVENT_DEFAULTS.citywideChance);
+    const zone = citywide ? null : rng.randomChoice(zones);
+    const zoneId = zone?._id ?? null;
+
+    // Don't stack the same event on the same scope
+    const duplicate = stillActive.some(
+      (e) => e.type === type && (e.zoneId === null || e.zoneId === zoneId)
+    );
+    if (duplicate) {
+      return { started: 0, ended };
+    }
 
-        // Get target name for event
-        const target = await ctx.db.get(bounty.targetAgentId);
+    const duration = rng.randomInt(WORLD_EVENT_DEFAULTS.durationMin, WORLD_EVENT_DEFAULTS.durationMax);
+    const worldEventId = await ctx.db.insert("worldEvents", {
+      type,
+      zoneId,
+      status: "active",
+      startTick: currentTick,
+      endTick: currentTick + duration,
+    });
+
+    await ctx.db.insert("events", {
+      tick: currentTick,
+      timestamp: Date.now(),
+      type,
+      agentId: null,
+      zoneId,
+      entityId: worldEventId,
+      payload: {
+        worldEventId,
+        zoneName: zone?.name ?? null,
+        citywide,
+        duration,
+        endTick: currentTick + duration,
+      },
+      requestId: null,
+    });
+
+    return { started: 1, ended };
+  },
+});
+
+// ============================================================================
+// MARKET PROCESSING
+// ============================================================================
+
+/**
+ * Process market prices - recompute per-zone, per-item prices from the
+ * BUY/SELL volume of the previous tick and reprice NPC-owned shops
+ */
+export const processMarketPrices = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { updated: 0, priceChanges: 0 };
+    }
+
+    const currentTick = world.tick;
+    const tradeTick = currentTick - 1;
+
+    // Aggregate last tick's trade volume per zone/item
+    // BUY events add demand, SELL events add supply
+    const volumeByKey: Record<string, { zoneId: Id<"zones">; itemId: Id<"items">; bought: number; sold: number }> = {};
+    for (const type of ["BUY", "SELL"] as const) {
+      const trades = await ctx.db
+        .query("events")
+        .withIndex("by_type_tick", (q) => q.eq("type", type).eq("tick", tradeTick))
+        .collect();
+
+      for (const trade of trades) {
+        const payload = trade.payload as { itemId?: Id<"items">; qty?: number } | null;
+        if (!trade.zoneId || !payload?.itemId || !payload.qty) continue;
+
+        const key = `${trade.zoneId}:${payload.itemId}`;
+        const entry = volumeByKey[key] ?? { zoneId: trade.zoneId, itemId: payload.itemId, bought: 0, sold: 0 };
+        if (type === "BUY") {
+          entry.bought += payload.qty;
+        } else {
+          entry.sold += payload.qty;
+        }
+        volumeByKey[key] = entry;
+      }
+    }
+
+    // Create market rows for traded pairs that don't have one yet
+    const marketRows = await ctx.db.query("marketState").collect();
+    const existingKeys = new Set(marketRows.map((row) => `${row.zoneId}:${row.itemId}`));
+    for (const [key, volume] of Object.entries(volumeByKey)) {
+      if (existingKeys.has(key)) continue;
+      const item = await ctx.db.get(volume.itemId);
+      if (!item) continue;
+
+      const rowId = await ctx.db.insert("marketState", {
+        zoneId: volume.zoneId,
+        itemId: volume.itemId,
+        price: item.basePrice,
+        supply: MARKET_DEFAULTS.baselineVolume,
+        demand: MARKET_DEFAULTS.baselineVolume,
+        lastUpdatedTick: currentTick,
+      });
+      const row = await ctx.db.get(rowId);
+      if (row) {
+        marketRows.push(row);
+      }
+    }
+
+    // Active world events (market crashes depress prices)
+    const activeWorldEvents = await ctx.db
+      .query("worldEvents")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    // Cache item base prices and names
+    const basePriceByItemId: Record<string, number> = {};
+    const itemNameById: Record<string, string> = {};
+    const items = await ctx.db.query("items").collect();
+    for (const item of items) {
+      basePriceByItemId[item._id.toString()] = item.basePrice;
+      itemNameById[item._id.toString()] = item.name;
+    }
+
+    let updated = 0;
+    let priceChanges = 0;
+    const changedByZone: Record<string, Array<{ itemId: Id<"items">; oldPrice: number; newPrice: number }>> = {};
+
+    for (const row of marketRows) {
+      const basePrice = basePriceByItemId[row.itemId.toString()];
+      if (basePrice === undefined) continue;
+
+      const volume = volumeByKey[`${row.zoneId}:${row.itemId}`];
+      const baseline = MARKET_DEFAULTS.baselineVolume;
+
+      // Decay toward baseline, then add this tick's volume
+      const demand = baseline + (row.demand - baseline) * MARKET_DEFAULTS.volumeRetention + (volume?.bought ?? 0);
+      const supply = baseline + (row.supply - baseline) * MARKET_DEFAULTS.volumeRetention + (volume?.sold ?? 0);
+
+      // Price moves with the demand/supply imbalance (-1 to 1), clamped around base price
+      const imbalance = (demand - supply) / (demand + supply);
+      const multiplier = Math.min(
+        MARKET_DEFAULTS.maxPriceMultiplier,
+        Math.max(MARKET_DEFAULTS.minPriceMultiplier, 1 + imbalance * MARKET_DEFAULTS.priceElasticity)
+      );
+      const { priceMultiplier } = getWorldEventModifiers(
+        activeWorldEvents.filter((e) => e.zoneId === null || e.zoneId === row.zoneId)
+      );
+      const newPrice = Math.max(1, Math.round(basePrice * multiplier * priceMultiplier));
+
+      const roundedDemand = Math.round(demand * 100) / 100;
+      const roundedSupply = Math.round(supply * 100) / 100;
+      if (newPrice === row.price && roundedDemand === row.demand && roundedSupply === row.supply) {
+        continue;
+      }
+
+      await ctx.db.patch(row._id, {
+        price: newPrice,
+        supply: roundedSupply,
+        demand: roundedDemand,
+        lastUpdatedTick: currentTick,
+      });
+      updated++;
+
+      if (newPrice === row.price) continue;
+
+      // Reprice NPC-owned shops in the zone by the same ratio (keeps their markup)
+      const businesses = await ctx.db
+        .query("businesses")
+        .withIndex("by_zoneId", (q) => q.eq("zoneId", row.zoneId))
+        .collect();
+      for (const business of businesses) {
+        if (business.ownerAgentId !== null || business.ownerGangId) continue;
+        const invIdx = business.inventory.findIndex((inv) => inv.itemId === row.itemId);
+        if (invIdx === -1) continue;
+
+        const inventory = [...business.inventory];
+        inventory[invIdx] = {
+          ...inventory[invIdx],
+          price: Math.max(1, Math.round((inventory[invIdx].price * newPrice) / row.price)),
+        };
+        await ctx.db.patch(business._id, { inventory });
+      }
+
+      // Only announce meaningful moves
+      const changePercent = (newPrice - row.price) / row.price;
+      if (Math.abs(changePercent) >= MARKET_DEFAULTS.priceChangeThreshold) {
+        await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "PRICE_CHANGE",
+          agentId: null,
+          zoneId: row.zoneId,
+          entityId: row.itemId,
+          payload: {
+            itemId: row.itemId,
+            itemName: itemNameById[row.itemId.toString()],
+            oldPrice: row.price,
+            newPrice,
+            basePrice,
+            changePercent: Math.round(changePercent * 100),
+            supply: roundedSupply,
+            demand: roundedDemand,
+          },
+          requestId: null,
+        });
+
+        const zoneKey = row.zoneId.toString();
+        changedByZone[zoneKey] = changedByZone[zoneKey] ?? [];
+        changedByZone[zoneKey].push({ itemId: row.itemId, oldPrice: row.price, newPrice });
+        priceChanges++;
+      }
+    }
+
+    // One MARKET_UPDATE per zone that had notable price moves
+    for (const [zoneKey, changes] of Object.entries(changedByZone)) {
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "MARKET_UPDATE",
+        agentId: null,
+        zoneId: zoneKey as Id<"zones">,
+        entityId: null,
+        payload: {
+          changes,
+          tradeTick,
+        },
+        requestId: null,
+      });
+    }
+
+    return { updated, priceChanges };
+  },
+});
+
+/**
+ * Process the order book - expire stale orders, then match each zone/item book
+ * Bids and asks cross at the resting (older) order's price. The buyer keeps any
+ * price improvement; the seller pays trade tax on their gain over base price.
+ */
+export const processOrderBook = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { trades: 0, expired: 0 };
+    }
+
+    const currentTick = world.tick;
+    const openOrders = await ctx.db
+      .query("marketOrders")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .collect();
+
+    // Expire stale orders and group the rest by zone/item
+    let expired = 0;
+    const books: Record<string, { bids: Doc<"marketOrders">[]; asks: Doc<"marketOrders">[] }> = {};
+    for (const order of openOrders) {
+      if (currentTick >= order.expiresAtTick) {
+        const item = await ctx.db.get(order.itemId);
+        const eventId = await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "ORDER_EXPIRED",
+          agentId: order.agentId,
+          zoneId: order.zoneId,
+          entityId: order._id,
+          payload: {
+            orderId: order._id,
+            side: order.side,
+            itemName: item?.name ?? null,
+            price: order.price,
+            remainingQty: order.remainingQty,
+            refundedCash: order.escrowCash,
+          },
+          requestId: null,
+        });
+        await closeOrderWithRefund(ctx, order, "expired", currentTick, eventId);
+        expired++;
+        continue;
+      }
+
+      const key = `${order.zoneId}:${order.itemId}`;
+      const book = books[key] ?? { bids: [], asks: [] };
+      if (order.side === "buy") {
+        book.bids.push(order);
+      } else {
+        book.asks.push(order);
+      }
+      books[key] = book;
+    }
+
+    let trades = 0;
+    let government = await ctx.db.query("government").first();
+
+    // Seller wealth for the trade tax, assessed once per tick (a full asset scan each)
+    const sellerWealthById = new Map<string, number>();
+
+    for (const { bids, asks } of Object.values(books)) {
+      if (bids.length === 0 || asks.length === 0) continue;
+      bids.sort(compareOrders);
+      asks.sort(compareOrders);
+
+      const item = await ctx.db.get(bids[0].itemId);
+      if (!item) continue;
+
+      let lastTradePrice: number | null = null;
+
+      for (const bid of bids) {
+        for (const ask of asks) {
+          if (bid.remainingQty === 0) break;
+          if (ask.price > bid.price) break;
+          if (ask.remainingQty === 0 || ask.agentId === bid.agentId) continue;
+
+          const buyer = await ctx.db.get(bid.agentId);
+          const seller = await ctx.db.get(ask.agentId);
+          if (!buyer || !seller) continue;
+
+          // Resting order sets the price
+          const unitPrice = isOlderOrder(bid, ask) ? bid.price : ask.price;
+          const qty = Math.min(bid.remainingQty, ask.remainingQty);
+          const total = unitPrice * qty;
+          const priceImprovement = (bid.price - unitPrice) * qty;
+
+          // Tax the seller on their gain, at the bracket of their wealth this tick
+          let sellerWealth = sellerWealthById.get(seller._id);
+          if (sellerWealth === undefined) {
+            sellerWealth = await calculateAgentWealth(ctx, seller);
+            sellerWealthById.set(seller._id, sellerWealth);
+          }
+          const tax = calculateTradeTax(sellerWealth, unitPrice, item.basePrice, qty);
+
+          // Update orders (mutate local copies so later matches see the fill)
+          bid.remainingQty -= qty;
+          bid.escrowCash -= bid.price * qty;
+          ask.remainingQty -= qty;
+          for (const order of [bid, ask]) {
+            const filled = order.remainingQty === 0;
+            if (filled) {
+              order.status = "filled";
+            }
+            await ctx.db.patch(order._id, {
+              remainingQty: order.remainingQty,
+              escrowCash: order.escrowCash,
+              status: order.status,
+              closedTick: filled ? currentTick : undefined,
+            });
+          }
+
+          // Buyer receives items plus any escrow freed by a better price
+          const buyerCash = buyer.cash + priceImprovement;
+          await ctx.db.patch(buyer._id, {
+            cash: buyerCash,
+            inventory: addInventoryQty(buyer.inventory, item._id, qty),
+          });
+
+          // Seller receives proceeds minus tax
+          const sellerCashBeforeTax = seller.cash + total;
+          const sellerCash = sellerCashBeforeTax - tax;
+          await ctx.db.patch(seller._id, { cash: sellerCash });
+
+          if (tax > 0) {
+            if (!government) {
+              const govId = await ctx.db.insert("government", {
+                totalTaxRevenue: 0,
+                totalSeizedCash: 0,
+                totalSeizedItems: 0,
+              });
+              government = await ctx.db.get(govId);
+            }
+            if (government) {
+              government = { ...government, totalTaxRevenue: government.totalTaxRevenue + tax };
+              await ctx.db.patch(government._id, { totalTaxRevenue: government.totalTaxRevenue });
+            }
+          }
+
+          // Each side sees the trade in its own event feed
+          const tradePayload = {
+            itemId: item._id,
+            itemSlug: item.slug,
+            itemName: item.name,
+            qty,
+            unitPrice,
+            total,
+            buyOrderId: bid._id,
+            sellOrderId: ask._id,
+            buyerAgentId: buyer._id,
+            buyerName: buyer.name,
+            sellerAgentId: seller._id,
+            sellerName: seller.name,
+          };
+          const buyerEventId = await ctx.db.insert("events", {
+            tick: currentTick,
+            timestamp: Date.now(),
+            type: "TRADE_EXECUTED",
+            agentId: buyer._id,
+            zoneId: bid.zoneId,
+            entityId: bid._id,
+            payload: { ...tradePayload, role: "buyer", priceImprovement },
+            requestId: null,
+          });
+          const sellerEventId = await ctx.db.insert("events", {
+            tick: currentTick,
+            timestamp: Date.now(),
+            type: "TRADE_EXECUTED",
+            agentId: seller._id,
+            zoneId: ask.zoneId,
+            entityId: ask._id,
+            payload: { ...tradePayload, role: "seller", tax, netProceeds: total - tax },
+            requestId: null,
+          });
+
+          // Ledger entries (the buyer's cost was debited as ORDER_ESCROW)
+          if (priceImprovement > 0) {
+            await ctx.db.insert("ledger", {
+              tick: currentTick,
+              agentId: buyer._id,
+              type: "credit",
+              amount: priceImprovement,
+              reason: "ORDER_REFUND",
+              balance: buyerCash,
+              refEventId: buyerEventId,
+            });
+          }
+          await ctx.db.insert("ledger", {
+            tick: currentTick,
+            agentId: seller._id,
+            type: "credit",
+            amount: total,
+            reason: "TRADE_SALE",
+            balance: sellerCashBeforeTax,
+            refEventId: sellerEventId,
+          });
+          if (tax > 0) {
+            await ctx.db.insert("ledger", {
+              tick: currentTick,
+              agentId: seller._id,
+              type: "debit",
+              amount: tax,
+              reason: "TAX_PAYMENT",
+              balance: sellerCash,
+              refEventId: sellerEventId,
+            });
+          }
+
+          lastTradePrice = unitPrice;
+          trades++;
+        }
+      }
+
+      // Record the last traded price for price discovery
+      if (lastTradePrice !== null) {
+        const row = await ctx.db
+          .query("marketState")
+          .withIndex("by_zoneId_itemId", (q) => q.eq("zoneId", bids[0].zoneId).eq("itemId", item._id))
+          .first();
+        if (row) {
+          await ctx.db.patch(row._id, { lastTradePrice, lastTradeTick: currentTick });
+        } else {
+          await ctx.db.insert("marketState", {
+            zoneId: bids[0].zoneId,
+            itemId: item._id,
+            price: item.basePrice,
+            supply: MARKET_DEFAULTS.baselineVolume,
+            demand: MARKET_DEFAULTS.baselineVolume,
+            lastUpdatedTick: currentTick,
+            lastTradePrice,
+            lastTradeTick: currentTick,
+          });
+        }
+      }
+    }
+
+    return { trades, expired };
+  },
+});
+
+/**
+ * Process the property market - settle closing auctions, expire stale
+ * listings and move property values toward their zone's target
+ * Listings whose seller no longer owns the property are cancelled and any
+ * escrowed bid is refunded.
+ */
+export const processPropertyMarket = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { sold: 0, expired: 0, revalued: 0 };
+    }
+
+    const currentTick = world.tick;
+    const openListings = await ctx.db
+      .query("propertyListings")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .collect();
+
+    let sold = 0;
+    let expired = 0;
+
+    for (const listing of openListings) {
+      const property = await ctx.db.get(listing.propertyId);
+
+      // Property changed hands some other way
+      if (!property || property.ownerId !== listing.sellerId) {
+        const eventId = await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "PROPERTY_LISTING_CANCELLED",
+          agentId: listing.sellerId,
+          zoneId: listing.zoneId,
+          entityId: listing._id,
+          payload: {
+            listingId: listing._id,
+            propertyId: listing.propertyId,
+            propertyName: property?.name ?? null,
+            kind: listing.kind,
+            price: listing.price,
+            reason: "owner_changed",
+          },
+          requestId: null,
+        });
+        await closeListingWithRefund(ctx, listing, "cancelled", currentTick, eventId);
+        continue;
+      }
+
+      if (currentTick < listing.endsAtTick) continue;
+
+      const seller = await ctx.db.get(listing.sellerId);
+      const buyer = listing.highestBidderId ? await ctx.db.get(listing.highestBidderId) : null;
+
+      // Auction closes with a winner
+      if (listing.kind === "auction" && seller && buyer && listing.highestBid) {
+        const price = listing.highestBid;
+        const sellerCash = seller.cash + price;
+        await ctx.db.patch(seller._id, { cash: sellerCash });
+        await transferPropertyOwnership(ctx, property, buyer);
+        await ctx.db.patch(listing._id, { status: "sold", closedTick: currentTick });
+
+        const salePayload = {
+          listingId: listing._id,
+          propertyId: property._id,
+          propertyName: property.name,
+          propertyType: property.type,
+          kind: listing.kind,
+          price,
+          bidCount: listing.bidCount,
+          buyerAgentId: buyer._id,
+          buyerName: buyer.name,
+          sellerAgentId: seller._id,
+          sellerName: seller.name,
+        };
+        await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "PROPERTY_LISTING_SOLD",
+          agentId: buyer._id,
+          zoneId: property.zoneId,
+          entityId: listing._id,
+          payload: { ...salePayload, role: "buyer" },
+          requestId: null,
+        });
+        const sellerEventId = await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "PROPERTY_LISTING_SOLD",
+          agentId: seller._id,
+          zoneId: property.zoneId,
+          entityId: listing._id,
+          payload: { ...salePayload, role: "seller" },
+          requestId: null,
+        });
+
+        // The buyer's cost was debited as PROPERTY_BID_ESCROW
+        await ctx.db.insert("ledger", {
+          tick: currentTick,
+          agentId: seller._id,
+          type: "credit",
+          amount: price,
+          reason: "PROPERTY_SALE",
+          balance: sellerCash,
+          refEventId: sellerEventId,
+        });
+
+        sold++;
+        continue;
+      }
+
+      // No sale: expire and refund any bid
+      const eventId = await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "PROPERTY_LISTING_EXPIRED",
+        agentId: listing.sellerId,
+        zoneId: listing.zoneId,
+        entityId: listing._id,
+        payload: {
+          listingId: listing._id,
+          propertyId: property._id,
+          propertyName: property.name,
+          kind: listing.kind,
+          price: listing.price,
+          refundedBid: listing.highestBid ?? 0,
+        },
+        requestId: null,
+      });
+      await closeListingWithRefund(ctx, listing, "expired", currentTick, eventId);
+      expired++;
+    }
+
+    // Revalue properties from their zone's heat and crowd
+    let revalued = 0;
+    if (currentTick % PROPERTY_MARKET_DEFAULTS.revalueIntervalTicks === 0) {
+      const zones = await ctx.db.query("zones").collect();
+      const heatByZone = await getZoneHeatTotals(ctx, zones);
+      const properties = await ctx.db.query("properties").collect();
+
+      for (const property of properties) {
+        const currentValue = getPropertyValue(property);
+        const target = getTargetPropertyValue(property, heatByZone[property.zoneId.toString()]);
+        const newValue = Math.round(
+          currentValue + (target - currentValue) * PROPERTY_MARKET_DEFAULTS.valueDriftRate
+        );
+        if (newValue !== property.marketValue) {
+          await ctx.db.patch(property._id, { marketValue: newValue });
+          revalued++;
+        }
+      }
+    }
+
+    return { sold, expired, revalued };
+  },
+});
+
+/**
+ * Process loans - expire stale offers, accrue interest and settle loans
+ * that have come due
+ * A due loan is repaid from the borrower's cash if they can cover it.
+ * Otherwise it defaults: the collateral is seized (or, for an unsecured loan,
+ * whatever cash the borrower has), the borrower loses reputation and the
+ * seizure is recorded like a tax seizure.
+ */
+export const processLoans = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { accrued: 0, repaid: 0, defaulted: 0, offersExpired: 0 };
+    }
+
+    const currentTick = world.tick;
+
+    // Expire offers nobody took up
+    let offersExpired = 0;
+    const offers = await ctx.db
+      .query("loans")
+      .withIndex("by_status", (q) => q.eq("status", "offered"))
+      .collect();
+
+    for (const offer of offers) {
+      if (offer.offerExpiresAtTick === undefined || currentTick < offer.offerExpiresAtTick) continue;
+
+      await ctx.db.patch(offer._id, { status: "expired", closedTick: currentTick });
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "LOAN_OFFER_EXPIRED",
+        agentId: offer.lenderId ?? null,
+        zoneId: null,
+        entityId: offer._id,
+        payload: {
+          loanId: offer._id,
+          borrowerId: offer.borrowerId,
+          amount: offer.principal,
+        },
+        requestId: null,
+      });
+      offersExpired++;
+    }
+
+    // Accrue interest and settle due loans
+    let accrued = 0;
+    let repaid = 0;
+    let defaulted = 0;
+    const activeLoans = await ctx.db
+      .query("loans")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    for (const loan of activeLoans) {
+      const borrower = await ctx.db.get(loan.borrowerId);
+      if (!borrower) continue;
+
+      const balance = loan.balance * (1 + loan.interestRate);
+      await ctx.db.patch(loan._id, { balance });
+      accrued++;
+
+      if (loan.dueTick === undefined || currentTick < loan.dueTick) continue;
+
+      const amountOwed = Math.ceil(balance);
+      const lender = loan.lenderId ? await ctx.db.get(loan.lenderId) : null;
+
+      // Auto-repay from cash
+      if (borrower.cash >= amountOwed) {
+        const newCash = borrower.cash - amountOwed;
+        await ctx.db.patch(borrower._id, { cash: newCash });
+        await ctx.db.patch(loan._id, { status: "repaid", balance: 0, closedTick: currentTick });
+
+        const eventId = await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "LOAN_REPAID",
+          agentId: borrower._id,
+          zoneId: null,
+          entityId: loan._id,
+          payload: {
+            loanId: loan._id,
+            amount: amountOwed,
+            remaining: 0,
+            lenderId: loan.lenderId ?? null,
+            automatic: true,
+          },
+          requestId: null,
+        });
+        await ctx.db.insert("ledger", {
+          tick: currentTick,
+          agentId: borrower._id,
+          type: "debit",
+          amount: amountOwed,
+          reason: "LOAN_REPAYMENT",
+          balance: newCash,
+          refEventId: eventId,
+        });
+
+        if (lender) {
+          const lenderCash = lender.cash + amountOwed;
+          await ctx.db.patch(lender._id, { cash: lenderCash });
+          await ctx.db.insert("ledger", {
+            tick: currentTick,
+            agentId: lender._id,
+            type: "credit",
+            amount: amountOwed,
+            reason: "LOAN_REPAYMENT_RECEIVED",
+            balance: lenderCash,
+            refEventId: eventId,
+          });
+        }
+
+        repaid++;
+        continue;
+      }
+
+      // Default: foreclose on the collateral, or take what cash there is
+      const collateral = await seizeCollateral(ctx, loan);
+      const cashSeized = collateral.value > 0 ? 0 : Math.min(borrower.cash, amountOwed);
+      const newCash = borrower.cash - cashSeized;
+
+      await ctx.db.patch(borrower._id, {
+        cash: newCash,
+        reputation: borrower.reputation - LOAN_DEFAULTS.defaultReputationPenalty,
+      });
+      await ctx.db.patch(loan._id, { status: "defaulted", closedTick: currentTick });
+
+      const eventId = await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "LOAN_DEFAULTED",
+        agentId: borrower._id,
+        zoneId: null,
+        entityId: loan._id,
+        payload: {
+          loanId: loan._id,
+          amountOwed,
+          lenderId: loan.lenderId ?? null,
+          lenderName: lender?.name ?? null,
+          seizedPropertyId: collateral.propertyId,
+          seizedVehicleId: collateral.vehicleId,
+          collateralValue: collateral.value,
+          cashSeized,
+          reputationLost: LOAN_DEFAULTS.defaultReputationPenalty,
+        },
+        requestId: null,
+      });
+
+      if (collateral.value > 0 || cashSeized > 0) {
+        await recordAssetSeizure(ctx, borrower, currentTick, {
+          cashSeized,
+          itemsSeized: 0,
+          newCash,
+          zoneId: null,
+          ledgerReason: "FORECLOSURE",
+          toGovernment: !loan.lenderId,
+          payload: {
+            loanId: loan._id,
+            propertyId: collateral.propertyId,
+            vehicleId: collateral.vehicleId,
+            collateralValue: collateral.value,
+          },
+        });
+      }
+
+      if (lender && cashSeized > 0) {
+        const lenderCash = lender.cash + cashSeized;
+        await ctx.db.patch(lender._id, { cash: lenderCash });
+        await ctx.db.insert("ledger", {
+          tick: currentTick,
+          agentId: lender._id,
+          type: "credit",
+          amount: cashSeized,
+          reason: "LOAN_REPAYMENT_RECEIVED",
+          balance: lenderCash,
+          refEventId: eventId,
+        });
+      }
+
+      defaulted++;
+    }
+
+    return { accrued, repaid, defaulted, offersExpired };
+  },
+});
+
+/**
+ * Expire trade offers their targets didn't accept in time
+ */
+export const processTradeOffers = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { expired: 0 };
+    }
+
+    const currentTick = world.tick;
+    let expired = 0;
+
+    const offers = await ctx.db
+      .query("tradeOffers")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .collect();
+
+    for (const offer of offers) {
+      if (currentTick < offer.expiresAtTick) continue;
+
+      await ctx.db.patch(offer._id, { status: "expired", closedTick: currentTick });
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "TRADE_EXPIRED",
+        agentId: offer.proposerId,
+        zoneId: null,
+        entityId: offer._id,
+        payload: {
+          tradeId: offer._id,
+          targetAgentId: offer.targetId,
+        },
+        requestId: null,
+      });
+      expired++;
+    }
+
+    return { expired };
+  },
+});
+
+/**
+ * Charge insurance premiums, repriced from each holder's current heat and arrests
+ * A holder who can't pay lets the policy lapse.
+ */
+export const processInsurance = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { charged: 0, lapsed: 0 };
+    }
+
+    const currentTick = world.tick;
+    let charged = 0;
+    let lapsed = 0;
+
+    const policies = await ctx.db
+      .query("insurancePolicies")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    for (const policy of policies) {
+      if (policy.paidThroughTick >= currentTick) continue;
+
+      const holder = await ctx.db.get(policy.agentId);
+      if (!holder) continue;
+
+      const premium = getInsurancePremium(holder, policy.type);
+
+      if (holder.cash < premium) {
+        await ctx.db.patch(policy._id, { status: "lapsed", closedTick: currentTick });
+        await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "INSURANCE_LAPSED",
+          agentId: holder._id,
+          zoneId: null,
+          entityId: policy._id,
+          payload: {
+            policyId: policy._id,
+            insuranceType: policy.type,
+            premium,
+          },
+          requestId: null,
+        });
+        lapsed++;
+        continue;
+      }
+
+      const newCash = holder.cash - premium;
+      await ctx.db.patch(holder._id, { cash: newCash });
+      await ctx.db.patch(policy._id, {
+        premium,
+        paidThroughTick: currentTick,
+        premiumsPaid: policy.premiumsPaid + premium,
+      });
+      await ctx.db.insert("ledger", {
+        tick: currentTick,
+        agentId: holder._id,
+        type: "debit",
+        amount: premium,
+        reason: "INSURANCE_PREMIUM",
+        balance: newCash,
+        refEventId: null,
+      });
+      charged++;
+    }
+
+    return { charged, lapsed };
+  },
+});
+
+/**
+ * Process NPC customers - simulated shoppers visit agent- and gang-owned
+ * businesses
+ * Each zone's traffic depends on its type and active world events; each
+ * business's share on its reputation. A shopper looks at one stocked item and
+ * buys a unit with a chance that falls as the asking price rises above the
+ * zone market price. Sales credit the business's cashOnHand.
+ */
+export const processNpcCustomers = internalMutation({
+  args: {
+    seed: v.string(),
+    tick: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { customers: 0, revenue: 0 };
+    }
+
+    const currentTick = world.tick;
+    const rng = createTickRng(args.seed, args.tick, "npcCustomers");
+    const itemsById = new Map<string, Doc<"items"> | null>();
+
+    let customers = 0;
+    let revenue = 0;
+
+    const zones = await ctx.db.query("zones").collect();
+    for (const zone of zones) {
+      const businesses = (
+        await ctx.db
+          .query("businesses")
+          .withIndex("by_zoneId", (q) => q.eq("zoneId", zone._id))
+          .collect()
+      ).filter(
+        (b) => (b.ownerAgentId || b.ownerGangId) && b.status === "open" && b.inventory.some((inv) => inv.qty > 0)
+      );
+      if (businesses.length === 0) continue;
+
+      const modifiers = getWorldEventModifiers(await getActiveWorldEvents(ctx, zone._id));
+      const zoneTraffic =
+        NPC_CUSTOMER_DEFAULTS.trafficByZoneType[zone.type] * modifiers.footTrafficMultiplier;
+
+      const marketRows = await ctx.db
+        .query("marketState")
+        .withIndex("by_zoneId", (q) => q.eq("zoneId", zone._id))
+        .collect();
+      const marketPriceByItem = new Map(marketRows.map((row) => [row.itemId.toString(), row.price]));
+
+      for (const business of businesses) {
+        // Shoppers this tick: reputation scales the zone's traffic
+        const reputationMultiplier = Math.min(
+          NPC_CUSTOMER_DEFAULTS.maxTrafficMultiplier,
+          Math.max(
+            NPC_CUSTOMER_DEFAULTS.minTrafficMultiplier,
+            1 + (business.reputation - NPC_CUSTOMER_DEFAULTS.neutralReputation) * NPC_CUSTOMER_DEFAULTS.reputationSensitivity
+          )
+        );
+        const expectedVisitors = zoneTraffic * reputationMultiplier;
+        const visitors =
+          Math.floor(expectedVisitors) + (rng.randomChance(expectedVisitors % 1) ? 1 : 0);
+
+        const inventory = business.inventory.map((inv) => ({ ...inv }));
+        let served = 0;
+        let sales = 0;
+
+        for (let i = 0; i < visitors; i++) {
+          const stocked = inventory.filter((inv) => inv.qty > 0);
+          if (stocked.length === 0) break;
+
+          const entry = rng.randomChoice(stocked);
+          const itemKey = entry.itemId.toString();
+          if (!itemsById.has(itemKey)) {
+            itemsById.set(itemKey, await ctx.db.get(entry.itemId));
+          }
+          const item = itemsById.get(itemKey);
+          if (!item || entry.price <= 0) continue;
+
+          // Compare the asking price with what the item goes for in this zone
+          const marketPrice = (marketPriceByItem.get(itemKey) ?? item.basePrice) * modifiers.priceMultiplier;
+          const buyChance = Math.min(
+            NPC_CUSTOMER_DEFAULTS.maxBuyChance,
+            NPC_CUSTOMER_DEFAULTS.baseBuyChance * Math.pow(marketPrice / entry.price, NPC_CUSTOMER_DEFAULTS.priceElasticity)
+          );
+          if (!rng.randomChance(buyChance)) continue;
+
+          entry.qty -= 1;
+          served++;
+          sales += entry.price;
+        }
+
+        if (served === 0) continue;
+
+        // Settle the tick's sales
+        const newCashOnHand = business.cashOnHand + sales;
+        await ctx.db.patch(business._id, {
+          cashOnHand: newCashOnHand,
+          inventory: inventory.filter((inv) => inv.qty > 0),
+          reputation: Math.min(
+            NPC_CUSTOMER_DEFAULTS.maxReputation,
+            business.reputation + served * NPC_CUSTOMER_DEFAULTS.reputationPerCustomer
+          ),
+          metrics: {
+            totalRevenue: business.metrics.totalRevenue + sales,
+            totalCustomers: business.metrics.totalCustomers + served,
+          },
+        });
+
+        const gang = business.ownerGangId ? await ctx.db.get(business.ownerGangId) : null;
+        const ownerId = business.ownerAgentId ?? gang?.leaderId ?? null;
+
+        const eventId = await ctx.db.insert("events", {
+          tick: currentTick,
+          timestamp: Date.now(),
+          type: "BUSINESS_REVENUE",
+          agentId: ownerId,
+          zoneId: zone._id,
+          entityId: business._id,
+          payload: {
+            businessId: business._id,
+            businessName: business.name,
+            customers: served,
+            revenue: sales,
+            cashOnHand: newCashOnHand,
+            ownerGangId: business.ownerGangId ?? null,
+          },
+          requestId: null,
+        });
+
+        if (ownerId) {
+          await ctx.db.insert("ledger", {
+            tick: currentTick,
+            agentId: ownerId,
+            type: "credit",
+            amount: sales,
+            reason: "BUSINESS_REVENUE",
+            balance: newCashOnHand,
+            refEventId: eventId,
+            businessId: business._id,
+          });
+        }
+
+        customers += served;
+        revenue += sales;
+      }
+    }
+
+    return { customers, revenue };
+  },
+});
+
+/**
+ * Refresh the job board
+ * Rotates seeded postings per zone, reprices them from local labour demand
+ * and world events, and posts and clears out one-off gigs. Business openings
+ * are left to their owners.
+ */
+export const processJobMarket = internalMutation({
+  args: {
+    seed: v.string(),
+    tick: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { opened: 0, closed: 0, gigsPosted: 0, gigsExpired: 0 };
+    }
+
+    const currentTick = world.tick;
+    const rng = createTickRng(args.seed, args.tick, "jobMarket");
+    const rotating = currentTick % JOB_MARKET_DEFAULTS.rotateEveryTicks === 0;
+
+    let opened = 0;
+    let closed = 0;
+    let gigsPosted = 0;
+    let gigsExpired = 0;
+
+    const zones = await ctx.db.query("zones").collect();
+    for (const zone of zones) {
+      const jobs = await ctx.db
+        .query("jobs")
+        .withIndex("by_zoneId", (q) => q.eq("zoneId", zone._id))
+        .collect();
+      const postings = jobs.filter((job) => !job.businessId && job.expiresAtTick === undefined);
+      const gigs = jobs.filter((job) => job.expiresAtTick !== undefined);
+
+      // 1. Close gigs nobody took in time, and clear out old ones
+      let openGigs = 0;
+      for (const gig of gigs) {
+        const expiresAtTick = gig.expiresAtTick!;
+        if (currentTick >= expiresAtTick + JOB_MARKET_DEFAULTS.gigCleanupTicks) {
+          await ctx.db.delete(gig._id);
+        } else if (gig.active && currentTick >= expiresAtTick) {
+          await ctx.db.patch(gig._id, { active: false });
+          gigsExpired++;
+        } else if (gig.active) {
+          openGigs++;
+        }
+      }
+
+      // 2. Reshuffle which seeded postings are open
+      const openIds = new Set(postings.filter((job) => job.active).map((job) => job._id.toString()));
+      if (rotating && postings.length > 0) {
+        openIds.clear();
+        for (const job of postings) {
+          if (rng.randomChance(JOB_MARKET_DEFAULTS.openChance)) {
+            openIds.add(job._id.toString());
+          }
+        }
+        for (const job of rng.shuffle([...postings])) {
+          if (openIds.size >= Math.min(JOB_MARKET_DEFAULTS.minOpenPerZone, postings.length)) break;
+          openIds.add(job._id.toString());
+        }
+      }
+
+      // 3. Wages follow local labour demand and world events
+      const workers = (
+        await ctx.db
+          .query("agents")
+          .withIndex("by_locationZoneId", (q) => q.eq("locationZoneId", zone._id))
+          .collect()
+      ).filter((a) => !a.bannedAt).length;
+      const modifiers = getWorldEventModifiers(await getActiveWorldEvents(ctx, zone._id));
+      const workersPerJob = workers / Math.max(1, openIds.size + openGigs);
+      const demandMultiplier = Math.min(
+        JOB_MARKET_DEFAULTS.maxWageMultiplier,
+        Math.max(
+          JOB_MARKET_DEFAULTS.minWageMultiplier,
+          1 + (JOB_MARKET_DEFAULTS.neutralWorkersPerJob - workersPerJob) * JOB_MARKET_DEFAULTS.wageDemandSensitivity
+        )
+      );
+      const wageMultiplier = demandMultiplier * modifiers.wageMultiplier;
+
+      for (const job of postings) {
+        const active = openIds.has(job._id.toString());
+        const baseWage = job.baseWage ?? job.wage;
+        const wage = Math.max(1, Math.round(baseWage * wageMultiplier));
+        if (active !== job.active || wage !== job.wage || job.baseWage === undefined) {
+          await ctx.db.patch(job._id, { active, wage, baseWage });
+        }
+        if (active && !job.active) opened++;
+        if (!active && job.active) closed++;
+      }
+
+      // 4. Maybe post a gig (not during a job drought)
+      if (
+        modifiers.jobsSuspended ||
+        openGigs >= JOB_MARKET_DEFAULTS.maxGigsPerZone ||
+        !rng.randomChance(JOB_MARKET_DEFAULTS.gigChancePerZone)
+      ) {
+        continue;
+      }
+
+      const template = rng.randomChoice(GIG_TEMPLATES);
+      const level = rng.randomInt(JOB_MARKET_DEFAULTS.gigMinSkillLevel, JOB_MARKET_DEFAULTS.gigMaxSkillLevel);
+      const gigBaseWage = Math.round(
+        template.wage * (1 + (level - JOB_MARKET_DEFAULTS.gigMinSkillLevel) * JOB_MARKET_DEFAULTS.gigWagePerSkillLevel)
+      );
+      const gigWage = Math.max(1, Math.round(gigBaseWage * wageMultiplier));
+      const expiresAtTick = currentTick + rng.randomInt(JOB_MARKET_DEFAULTS.gigTtlMin, JOB_MARKET_DEFAULTS.gigTtlMax);
+
+      const gigId = await insertTracked(ctx, "jobs", {
+        zoneId: zone._id,
+        type: template.type,
+        title: template.title,
+        wage: gigWage,
+        durationTicks: template.durationTicks,
+        requirements: { minSkill: { skill: template.skill, level } },
+        staminaCost: template.staminaCost,
+        active: true,
+        baseWage: gigBaseWage,
+        expiresAtTick,
+      });
+
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: Date.now(),
+        type: "GIG_POSTED",
+        agentId: null,
+        zoneId: zone._id,
+        entityId: gigId,
+        payload: {
+          jobId: gigId,
+          title: template.title,
+          wage: gigWage,
+          skill: template.skill,
+          level,
+          expiresAtTick,
+        },
+        requestId: null,
+      });
+      gigsPosted++;
+    }
+
+    return { opened, closed, gigsPosted, gigsExpired };
+  },
+});
+
+// ============================================================================
+// GTA-LIKE FREEDOM FEATURE TICK PROCESSORS
+// ============================================================================
+
+import { GTA_DEFAULTS } from "./lib/constants";
+
+/**
+ * Process bounty expiration - expire old bounties and refund 50%
+ */
+export const processBountyExpiration = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { expired: 0, refunded: 0 };
+    }
+
+    const currentTick = world.tick;
+
+    // Find all active bounties
+    const activeBounties = await ctx.db
+      .query("bounties")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    let expired = 0;
+    let totalRefunded = 0;
+
+    for (const bounty of activeBounties) {
+      if (bounty.expiresAt <= currentTick) {
+        // Expire the bounty
+        await ctx.db.patch(bounty._id, { status: "expired" });
+
+        // Refund 50% to placer (or the treasury that funded it)
+        const refundAmount = Math.floor(bounty.amount * GTA_DEFAULTS.bountyExpiredRefund);
+        const placer = await ctx.db.get(bounty.placedByAgentId);
+        const fundingGang = bounty.placedByGangId ? await ctx.db.get(bounty.placedByGangId) : null;
+
+        if (fundingGang && refundAmount > 0) {
+          await recordGangTransaction(
+            ctx,
+            fundingGang,
+            bounty.placedByAgentId,
+            "credit",
+            refundAmount,
+            "GANG_BOUNTY_REFUND",
+            currentTick,
+            null
+          );
+          totalRefunded += refundAmount;
+        } else if (placer && refundAmount > 0 && !bounty.placedByGangId) {
+          await ctx.db.patch(placer._id, { cash: placer.cash + refundAmount });
+
+          // Log refund in ledger
+          await ctx.db.insert("ledger", {
+            tick: currentTick,
+            agentId: placer._id,
+            type: "credit",
+            amount: refundAmount,
+            reason: "BOUNTY_EXPIRED_REFUND",
+            balance: placer.cash + refundAmount,
+            refEventId: null,
+          });
+
+          totalRefunded += refundAmount;
+        }
+
+        // Get target name for event
+        const target = await ctx.db.get(bounty.targetAgentId);
 
         // Log expiration event
         await ctx.db.insert("events", {
@@ -1342,6 +3424,160 @@ export const processBountyExpiration = internalMutation({
   },
 });
 
+/**
+ * Process contracts - expire unfinished contracts (refunding player posters)
+ * and post NPC-sponsored contracts on notorious agents
+ */
+export const processContracts = internalMutation({
+  args: {
+    seed: v.string(),
+    tick: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { expired: 0, refunded: 0, generated: 0 };
+    }
+
+    const currentTick = world.tick;
+    const now = Date.now();
+    const rng = createTickRng(args.seed, args.tick, "contracts");
+
+    // Open contracts (available or accepted but not yet completed)
+    const availableContracts = await ctx.db
+      .query("contracts")
+      .withIndex("by_status", (q) => q.eq("status", "available"))
+      .collect();
+    const acceptedContracts = await ctx.db
+      .query("contracts")
+      .withIndex("by_status", (q) => q.eq("status", "accepted"))
+      .collect();
+
+    let expired = 0;
+    let totalRefunded = 0;
+    const stillOpen: Doc<"contracts">[] = [];
+
+    for (const contract of [...availableContracts, ...acceptedContracts]) {
+      // Contracts from before tick-based expiry get a tick from their remaining time
+      if (contract.expiresAtTick === undefined) {
+        const remainingTicks = Math.max(0, Math.ceil(((contract.expiresAt ?? now) - now) / world.tickMs));
+        const expiresAtTick = currentTick + remainingTicks;
+        await ctx.db.patch(contract._id, { expiresAtTick });
+        contract.expiresAtTick = expiresAtTick;
+      }
+
+      if (currentTick < contract.expiresAtTick) {
+        stillOpen.push(contract);
+        continue;
+      }
+
+      await ctx.db.patch(contract._id, { status: "expired" });
+
+      // Refund the escrowed reward to player posters (NPC money just disappears)
+      let refundAmount = 0;
+      if (contract.postedByAgentId) {
+        refundAmount = contract.reward;
+        const poster = await ctx.db.get(contract.postedByAgentId);
+
+        if (poster && refundAmount > 0) {
+          await ctx.db.patch(poster._id, { cash: poster.cash + refundAmount });
+
+          await ctx.db.insert("ledger", {
+            tick: currentTick,
+            agentId: poster._id,
+            type: "credit",
+            amount: refundAmount,
+            reason: "CONTRACT_EXPIRED_REFUND",
+            balance: poster.cash + refundAmount,
+            refEventId: null,
+          });
+
+          totalRefunded += refundAmount;
+        }
+      }
+
+      const target = await ctx.db.get(contract.targetAgentId);
+
+      await ctx.db.insert("events", {
+        tick: currentTick,
+        timestamp: now,
+        type: "CONTRACT_EXPIRED",
+        agentId: contract.postedByAgentId ?? null,
+        zoneId: null,
+        entityId: contract._id,
+        payload: {
+          targetAgentId: contract.targetAgentId,
+          targetAgentName: target?.name,
+          acceptedByAgentId: contract.acceptedByAgentId ?? null,
+          originalReward: contract.reward,
+          refundAmount,
+        },
+        requestId: null,
+      });
+
+      expired++;
+    }
+
+    // Roll for a new NPC-sponsored contract
+    const openNpcContracts = stillOpen.filter((c) => !c.postedByAgentId);
+    if (
+      openNpcContracts.length >= GTA_DEFAULTS.npcContractMaxOpen ||
+      !rng.randomChance(GTA_DEFAULTS.npcContractChance)
+    ) {
+      return { expired, refunded: totalRefunded, generated: 0 };
+    }
+
+    // Target a notorious agent who isn't already marked by an NPC
+    const markedTargetIds = new Set(openNpcContracts.map((c) => c.targetAgentId.toString()));
+    const candidates = (
+      await ctx.db
+        .query("agents")
+        .withIndex("by_status", (q) => q.eq("status", "idle"))
+        .collect()
+    ).filter(
+      (a) =>
+        a.heat >= GTA_DEFAULTS.npcContractMinHeat &&
+        !a.bannedAt &&
+        !markedTargetIds.has(a._id.toString())
+    );
+
+    if (candidates.length === 0) {
+      return { expired, refunded: totalRefunded, generated: 0 };
+    }
+
+    const target = rng.randomChoice(candidates);
+    const reward = rng.randomInt(GTA_DEFAULTS.npcContractReward.min, GTA_DEFAULTS.npcContractReward.max);
+    const expiresAtTick = currentTick + GTA_DEFAULTS.contractDurationTicks;
+
+    const contractId = await insertTracked(ctx, "contracts", {
+      targetAgentId: target._id,
+      reward,
+      status: "available",
+      createdAt: now,
+      expiresAtTick,
+    });
+
+    await ctx.db.insert("events", {
+      tick: currentTick,
+      timestamp: now,
+      type: "CONTRACT_POSTED",
+      agentId: null,
+      zoneId: target.locationZoneId,
+      entityId: contractId,
+      payload: {
+        targetAgentId: target._id,
+        targetAgentName: target.name,
+        reward,
+        expiresAtTick,
+        npcSponsored: true,
+      },
+      requestId: null,
+    });
+
+    return { expired, refunded: totalRefunded, generated: 1 };
+  },
+});
+
 /**
  * Process disguise expiration - remove expired disguises
  */
@@ -1615,6 +3851,68 @@ export const processHospitalReleases = internalMutation({
   },
 });
 
+/**
+ * Decay skills that haven't been trained or used for a while, back toward
+ * their starting level
+ * Called every TRAINING_DEFAULTS.decayIntervalTicks ticks
+ */
+export const processSkillDecay = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const world = await ctx.db.query("world").first();
+    if (!world) {
+      return { decayed: 0 };
+    }
+
+    const currentTick = world.tick;
+    if (currentTick % TRAINING_DEFAULTS.decayIntervalTicks !== 0) {
+      return { decayed: 0 };
+    }
+
+    let decayed = 0;
+
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const { page, isDone: done, continueCursor } = await ctx.db
+        .query("agents")
+        .paginate({ numItems: 200, cursor });
+
+      for (const agent of page) {
+        // Skills never trained or used are still at their starting level
+        const practiced = agent.skillsLastPracticedTick;
+        if (!practiced) continue;
+
+        const skills = { ...agent.skills };
+        let changed = false;
+        for (const skill of SKILL_TYPES) {
+          const lastPracticed = practiced[skill];
+          const floor = DEFAULTS.startingSkills[skill];
+          if (
+            lastPracticed === undefined ||
+            skills[skill] <= floor ||
+            currentTick - lastPracticed < TRAINING_DEFAULTS.decayGraceTicks
+          ) {
+            continue;
+          }
+          skills[skill] = Math.max(floor, roundSkill(skills[skill] - TRAINING_DEFAULTS.decayAmount));
+          changed = true;
+        }
+
+        if (changed) {
+          await ctx.db.patch(agent._id, { skills });
+          decayed++;
+        }
+      }
+
+      cursor = continueCursor ?? null;
+      isDone = done;
+    }
+
+    return { decayed };
+  },
+});
+
 /**
  * Increment daysSurvived for all active agents
  * Called every 100 ticks (same interval as taxes = 1 "day" in game time)
@@ -46,14 +46,27 @@ type BusyResult = { resolved: number };
 type HeatResult = { processed: number };
 type ArrestResult = { arrests: number; checks: number };
 type TerritoryResult = { processed: number; totalIncome: number; decayed: number };
+type GangWarResult = { sieges: number; ended: number };
+type GangProposalResult = { passed: number; failed: number };
 type RentResult = { payments: number; evictions: number };
 type CoopResult = { executed: number; cancelled: number };
 type FriendshipResult = { decayed: number; removed: number };
 type TaxResult = { assessed: number; paid: number; evaded: number };
 type BountyResult = { expired: number; refunded: number };
+type ContractResult = { expired: number; refunded: number; generated: number };
 type DisguiseResult = { expired: number };
 type JailReleaseResult = { released: number };
 type HospitalReleaseResult = { discharged: number };
+type WorldEventResult = { started: number; ended: number };
+type JobMarketResult = { opened: number; closed: number; gigsPosted: number; gigsExpired: number };
+type MarketResult = { updated: number; priceChanges: number };
+type OrderBookResult = { trades: number; expired: number };
+type PropertyMarketResult = { sold: number; expired: number; revalued: number };
+type LoanResult = { accrued: number; repaid: number; defaulted: number; offersExpired: number };
+type TradeOfferResult = { expired: number };
+type InsuranceResult = { charged: number; lapsed: number };
+type NpcCustomerResult = { customers: number; revenue: number };
+type SkillDecayResult = { decayed: number };
 type DaySurvivedResult = { incremented: number };
 type SummaryResult = {
   agentsProcessed: number;
@@ -72,15 +85,44 @@ type TickRunResult =
       arrests: number;
       arrestChecks: number;
       territoryIncome: number;
+      gangWarSieges: number;
+      gangWarsEnded: number;
+      gangProposalsPassed: number;
+      gangProposalsFailed: number;
       rentPayments: number;
       coopActionsProcessed: number;
       taxesAssessed: number;
       taxesPaid: number;
       taxEvaders: number;
       bountiesExpired: number;
+      contractsExpired: number;
+      contractsGenerated: number;
       disguisesExpired: number;
       jailedReleased: number;
       hospitalDischarged: number;
+      worldEventsStarted: number;
+      worldEventsEnded: number;
+      jobsOpened: number;
+      jobsClosed: number;
+      gigsPosted: number;
+      gigsExpired: number;
+      marketPricesUpdated: number;
+      priceChanges: number;
+      orderBookTrades: number;
+      ordersExpired: number;
+      propertiesSold: number;
+      listingsExpired: number;
+      propertiesRevalued: number;
+      loansAccrued: number;
+      loansRepaid: number;
+      loansDefaulted: number;
+      loanOffersExpired: number;
+      tradeOffersExpired: number;
+      premiumsCharged: number;
+      policiesLapsed: number;
+      npcCustomers: number;
+      npcRevenue: number;
+      skillsDecayed: number;
       daysSurvivedIncremented: number;
     };
 
@@ -88,10 +130,17 @@ type TickRunResult =
 // TICK RUNNER ACTION
 // ============================================================================
 
-async function runTickHandler(ctx: ActionCtx): Promise<TickRunResult> {
+/**
+ * Run one full tick
+ * World replay passes ignorePause to advance a paused world it is rebuilding
+ */
+export async function runTickHandler(
+  ctx: ActionCtx,
+  options: { ignorePause?: boolean } = {}
+): Promise<TickRunResult> {
   // 1. Check if world is running
   const world: WorldStatus = await ctx.runQuery(internal.tickHelpers.getWorldStatus);
-  if (!world || world.status !== "running") {
+  if (!world || (world.status !== "running" && !options.ignorePause)) {
     return {
       skipped: true,
       reason: world ? "World is paused" : "World not initialized",
@@ -116,34 +165,83 @@ async function runTickHandler(ctx: ActionCtx): Promise<TickRunResult> {
   // 6. Process territory income
   const territoryResult: TerritoryResult = await ctx.runMutation(internal.tickHelpers.processTerritoryIncome);
 
-  // 7. Process rent payments
+  // 7. Process gang wars (sieges, surrenders, truces, victories)
+  const gangWarResult: GangWarResult = await ctx.runMutation(internal.tickHelpers.processGangWars);
+
+  // 8. Process gang proposals (close treasury votes, pay out what passed)
+  const gangProposalResult: GangProposalResult = await ctx.runMutation(internal.tickHelpers.processGangProposals);
+
+  // 9. Process rent payments
   const rentResult: RentResult = await ctx.runMutation(internal.tickHelpers.processRentPayments);
 
-  // 8. Process cooperative actions
+  // 10. Process cooperative actions
   const coopResult: CoopResult = await ctx.runMutation(internal.tickHelpers.processCoopActions, {
     seed: tickResult.seed,
     tick: tickResult.tick,
   });
 
-  // 9. Process friendship decay
+  // 11. Process friendship decay
   const _friendshipResult: FriendshipResult = await ctx.runMutation(internal.tickHelpers.processFriendshipDecay);
 
-  // 10. Process taxes
+  // 12. Process taxes
   const taxResult: TaxResult = await ctx.runMutation(internal.tickHelpers.processTaxes, {
     seed: tickResult.seed,
     tick: tickResult.tick,
   });
 
-  // 11. Process GTA-like features
+  // 13. Process GTA-like features
   const bountyResult: BountyResult = await ctx.runMutation(internal.tickHelpers.processBountyExpiration);
+  const contractResult: ContractResult = await ctx.runMutation(internal.tickHelpers.processContracts, {
+    seed: tickResult.seed,
+    tick: tickResult.tick,
+  });
   const disguiseResult: DisguiseResult = await ctx.runMutation(internal.tickHelpers.processDisguiseExpiration);
   const jailReleaseResult: JailReleaseResult = await ctx.runMutation(internal.tickHelpers.releaseJailedAgents);
   const hospitalReleaseResult: HospitalReleaseResult = await ctx.runMutation(internal.tickHelpers.processHospitalReleases);
 
-  // 12. Process day survived (every 100 ticks = 1 game day)
+  // 14. Process world events (crashes, crackdowns, droughts)
+  const worldEventResult: WorldEventResult = await ctx.runMutation(internal.tickHelpers.processWorldEvents, {
+    seed: tickResult.seed,
+    tick: tickResult.tick,
+  });
+
+  // 15. Refresh the job board (rotate postings, reprice wages, post and expire gigs)
+  const jobMarketResult: JobMarketResult = await ctx.runMutation(internal.tickHelpers.processJobMarket, {
+    seed: tickResult.seed,
+    tick: tickResult.tick,
+  });
+
+  // 16. Process market prices (supply/demand from last tick's trades)
+  const marketResult: MarketResult = await ctx.runMutation(internal.tickHelpers.processMarketPrices);
+
+  // 17. Match the order book (orders placed last tick can fill now)
+  const orderBookResult: OrderBookResult = await ctx.runMutation(internal.tickHelpers.processOrderBook);
+
+  // 18. Process the property market (close auctions, expire listings, revalue)
+  const propertyMarketResult: PropertyMarketResult = await ctx.runMutation(internal.tickHelpers.processPropertyMarket);
+
+  // 19. Process loans (accrue interest, settle due loans, foreclose on defaults)
+  const loanResult: LoanResult = await ctx.runMutation(internal.tickHelpers.processLoans);
+
+  // 20. Expire trade offers nobody accepted
+  const tradeOfferResult: TradeOfferResult = await ctx.runMutation(internal.tickHelpers.processTradeOffers);
+
+  // 21. Charge insurance premiums (lapse policies their holders can't pay for)
+  const insuranceResult: InsuranceResult = await ctx.runMutation(internal.tickHelpers.processInsurance);
+
+  // 22. NPC customers shop at agent- and gang-owned businesses
+  const npcCustomerResult: NpcCustomerResult = await ctx.runMutation(internal.tickHelpers.processNpcCustomers, {
+    seed: tickResult.seed,
+    tick: tickResult.tick,
+  });
+
+  // 23. Decay skills that have gone unpractised
+  const skillDecayResult: SkillDecayResult = await ctx.runMutation(internal.tickHelpers.processSkillDecay);
+
+  // 24. Process day survived (every 100 ticks = 1 game day)
   const daySurvivedResult: DaySurvivedResult = await ctx.runMutation(internal.tickHelpers.processDaySurvived);
 
-  // 13. Log tick event
+  // 25. Log tick event
   await ctx.runMutation(internal.tickHelpers.logTickEvent, {
     tick: tickResult.tick,
     resolvedAgents: busyResult.resolved,
@@ -156,9 +254,10 @@ async function runTickHandler(ctx: ActionCtx): Promise<TickRunResult> {
     taxesAssessed: taxResult.assessed,
     taxesPaid: taxResult.paid,
     taxEvaders: taxResult.evaded,
+    priceChanges: marketResult.priceChanges,
   });
 
-  // 14. Refresh summaries (small batch) - now an action that coordinates mutations
+  // 26. Refresh summaries (small batch) - now an action that coordinates mutations
   const _summaryResult: SummaryResult = await ctx.runAction(internal.summaries.refreshSummaries, {});
 
   return {
@@ -169,15 +268,44 @@ async function runTickHandler(ctx: ActionCtx): Promise<TickRunResult> {
     arrests: arrestResult.arrests,
     arrestChecks: arrestResult.checks,
     territoryIncome: territoryResult.totalIncome,
+    gangWarSieges: gangWarResult.sieges,
+    gangWarsEnded: gangWarResult.ended,
+    gangProposalsPassed: gangProposalResult.passed,
+    gangProposalsFailed: gangProposalResult.failed,
     rentPayments: rentResult.payments,
     coopActionsProcessed: coopResult.executed,
     taxesAssessed: taxResult.assessed,
     taxesPaid: taxResult.paid,
     taxEvaders: taxResult.evaded,
     bountiesExpired: bountyResult.expired,
+    contractsExpired: contractResult.expired,
+    contractsGenerated: contractResult.generated,
     disguisesExpired: disguiseResult.expired,
     jailedReleased: jailReleaseResult.released,
     hospitalDischarged: hospitalReleaseResult.discharged,
+    worldEventsStarted: worldEventResult.started,
+    worldEventsEnded: worldEventResult.ended,
+    jobsOpened: jobMarketResult.opened,
+    jobsClosed: jobMarketResult.closed,
+    gigsPosted: jobMarketResult.gigsPosted,
+    gigsExpired: jobMarketResult.gigsExpired,
+    marketPricesUpdated: marketResult.updated,
+    priceChanges: marketResult.priceChanges,
+    orderBookTrades: orderBookResult.trades,
+    ordersExpired: orderBookResult.expired,
+    propertiesSold: propertyMarketResult.sold,
+    listingsExpired: propertyMarketResult.expired,
+    propertiesRevalued: propertyMarketResult.revalued,
+    loansAccrued: loanResult.accrued,
+    loansRepaid: loanResult.repaid,
+    loansDefaulted: loanResult.defaulted,
+    loanOffersExpired: loanResult.offersExpired,
+    tradeOffersExpired: tradeOfferResult.expired,
+    premiumsCharged: insuranceResult.charged,
+    policiesLapsed: insuranceResult.lapsed,
+    npcCustomers: npcCustomerResult.customers,
+    npcRevenue: npcCustomerResult.revenue,
+    skillsDecayed: skillDecayResult.decayed,
     daysSurvivedIncremented: daySurvivedResult.incremented,
   };
 }
@@ -188,5 +316,5 @@ async function runTickHandler(ctx: ActionCtx): Promise<TickRunResult> {
  */
 export const runTick = internalAction({
   args: {},
-  handler: runTickHandler,
+  handler: (ctx) => runTickHandler(ctx),
 });
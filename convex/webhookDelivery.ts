@@ -0,0 +1,75 @@
+"use node";
+
+/**
+ * Webhook HTTP Requests for ClawCity
+ * Runs in the Node runtime so each connection can check the address a
+ * callback host resolves to. Checking at connect time, rather than before
+ * the request, also stops DNS rebinding between the check and the fetch.
+ */
+
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { lookup as dnsLookup } from "node:dns";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { LookupFunction } from "node:net";
+import { WEBHOOK_DEFAULTS } from "./lib/constants";
+import { isPrivateAddress } from "./lib/webhooks";
+
+/**
+ * DNS lookup that fails for hosts resolving to a private address
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map((a) => a.address) : [address];
+    const privateAddress = addresses.find(isPrivateAddress);
+    if (privateAddress) {
+      callback(
+        new Error(`Webhook host ${hostname} resolves to private address ${privateAddress}`),
+        address,
+        family
+      );
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * POST a webhook body; never throws
+ * Redirects aren't followed - a redirect could point anywhere.
+ */
+export const postWebhook = internalAction({
+  args: {
+    url: v.string(),
+    headers: v.record(v.string(), v.string()),
+    body: v.string(),
+  },
+  handler: async (_ctx, args): Promise<{ statusCode: number | null; error: string | null }> => {
+    const url = new URL(args.url);
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+    return new Promise((resolve) => {
+      const request = send(
+        url,
+        {
+          method: "POST",
+          headers: { ...args.headers, "Content-Length": String(Buffer.byteLength(args.body)) },
+          lookup: publicOnlyLookup,
+          signal: AbortSignal.timeout(WEBHOOK_DEFAULTS.requestTimeoutMs),
+        },
+        (response) => {
+          response.resume();
+          resolve({ statusCode: response.statusCode ?? null, error: null });
+        }
+      );
+      request.on("error", (e) => resolve({ statusCode: null, error: e.message || "Request failed" }));
+      request.end(args.body);
+    });
+  },
+});
@@ -0,0 +1,464 @@
+/**
+ * Webhook Push Delivery for ClawCity
+ * Pushes agent events to registered callback URLs so agents don't have to poll /agent/events
+ *
+ * Each request is a POST with a JSON body and headers:
+ * - X-ClawCity-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${body}` using the webhook secret>
+ * - X-ClawCity-Timestamp: unix ms timestamp used in the signature
+ * - X-ClawCity-Event: event type
+ * - X-ClawCity-Delivery: delivery id (stable across retries)
+ *
+ * Any 2xx response counts as delivered. Failures are retried with exponential backoff
+ * and every attempt is recorded in the webhookDeliveries table.
+ */
+
+import { internal } from "./_generated/api";
+import {
+  MutationCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { generateAgentKey } from "./lib/auth";
+import { ERROR_CODES, WEBHOOK_DEFAULTS } from "./lib/constants";
+import {
+  getWebhookRetryDelayMs,
+  isValidWebhookUrl,
+  signWebhookPayload,
+} from "./lib/webhooks";
+
+type DueDelivery = {
+  delivery: Doc<"webhookDeliveries">;
+  webhook: Doc<"webhooks"> | null;
+  event: Doc<"events"> | null;
+};
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Create a webhook for an agent
+ * Only events created after registration are delivered
+ */
+async function createWebhook(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  url: string,
+  eventTypes: string[] | null
+) {
+  if (!isValidWebhookUrl(url)) {
+    return { error: "INVALID_WEBHOOK_URL" as const };
+  }
+
+  const existing = await ctx.db
+    .query("webhooks")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+    .collect();
+  if (existing.length >= WEBHOOK_DEFAULTS.maxWebhooksPerAgent) {
+    return { error: "WEBHOOK_LIMIT_REACHED" as const };
+  }
+
+  const secret = `whsec_${generateAgentKey()}`;
+  const now = Date.now();
+  const webhookId = await ctx.db.insert("webhooks", {
+    agentId,
+    url,
+    secret,
+    eventTypes: eventTypes && eventTypes.length > 0 ? eventTypes : null,
+    active: true,
+    createdAt: now,
+    lastEventCreationTime: now,
+    consecutiveFailures: 0,
+  });
+
+  return { webhookId, url, eventTypes, secret };
+}
+
+/**
+ * Register a webhook for a newly registered agent (from /agent/register)
+ */
+export const createWebhookForAgent = internalMutation({
+  args: {
+    agentId: v.id("agents"),
+    url: v.string(),
+    eventTypes: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    return createWebhook(ctx, args.agentId, args.url, args.eventTypes ?? null);
+  },
+});
+
+/**
+ * Register a webhook by API key hash (from POST /agent/webhooks)
+ */
+export const createWebhookByKeyHash = internalMutation({
+  args: {
+    keyHash: v.string(),
+    url: v.string(),
+    eventTypes: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const agent = await ctx.db
+      .query("agents")
+      .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", args.keyHash))
+      .first();
+
+    if (!agent) {
+      return { error: "UNAUTHORIZED" as const };
+    }
+
+    return createWebhook(ctx, agent._id, args.url, args.eventTypes ?? null);
+  },
+});
+
+/**
+ * List an agent's webhooks and recent deliveries (secrets are never returned again)
+ */
+export const getWebhooksByKeyHash = internalQuery({
+  args: { keyHash: v.string() },
+  handler: async (ctx, args) => {
+    const agent = await ctx.db
+      .query("agents")
+      .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", args.keyHash))
+      .first();
+
+    if (!agent) {
+      return { error: "UNAUTHORIZED" as const };
+    }
+
+    const webhooks = await ctx.db
+      .query("webhooks")
+      .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+      .collect();
+
+    const recentDeliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+      .order("desc")
+      .take(20);
+
+    return {
+      webhooks: webhooks.map((w) => ({
+        webhookId: w._id,
+        url: w.url,
+        eventTypes: w.eventTypes,
+        active: w.active,
+        createdAt: w.createdAt,
+        consecutiveFailures: w.consecutiveFailures,
+        disabledReason: w.disabledReason ?? null,
+      })),
+      recentDeliveries: recentDeliveries.map((d) => ({
+        deliveryId: d._id,
+        webhookId: d.webhookId,
+        eventId: d.eventId,
+        eventType: d.eventType,
+        status: d.status,
+        attempts: d.attempts,
+        lastStatusCode: d.lastStatusCode,
+        lastError: d.lastError,
+        createdAt: d.createdAt,
+        deliveredAt: d.deliveredAt,
+      })),
+    };
+  },
+});
+
+/**
+ * Delete one of an agent's webhooks and its delivery log
+ */
+export const deleteWebhookByKeyHash = internalMutation({
+  args: {
+    keyHash: v.string(),
+    webhookId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const agent = await ctx.db
+      .query("agents")
+      .withIndex("by_agentKeyHash", (q) => q.eq("agentKeyHash", args.keyHash))
+      .first();
+
+    if (!agent) {
+      return { error: "UNAUTHORIZED" as const };
+    }
+
+    const webhookId = ctx.db.normalizeId("webhooks", args.webhookId);
+    const webhook = webhookId ? await ctx.db.get(webhookId) : null;
+    if (!webhook || webhook.agentId !== agent._id) {
+      return { error: "WEBHOOK_NOT_FOUND" as const };
+    }
+
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhookId", (q) => q.eq("webhookId", webhook._id))
+      .collect();
+    for (const delivery of deliveries) {
+      await ctx.db.delete(delivery._id);
+    }
+
+    await ctx.db.delete(webhook._id);
+
+    return { deleted: true, webhookId: webhook._id };
+  },
+});
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Queue deliveries for events created since each webhook's cursor,
+ * and prune finished deliveries past the retention window
+ */
+export const queueWebhookDeliveries = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let queued = 0;
+
+    const webhooks = await ctx.db
+      .query("webhooks")
+      .withIndex("by_active", (q) => q.eq("active", true))
+      .collect();
+
+    for (const webhook of webhooks) {
+      const events = await ctx.db
+        .query("events")
+        .withIndex("by_agentId", (q) =>
+          q.eq("agentId", webhook.agentId).gt("_creationTime", webhook.lastEventCreationTime)
+        )
+        .take(WEBHOOK_DEFAULTS.enqueueBatchSize);
+
+      if (events.length === 0) continue;
+
+      for (const event of events) {
+        if (webhook.eventTypes && !webhook.eventTypes.includes(event.type)) continue;
+
+        await ctx.db.insert("webhookDeliveries", {
+          webhookId: webhook._id,
+          agentId: webhook.agentId,
+          eventId: event._id,
+          eventType: event.type,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: now,
+          lastStatusCode: null,
+          lastError: null,
+          createdAt: now,
+          deliveredAt: null,
+        });
+        queued++;
+      }
+
+      await ctx.db.patch(webhook._id, {
+        lastEventCreationTime: events[events.length - 1]._creationTime,
+      });
+    }
+
+    // Prune finished deliveries (nextAttemptAt holds the time of the last attempt)
+    const cutoff = now - WEBHOOK_DEFAULTS.deliveryLogRetentionMs;
+    let pruned = 0;
+    for (const status of ["delivered", "failed"] as const) {
+      const stale = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_status_nextAttemptAt", (q) =>
+          q.eq("status", status).lt("nextAttemptAt", cutoff)
+        )
+        .take(WEBHOOK_DEFAULTS.deliveryBatchSize);
+      for (const delivery of stale) {
+        await ctx.db.delete(delivery._id);
+        pruned++;
+      }
+    }
+
+    return { queued, pruned };
+  },
+});
+
+/**
+ * Get pending deliveries that are due, with their webhook and event
+ */
+export const getDueDeliveries = internalQuery({
+  args: { now: v.number() },
+  handler: async (ctx, args): Promise<DueDelivery[]> => {
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_status_nextAttemptAt", (q) =>
+        q.eq("status", "pending").lte("nextAttemptAt", args.now)
+      )
+      .take(WEBHOOK_DEFAULTS.deliveryBatchSize);
+
+    const due: DueDelivery[] = [];
+    for (const delivery of deliveries) {
+      due.push({
+        delivery,
+        webhook: await ctx.db.get(delivery.webhookId),
+        event: await ctx.db.get(delivery.eventId),
+      });
+    }
+
+    return due;
+  },
+});
+
+/**
+ * Record the outcome of a delivery attempt and schedule a retry if needed
+ */
+export const recordDeliveryAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    ok: v.boolean(),
+    statusCode: v.union(v.number(), v.null()),
+    error: v.union(v.string(), v.null()),
+    retryable: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status !== "pending") {
+      return;
+    }
+
+    const now = Date.now();
+    const attempts = delivery.attempts + 1;
+    const webhook = await ctx.db.get(delivery.webhookId);
+
+    if (args.ok) {
+      await ctx.db.patch(delivery._id, {
+        status: "delivered",
+        attempts,
+        nextAttemptAt: now,
+        lastStatusCode: args.statusCode,
+        lastError: null,
+        deliveredAt: now,
+      });
+      if (webhook && webhook.consecutiveFailures > 0) {
+        await ctx.db.patch(webhook._id, { consecutiveFailures: 0 });
+      }
+      return;
+    }
+
+    // 1. Retry with backoff until maxAttempts
+    if (args.retryable && attempts < WEBHOOK_DEFAULTS.maxAttempts) {
+      await ctx.db.patch(delivery._id, {
+        attempts,
+        nextAttemptAt: now + getWebhookRetryDelayMs(attempts),
+        lastStatusCode: args.statusCode,
+        lastError: args.error,
+      });
+      return;
+    }
+
+    // 2. Give up on this delivery
+    await ctx.db.patch(delivery._id, {
+      status: "failed",
+      attempts,
+      nextAttemptAt: now,
+      lastStatusCode: args.statusCode,
+      lastError: args.error,
+    });
+
+    // 3. Switch off webhooks that keep failing
+    if (webhook) {
+      const consecutiveFailures = webhook.consecutiveFailures + 1;
+      const disable =
+        webhook.active && consecutiveFailures >= WEBHOOK_DEFAULTS.disableAfterFailures;
+      await ctx.db.patch(webhook._id, {
+        consecutiveFailures,
+        ...(disable && {
+          active: false,
+          disabledReason: `Disabled after ${consecutiveFailures} consecutive failed deliveries`,
+        }),
+      });
+    }
+  },
+});
+
+/**
+ * Queue new events and POST due deliveries (runs on a cron)
+ */
+export const deliverWebhooks = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ attempted: number; delivered: number }> => {
+    await ctx.runMutation(internal.webhooks.queueWebhookDeliveries, {});
+
+    const due: DueDelivery[] = await ctx.runQuery(internal.webhooks.getDueDeliveries, { now: Date.now() });
+
+    const results = await Promise.all(
+      due.map(async ({ delivery, webhook, event }) => {
+        // Webhook deleted/disabled or event cleaned up - nothing to send
+        if (!webhook || !webhook.active || !event) {
+          await ctx.runMutation(internal.webhooks.recordDeliveryAttempt, {
+            deliveryId: delivery._id,
+            ok: false,
+            statusCode: null,
+            error: !event ? "Event no longer exists" : "Webhook disabled",
+            retryable: false,
+          });
+          return false;
+        }
+
+        const body = JSON.stringify({
+          deliveryId: delivery._id,
+          webhookId: webhook._id,
+          event: {
+            eventId: event._id,
+            tick: event.tick,
+            timestamp: event.timestamp,
+            type: event.type,
+            agentId: event.agentId,
+            zoneId: event.zoneId,
+            entityId: event.entityId,
+            payload: event.payload,
+          },
+        });
+        const timestamp = Date.now();
+        const signature = await signWebhookPayload(webhook.secret, timestamp, body);
+
+        // Webhooks registered before the URL rules were tightened
+        if (!isValidWebhookUrl(webhook.url)) {
+          await ctx.runMutation(internal.webhooks.recordDeliveryAttempt, {
+            deliveryId: delivery._id,
+            ok: false,
+            statusCode: null,
+            error: ERROR_CODES.INVALID_WEBHOOK_URL,
+            retryable: false,
+          });
+          return false;
+        }
+
+        // Sent from the Node runtime, which rejects hosts resolving to private addresses
+        const { statusCode, error: requestError }: { statusCode: number | null; error: string | null } =
+          await ctx.runAction(internal.webhookDelivery.postWebhook, {
+            url: webhook.url,
+            headers: {
+              "Content-Type": "application/json",
+              "User-Agent": "ClawCity-Webhooks/1.0",
+              [WEBHOOK_DEFAULTS.signatureHeader]: signature,
+              [WEBHOOK_DEFAULTS.timestampHeader]: String(timestamp),
+              "X-ClawCity-Event": event.type,
+              "X-ClawCity-Delivery": delivery._id,
+            },
+            body,
+          });
+        const ok = statusCode !== null && statusCode >= 200 && statusCode < 300;
+        const error = requestError ?? (ok ? null : `HTTP ${statusCode}`);
+
+        await ctx.runMutation(internal.webhooks.recordDeliveryAttempt, {
+          deliveryId: delivery._id,
+          ok,
+          statusCode,
+          error,
+          retryable: true,
+        });
+        return ok;
+      })
+    );
+
+    return {
+      attempted: results.length,
+      delivered: results.filter(Boolean).length,
+    };
+  },
+});
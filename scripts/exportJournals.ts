@@ -0,0 +1,100 @@
+/**
+ * ClawCity Journal Export Script
+ *
+ * Writes the full journals table as a reasoning-trace dataset, one JSON record
+ * per line: pseudonymised agent, LLM info, pre-action state, action, result
+ * and reflection.
+ *
+ * Run with: npx tsx scripts/exportJournals.ts --out=journals.jsonl
+ * Filters: --from-tick=100 --to-tick=500 --provider=<provider> --model=<modelName> --action=COMMIT_CRIME
+ * Page size: --page-size=200 (max 500)
+ */
+
+import { createWriteStream } from "fs";
+import { ConvexHttpClient } from "convex/browser";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../convex/_generated/api";
+
+// Configuration - uses environment variables
+const CONVEX_URL = process.env.NEXT_PUBLIC_CONVEX_URL;
+const SESSION_TOKEN = process.env.DATA_PREVIEW_SESSION_TOKEN;
+
+if (!CONVEX_URL || !SESSION_TOKEN) {
+  console.error("Error: NEXT_PUBLIC_CONVEX_URL and DATA_PREVIEW_SESSION_TOKEN must be set");
+  process.exit(1);
+}
+
+const client = new ConvexHttpClient(CONVEX_URL);
+
+// Parse --name=value flags
+function getFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function getNumberFlag(name: string): number | undefined {
+  const value = getFlag(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    console.error(`Error: --${name} must be a number`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+async function main() {
+  const outPath = getFlag("out") ?? "journals.jsonl";
+  const filters = {
+    fromTick: getNumberFlag("from-tick"),
+    toTick: getNumberFlag("to-tick"),
+    provider: getFlag("provider"),
+    model: getFlag("model"),
+    action: getFlag("action"),
+  };
+  const pageSize = getNumberFlag("page-size");
+
+  console.log(`Exporting journals to ${outPath}`);
+  console.log("  Filters:", JSON.stringify(filters));
+
+  const out = createWriteStream(outPath);
+  let cursor: string | null = null;
+  let pages = 0;
+  let written = 0;
+
+  while (true) {
+    const result: FunctionReturnType<typeof api.dataPreview.exportJournalsPage> = await client.query(
+      api.dataPreview.exportJournalsPage,
+      {
+        sessionToken: SESSION_TOKEN!,
+        cursor,
+        pageSize,
+        ...filters,
+      }
+    );
+
+    if (!result) {
+      console.error("Error: data preview session is invalid or expired");
+      process.exit(1);
+    }
+
+    for (const record of result.records) {
+      out.write(JSON.stringify(record) + "\n");
+    }
+    pages++;
+    written += result.records.length;
+    console.log(`  Page ${pages}: ${result.records.length} records (${written} total)`);
+
+    if (result.isDone) break;
+    cursor = result.continueCursor;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    out.on("error", reject);
+    out.end(resolve);
+  });
+
+  console.log(`Done: ${written} records written to ${outPath}`);
+}
+
+main().catch(console.error);